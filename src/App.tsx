@@ -73,7 +73,7 @@ const AuthHashRedirect = () => {
       const { company, isCompanyAdmin } = await getCompanyAdminAccess(userId, session.user.email);
       if (isCompanyAdmin) {
         if (company?.subscription_status === "unpaid") {
-          navigate("/auth", { replace: true });
+          navigate("/auth", { replace: true, state: { view: "select-plan", registeredUserId: userId } });
           return;
         }
 
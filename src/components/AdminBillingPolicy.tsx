@@ -0,0 +1,199 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { CreditCard, Loader2 } from 'lucide-react';
+
+interface BillingPolicy {
+  grace_period_days: number;
+  reminder_interval_days: number;
+  trial_days: number;
+  trial_minutes: number;
+  trial_warning_days: number;
+}
+
+interface AdminBillingPolicyProps {
+  onLogActivity?: (
+    actionType: string,
+    targetType: string,
+    targetId: string | null,
+    targetName: string | null,
+    details?: Record<string, unknown>
+  ) => Promise<void>;
+}
+
+const AdminBillingPolicy: React.FC<AdminBillingPolicyProps> = ({ onLogActivity }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<BillingPolicy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPolicy();
+  }, []);
+
+  const fetchPolicy = async () => {
+    const { data, error } = await supabase
+      .from('billing_policy')
+      .select('grace_period_days, reminder_interval_days, trial_days, trial_minutes, trial_warning_days')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching billing policy:', error);
+    } else {
+      setPolicy(data);
+    }
+    setLoading(false);
+  };
+
+  const handleSave = async () => {
+    if (!policy) return;
+
+    const graceDays = Math.min(60, Math.max(0, Math.round(policy.grace_period_days)));
+    const reminderDays = Math.max(1, Math.round(policy.reminder_interval_days));
+    const trialDays = Math.min(60, Math.max(1, Math.round(policy.trial_days)));
+    const trialMinutes = Math.max(0, Math.round(policy.trial_minutes));
+    const trialWarningDays = Math.max(1, Math.round(policy.trial_warning_days));
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('billing_policy')
+      .update({
+        grace_period_days: graceDays,
+        reminder_interval_days: reminderDays,
+        trial_days: trialDays,
+        trial_minutes: trialMinutes,
+        trial_warning_days: trialWarningDays,
+        updated_by: user?.id ?? null,
+      })
+      .eq('id', true);
+
+    if (error) {
+      toast({ title: "Failed to save policy", description: error.message, variant: "destructive" });
+    } else {
+      setPolicy({
+        grace_period_days: graceDays,
+        reminder_interval_days: reminderDays,
+        trial_days: trialDays,
+        trial_minutes: trialMinutes,
+        trial_warning_days: trialWarningDays,
+      });
+      toast({ title: "Policy saved", description: "New failed payments and new trials follow the updated policy." });
+      await onLogActivity?.('update', 'billing_policy', null, 'Billing policy', {
+        grace_period_days: graceDays,
+        reminder_interval_days: reminderDays,
+        trial_days: trialDays,
+        trial_minutes: trialMinutes,
+        trial_warning_days: trialWarningDays,
+      });
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CreditCard size={20} />
+          Billing Policy
+        </CardTitle>
+        <CardDescription>
+          The free trial for new companies, and how long a company with a failed payment keeps its confirmed sessions
+          before it is suspended
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading || !policy ? (
+          <div className="h-40 bg-muted rounded-lg animate-pulse" />
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="gracePeriodDays">Grace period (days)</Label>
+              <Input
+                id="gracePeriodDays"
+                type="number"
+                min={0}
+                max={60}
+                value={policy.grace_period_days}
+                onChange={(e) => setPolicy({ ...policy, grace_period_days: Number(e.target.value) })}
+                className="max-w-[160px]"
+              />
+              <p className="text-xs text-muted-foreground">
+                New booking requests are blocked straight away. After {policy.grace_period_days} days without payment the
+                company is suspended and its requests that aren't confirmed yet are cancelled. Confirmed sessions go ahead.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reminderIntervalDays">Send a reminder every (days)</Label>
+              <Input
+                id="reminderIntervalDays"
+                type="number"
+                min={1}
+                value={policy.reminder_interval_days}
+                onChange={(e) => setPolicy({ ...policy, reminder_interval_days: Number(e.target.value) })}
+                className="max-w-[160px]"
+              />
+              <p className="text-xs text-muted-foreground">
+                The company admin is emailed when the payment fails and then on this schedule until it is settled.
+              </p>
+            </div>
+
+            <div className="space-y-4 pt-4 border-t">
+              <p className="text-sm font-medium">Free trial</p>
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor="trialDays">Length (days)</Label>
+                  <Input
+                    id="trialDays"
+                    type="number"
+                    min={1}
+                    max={60}
+                    value={policy.trial_days}
+                    onChange={(e) => setPolicy({ ...policy, trial_days: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="trialMinutes">Minutes included</Label>
+                  <Input
+                    id="trialMinutes"
+                    type="number"
+                    min={0}
+                    value={policy.trial_minutes}
+                    onChange={(e) => setPolicy({ ...policy, trial_minutes: Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="trialWarningDays">Warn before end (days)</Label>
+                  <Input
+                    id="trialWarningDays"
+                    type="number"
+                    min={1}
+                    value={policy.trial_warning_days}
+                    onChange={(e) => setPolicy({ ...policy, trial_warning_days: Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                A new company can try HollyAid before paying. If it hasn't chosen a plan when the trial ends it has to pick
+                one before its team can book again.
+              </p>
+            </div>
+
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 size={16} className="animate-spin" /> : null}
+              Save Policy
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminBillingPolicy;
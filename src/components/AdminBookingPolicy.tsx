@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarX, Loader2 } from 'lucide-react';
+import type { BookingPolicy } from '@/hooks/useBookingPolicy';
+
+interface AdminBookingPolicyProps {
+  onLogActivity?: (
+    actionType: string,
+    targetType: string,
+    targetId: string | null,
+    targetName: string | null,
+    details?: Record<string, unknown>
+  ) => Promise<void>;
+}
+
+const AdminBookingPolicy: React.FC<AdminBookingPolicyProps> = ({ onLogActivity }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchPolicy();
+  }, []);
+
+  const fetchPolicy = async () => {
+    const { data, error } = await supabase
+      .from('booking_policy')
+      .select('late_cancellation_hours, charge_company, pay_specialist, specialist_fee_percent')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching booking policy:', error);
+    } else {
+      setPolicy(data);
+    }
+    setLoading(false);
+  };
+
+  const updateField = <K extends keyof BookingPolicy>(field: K, value: BookingPolicy[K]) => {
+    setPolicy((prev) => (prev ? { ...prev, [field]: value } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!policy) return;
+
+    const hours = Math.max(0, Math.round(policy.late_cancellation_hours));
+    const feePercent = Math.min(100, Math.max(0, Math.round(policy.specialist_fee_percent)));
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('booking_policy')
+      .update({
+        late_cancellation_hours: hours,
+        charge_company: policy.charge_company,
+        pay_specialist: policy.pay_specialist,
+        specialist_fee_percent: feePercent,
+        updated_by: user?.id ?? null,
+      })
+      .eq('id', true);
+
+    if (error) {
+      toast({ title: "Failed to save policy", description: error.message, variant: "destructive" });
+    } else {
+      setPolicy({ ...policy, late_cancellation_hours: hours, specialist_fee_percent: feePercent });
+      toast({ title: "Policy saved", description: "New cancellations and no-shows will follow these rules." });
+      await onLogActivity?.('update', 'booking_policy', null, 'Late cancellation policy', {
+        late_cancellation_hours: hours,
+        charge_company: policy.charge_company,
+        pay_specialist: policy.pay_specialist,
+        specialist_fee_percent: feePercent,
+      });
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarX size={20} />
+          Cancellation & No-Show Policy
+        </CardTitle>
+        <CardDescription>
+          Applies when an employee cancels a confirmed session late or a specialist marks a no-show
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading || !policy ? (
+          <div className="h-40 bg-muted rounded-lg animate-pulse" />
+        ) : (
+          <div className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="lateCancellationHours">Cancellation window (hours before the session)</Label>
+              <Input
+                id="lateCancellationHours"
+                type="number"
+                min={0}
+                value={policy.late_cancellation_hours}
+                onChange={(e) => updateField('late_cancellation_hours', Number(e.target.value))}
+                className="max-w-[160px]"
+              />
+              <p className="text-xs text-muted-foreground">
+                Cancelling less than {policy.late_cancellation_hours} hours before the start is a late cancellation.
+                Set to 0 to allow free cancellation up to the start.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+              <div>
+                <p className="font-medium">Charge the company</p>
+                <p className="text-xs text-muted-foreground">Deduct the session's minutes as if it had taken place</p>
+              </div>
+              <Switch
+                checked={policy.charge_company}
+                onCheckedChange={(checked) => updateField('charge_company', checked)}
+              />
+            </div>
+
+            <div className="space-y-3 p-3 rounded-lg border">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium">Pay the specialist a fee</p>
+                  <p className="text-xs text-muted-foreground">Added to the specialist's earnings for the session</p>
+                </div>
+                <Switch
+                  checked={policy.pay_specialist}
+                  onCheckedChange={(checked) => updateField('pay_specialist', checked)}
+                />
+              </div>
+              {policy.pay_specialist && (
+                <div className="space-y-2">
+                  <Label htmlFor="specialistFeePercent">Fee (% of the session pay)</Label>
+                  <Input
+                    id="specialistFeePercent"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={policy.specialist_fee_percent}
+                    onChange={(e) => updateField('specialist_fee_percent', Number(e.target.value))}
+                    className="max-w-[160px]"
+                  />
+                </div>
+              )}
+            </div>
+
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? <Loader2 size={16} className="animate-spin" /> : null}
+              Save Policy
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminBookingPolicy;
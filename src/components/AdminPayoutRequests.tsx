@@ -4,20 +4,35 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { DollarSign, Check, Clock, User } from 'lucide-react';
-import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { DollarSign, Check, Clock, User, X, AlertTriangle, RotateCcw } from 'lucide-react';
+import { addDays, format } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import { isPayoutStatus, PAYOUT_STATUS_CLASSES, PAYOUT_STATUS_LABELS } from '@/lib/payouts';
 
 interface PayoutRequest {
   id: string;
   specialist_id: string;
   amount: number;
+  currency: string;
   period_start: string;
   period_end: string;
   status: string;
   created_at: string;
   processed_at: string | null;
   notes: string | null;
+  expected_payment_date: string | null;
+  approved_at: string | null;
+  paid_at: string | null;
+  rejection_reason: string | null;
+  failure_reason: string | null;
+  retry_count: number;
+  session_count: number;
   specialist?: {
     full_name: string;
     email: string;
@@ -25,11 +40,50 @@ interface PayoutRequest {
   };
 }
 
+type PayoutAction = 'approve' | 'reject' | 'mark_paid' | 'mark_failed' | 'retry';
+
+// Actions that open a dialog first, for a reason or an expected payment date
+const ACTION_DIALOGS: Partial<Record<PayoutAction, { title: string; description: string; confirm: string }>> = {
+  approve: {
+    title: 'Approve payout',
+    description: 'The specialist is emailed the date they can expect the payment.',
+    confirm: 'Approve',
+  },
+  reject: {
+    title: 'Reject payout',
+    description: 'The sessions go back to the specialist\'s unpaid earnings. They are emailed the reason.',
+    confirm: 'Reject',
+  },
+  mark_failed: {
+    title: 'Mark payment as failed',
+    description: 'The specialist is emailed the reason and asked to check their payout details.',
+    confirm: 'Mark failed',
+  },
+  retry: {
+    title: 'Retry payment',
+    description: 'The specialist is emailed the new date they can expect the payment.',
+    confirm: 'Retry',
+  },
+};
+
+const ACTION_TOASTS: Record<PayoutAction, string> = {
+  approve: 'Payout approved',
+  reject: 'Payout rejected',
+  mark_paid: 'Marked as paid',
+  mark_failed: 'Marked as failed',
+  retry: 'Payout retried',
+};
+
+const defaultPaymentDate = () => format(addDays(new Date(), 5), 'yyyy-MM-dd');
+
 const AdminPayoutRequests: React.FC = () => {
   const { toast } = useToast();
   const [requests, setRequests] = useState<PayoutRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [processingId, setProcessingId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<{ request: PayoutRequest; action: PayoutAction } | null>(null);
+  const [reason, setReason] = useState('');
+  const [paymentDate, setPaymentDate] = useState(defaultPaymentDate());
 
   useEffect(() => {
     fetchPayoutRequests();
@@ -68,6 +122,21 @@ const AdminPayoutRequests: React.FC = () => {
       console.error('Error fetching specialists:', specialistsError);
     }
 
+    // Sessions each request covers; rejected requests keep their links, marked as released
+    const { data: links, error: linksError } = await supabase
+      .from('payout_request_bookings')
+      .select('payout_request_id')
+      .in('payout_request_id', requestsData.map(r => r.id));
+
+    if (linksError) {
+      console.error('Error fetching payout bookings:', linksError);
+    }
+
+    const sessionCounts = new Map<string, number>();
+    (links || []).forEach(link => {
+      sessionCounts.set(link.payout_request_id, (sessionCounts.get(link.payout_request_id) || 0) + 1);
+    });
+
     // Create a map for quick lookup
     const specialistMap = new Map(
       (specialists || []).map(s => [s.id, s])
@@ -76,6 +145,7 @@ const AdminPayoutRequests: React.FC = () => {
     // Merge data
     const enrichedRequests = requestsData.map(request => ({
       ...request,
+      session_count: sessionCounts.get(request.id) || 0,
       specialist: specialistMap.get(request.specialist_id) || undefined,
     }));
 
@@ -83,38 +153,43 @@ const AdminPayoutRequests: React.FC = () => {
     setLoading(false);
   };
 
-  const handleMarkAsPaid = async (requestId: string) => {
-    setProcessingId(requestId);
+  const openAction = (request: PayoutRequest, action: PayoutAction) => {
+    setReason('');
+    setPaymentDate(defaultPaymentDate());
+    setPendingAction({ request, action });
+  };
+
+  const runAction = async (request: PayoutRequest, action: PayoutAction) => {
+    setProcessingId(request.id);
 
     try {
-      const { error } = await supabase
-        .from('payout_requests')
-        .update({
-          status: 'paid',
-          processed_at: new Date().toISOString(),
-        })
-        .eq('id', requestId);
+      const { data, error } = await supabase.functions.invoke('update-payout', {
+        body: {
+          payoutRequestId: request.id,
+          action,
+          reason: action === 'reject' || action === 'mark_failed' ? reason.trim() : undefined,
+          expectedPaymentDate: action === 'approve' || action === 'retry' ? paymentDate : undefined,
+        },
+      });
 
       if (error) throw error;
 
-      // Update local state
       setRequests(prev =>
-        prev.map(r =>
-          r.id === requestId
-            ? { ...r, status: 'paid', processed_at: new Date().toISOString() }
-            : r
-        )
+        prev.map(r => (r.id === request.id ? { ...r, ...data.payout } : r))
       );
+      setPendingAction(null);
 
       toast({
-        title: "Marked as paid",
-        description: "The payout request has been marked as completed.",
+        title: ACTION_TOASTS[action],
+        description: data.emailSent
+          ? `${request.specialist?.full_name || 'The specialist'} has been emailed.`
+          : 'The specialist could not be emailed.',
       });
     } catch (error) {
       console.error('Error updating payout request:', error);
       toast({
         title: "Error",
-        description: "Failed to update payout status.",
+        description: await getFunctionErrorMessage(error),
         variant: "destructive",
       });
     } finally {
@@ -122,7 +197,10 @@ const AdminPayoutRequests: React.FC = () => {
     }
   };
 
-  const pendingCount = requests.filter(r => r.status === 'pending').length;
+  const pendingCount = requests.filter(r => r.status === 'requested').length;
+  const failedCount = requests.filter(r => r.status === 'failed').length;
+  const dialog = pendingAction ? ACTION_DIALOGS[pendingAction.action] : null;
+  const needsReason = pendingAction?.action === 'reject' || pendingAction?.action === 'mark_failed';
 
   if (loading) {
     return (
@@ -151,7 +229,10 @@ const AdminPayoutRequests: React.FC = () => {
           <DollarSign size={20} />
           Payout Requests
           {pendingCount > 0 && (
-            <Badge className="ml-2 bg-amber-500">{pendingCount} pending</Badge>
+            <Badge className="ml-2 bg-amber-500">{pendingCount} to review</Badge>
+          )}
+          {failedCount > 0 && (
+            <Badge className="bg-orange-500">{failedCount} failed</Badge>
           )}
         </CardTitle>
         <CardDescription>Manage specialist payout requests</CardDescription>
@@ -169,7 +250,7 @@ const AdminPayoutRequests: React.FC = () => {
                 <div
                   key={request.id}
                   className={`p-4 rounded-lg border ${
-                    request.status === 'pending'
+                    request.status === 'requested' || request.status === 'failed'
                       ? 'bg-amber-50 dark:bg-amber-950/20 border-amber-200 dark:border-amber-800'
                       : 'bg-muted/30 border-border'
                   }`}
@@ -181,24 +262,13 @@ const AdminPayoutRequests: React.FC = () => {
                         <span className="font-medium truncate">
                           {request.specialist?.full_name || 'Unknown Specialist'}
                         </span>
-                        <Badge
-                          variant={request.status === 'pending' ? 'secondary' : 'outline'}
-                          className={
-                            request.status === 'pending'
-                              ? 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200'
-                              : 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200'
-                          }
-                        >
-                          {request.status === 'pending' ? (
-                            <><Clock size={12} className="mr-1" /> Pending</>
-                          ) : (
-                            <><Check size={12} className="mr-1" /> Paid</>
-                          )}
+                        <Badge variant="secondary" className={isPayoutStatus(request.status) ? PAYOUT_STATUS_CLASSES[request.status] : ''}>
+                          {isPayoutStatus(request.status) ? PAYOUT_STATUS_LABELS[request.status] : request.status}
                         </Badge>
                       </div>
                       
                       <div className="text-2xl font-bold text-primary mb-1">
-                        ${request.amount.toFixed(2)}
+                        {formatMoney(request.amount, request.currency)}
                       </div>
                       
                       <div className="text-xs text-muted-foreground space-y-0.5">
@@ -208,30 +278,66 @@ const AdminPayoutRequests: React.FC = () => {
                           Period: {format(new Date(request.period_start), 'MMM d')} -{' '}
                           {format(new Date(request.period_end), 'MMM d, yyyy')}
                         </p>
+                        <p>Sessions: {request.session_count}</p>
                         <p>Requested: {format(new Date(request.created_at), 'MMM d, yyyy h:mm a')}</p>
-                        {request.processed_at && (
+                        {request.status === 'approved' && request.expected_payment_date && (
+                          <p>Expected payment: {format(new Date(`${request.expected_payment_date}T00:00:00`), 'MMM d, yyyy')}</p>
+                        )}
+                        {request.retry_count > 0 && (
+                          <p>Retried {request.retry_count} time{request.retry_count === 1 ? '' : 's'}</p>
+                        )}
+                        {request.paid_at && (
                           <p className="text-green-600 dark:text-green-400">
-                            Paid: {format(new Date(request.processed_at), 'MMM d, yyyy h:mm a')}
+                            Paid: {format(new Date(request.paid_at), 'MMM d, yyyy h:mm a')}
                           </p>
                         )}
+                        {request.status === 'rejected' && request.rejection_reason && (
+                          <p className="text-destructive">Rejected: {request.rejection_reason}</p>
+                        )}
+                        {request.status === 'failed' && request.failure_reason && (
+                          <p className="text-orange-600 dark:text-orange-400">Failed: {request.failure_reason}</p>
+                        )}
                       </div>
                     </div>
                     
-                    {request.status === 'pending' && (
-                      <Button
-                        size="sm"
-                        onClick={() => handleMarkAsPaid(request.id)}
-                        disabled={processingId === request.id}
-                        className="flex items-center gap-1"
-                      >
-                        {processingId === request.id ? (
-                          <Clock className="animate-spin" size={14} />
-                        ) : (
-                          <Check size={14} />
-                        )}
-                        Mark Paid
-                      </Button>
-                    )}
+                    <div className="flex flex-col gap-2">
+                      {request.status === 'requested' && (
+                        <>
+                          <Button size="sm" onClick={() => openAction(request, 'approve')} disabled={processingId === request.id}>
+                            <Check size={14} />
+                            Approve
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openAction(request, 'reject')} disabled={processingId === request.id}>
+                            <X size={14} />
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                      {request.status === 'approved' && (
+                        <>
+                          <Button size="sm" onClick={() => runAction(request, 'mark_paid')} disabled={processingId === request.id}>
+                            {processingId === request.id ? <Clock className="animate-spin" size={14} /> : <Check size={14} />}
+                            Mark Paid
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openAction(request, 'mark_failed')} disabled={processingId === request.id}>
+                            <AlertTriangle size={14} />
+                            Mark Failed
+                          </Button>
+                        </>
+                      )}
+                      {request.status === 'failed' && (
+                        <>
+                          <Button size="sm" onClick={() => openAction(request, 'retry')} disabled={processingId === request.id}>
+                            <RotateCcw size={14} />
+                            Retry
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openAction(request, 'reject')} disabled={processingId === request.id}>
+                            <X size={14} />
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                    </div>
                   </div>
                 </div>
               ))}
@@ -239,6 +345,57 @@ const AdminPayoutRequests: React.FC = () => {
           </ScrollArea>
         )}
       </CardContent>
+
+      <Dialog open={!!pendingAction} onOpenChange={(open) => { if (!open) setPendingAction(null); }}>
+        <DialogContent>
+          {pendingAction && dialog && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{dialog.title}</DialogTitle>
+                <DialogDescription>
+                  {formatMoney(pendingAction.request.amount, pendingAction.request.currency)} for{' '}
+                  {pendingAction.request.specialist?.full_name || 'Unknown Specialist'}. {dialog.description}
+                </DialogDescription>
+              </DialogHeader>
+              {needsReason ? (
+                <div className="space-y-2">
+                  <Label htmlFor="payout-reason">Reason</Label>
+                  <Textarea
+                    id="payout-reason"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder={pendingAction.action === 'reject' ? 'Why the payout is rejected' : 'Why the payment failed'}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="payout-date">Expected payment date</Label>
+                  <Input
+                    id="payout-date"
+                    type="date"
+                    value={paymentDate}
+                    min={format(new Date(), 'yyyy-MM-dd')}
+                    onChange={(e) => setPaymentDate(e.target.value)}
+                  />
+                </div>
+              )}
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setPendingAction(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  variant={pendingAction.action === 'reject' ? 'destructive' : 'default'}
+                  onClick={() => runAction(pendingAction.request, pendingAction.action)}
+                  disabled={processingId === pendingAction.request.id || (needsReason ? !reason.trim() : !paymentDate)}
+                >
+                  {processingId === pendingAction.request.id && <Clock className="animate-spin" size={14} />}
+                  {dialog.confirm}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </Card>
   );
 };
@@ -0,0 +1,616 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { pickPricingVersion, toRolloverRule } from '@/hooks/usePricingCatalog';
+import { AnnualAllowance, describeAnnualAllowance, describeRollover } from '@/lib/plans';
+import { CURRENCIES, Currency, formatMoney } from '@/lib/currency';
+import { Loader2, Plus, Tags, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AdminPricingCatalogProps {
+  onLogActivity?: (
+    actionType: string,
+    targetType: string,
+    targetId: string | null,
+    targetName: string | null,
+    details?: Record<string, unknown>
+  ) => Promise<void>;
+}
+
+type PricingVersion = Tables<'pricing_versions'>;
+type PricingPlan = Tables<'pricing_plans'>;
+type PricingPlanPrice = Tables<'pricing_plan_prices'>;
+type PricingTier = Tables<'pricing_tiers'>;
+type PricingTierRate = Tables<'pricing_tier_rates'>;
+
+type PlanDraft = Omit<PricingPlan, 'version_id'> & {
+  prices: Record<
+    Currency,
+    Pick<
+      PricingPlanPrice,
+      | 'price_cents'
+      | 'stripe_price_id'
+      | 'annual_price_cents'
+      | 'stripe_annual_price_id'
+      | 'overage_cents_per_minute'
+      | 'stripe_overage_price_id'
+    >
+  >;
+};
+
+type TierDraft = Omit<PricingTier, 'version_id'> & {
+  rates: Record<Currency, { hourly_rate_cents: number; specialist_rate_cents: number }>;
+};
+
+const toCents = (value: string) => Math.max(0, Math.round(Number(value) * 100));
+
+const AdminPricingCatalog: React.FC<AdminPricingCatalogProps> = ({ onLogActivity }) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<PricingVersion[]>([]);
+  const [plans, setPlans] = useState<PricingPlan[]>([]);
+  const [planPrices, setPlanPrices] = useState<PricingPlanPrice[]>([]);
+  const [tiers, setTiers] = useState<PricingTier[]>([]);
+  const [tierRates, setTierRates] = useState<PricingTierRate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [effectiveDate, setEffectiveDate] = useState('');
+  const [note, setNote] = useState('');
+  const [draftPlans, setDraftPlans] = useState<PlanDraft[]>([]);
+  const [draftTiers, setDraftTiers] = useState<TierDraft[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [withdrawingId, setWithdrawingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, []);
+
+  const fetchCatalog = async () => {
+    const [versionsResult, plansResult, pricesResult, tiersResult, ratesResult] = await Promise.all([
+      supabase.from('pricing_versions').select('*').order('effective_from', { ascending: false }),
+      supabase.from('pricing_plans').select('*').order('sort_order'),
+      supabase.from('pricing_plan_prices').select('*'),
+      supabase.from('pricing_tiers').select('*').order('sort_order'),
+      supabase.from('pricing_tier_rates').select('*'),
+    ]);
+
+    const error = versionsResult.error || plansResult.error || pricesResult.error || tiersResult.error || ratesResult.error;
+    if (error) {
+      console.error('Error fetching pricing catalog:', error);
+    } else {
+      setVersions(versionsResult.data || []);
+      setPlans(plansResult.data || []);
+      setPlanPrices(pricesResult.data || []);
+      setTiers(tiersResult.data || []);
+      setTierRates(ratesResult.data || []);
+    }
+    setLoading(false);
+  };
+
+  const currentVersion = pickPricingVersion(versions);
+  const currentPlans = plans.filter((p) => p.version_id === currentVersion?.id);
+  const currentTiers = tiers.filter((t) => t.version_id === currentVersion?.id);
+
+  const findPrice = (plan: PricingPlan, currency: Currency) =>
+    planPrices.find((p) => p.version_id === plan.version_id && p.plan_type === plan.plan_type && p.currency === currency);
+
+  const findRate = (tier: PricingTier, currency: Currency) =>
+    tierRates.find((r) => r.version_id === tier.version_id && r.rate_tier === tier.rate_tier && r.currency === currency);
+
+  const getStatus = (version: PricingVersion) => {
+    if (version.id === currentVersion?.id) return 'current';
+    return new Date(version.effective_from) > new Date() ? 'scheduled' : 'past';
+  };
+
+  // A new version starts from the latest one, so scheduled changes build on each other
+  const openEditor = () => {
+    const latest = versions[0];
+    if (!latest) return;
+
+    setDraftPlans(
+      plans
+        .filter((p) => p.version_id === latest.id)
+        .map(({ version_id, ...plan }) => ({
+          ...plan,
+          prices: Object.fromEntries(
+            CURRENCIES.map((currency) => {
+              const price = findPrice({ version_id, ...plan }, currency);
+              return [
+                currency,
+                {
+                  price_cents: price?.price_cents ?? 0,
+                  stripe_price_id: price?.stripe_price_id ?? null,
+                  annual_price_cents: price?.annual_price_cents ?? 0,
+                  stripe_annual_price_id: price?.stripe_annual_price_id ?? null,
+                  overage_cents_per_minute: price?.overage_cents_per_minute ?? 0,
+                  stripe_overage_price_id: price?.stripe_overage_price_id ?? null,
+                },
+              ];
+            }),
+          ) as PlanDraft['prices'],
+        })),
+    );
+    setDraftTiers(
+      tiers
+        .filter((t) => t.version_id === latest.id)
+        .map(({ version_id, ...tier }) => ({
+          ...tier,
+          rates: Object.fromEntries(
+            CURRENCIES.map((currency) => {
+              const rate = findRate({ version_id, ...tier }, currency);
+              return [
+                currency,
+                { hourly_rate_cents: rate?.hourly_rate_cents ?? 0, specialist_rate_cents: rate?.specialist_rate_cents ?? 0 },
+              ];
+            }),
+          ) as TierDraft['rates'],
+        })),
+    );
+    setEffectiveDate(format(new Date(), 'yyyy-MM-dd'));
+    setNote('');
+    setEditorOpen(true);
+  };
+
+  const updatePlan = <K extends keyof PlanDraft>(planType: string, field: K, value: PlanDraft[K]) => {
+    setDraftPlans((prev) => prev.map((p) => (p.plan_type === planType ? { ...p, [field]: value } : p)));
+  };
+
+  const updatePlanPrice = (
+    planType: string,
+    currency: Currency,
+    field: keyof PlanDraft['prices'][Currency],
+    value: number | string | null,
+  ) => {
+    setDraftPlans((prev) =>
+      prev.map((p) =>
+        p.plan_type === planType
+          ? { ...p, prices: { ...p.prices, [currency]: { ...p.prices[currency], [field]: value } } }
+          : p,
+      ),
+    );
+  };
+
+  const updateTier = <K extends keyof TierDraft>(rateTier: string, field: K, value: TierDraft[K]) => {
+    setDraftTiers((prev) => prev.map((t) => (t.rate_tier === rateTier ? { ...t, [field]: value } : t)));
+  };
+
+  const updateTierRate = (rateTier: string, currency: Currency, field: 'hourly_rate_cents' | 'specialist_rate_cents', cents: number) => {
+    setDraftTiers((prev) =>
+      prev.map((t) =>
+        t.rate_tier === rateTier
+          ? { ...t, rates: { ...t.rates, [currency]: { ...t.rates[currency], [field]: cents } } }
+          : t,
+      ),
+    );
+  };
+
+  const handlePublish = async () => {
+    if (!effectiveDate) return;
+
+    const invalidTier = draftTiers.find(
+      (t) => t.minute_multiplier <= 0 || CURRENCIES.some((c) => t.rates[c].specialist_rate_cents > t.rates[c].hourly_rate_cents),
+    );
+    if (invalidTier) {
+      toast({
+        title: "Check the tier rates",
+        description: `${invalidTier.name} needs a multiplier above 0 and specialist pay no higher than the hourly rate.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Midnight local time; a date that has already started takes effect immediately
+    const effectiveFrom = new Date(`${effectiveDate}T00:00:00`).toISOString();
+
+    setSaving(true);
+    const { data, error } = await supabase.rpc('create_pricing_version', {
+      _effective_from: effectiveFrom,
+      _note: note.trim() || null,
+      _plans: draftPlans.map(({ prices, ...plan }) => ({
+        ...plan,
+        prices: CURRENCIES.map((currency) => ({ currency, ...prices[currency] })),
+      })),
+      _tiers: draftTiers.map(({ rates, ...tier }) => ({
+        ...tier,
+        rates: CURRENCIES.map((currency) => ({ currency, ...rates[currency] })),
+      })),
+    });
+
+    if (error) {
+      toast({ title: "Failed to publish pricing", description: error.message, variant: "destructive" });
+    } else {
+      toast({
+        title: "Pricing published",
+        description: `New prices apply from ${format(new Date(data.effective_from), 'PPP')}. Existing bookings keep their prices.`,
+      });
+      setEditorOpen(false);
+      await onLogActivity?.('create', 'pricing_version', data.id, `Pricing from ${format(new Date(data.effective_from), 'PP')}`, {
+        effective_from: data.effective_from,
+        note: data.note,
+      });
+      fetchCatalog();
+    }
+    setSaving(false);
+  };
+
+  const handleWithdraw = async (version: PricingVersion) => {
+    setWithdrawingId(version.id);
+    const { error } = await supabase.from('pricing_versions').delete().eq('id', version.id);
+
+    if (error) {
+      toast({ title: "Failed to withdraw pricing", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Scheduled pricing withdrawn" });
+      await onLogActivity?.('delete', 'pricing_version', version.id, `Pricing from ${format(new Date(version.effective_from), 'PP')}`);
+      fetchCatalog();
+    }
+    setWithdrawingId(null);
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Tags size={20} />
+            Pricing Catalog
+          </CardTitle>
+          <CardDescription>
+            Plans and specialist tiers in USD, EUR and GBP. Every booking keeps the prices of the version it was made under.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openEditor} disabled={loading || versions.length === 0}>
+          <Plus size={16} />
+          New Version
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-40 bg-muted rounded-lg animate-pulse" />
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-6 xl:grid-cols-2">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Plans in effect</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Plan</TableHead>
+                      <TableHead className="text-right">Minutes</TableHead>
+                      {CURRENCIES.map((currency) => (
+                        <TableHead key={currency} className="text-right">{currency.toUpperCase()}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {currentPlans.map((plan) => (
+                      <TableRow key={plan.plan_type}>
+                        <TableCell>
+                          <p className="font-medium">{plan.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {describeRollover(toRolloverRule(plan.rollover_type, plan.rollover_max), plan.minutes)}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            Yearly: {describeAnnualAllowance(plan.annual_allowance as AnnualAllowance, plan.minutes)}
+                          </p>
+                        </TableCell>
+                        <TableCell className="text-right">{plan.minutes.toLocaleString()}</TableCell>
+                        {CURRENCIES.map((currency) => {
+                          const price = findPrice(plan, currency);
+                          return (
+                            <TableCell key={currency} className="text-right">
+                              {price ? formatMoney(price.price_cents / 100, currency) : '—'}
+                              {price && price.annual_price_cents > 0 && (
+                                <p className="text-xs text-muted-foreground whitespace-nowrap">
+                                  {formatMoney(price.annual_price_cents / 100, currency)}/year
+                                </p>
+                              )}
+                              {price && price.overage_cents_per_minute > 0 && (
+                                <p className="text-xs text-muted-foreground whitespace-nowrap">
+                                  +{formatMoney(price.overage_cents_per_minute / 100, currency)}/min over
+                                </p>
+                              )}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Specialist tiers in effect</h4>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Tier</TableHead>
+                      <TableHead className="text-right">Multiplier</TableHead>
+                      {CURRENCIES.map((currency) => (
+                        <TableHead key={currency} className="text-right">{currency.toUpperCase()} rate / pay</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {currentTiers.map((tier) => (
+                      <TableRow key={tier.rate_tier}>
+                        <TableCell className="font-medium">{tier.name}</TableCell>
+                        <TableCell className="text-right">{Number(tier.minute_multiplier)}x</TableCell>
+                        {CURRENCIES.map((currency) => {
+                          const rate = findRate(tier, currency);
+                          return (
+                            <TableCell key={currency} className="text-right whitespace-nowrap">
+                              {rate
+                                ? `${formatMoney(rate.hourly_rate_cents / 100, currency)} / ${formatMoney(rate.specialist_rate_cents / 100, currency)}`
+                                : '—'}
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Versions</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Effective from</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {versions.map((version) => {
+                    const status = getStatus(version);
+                    return (
+                      <TableRow key={version.id}>
+                        <TableCell>{format(new Date(version.effective_from), 'PPp')}</TableCell>
+                        <TableCell className="text-muted-foreground">{version.note || '—'}</TableCell>
+                        <TableCell>
+                          {status === 'current' && <Badge>Current</Badge>}
+                          {status === 'scheduled' && <Badge variant="secondary">Scheduled</Badge>}
+                          {status === 'past' && <Badge variant="outline">Past</Badge>}
+                        </TableCell>
+                        <TableCell>
+                          {status === 'scheduled' && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => handleWithdraw(version)}
+                              disabled={withdrawingId === version.id}
+                              aria-label="Withdraw scheduled pricing"
+                            >
+                              {withdrawingId === version.id ? <Loader2 size={16} className="animate-spin" /> : <Trash2 size={16} />}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Pricing Version</DialogTitle>
+            <DialogDescription>
+              Bookings made from the effective date use these prices; earlier bookings keep theirs. Plan allowances and
+              rollover change at each company's next renewal.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-6 py-2">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="pricingEffectiveDate">Effective from</Label>
+                <Input
+                  id="pricingEffectiveDate"
+                  type="date"
+                  value={effectiveDate}
+                  onChange={(e) => setEffectiveDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pricingNote">Note</Label>
+                <Input
+                  id="pricingNote"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="e.g. 2027 price review"
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Plans</h4>
+              {draftPlans.map((plan) => (
+                <div key={plan.plan_type} className="space-y-3 p-3 rounded-lg border">
+                  <p className="font-medium">{plan.name}</p>
+                  <div className="grid gap-3 sm:grid-cols-3">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Minutes</Label>
+                      <Input
+                        type="number"
+                        min={1}
+                        value={plan.minutes}
+                        onChange={(e) => updatePlan(plan.plan_type, 'minutes', Math.max(1, Math.round(Number(e.target.value))))}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Rollover</Label>
+                      <Select
+                        value={plan.rollover_type}
+                        onValueChange={(value) => updatePlan(plan.plan_type, 'rollover_type', value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          <SelectItem value="minutes">Minutes</SelectItem>
+                          <SelectItem value="percent">Percent</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">{plan.rollover_type === 'percent' ? 'Rollover %' : 'Rollover minutes'}</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={plan.rollover_type === 'percent' ? 100 : undefined}
+                        disabled={plan.rollover_type === 'none'}
+                        value={plan.rollover_max}
+                        onChange={(e) => updatePlan(plan.plan_type, 'rollover_max', Math.max(0, Math.round(Number(e.target.value))))}
+                      />
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">Yearly contracts</Label>
+                    <Select
+                      value={plan.annual_allowance}
+                      onValueChange={(value) => updatePlan(plan.plan_type, 'annual_allowance', value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="monthly">Grant minutes each month</SelectItem>
+                        <SelectItem value="yearly">Grant the whole year's minutes upfront</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-3 sm:grid-cols-3">
+                    {CURRENCIES.map((currency) => (
+                      <div key={currency} className="space-y-1">
+                        <Label className="text-xs">Price ({currency.toUpperCase()}/month)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={plan.prices[currency].price_cents / 100}
+                          onChange={(e) => updatePlanPrice(plan.plan_type, currency, 'price_cents', toCents(e.target.value))}
+                        />
+                        <Input
+                          value={plan.prices[currency].stripe_price_id ?? ''}
+                          onChange={(e) => updatePlanPrice(plan.plan_type, currency, 'stripe_price_id', e.target.value || null)}
+                          placeholder="Stripe price_…"
+                          className="text-xs"
+                        />
+                        <Label className="text-xs">Price ({currency.toUpperCase()}/year)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          value={plan.prices[currency].annual_price_cents / 100}
+                          onChange={(e) => updatePlanPrice(plan.plan_type, currency, 'annual_price_cents', toCents(e.target.value))}
+                        />
+                        <Input
+                          value={plan.prices[currency].stripe_annual_price_id ?? ''}
+                          onChange={(e) => updatePlanPrice(plan.plan_type, currency, 'stripe_annual_price_id', e.target.value || null)}
+                          placeholder="Yearly Stripe price_…"
+                          className="text-xs"
+                        />
+                        <Label className="text-xs">Overage ({currency.toUpperCase()}/minute)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={0.01}
+                          value={plan.prices[currency].overage_cents_per_minute / 100}
+                          onChange={(e) => updatePlanPrice(plan.plan_type, currency, 'overage_cents_per_minute', toCents(e.target.value))}
+                        />
+                        <Input
+                          value={plan.prices[currency].stripe_overage_price_id ?? ''}
+                          onChange={(e) => updatePlanPrice(plan.plan_type, currency, 'stripe_overage_price_id', e.target.value || null)}
+                          placeholder="Metered Stripe price_…"
+                          className="text-xs"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Checkout charges the Stripe price of the company's currency when one is set. After changing a price,
+                create the new price in Stripe and paste its ID here, or clear the field to charge the amount above.
+                Overage is billed through a metered Stripe price on the overage meter, at the same per-minute rate; an
+                overage rate of 0 turns overage off for that plan. A yearly price of 0 sells the plan monthly only.
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-sm font-medium">Specialist tiers</h4>
+              {draftTiers.map((tier) => (
+                <div key={tier.rate_tier} className="space-y-3 p-3 rounded-lg border">
+                  <div className="flex items-end justify-between gap-3">
+                    <p className="font-medium pb-2">{tier.name}</p>
+                    <div className="space-y-1 w-[160px]">
+                      <Label className="text-xs">Minute multiplier</Label>
+                      <Input
+                        type="number"
+                        min={0.1}
+                        step={0.1}
+                        value={Number(tier.minute_multiplier)}
+                        onChange={(e) => updateTier(tier.rate_tier, 'minute_multiplier', Number(e.target.value))}
+                      />
+                    </div>
+                  </div>
+                  <div className="grid gap-3 sm:grid-cols-3">
+                    {CURRENCIES.map((currency) => (
+                      <div key={currency} className="space-y-1">
+                        <Label className="text-xs">Rate / specialist pay ({currency.toUpperCase()}/hr)</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            type="number"
+                            min={0}
+                            value={tier.rates[currency].hourly_rate_cents / 100}
+                            onChange={(e) => updateTierRate(tier.rate_tier, currency, 'hourly_rate_cents', toCents(e.target.value))}
+                            aria-label={`${tier.name} hourly rate in ${currency.toUpperCase()}`}
+                          />
+                          <Input
+                            type="number"
+                            min={0}
+                            value={tier.rates[currency].specialist_rate_cents / 100}
+                            onChange={(e) => updateTierRate(tier.rate_tier, currency, 'specialist_rate_cents', toCents(e.target.value))}
+                            aria-label={`${tier.name} specialist pay in ${currency.toUpperCase()}`}
+                          />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handlePublish} disabled={saving || !effectiveDate}>
+              {saving ? <Loader2 size={16} className="animate-spin" /> : null}
+              Publish
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default AdminPricingCatalog;
@@ -0,0 +1,379 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { describePromoDiscount } from '@/lib/plans';
+import { CURRENCIES, Currency } from '@/lib/currency';
+import { Loader2, Plus, TicketPercent } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AdminPromoCodesProps {
+  onLogActivity?: (
+    actionType: string,
+    targetType: string,
+    targetId: string | null,
+    targetName: string | null,
+    details?: Record<string, unknown>
+  ) => Promise<void>;
+}
+
+type PromoCode = Tables<'promo_codes'>;
+
+type PromoDraft = {
+  code: string;
+  description: string;
+  kind: 'percent' | 'amount';
+  value: string;
+  currency: Currency;
+  durationMonths: string;
+  maxRedemptions: string;
+  expiresOn: string;
+};
+
+const EMPTY_DRAFT: PromoDraft = {
+  code: '',
+  description: '',
+  kind: 'percent',
+  value: '',
+  currency: 'usd',
+  durationMonths: '',
+  maxRedemptions: '',
+  expiresOn: '',
+};
+
+const AdminPromoCodes: React.FC<AdminPromoCodesProps> = ({ onLogActivity }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [promoCodes, setPromoCodes] = useState<PromoCode[]>([]);
+  const [redemptions, setRedemptions] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [draft, setDraft] = useState<PromoDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [retiringId, setRetiringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPromoCodes();
+  }, []);
+
+  const fetchPromoCodes = async () => {
+    const [codesResult, redemptionsResult] = await Promise.all([
+      supabase.from('promo_codes').select('*').order('created_at', { ascending: false }),
+      supabase.from('promo_code_redemptions').select('promo_code_id'),
+    ]);
+
+    const error = codesResult.error || redemptionsResult.error;
+    if (error) {
+      console.error('Error fetching promo codes:', error);
+    } else {
+      setPromoCodes(codesResult.data || []);
+      const counts: Record<string, number> = {};
+      (redemptionsResult.data || []).forEach((r) => {
+        counts[r.promo_code_id] = (counts[r.promo_code_id] || 0) + 1;
+      });
+      setRedemptions(counts);
+    }
+    setLoading(false);
+  };
+
+  const getStatus = (promo: PromoCode) => {
+    if (promo.retired_at) return 'retired';
+    if (promo.expires_at && new Date(promo.expires_at) <= new Date()) return 'expired';
+    if (promo.max_redemptions && (redemptions[promo.id] || 0) >= promo.max_redemptions) return 'used up';
+    return 'active';
+  };
+
+  const updateDraft = <K extends keyof PromoDraft>(field: K, value: PromoDraft[K]) => {
+    setDraft((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const openEditor = () => {
+    setDraft(EMPTY_DRAFT);
+    setEditorOpen(true);
+  };
+
+  const handleCreate = async () => {
+    const code = draft.code.trim().toUpperCase();
+    const value = Number(draft.value);
+    const durationMonths = draft.durationMonths ? Math.round(Number(draft.durationMonths)) : null;
+    const maxRedemptions = draft.maxRedemptions ? Math.round(Number(draft.maxRedemptions)) : null;
+
+    if (!/^[A-Z0-9_-]{3,32}$/.test(code)) {
+      toast({ title: "Check the code", description: "Use 3 to 32 letters, numbers, dashes or underscores.", variant: "destructive" });
+      return;
+    }
+    if (!(value > 0) || (draft.kind === 'percent' && value > 100)) {
+      toast({
+        title: "Check the discount",
+        description: draft.kind === 'percent' ? "Enter a percentage between 1 and 100." : "Enter an amount above 0.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .insert({
+        code,
+        description: draft.description.trim() || null,
+        percent_off: draft.kind === 'percent' ? Math.round(value) : null,
+        amount_off_cents: draft.kind === 'amount' ? Math.round(value * 100) : null,
+        currency: draft.kind === 'amount' ? draft.currency : null,
+        duration_months: durationMonths,
+        max_redemptions: maxRedemptions,
+        // End of the chosen day, local time
+        expires_at: draft.expiresOn ? new Date(`${draft.expiresOn}T23:59:59`).toISOString() : null,
+        created_by: user?.id ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      toast({
+        title: "Failed to create promo code",
+        description: error.code === '23505' ? `${code} is already an active code.` : error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Promo code created", description: `${code}: ${describePromoDiscount(data)}` });
+      setEditorOpen(false);
+      await onLogActivity?.('create', 'promo_code', data.id, code, {
+        percent_off: data.percent_off,
+        amount_off_cents: data.amount_off_cents,
+        currency: data.currency,
+        duration_months: data.duration_months,
+        max_redemptions: data.max_redemptions,
+        expires_at: data.expires_at,
+      });
+      fetchPromoCodes();
+    }
+    setSaving(false);
+  };
+
+  const handleRetire = async (promo: PromoCode) => {
+    setRetiringId(promo.id);
+    const { error } = await supabase
+      .from('promo_codes')
+      .update({ retired_at: new Date().toISOString() })
+      .eq('id', promo.id);
+
+    if (error) {
+      toast({ title: "Failed to retire promo code", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Promo code retired", description: "Companies already using it keep their discount." });
+      await onLogActivity?.('deactivate', 'promo_code', promo.id, promo.code);
+      fetchPromoCodes();
+    }
+    setRetiringId(null);
+  };
+
+  return (
+    <Card className="lg:col-span-2">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <TicketPercent size={20} />
+            Promo Codes
+          </CardTitle>
+          <CardDescription>
+            Discounts company admins can enter when they choose a plan. Each company can use a code once.
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={openEditor} disabled={loading}>
+          <Plus size={16} />
+          New Code
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-40 bg-muted rounded-lg animate-pulse" />
+        ) : promoCodes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No promo codes yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead className="text-right">Redeemed</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promoCodes.map((promo) => {
+                const status = getStatus(promo);
+                return (
+                  <TableRow key={promo.id}>
+                    <TableCell>
+                      <p className="font-mono font-medium">{promo.code}</p>
+                      {promo.description && <p className="text-xs text-muted-foreground">{promo.description}</p>}
+                    </TableCell>
+                    <TableCell>{describePromoDiscount(promo)}</TableCell>
+                    <TableCell className="text-right">
+                      {redemptions[promo.id] || 0}
+                      {promo.max_redemptions ? ` / ${promo.max_redemptions}` : ''}
+                    </TableCell>
+                    <TableCell>{promo.expires_at ? format(new Date(promo.expires_at), 'PP') : 'Never'}</TableCell>
+                    <TableCell>
+                      <Badge variant={status === 'active' ? 'default' : 'secondary'} className="capitalize">
+                        {status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {!promo.retired_at && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRetire(promo)}
+                          disabled={retiringId === promo.id}
+                        >
+                          {retiringId === promo.id && <Loader2 size={14} className="animate-spin" />}
+                          Retire
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={editorOpen} onOpenChange={setEditorOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>New Promo Code</DialogTitle>
+            <DialogDescription>
+              The discount applies to the plan price from the first invoice. Retiring a code stops new companies using it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="promoCode">Code</Label>
+                <Input
+                  id="promoCode"
+                  value={draft.code}
+                  onChange={(e) => updateDraft('code', e.target.value.toUpperCase())}
+                  placeholder="e.g. SPRING20"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promoDescription">Description</Label>
+                <Input
+                  id="promoDescription"
+                  value={draft.description}
+                  onChange={(e) => updateDraft('description', e.target.value)}
+                  placeholder="e.g. Spring campaign"
+                />
+              </div>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Discount</Label>
+                <Select value={draft.kind} onValueChange={(value) => updateDraft('kind', value as PromoDraft['kind'])}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percentage</SelectItem>
+                    <SelectItem value="amount">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promoValue">{draft.kind === 'percent' ? 'Percent off' : 'Amount off'}</Label>
+                <Input
+                  id="promoValue"
+                  type="number"
+                  min={0}
+                  max={draft.kind === 'percent' ? 100 : undefined}
+                  value={draft.value}
+                  onChange={(e) => updateDraft('value', e.target.value)}
+                />
+              </div>
+              {draft.kind === 'amount' && (
+                <div className="space-y-2">
+                  <Label>Currency</Label>
+                  <Select value={draft.currency} onValueChange={(value) => updateDraft('currency', value as Currency)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map((currency) => (
+                        <SelectItem key={currency} value={currency}>{currency.toUpperCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="promoDuration">For (months)</Label>
+                <Input
+                  id="promoDuration"
+                  type="number"
+                  min={1}
+                  max={36}
+                  value={draft.durationMonths}
+                  onChange={(e) => updateDraft('durationMonths', e.target.value)}
+                  placeholder="Every month"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promoMaxRedemptions">Max companies</Label>
+                <Input
+                  id="promoMaxRedemptions"
+                  type="number"
+                  min={1}
+                  value={draft.maxRedemptions}
+                  onChange={(e) => updateDraft('maxRedemptions', e.target.value)}
+                  placeholder="No limit"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="promoExpiresOn">Expires</Label>
+                <Input
+                  id="promoExpiresOn"
+                  type="date"
+                  value={draft.expiresOn}
+                  onChange={(e) => updateDraft('expiresOn', e.target.value)}
+                />
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditorOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !draft.code || !draft.value}>
+              {saving ? <Loader2 size={16} className="animate-spin" /> : null}
+              Create Code
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default AdminPromoCodes;
@@ -0,0 +1,356 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import { CalendarClock, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+
+interface AvailabilityRule {
+  id: string;
+  weekdays: number[];
+  start_time: string;
+  end_time: string;
+  session_minutes: number;
+  buffer_minutes: number;
+  timezone: string;
+  is_active: boolean;
+}
+
+interface AvailabilityRulesEditorProps {
+  specialistId: string;
+  timeZone: string;
+}
+
+// Ordered Monday-first for display; values follow JS/Postgres day numbers (0 = Sunday)
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+const SESSION_LENGTH_OPTIONS = [30, 45, 50, 60, 90];
+const BUFFER_OPTIONS = [0, 5, 10, 15, 30];
+
+const EMPTY_FORM = {
+  weekdays: [] as string[],
+  startTime: '09:00',
+  endTime: '12:00',
+  sessionMinutes: 50,
+  bufferMinutes: 10,
+};
+
+// Postgres returns "09:00:00"; show "09:00"
+const trimSeconds = (time: string) => time.slice(0, 5);
+
+const formatWeekdays = (weekdays: number[]) =>
+  WEEKDAYS.filter((d) => weekdays.includes(d.value)).map((d) => d.label).join(', ');
+
+const AvailabilityRulesEditor: React.FC<AvailabilityRulesEditorProps> = ({ specialistId, timeZone }) => {
+  const { toast } = useToast();
+  const [rules, setRules] = useState<AvailabilityRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchRules();
+  }, [specialistId]);
+
+  const fetchRules = async () => {
+    const { data, error } = await supabase
+      .from('availability_rules')
+      .select('id, weekdays, start_time, end_time, session_minutes, buffer_minutes, timezone, is_active')
+      .eq('specialist_id', specialistId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching availability rules:', error);
+    } else {
+      setRules(data || []);
+    }
+    setLoading(false);
+  };
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingRuleId(null);
+    setShowForm(false);
+  };
+
+  const startEditing = (rule: AvailabilityRule) => {
+    setForm({
+      weekdays: rule.weekdays.map(String),
+      startTime: trimSeconds(rule.start_time),
+      endTime: trimSeconds(rule.end_time),
+      sessionMinutes: rule.session_minutes,
+      bufferMinutes: rule.buffer_minutes,
+    });
+    setEditingRuleId(rule.id);
+    setShowForm(true);
+  };
+
+  // New open slots may match someone on the waitlist
+  const notifyWaitlist = () => {
+    supabase.functions.invoke('process-waitlist')
+      .catch(err => console.error('Failed to process waitlist:', err));
+  };
+
+  const handleSave = async () => {
+    if (form.weekdays.length === 0) {
+      toast({
+        title: "Select at least one day",
+        description: "Choose the days of the week this availability applies to.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (form.endTime <= form.startTime) {
+      toast({
+        title: "Invalid time range",
+        description: "The end time must be after the start time.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    const payload = {
+      weekdays: form.weekdays.map(Number),
+      start_time: form.startTime,
+      end_time: form.endTime,
+      session_minutes: form.sessionMinutes,
+      buffer_minutes: form.bufferMinutes,
+      timezone: timeZone,
+    };
+
+    // Slots are regenerated by a database trigger; already-booked slots are kept
+    const { error } = editingRuleId
+      ? await supabase.from('availability_rules').update(payload).eq('id', editingRuleId)
+      : await supabase.from('availability_rules').insert({ ...payload, specialist_id: specialistId });
+
+    if (error) {
+      toast({
+        title: "Failed to save availability",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: editingRuleId ? "Availability updated" : "Availability added",
+        description: "Your bookable time slots have been refreshed.",
+      });
+      resetForm();
+      fetchRules();
+      notifyWaitlist();
+    }
+
+    setSaving(false);
+  };
+
+  const handleToggleActive = async (rule: AvailabilityRule, isActive: boolean) => {
+    const { error } = await supabase
+      .from('availability_rules')
+      .update({ is_active: isActive })
+      .eq('id', rule.id);
+
+    if (error) {
+      toast({ title: "Failed to update availability", description: error.message, variant: "destructive" });
+      return;
+    }
+    setRules((prev) => prev.map((r) => (r.id === rule.id ? { ...r, is_active: isActive } : r)));
+    if (isActive) notifyWaitlist();
+  };
+
+  const handleDelete = async (ruleId: string) => {
+    const { error } = await supabase.from('availability_rules').delete().eq('id', ruleId);
+
+    if (error) {
+      toast({ title: "Failed to delete availability", description: error.message, variant: "destructive" });
+      return;
+    }
+
+    toast({
+      title: "Availability removed",
+      description: "Open slots from this schedule were removed. Booked sessions are not affected.",
+    });
+    if (editingRuleId === ruleId) resetForm();
+    fetchRules();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarClock size={20} />
+          Weekly Availability
+        </CardTitle>
+        <CardDescription>
+          Set recurring hours and we'll open bookable slots for the next 8 weeks
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="h-16 bg-muted rounded-lg animate-pulse" />
+        ) : rules.length === 0 && !showForm ? (
+          <p className="text-sm text-muted-foreground">
+            You haven't set any weekly availability yet. Employees can still propose times manually.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg border bg-card"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium">
+                    {formatWeekdays(rule.weekdays)} · {trimSeconds(rule.start_time)}–{trimSeconds(rule.end_time)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {rule.session_minutes}-minute sessions, {rule.buffer_minutes}-minute buffer · {rule.timezone}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {!rule.is_active && <Badge variant="outline">Paused</Badge>}
+                  <Switch
+                    checked={rule.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(rule, checked)}
+                    aria-label="Active"
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => startEditing(rule)}>
+                    <Pencil size={16} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleDelete(rule.id)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 size={16} />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {showForm ? (
+          <div className="space-y-4 p-4 rounded-lg border bg-muted/30">
+            <div className="space-y-2">
+              <Label>Days</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                className="justify-start flex-wrap"
+                value={form.weekdays}
+                onValueChange={(weekdays) => setForm((prev) => ({ ...prev, weekdays }))}
+              >
+                {WEEKDAYS.map((day) => (
+                  <ToggleGroupItem key={day.value} value={String(day.value)} size="sm">
+                    {day.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ruleStart">From</Label>
+                <Input
+                  id="ruleStart"
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) => setForm((prev) => ({ ...prev, startTime: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ruleEnd">To</Label>
+                <Input
+                  id="ruleEnd"
+                  type="time"
+                  value={form.endTime}
+                  onChange={(e) => setForm((prev) => ({ ...prev, endTime: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Session length</Label>
+                <Select
+                  value={String(form.sessionMinutes)}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, sessionMinutes: Number(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SESSION_LENGTH_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes} minutes
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Buffer between sessions</Label>
+                <Select
+                  value={String(form.bufferMinutes)}
+                  onValueChange={(value) => setForm((prev) => ({ ...prev, bufferMinutes: Number(value) }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BUFFER_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {minutes === 0 ? 'No buffer' : `${minutes} minutes`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              Times are in your timezone ({timeZone}). Change it under Personal Information.
+            </p>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={saving}>
+                {saving ? <Loader2 size={16} className="animate-spin" /> : null}
+                {editingRuleId ? 'Update Availability' : 'Add Availability'}
+              </Button>
+              <Button variant="ghost" onClick={resetForm} disabled={saving}>
+                <X size={16} />
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" onClick={() => setShowForm(true)}>
+            <Plus size={16} />
+            Add Weekly Hours
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AvailabilityRulesEditor;
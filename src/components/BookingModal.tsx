@@ -8,6 +8,8 @@ import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { Calendar, Clock, CheckCircle } from 'lucide-react';
 import { format } from 'date-fns';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import WaitlistJoinCard from './WaitlistJoinCard';
 
 interface Specialist {
   id: string;
@@ -48,6 +50,8 @@ const BookingModal: React.FC<BookingModalProps> = ({ specialist, onClose }) => {
       .eq('specialist_id', specialist.id)
       .eq('is_booked', false)
       .gte('start_time', new Date().toISOString())
+      // Slots held for someone else on the waitlist stay hidden until the hold lapses
+      .or(`reserved_until.is.null,reserved_until.lt.${new Date().toISOString()},reserved_for_user_id.eq.${user?.id}`)
       .order('start_time', { ascending: true });
 
     if (!error && data) {
@@ -61,33 +65,27 @@ const BookingModal: React.FC<BookingModalProps> = ({ specialist, onClose }) => {
 
     setBooking(true);
 
-    // Create booking
-    const { error: bookingError } = await supabase
-      .from('bookings')
-      .insert({
-        slot_id: selectedSlot.id,
-        employee_user_id: user.id,
-        specialist_id: specialist.id,
+    const { error } = await supabase.functions.invoke('create-booking', {
+      body: {
+        specialistId: specialist.id,
+        slotId: selectedSlot.id,
         notes: notes || null,
-        status: 'pending',
-      });
+      },
+    });
 
-    if (bookingError) {
+    if (error) {
       toast({
         title: "Booking failed",
-        description: bookingError.message,
+        description: await getFunctionErrorMessage(error),
         variant: "destructive",
       });
       setBooking(false);
+      // The slot may have been taken in the meantime
+      fetchAvailableSlots();
+      setSelectedSlot(null);
       return;
     }
 
-    // Mark slot as booked
-    await supabase
-      .from('availability_slots')
-      .update({ is_booked: true })
-      .eq('id', selectedSlot.id);
-
     toast({
       title: "Booking requested!",
       description: "The specialist will review your booking request.",
@@ -109,12 +107,15 @@ const BookingModal: React.FC<BookingModalProps> = ({ specialist, onClose }) => {
 
   if (slots.length === 0) {
     return (
-      <div className="text-center py-8">
-        <Calendar className="w-12 h-12 mx-auto text-muted-foreground mb-3" />
-        <h4 className="font-semibold mb-2">No Available Slots</h4>
-        <p className="text-sm text-muted-foreground">
-          This specialist doesn't have any available time slots right now.
-        </p>
+      <div className="space-y-4">
+        <div className="text-center py-4">
+          <Calendar className="w-12 h-12 mx-auto text-muted-foreground mb-3" />
+          <h4 className="font-semibold mb-2">No Available Slots</h4>
+          <p className="text-sm text-muted-foreground">
+            This specialist doesn't have any available time slots right now.
+          </p>
+        </div>
+        <WaitlistJoinCard specialistId={specialist.id} specialistName={specialist.full_name} />
       </div>
     );
   }
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -8,8 +8,20 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar, Clock, Send, Globe } from 'lucide-react';
+import { Calendar, Clock, Send, Globe, Hourglass } from 'lucide-react';
 import { format, addDays } from 'date-fns';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import { fitsAllowance, getRemainingAllowance, type EmployeeAllowance } from '@/lib/allowanceCaps';
+import { useUserTimeZone } from '@/hooks/useUserTimeZone';
+import { getCatalogTier, usePricingCatalog } from '@/hooks/usePricingCatalog';
+import {
+  formatTimeInTimeZone,
+  getDateKeyInTimeZone,
+  getTimeZoneAbbreviation,
+  zonedTimeToUtc,
+} from '@/lib/timezones';
+import OtherPartyTime from './OtherPartyTime';
+import WaitlistJoinCard from './WaitlistJoinCard';
 
 // Generate time slots with 15-minute increments
 const generateTimeSlots = () => {
@@ -35,28 +47,22 @@ interface Specialist {
   full_name: string;
   specialty: string;
   rate_tier?: string | null;
+  timezone?: string | null;
 }
 
-// Minutes deducted per 1-hour session based on tier
-const TIER_MULTIPLIERS: Record<string, number> = {
-  standard: 1.0,
-  advanced: 1.6,
-  expert: 2.4,
-  master: 3.2,
-};
-
-const TIER_LABELS: Record<string, string> = {
-  standard: 'Standard',
-  advanced: 'Advanced',
-  expert: 'Expert',
-  master: 'Master',
-};
-
 const DURATION_OPTIONS = [
   { value: 30, label: '30 minutes', description: 'Half session' },
   { value: 60, label: '1 hour', description: 'Full session' },
 ];
 
+interface AvailabilitySlot {
+  id: string;
+  start_time: string;
+  end_time: string;
+  reserved_for_user_id: string | null;
+  reserved_until: string | null;
+}
+
 interface BookingRequestModalProps {
   specialist: Specialist;
   onClose: () => void;
@@ -65,13 +71,18 @@ interface BookingRequestModalProps {
 const BookingRequestModal: React.FC<BookingRequestModalProps> = ({ specialist, onClose }) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const pricingCatalog = usePricingCatalog();
   const [proposedDate, setProposedDate] = useState('');
   const [proposedTime, setProposedTime] = useState('');
   const [sessionDuration, setSessionDuration] = useState<number>(60);
   const [notes, setNotes] = useState('');
   const [submitting, setSubmitting] = useState(false);
-  const [isFirstSession, setIsFirstSession] = useState<boolean | null>(null);
   const [currentTime, setCurrentTime] = useState(new Date());
+  const [slots, setSlots] = useState<AvailabilitySlot[]>([]);
+  const [slotDate, setSlotDate] = useState('');
+  const [selectedSlot, setSelectedSlot] = useState<AvailabilitySlot | null>(null);
+  const [useCustomTime, setUseCustomTime] = useState(false);
+  const [allowance, setAllowance] = useState<EmployeeAllowance | null>(null);
 
   // Update current time every second
   useEffect(() => {
@@ -81,40 +92,105 @@ const BookingRequestModal: React.FC<BookingRequestModalProps> = ({ specialist, o
     return () => clearInterval(interval);
   }, []);
 
-  // Get timezone info
-  const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
-  const timezoneAbbr = new Date().toLocaleTimeString('en-US', { timeZoneName: 'short' }).split(' ').pop();
-
-  // Check if this is the first session with this specialist
-  React.useEffect(() => {
-    const checkPreviousSessions = async () => {
-      if (!user) return;
-      
-      const { count } = await supabase
-        .from('bookings')
-        .select('*', { count: 'exact', head: true })
-        .eq('employee_user_id', user.id)
+  // Times are entered and shown in the employee's saved timezone, not the browser's
+  const timezone = useUserTimeZone();
+  const timezoneAbbr = getTimeZoneAbbreviation(currentTime, timezone);
+
+  // Open slots generated from the specialist's weekly availability
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchSlots = async () => {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('availability_slots')
+        .select('id, start_time, end_time, reserved_for_user_id, reserved_until')
         .eq('specialist_id', specialist.id)
-        .eq('status', 'completed');
-      
-      setIsFirstSession(count === 0);
+        .eq('is_booked', false)
+        .gte('start_time', now)
+        // Slots held for someone else on the waitlist stay hidden until the hold lapses
+        .or(`reserved_until.is.null,reserved_until.lt.${now},reserved_for_user_id.eq.${user.id}`)
+        .order('start_time', { ascending: true });
+
+      if (!error && data) {
+        setSlots(data);
+        if (data.length > 0) {
+          setSlotDate(getDateKeyInTimeZone(data[0].start_time, timezone));
+        }
+      }
+    };
+
+    fetchSlots();
+  }, [specialist.id, timezone, user]);
+
+  // The employee's personal cap, if their company set one
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchAllowance = async () => {
+      const { data, error } = await supabase.rpc('get_my_booking_allowance');
+      if (error) {
+        console.error('Error fetching booking allowance:', error);
+        return;
+      }
+      setAllowance((data?.[0] as EmployeeAllowance | undefined) ?? null);
     };
-    
-    checkPreviousSessions();
-  }, [user, specialist.id]);
 
-  const today = format(new Date(), 'yyyy-MM-dd');
-  const maxDate = format(addDays(new Date(), 90), 'yyyy-MM-dd');
+    fetchAllowance();
+  }, [user]);
+
+  const isHeldForMe = (slot: AvailabilitySlot) =>
+    slot.reserved_for_user_id === user?.id && !!slot.reserved_until && new Date(slot.reserved_until) > currentTime;
+
+  // A slot offered from the waitlist is preselected so it can be claimed straight away
+  const heldSlot = slots.find(isHeldForMe) ?? null;
+
+  useEffect(() => {
+    if (heldSlot && !selectedSlot) {
+      setSlotDate(getDateKeyInTimeZone(heldSlot.start_time, timezone));
+      setSelectedSlot(heldSlot);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [heldSlot?.id]);
+
+  const slotsByDate = useMemo(() => {
+    const grouped = new Map<string, AvailabilitySlot[]>();
+    for (const slot of slots) {
+      const key = getDateKeyInTimeZone(slot.start_time, timezone);
+      grouped.set(key, [...(grouped.get(key) || []), slot]);
+    }
+    return grouped;
+  }, [slots, timezone]);
+
+  const bookFromSlots = slots.length > 0 && !useCustomTime;
 
-  // Calculate minutes that will be deducted
-  const tierMultiplier = TIER_MULTIPLIERS[specialist.rate_tier || 'standard'];
-  const minutesToDeduct = Math.ceil(sessionDuration * tierMultiplier);
+  const today = getDateKeyInTimeZone(new Date(), timezone);
+  const maxDate = getDateKeyInTimeZone(addDays(new Date(), 90), timezone);
+
+  // Chosen start time as an absolute instant, used to preview the specialist's local time
+  const chosenDatetime = bookFromSlots
+    ? selectedSlot?.start_time ?? null
+    : proposedDate && proposedTime
+      ? zonedTimeToUtc(proposedDate, proposedTime, timezone).toISOString()
+      : null;
+
+  // Slot bookings take their length from the slot itself
+  const effectiveDuration = bookFromSlots && selectedSlot
+    ? Math.round((new Date(selectedSlot.end_time).getTime() - new Date(selectedSlot.start_time).getTime()) / 60000)
+    : sessionDuration;
+
+  // Calculate minutes that will be deducted at the current catalog price
+  const tier = getCatalogTier(pricingCatalog, specialist.rate_tier);
+  const minutesToDeduct = Math.ceil(effectiveDuration * tier.minuteMultiplier);
+
+  const remainingAllowance = allowance ? getRemainingAllowance(allowance) : null;
+  const overAllowance = !!allowance && !fitsAllowance(allowance, minutesToDeduct);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
-    if (!proposedDate || !proposedTime) {
+    if (bookFromSlots ? !selectedSlot : (!proposedDate || !proposedTime)) {
       toast({
         title: "Missing information",
         description: "Please select a date and time for your booking request.",
@@ -123,37 +199,47 @@ const BookingRequestModal: React.FC<BookingRequestModalProps> = ({ specialist, o
       return;
     }
 
+    if (overAllowance) {
+      toast({
+        title: "Over your personal allowance",
+        description: allowance?.cap_type === 'minutes'
+          ? `This session needs ${minutesToDeduct} minutes but you have ${remainingAllowance} left this period.`
+          : "You have used all the sessions your company allows you this period.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setSubmitting(true);
 
-    const proposedDateTime = new Date(`${proposedDate}T${proposedTime}`);
-
-    // Create booking request with session duration and type
-    const sessionType = isFirstSession ? 'first_session' : 'follow_up';
-    
-    const { data: booking, error: bookingError } = await supabase
-      .from('bookings')
-      .insert({
-        specialist_id: specialist.id,
-        employee_user_id: user.id,
-        proposed_datetime: proposedDateTime.toISOString(),
-        session_duration: sessionDuration,
-        session_type: sessionType,
-        notes: notes || null,
-        status: 'pending',
-      })
-      .select()
-      .single();
+    // The server validates the subscription and minutes balance and works out the session type
+    const { data, error: bookingError } = await supabase.functions.invoke('create-booking', {
+      body: bookFromSlots
+        ? {
+            specialistId: specialist.id,
+            slotId: selectedSlot!.id,
+            notes: notes || null,
+          }
+        : {
+            specialistId: specialist.id,
+            proposedDatetime: zonedTimeToUtc(proposedDate, proposedTime, timezone).toISOString(),
+            sessionDuration,
+            notes: notes || null,
+          },
+    });
 
     if (bookingError) {
       toast({
         title: "Booking request failed",
-        description: bookingError.message,
+        description: await getFunctionErrorMessage(bookingError),
         variant: "destructive",
       });
       setSubmitting(false);
       return;
     }
 
+    const booking = data?.booking as { id: string } | undefined;
+
     // Send initial message if notes provided
     if (notes && booking) {
       await supabase
@@ -166,20 +252,18 @@ const BookingRequestModal: React.FC<BookingRequestModalProps> = ({ specialist, o
         });
     }
 
-    // Send email notification to specialist (don't await to avoid blocking)
-    if (booking) {
-      supabase.functions.invoke('notify-specialist-booking', {
-        body: { bookingId: booking.id },
-      }).catch((error) => {
-        console.error('Failed to send notification email:', error);
+    if (data?.awaitingApproval) {
+      toast({
+        title: "Waiting for company approval",
+        description: `Your department has used its minutes budget, so your company admin needs to approve this request before it goes to ${specialist.full_name}.`,
+      });
+    } else {
+      toast({
+        title: "Booking request sent!",
+        description: `Your request has been sent to ${specialist.full_name}. They will respond shortly.`,
       });
     }
 
-    toast({
-      title: "Booking request sent!",
-      description: `Your request has been sent to ${specialist.full_name}. They will respond shortly.`,
-    });
-
     onClose();
     setSubmitting(false);
   };
@@ -193,73 +277,167 @@ const BookingRequestModal: React.FC<BookingRequestModalProps> = ({ specialist, o
           Your timezone: <span className="font-medium text-foreground">{timezone}</span> ({timezoneAbbr})
         </span>
         <span className="ml-auto font-mono text-foreground">
-          {currentTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
+          {currentTime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', second: '2-digit', timeZone: timezone })}
         </span>
       </div>
 
+      {/* Fully booked: offer the waitlist alongside proposing a time */}
+      {slots.length === 0 && (
+        <WaitlistJoinCard specialistId={specialist.id} specialistName={specialist.full_name} />
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         {/* Date/Time Selection */}
-        <div className="space-y-4">
-          <Label className="text-base font-semibold flex items-center gap-2">
-            <Calendar size={18} />
-            Propose a date and time
-          </Label>
-          
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="date">Date</Label>
-              <Input
-                id="date"
-                type="date"
-                value={proposedDate}
-                onChange={(e) => setProposedDate(e.target.value)}
-                min={today}
-                max={maxDate}
-                required
-              />
-            </div>
+        {bookFromSlots ? (
+          <div className="space-y-4">
+            <Label className="text-base font-semibold flex items-center gap-2">
+              <Calendar size={18} />
+              Choose an available time
+            </Label>
+
+            {heldSlot && (
+              <div className="flex items-center gap-2 text-sm bg-primary/10 text-primary px-3 py-2 rounded-lg">
+                <Hourglass size={16} />
+                <span>
+                  From the waitlist: {formatTimeInTimeZone(heldSlot.start_time, timezone)} is held for you until{' '}
+                  {formatTimeInTimeZone(heldSlot.reserved_until!, timezone)}.
+                </span>
+              </div>
+            )}
+
             <div className="space-y-2">
-              <Label htmlFor="time">Time</Label>
-              <Select value={proposedTime} onValueChange={setProposedTime}>
-                <SelectTrigger id="time">
-                  <SelectValue placeholder="Select time" />
+              <Label htmlFor="slotDate">Date</Label>
+              <Select
+                value={slotDate}
+                onValueChange={(value) => {
+                  setSlotDate(value);
+                  setSelectedSlot(null);
+                }}
+              >
+                <SelectTrigger id="slotDate">
+                  <SelectValue placeholder="Select date" />
                 </SelectTrigger>
                 <SelectContent>
-                  {TIME_SLOTS.map((slot) => (
-                    <SelectItem key={slot.value} value={slot.value}>
-                      {slot.label}
+                  {Array.from(slotsByDate.keys()).map((date) => (
+                    <SelectItem key={date} value={date}>
+                      {format(new Date(`${date}T00:00`), 'EEEE, MMM d')}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
+
+            <div className="grid grid-cols-3 gap-2">
+              {(slotsByDate.get(slotDate) || []).map((slot) => (
+                <button
+                  key={slot.id}
+                  type="button"
+                  onClick={() => setSelectedSlot(slot)}
+                  className={`p-2 rounded-lg border-2 text-sm font-medium transition-all ${
+                    selectedSlot?.id === slot.id
+                      ? 'border-primary bg-primary/5'
+                      : 'border-muted hover:border-primary/50'
+                  }`}
+                >
+                  {formatTimeInTimeZone(slot.start_time, timezone)}
+                  {isHeldForMe(slot) && <span className="block text-xs text-primary">Held for you</span>}
+                </button>
+              ))}
+            </div>
+
+            <button
+              type="button"
+              onClick={() => setUseCustomTime(true)}
+              className="text-sm text-primary hover:underline"
+            >
+              None of these work? Propose a different time
+            </button>
           </div>
-        </div>
+        ) : (
+          <div className="space-y-4">
+            <Label className="text-base font-semibold flex items-center gap-2">
+              <Calendar size={18} />
+              Propose a date and time
+            </Label>
+          
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="date">Date</Label>
+                <Input
+                  id="date"
+                  type="date"
+                  value={proposedDate}
+                  onChange={(e) => setProposedDate(e.target.value)}
+                  min={today}
+                  max={maxDate}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="time">Time</Label>
+                <Select value={proposedTime} onValueChange={setProposedTime}>
+                  <SelectTrigger id="time">
+                    <SelectValue placeholder="Select time" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TIME_SLOTS.map((slot) => (
+                      <SelectItem key={slot.value} value={slot.value}>
+                        {slot.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
 
-        {/* Session Duration */}
-        <div className="space-y-3">
-          <Label className="text-base font-semibold flex items-center gap-2">
-            <Clock size={18} />
-            Session Duration
-          </Label>
-          <div className="grid grid-cols-2 gap-3">
-            {DURATION_OPTIONS.map((option) => (
+            {slots.length > 0 && (
               <button
-                key={option.value}
                 type="button"
-                onClick={() => setSessionDuration(option.value)}
-                className={`p-4 rounded-lg border-2 text-left transition-all ${
-                  sessionDuration === option.value
-                    ? 'border-primary bg-primary/5'
-                    : 'border-muted hover:border-primary/50'
-                }`}
+                onClick={() => setUseCustomTime(false)}
+                className="text-sm text-primary hover:underline"
               >
-                <p className="font-semibold">{option.label}</p>
-                <p className="text-xs text-muted-foreground">{option.description}</p>
+                Back to available times
               </button>
-            ))}
+            )}
           </div>
-        </div>
+        )}
+
+        {chosenDatetime && (
+          <OtherPartyTime
+            datetime={chosenDatetime}
+            viewerTimeZone={timezone}
+            otherTimeZone={specialist.timezone}
+            label={`${specialist.full_name}'s local time`}
+            className="text-sm"
+          />
+        )}
+
+        {/* Session Duration (slot bookings use the slot's length) */}
+        {!bookFromSlots && (
+          <div className="space-y-3">
+            <Label className="text-base font-semibold flex items-center gap-2">
+              <Clock size={18} />
+              Session Duration
+            </Label>
+            <div className="grid grid-cols-2 gap-3">
+              {DURATION_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setSessionDuration(option.value)}
+                  className={`p-4 rounded-lg border-2 text-left transition-all ${
+                    sessionDuration === option.value
+                      ? 'border-primary bg-primary/5'
+                      : 'border-muted hover:border-primary/50'
+                  }`}
+                >
+                  <p className="font-semibold">{option.label}</p>
+                  <p className="text-xs text-muted-foreground">{option.description}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
 
         {/* Notes */}
         <div className="space-y-2">
@@ -285,10 +463,26 @@ const BookingRequestModal: React.FC<BookingRequestModalProps> = ({ specialist, o
                   {minutesToDeduct} min
                 </span>
                 <span className="text-sm text-muted-foreground ml-2">
-                  ({TIER_LABELS[specialist.rate_tier || 'standard']} tier)
+                  ({tier.name} tier)
                 </span>
               </div>
             </div>
+            {allowance?.cap_type && remainingAllowance !== null && (
+              <div className="flex justify-between items-center mt-2 pt-2 border-t text-sm">
+                <span className="text-muted-foreground">Your allowance left this period</span>
+                <span className={overAllowance ? 'font-medium text-destructive' : 'font-medium'}>
+                  {allowance.cap_type === 'minutes'
+                    ? `${remainingAllowance} of ${allowance.cap_value} min`
+                    : `${remainingAllowance} of ${allowance.cap_value} ${allowance.cap_value === 1 ? 'session' : 'sessions'}`}
+                </span>
+              </div>
+            )}
+            {overAllowance && (
+              <p className="text-xs text-destructive mt-2">
+                This session would take you over the allowance your company set for you. Try a shorter session
+                or wait for the next billing period.
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -309,7 +503,7 @@ const BookingRequestModal: React.FC<BookingRequestModalProps> = ({ specialist, o
           variant="wellness"
           size="lg"
           className="w-full"
-          disabled={submitting}
+          disabled={submitting || overAllowance}
         >
           {submitting ? (
             'Sending Request...'
@@ -7,14 +7,17 @@ import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { Calendar, Clock, Video, CheckCircle, XCircle, MessageCircle, AlertTriangle, RefreshCw, Star, UserPlus, Users } from 'lucide-react';
-import { format } from 'date-fns';
 import BookingConversation from './BookingConversation';
 import RescheduleBookingModal from './RescheduleBookingModal';
 import LeaveReviewModal from './LeaveReviewModal';
 import PostSessionReviewPrompt from './PostSessionReviewPrompt';
 import VideoCallModal from './VideoCallModal';
+import OtherPartyTime from './OtherPartyTime';
 import { useUnreadMessages } from '@/hooks/useUnreadMessages';
 import { useMeetingReminder } from '@/hooks/useMeetingReminder';
+import { useUserTimeZone } from '@/hooks/useUserTimeZone';
+import { isLateCancellation, useBookingPolicy } from '@/hooks/useBookingPolicy';
+import { formatDateInTimeZone, formatTimeInTimeZone, getTimeZoneAbbreviation } from '@/lib/timezones';
 
 interface Booking {
   id: string;
@@ -27,10 +30,13 @@ interface Booking {
   specialist_id: string;
   session_duration: number;
   session_type: string;
+  late_cancellation: boolean;
+  minutes_charged: number | null;
   specialist: {
     full_name: string;
     specialty: string;
     hourly_rate: number;
+    timezone: string | null;
   } | null;
   has_review?: boolean;
 }
@@ -38,6 +44,8 @@ interface Booking {
 const BookingsList: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const timeZone = useUserTimeZone();
+  const bookingPolicy = useBookingPolicy();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
@@ -118,8 +126,8 @@ const BookingsList: React.FC = () => {
     const { data, error } = await supabase
       .from('bookings')
       .select(`
-        id, status, meeting_link, notes, proposed_datetime, confirmed_datetime, created_at, specialist_id, session_duration, session_type,
-        specialist:specialists(full_name, specialty, hourly_rate)
+        id, status, meeting_link, notes, proposed_datetime, confirmed_datetime, created_at, specialist_id, session_duration, session_type, late_cancellation, minutes_charged,
+        specialist:specialists(full_name, specialty, hourly_rate, timezone)
       `)
       .eq('employee_user_id', user?.id)
       .order('created_at', { ascending: false });
@@ -150,10 +158,13 @@ const BookingsList: React.FC = () => {
     setCancelling(true);
     const wasApproved = bookingToCancel.status === 'approved';
     
-    const { error } = await supabase
+    // The database applies the late-cancellation policy when the status changes
+    const { data: cancelled, error } = await supabase
       .from('bookings')
       .update({ status: 'cancelled' })
-      .eq('id', bookingToCancel.id);
+      .eq('id', bookingToCancel.id)
+      .select('late_cancellation, minutes_charged')
+      .maybeSingle();
 
     if (error) {
       toast({ title: "Cancellation failed", description: error.message, variant: "destructive" });
@@ -169,10 +180,16 @@ const BookingsList: React.FC = () => {
           // Don't fail the cancellation if email fails
         }
       }
+
+      // The freed slot may be offered to someone on the specialist's waitlist
+      supabase.functions.invoke('process-waitlist')
+        .catch(err => console.error('Failed to process waitlist:', err));
       
       toast({ 
         title: "Booking cancelled",
-        description: wasApproved 
+        description: cancelled?.late_cancellation && cancelled.minutes_charged
+          ? `Your booking has been cancelled and the specialist has been notified. As a late cancellation, ${cancelled.minutes_charged} minutes were charged to your company.`
+          : wasApproved 
           ? "Your booking has been cancelled and the specialist has been notified."
           : "Your booking has been cancelled successfully.",
       });
@@ -185,16 +202,22 @@ const BookingsList: React.FC = () => {
 
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case 'awaiting_approval': return <Badge variant="outline" className="flex items-center gap-1"><Clock size={12} /> Awaiting company approval</Badge>;
       case 'pending': return <Badge variant="secondary" className="flex items-center gap-1"><Clock size={12} /> Pending</Badge>;
       case 'approved': return <Badge className="bg-primary flex items-center gap-1"><CheckCircle size={12} /> Confirmed</Badge>;
       case 'declined': return <Badge variant="destructive" className="flex items-center gap-1"><XCircle size={12} /> Declined</Badge>;
       case 'cancelled': return <Badge variant="outline" className="flex items-center gap-1"><XCircle size={12} /> Cancelled</Badge>;
+      case 'no_show': return <Badge variant="destructive" className="flex items-center gap-1"><XCircle size={12} /> No-show</Badge>;
       case 'completed': return <Badge className="bg-wellness-gold flex items-center gap-1"><CheckCircle size={12} /> Completed</Badge>;
       default: return <Badge variant="outline">{status}</Badge>;
     }
   };
 
-  const canCancel = (status: string) => status === 'pending' || status === 'approved';
+  const cancelIsLate = (booking: Booking | null) =>
+    booking?.status === 'approved' &&
+    isLateCancellation(booking.confirmed_datetime || booking.proposed_datetime, bookingPolicy);
+
+  const canCancel = (status: string) => status === 'awaiting_approval' || status === 'pending' || status === 'approved';
   const canReschedule = (status: string) => status === 'approved';
   const canReview = (booking: Booking) => booking.status === 'completed' && !booking.has_review;
   
@@ -240,18 +263,34 @@ const BookingsList: React.FC = () => {
                       ) : (
                         getStatusBadge(booking.status)
                       )}
+                      {booking.late_cancellation && (
+                        <Badge variant="outline" className="text-xs border-destructive/40 text-destructive">
+                          Late cancellation{booking.minutes_charged ? ` · ${booking.minutes_charged} min charged` : ''}
+                        </Badge>
+                      )}
+                      {booking.status === 'no_show' && booking.minutes_charged ? (
+                        <Badge variant="outline" className="text-xs border-destructive/40 text-destructive">
+                          {booking.minutes_charged} min charged
+                        </Badge>
+                      ) : null}
                       <Badge variant="outline" className={`text-xs ${booking.session_type === 'first_session' ? 'border-blue-300 text-blue-600' : 'border-green-300 text-green-600'}`}>
                         {booking.session_type === 'first_session' ? <><UserPlus size={10} className="mr-1" />First Session</> : <><Users size={10} className="mr-1" />Follow-up</>}
                       </Badge>
                     </div>
                     <p className="text-sm text-muted-foreground mb-2">{booking.specialist?.specialty}</p>
                     {displayDate && (
-                      <div className="flex items-center gap-4 text-sm">
-                        <span className="flex items-center gap-1"><Calendar size={14} className="text-muted-foreground" />{format(new Date(displayDate), 'EEEE, MMM d, yyyy')}</span>
-                        <span className="flex items-center gap-1"><Clock size={14} className="text-muted-foreground" />{format(new Date(displayDate), 'h:mm a')}</span>
+                      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+                        <span className="flex items-center gap-1"><Calendar size={14} className="text-muted-foreground" />{formatDateInTimeZone(displayDate, timeZone)}</span>
+                        <span className="flex items-center gap-1"><Clock size={14} className="text-muted-foreground" />{formatTimeInTimeZone(displayDate, timeZone)} {getTimeZoneAbbreviation(displayDate, timeZone)}</span>
                         <Badge variant="outline" className="text-xs">
                           {booking.session_duration === 30 ? '30 min' : '1 hour'}
                         </Badge>
+                        <OtherPartyTime
+                          datetime={displayDate}
+                          viewerTimeZone={timeZone}
+                          otherTimeZone={booking.specialist?.timezone}
+                          label="Specialist's time"
+                        />
                       </div>
                     )}
                   </div>
@@ -347,6 +386,13 @@ const BookingsList: React.FC = () => {
                   This session was already confirmed. Please consider rescheduling instead if possible.
                 </p>
               )}
+              {cancelIsLate(bookingToCancel) && bookingPolicy && (
+                <p className="mt-2 text-destructive font-medium">
+                  The session starts in less than {bookingPolicy.late_cancellation_hours} hours, so this is a late cancellation.
+                  {bookingPolicy.charge_company && " The session's minutes will still be charged to your company."}
+                  {bookingPolicy.pay_specialist && " The specialist will be paid a cancellation fee."}
+                </p>
+              )}
             </DialogDescription>
           </DialogHeader>
           <DialogFooter className="gap-2 sm:gap-0">
@@ -364,6 +410,7 @@ const BookingsList: React.FC = () => {
       {bookingToReschedule && (
         <RescheduleBookingModal
           booking={bookingToReschedule}
+          timeZone={timeZone}
           open={!!bookingToReschedule}
           onClose={() => setBookingToReschedule(null)}
           onSuccess={fetchBookings}
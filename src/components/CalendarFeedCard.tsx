@@ -0,0 +1,135 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import { CalendarSync, Copy, Loader2, RefreshCw } from 'lucide-react';
+
+type FeedAction = 'get' | 'create' | 'regenerate';
+
+const CalendarFeedCard: React.FC = () => {
+  const { toast } = useToast();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [confirmRegenerate, setConfirmRegenerate] = useState(false);
+
+  useEffect(() => {
+    requestFeed('get').finally(() => setLoading(false));
+  }, []);
+
+  // The feed token is signed server-side, so the URL always comes from the edge function
+  const requestFeed = async (action: FeedAction) => {
+    const { data, error } = await supabase.functions.invoke('calendar-feed', { body: { action } });
+
+    if (error) {
+      toast({
+        title: "Calendar feed unavailable",
+        description: await getFunctionErrorMessage(error),
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setFeedUrl(data?.url ?? null);
+    return true;
+  };
+
+  const handleCreate = async () => {
+    setWorking(true);
+    await requestFeed('create');
+    setWorking(false);
+  };
+
+  const handleRegenerate = async () => {
+    setConfirmRegenerate(false);
+    setWorking(true);
+    if (await requestFeed('regenerate')) {
+      toast({
+        title: "Calendar feed URL regenerated",
+        description: "The old URL no longer works. Update any calendar subscribed to it.",
+      });
+    }
+    setWorking(false);
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({ title: "Copied", description: "Paste the URL into your calendar app's subscribe option." });
+    } catch {
+      toast({ title: "Couldn't copy the URL", description: "Select the URL and copy it manually.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarSync size={20} />
+          Calendar Subscription
+        </CardTitle>
+        <CardDescription>
+          Subscribe from Google Calendar, Outlook or Apple Calendar to see your confirmed sessions automatically
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="h-10 bg-muted rounded-lg animate-pulse" />
+        ) : feedUrl ? (
+          <div className="space-y-3">
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly onFocus={(e) => e.target.select()} className="font-mono text-xs" />
+              <Button type="button" variant="outline" onClick={handleCopy}>
+                <Copy size={16} />
+                Copy
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Keep this URL private: anyone with it can see your session times and join links.
+            </p>
+            <Button type="button" variant="outline" onClick={() => setConfirmRegenerate(true)} disabled={working}>
+              {working ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />}
+              Regenerate URL
+            </Button>
+          </div>
+        ) : (
+          <Button type="button" variant="outline" onClick={handleCreate} disabled={working}>
+            {working ? <Loader2 size={16} className="animate-spin" /> : <CalendarSync size={16} />}
+            Create Calendar Feed
+          </Button>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmRegenerate} onOpenChange={setConfirmRegenerate}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Regenerate calendar feed URL?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The current URL will stop working immediately. Calendars subscribed to it need the new URL.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRegenerate}>Regenerate</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default CalendarFeedCard;
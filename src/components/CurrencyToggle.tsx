@@ -0,0 +1,31 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { CURRENCIES, Currency } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+
+interface CurrencyToggleProps {
+  value: Currency;
+  onChange: (currency: Currency) => void;
+  className?: string;
+}
+
+const CurrencyToggle: React.FC<CurrencyToggleProps> = ({ value, onChange, className }) => (
+  <div className={cn('inline-flex rounded-lg border p-1 gap-1', className)} role="radiogroup" aria-label="Currency">
+    {CURRENCIES.map((currency) => (
+      <Button
+        key={currency}
+        type="button"
+        size="sm"
+        variant={value === currency ? 'default' : 'ghost'}
+        role="radio"
+        aria-checked={value === currency}
+        onClick={() => onChange(currency)}
+        className="h-7 px-3"
+      >
+        {currency.toUpperCase()}
+      </Button>
+    ))}
+  </div>
+);
+
+export default CurrencyToggle;
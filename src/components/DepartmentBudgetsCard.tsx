@@ -0,0 +1,364 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Loader2, Pencil, Plus, Users, X } from 'lucide-react';
+
+export type DepartmentUsage = {
+  department: string | null;
+  minutes_used: number;
+  minutes_reserved: number;
+  budget_id: string | null;
+  minutes_budget: number | null;
+  cap_type: 'hard' | 'soft' | null;
+};
+
+interface ApprovalRequest {
+  booking_id: string;
+  employee_name: string | null;
+  employee_email: string | null;
+  department: string | null;
+  specialist_name: string;
+  proposed_datetime: string | null;
+  session_duration: number | null;
+  minutes_required: number;
+  created_at: string;
+}
+
+interface BudgetForm {
+  budgetId: string | null;
+  department: string;
+  minutesBudget: number;
+  capType: 'hard' | 'soft';
+}
+
+interface DepartmentBudgetsCardProps {
+  companyId: string;
+  departments: DepartmentUsage[];
+  loading?: boolean;
+  onChanged?: () => void;
+}
+
+const CAP_DESCRIPTIONS: Record<BudgetForm['capType'], string> = {
+  hard: 'Requests over the budget are blocked.',
+  soft: 'Requests over the budget wait for your approval before they reach the specialist.',
+};
+
+const DepartmentBudgetsCard: React.FC<DepartmentBudgetsCardProps> = ({ companyId, departments, loading, onChanged }) => {
+  const { toast } = useToast();
+  const [requests, setRequests] = useState<ApprovalRequest[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [form, setForm] = useState<BudgetForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRequests();
+  }, [companyId]);
+
+  const fetchRequests = async () => {
+    const { data, error } = await supabase.rpc('get_department_approval_requests', { _company_id: companyId });
+    if (error) {
+      console.error('Error fetching approval requests:', error);
+      return;
+    }
+    setRequests((data as ApprovalRequest[] | null) ?? []);
+  };
+
+  const handleReview = async (request: ApprovalRequest, approve: boolean) => {
+    setReviewingId(request.booking_id);
+    const { error } = await supabase.rpc('review_department_booking', {
+      _booking_id: request.booking_id,
+      _approve: approve,
+    });
+
+    if (error) {
+      toast({ title: "Couldn't update the request", description: error.message, variant: "destructive" });
+    } else {
+      if (approve) {
+        // The specialist hears about the request only now
+        supabase.functions.invoke('notify-specialist-booking', { body: { bookingId: request.booking_id } })
+          .catch(err => console.error('Failed to notify specialist:', err));
+      }
+      toast({
+        title: approve ? "Request approved" : "Request declined",
+        description: approve
+          ? `The request has been sent to ${request.specialist_name}.`
+          : "The employee can see the request was declined.",
+      });
+      fetchRequests();
+      onChanged?.();
+    }
+    setReviewingId(null);
+  };
+
+  const openForm = (row?: DepartmentUsage) => {
+    setForm({
+      budgetId: row?.budget_id ?? null,
+      department: row?.department ?? '',
+      minutesBudget: row?.minutes_budget ?? 0,
+      capType: row?.cap_type ?? 'hard',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const department = form.department.trim();
+    if (!department) {
+      toast({ title: "Department required", description: "Enter the department name.", variant: "destructive" });
+      return;
+    }
+    if (!Number.isInteger(form.minutesBudget) || form.minutesBudget < 0) {
+      toast({ title: "Invalid budget", description: "The budget must be a whole number of minutes.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const values = { department, minutes_budget: form.minutesBudget, cap_type: form.capType };
+    const { error } = form.budgetId
+      ? await supabase.from('department_budgets').update(values).eq('id', form.budgetId)
+      : await supabase.from('department_budgets').insert({ ...values, company_id: companyId });
+
+    if (error) {
+      toast({
+        title: "Couldn't save the budget",
+        description: error.code === '23505' ? "That department already has a budget." : error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Budget saved", description: `${department} now has ${form.minutesBudget} minutes per period.` });
+      setForm(null);
+      onChanged?.();
+    }
+    setSaving(false);
+  };
+
+  const handleRemove = async () => {
+    if (!form?.budgetId) return;
+    setSaving(true);
+    const { error } = await supabase.from('department_budgets').delete().eq('id', form.budgetId);
+    if (error) {
+      toast({ title: "Couldn't remove the budget", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Budget removed", description: `${form.department} can use the company balance freely.` });
+      setForm(null);
+      onChanged?.();
+    }
+    setSaving(false);
+  };
+
+  const budgeted = departments.filter((row) => row.minutes_budget !== null);
+  const totalBudgeted = budgeted.reduce((sum, row) => sum + (row.minutes_budget ?? 0), 0);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Users size={20} />
+              Department budgets
+            </CardTitle>
+            <CardDescription>
+              Usage this billing period by the department employees list on their profile. Give a department a
+              budget to cap how much of the allowance it can use.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => openForm()}>
+            <Plus size={16} />
+            Add budget
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {requests.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium mb-2">Waiting for your approval</h4>
+            <div className="divide-y rounded-lg border">
+              {requests.map((request) => (
+                <div key={request.booking_id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      {request.employee_name || request.employee_email}
+                      {request.department && <span className="text-muted-foreground"> · {request.department}</span>}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {request.specialist_name}
+                      {request.proposed_datetime && ` · ${new Date(request.proposed_datetime).toLocaleString(undefined, {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: 'numeric',
+                        minute: '2-digit',
+                      })}`}
+                      {` · ${request.minutes_required} min`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleReview(request, false)}
+                      disabled={reviewingId !== null}
+                    >
+                      <X size={14} />
+                      Decline
+                    </Button>
+                    <Button size="sm" onClick={() => handleReview(request, true)} disabled={reviewingId !== null}>
+                      {reviewingId === request.booking_id ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />}
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="h-24 flex items-center justify-center text-muted-foreground">Loading departments…</div>
+        ) : departments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No departments yet. Employees can add theirs in their profile settings.
+          </p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Department</TableHead>
+                  <TableHead className="text-right">Used</TableHead>
+                  <TableHead className="text-right">Reserved</TableHead>
+                  <TableHead>Budget</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {departments.map((row) => {
+                  const committed = row.minutes_used + row.minutes_reserved;
+                  const percent = row.minutes_budget
+                    ? Math.min(100, Math.round((committed / row.minutes_budget) * 100))
+                    : 0;
+
+                  return (
+                    <TableRow key={row.department ?? ''}>
+                      <TableCell className="font-medium">
+                        {row.department ?? <span className="text-muted-foreground">No department</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{row.minutes_used.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{row.minutes_reserved.toLocaleString()}</TableCell>
+                      <TableCell className="min-w-48">
+                        {row.minutes_budget === null ? (
+                          <span className="text-muted-foreground">No budget</span>
+                        ) : (
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2 text-sm">
+                              <span>{committed.toLocaleString()} / {row.minutes_budget.toLocaleString()}</span>
+                              <Badge variant={row.cap_type === 'hard' ? 'secondary' : 'outline'}>
+                                {row.cap_type === 'hard' ? 'Hard cap' : 'Soft cap'}
+                              </Badge>
+                            </div>
+                            <Progress value={percent} className="h-2" />
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.department && (
+                          <Button variant="ghost" size="sm" onClick={() => openForm(row)}>
+                            <Pencil size={14} />
+                            {row.budget_id ? 'Edit' : 'Set budget'}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {budgeted.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {totalBudgeted.toLocaleString()} minutes are split between {budgeted.length}{' '}
+                {budgeted.length === 1 ? 'department' : 'departments'} each period. Reserved minutes are held for
+                confirmed sessions that haven't happened yet.
+              </p>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={form !== null} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.budgetId ? 'Edit department budget' : 'Department budget'}</DialogTitle>
+            <DialogDescription>
+              The budget applies to every billing period and is matched to the department on each employee's profile.
+            </DialogDescription>
+          </DialogHeader>
+
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="budgetDepartment">Department</Label>
+                <Input
+                  id="budgetDepartment"
+                  placeholder="Engineering"
+                  value={form.department}
+                  onChange={(e) => setForm({ ...form, department: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="budgetMinutes">Minutes per period</Label>
+                <Input
+                  id="budgetMinutes"
+                  type="number"
+                  min={0}
+                  value={form.minutesBudget}
+                  onChange={(e) => setForm({ ...form, minutesBudget: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>When the budget is used up</Label>
+                <Select
+                  value={form.capType}
+                  onValueChange={(value) => setForm({ ...form, capType: value as BudgetForm['capType'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="hard">Hard cap</SelectItem>
+                    <SelectItem value="soft">Soft cap</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{CAP_DESCRIPTIONS[form.capType]}</p>
+              </div>
+            </div>
+          )}
+
+          <DialogFooter className="gap-2">
+            {form?.budgetId && (
+              <Button variant="outline" onClick={handleRemove} disabled={saving} className="sm:mr-auto">
+                Remove budget
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => setForm(null)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 size={16} className="animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default DepartmentBudgetsCard;
@@ -2,14 +2,17 @@ import React, { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { UserPlus, Mail, Clock, CheckCircle, XCircle, Users, Trash2, AlertTriangle } from 'lucide-react';
+import { UserPlus, Mail, Clock, CheckCircle, XCircle, Users, Trash2, AlertTriangle, Gauge } from 'lucide-react';
 import { format } from 'date-fns';
+import { describeCap, type AllowanceCapType, type EmployeeAllowance } from '@/lib/allowanceCaps';
 
 interface Company {
   id: string;
@@ -30,6 +33,14 @@ interface EmployeeManagementProps {
   company: Company;
 }
 
+// 'default' follows the company-wide cap; 'none' lifts it for one employee
+type CapChoice = 'default' | 'none' | AllowanceCapType;
+
+interface CapForm {
+  choice: CapChoice;
+  value: number;
+}
+
 const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ company }) => {
   const { toast } = useToast();
   const [employees, setEmployees] = useState<Employee[]>([]);
@@ -39,9 +50,17 @@ const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ company }) => {
   const [invitingAll, setInvitingAll] = useState(false);
   const [employeeToRemove, setEmployeeToRemove] = useState<Employee | null>(null);
   const [removing, setRemoving] = useState(false);
+  const [allowances, setAllowances] = useState<Map<string, EmployeeAllowance>>(new Map());
+  const [defaultCap, setDefaultCap] = useState<CapForm>({ choice: 'none', value: 0 });
+  const [savingDefaultCap, setSavingDefaultCap] = useState(false);
+  const [employeeToCap, setEmployeeToCap] = useState<Employee | null>(null);
+  const [employeeCap, setEmployeeCap] = useState<CapForm>({ choice: 'default', value: 0 });
+  const [savingEmployeeCap, setSavingEmployeeCap] = useState(false);
 
   useEffect(() => {
     fetchEmployees();
+    fetchAllowances();
+    fetchDefaultCap();
   }, [company.id]);
 
   const fetchEmployees = async () => {
@@ -57,6 +76,156 @@ const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ company }) => {
     setLoading(false);
   };
 
+  const fetchAllowances = async () => {
+    const { data, error } = await supabase.rpc('get_company_employee_allowances', { _company_id: company.id });
+    if (error) {
+      console.error('Error fetching employee allowances:', error);
+      return;
+    }
+    setAllowances(new Map((data ?? []).map((row) => [row.company_employee_id, row as EmployeeAllowance])));
+  };
+
+  const fetchDefaultCap = async () => {
+    const { data, error } = await supabase
+      .from('companies')
+      .select('employee_cap_type, employee_cap_value')
+      .eq('id', company.id)
+      .maybeSingle();
+
+    if (!error && data) {
+      setDefaultCap({
+        choice: (data.employee_cap_type as AllowanceCapType | null) ?? 'none',
+        value: data.employee_cap_value ?? 0,
+      });
+    }
+  };
+
+  const isValidCap = (form: CapForm) =>
+    (form.choice !== 'minutes' && form.choice !== 'sessions') || (Number.isInteger(form.value) && form.value > 0);
+
+  const handleSaveDefaultCap = async () => {
+    if (!isValidCap(defaultCap)) {
+      toast({ title: "Invalid cap", description: "The cap must be a whole number above zero.", variant: "destructive" });
+      return;
+    }
+
+    setSavingDefaultCap(true);
+    const capped = defaultCap.choice === 'minutes' || defaultCap.choice === 'sessions';
+    const { error } = await supabase
+      .from('companies')
+      .update({
+        employee_cap_type: capped ? defaultCap.choice : null,
+        employee_cap_value: capped ? defaultCap.value : null,
+      })
+      .eq('id', company.id);
+
+    if (error) {
+      toast({ title: "Couldn't save the default cap", description: error.message, variant: "destructive" });
+    } else {
+      toast({
+        title: "Default cap saved",
+        description: capped
+          ? `Employees without their own cap can use ${describeCap(defaultCap.choice as AllowanceCapType, defaultCap.value)}.`
+          : "Employees without their own cap can use the company balance freely.",
+      });
+      fetchAllowances();
+    }
+    setSavingDefaultCap(false);
+  };
+
+  const openEmployeeCap = (employee: Employee) => {
+    const allowance = allowances.get(employee.id);
+    setEmployeeCap(
+      !allowance || allowance.is_default
+        ? { choice: 'default', value: 0 }
+        : { choice: allowance.cap_type ?? 'none', value: allowance.cap_value ?? 0 }
+    );
+    setEmployeeToCap(employee);
+  };
+
+  const handleSaveEmployeeCap = async () => {
+    if (!employeeToCap) return;
+    if (!isValidCap(employeeCap)) {
+      toast({ title: "Invalid cap", description: "The cap must be a whole number above zero.", variant: "destructive" });
+      return;
+    }
+
+    setSavingEmployeeCap(true);
+    const { error } = employeeCap.choice === 'default'
+      ? await supabase.from('employee_allowance_caps').delete().eq('company_employee_id', employeeToCap.id)
+      : await supabase.from('employee_allowance_caps').upsert(
+          {
+            company_employee_id: employeeToCap.id,
+            cap_type: employeeCap.choice,
+            cap_value: employeeCap.choice === 'none' ? null : employeeCap.value,
+          },
+          { onConflict: 'company_employee_id' }
+        );
+
+    if (error) {
+      toast({ title: "Couldn't save the cap", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Cap saved", description: `The allowance for ${employeeToCap.email} has been updated.` });
+      setEmployeeToCap(null);
+      fetchAllowances();
+    }
+    setSavingEmployeeCap(false);
+  };
+
+  const renderAllowance = (employee: Employee) => {
+    const allowance = allowances.get(employee.id);
+    if (!allowance) return <span className="text-muted-foreground">-</span>;
+
+    const used = allowance.cap_type === 'sessions'
+      ? `${allowance.sessions_used} ${allowance.sessions_used === 1 ? 'session' : 'sessions'}`
+      : `${allowance.minutes_used.toLocaleString()} min`;
+
+    return (
+      <div className="flex flex-col gap-1">
+        <span className="text-sm">
+          {used}
+          {allowance.cap_type && allowance.cap_value && (
+            <span className="text-muted-foreground"> of {allowance.cap_value.toLocaleString()}</span>
+          )}
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {allowance.is_default ? 'Company default' : describeCap(allowance.cap_type, allowance.cap_value)}
+        </span>
+      </div>
+    );
+  };
+
+  const renderCapFields = (form: CapForm, onChange: (form: CapForm) => void, allowDefault: boolean, idPrefix: string) => (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label>Cap</Label>
+        <Select value={form.choice} onValueChange={(value) => onChange({ ...form, choice: value as CapChoice })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {allowDefault && <SelectItem value="default">Company default</SelectItem>}
+            <SelectItem value="none">No cap</SelectItem>
+            <SelectItem value="minutes">Minutes per period</SelectItem>
+            <SelectItem value="sessions">Sessions per period</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      {(form.choice === 'minutes' || form.choice === 'sessions') && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}CapValue`}>{form.choice === 'minutes' ? 'Minutes' : 'Sessions'}</Label>
+          <Input
+            id={`${idPrefix}CapValue`}
+            type="number"
+            min={1}
+            value={form.value}
+            onChange={(e) => onChange({ ...form, value: Number(e.target.value) })}
+          />
+        </div>
+      )}
+    </div>
+  );
+
   const handleInvite = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -278,6 +447,28 @@ const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ company }) => {
         </CardContent>
       </Card>
 
+      {/* Default allowance cap */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge size={20} />
+            Employee Allowance
+          </CardTitle>
+          <CardDescription>
+            Limit how much of your plan one employee can use each billing period. Employees with their own cap
+            below are not affected by the default.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="flex-1">
+            {renderCapFields(defaultCap, setDefaultCap, false, 'default')}
+          </div>
+          <Button variant="outline" onClick={handleSaveDefaultCap} disabled={savingDefaultCap}>
+            {savingDefaultCap ? 'Saving...' : 'Save Default'}
+          </Button>
+        </CardContent>
+      </Card>
+
       {/* Employee List */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
@@ -336,6 +527,7 @@ const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ company }) => {
                   <TableHead>Status</TableHead>
                   <TableHead>Invited</TableHead>
                   <TableHead>Joined</TableHead>
+                  <TableHead>Used this period</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -352,7 +544,16 @@ const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ company }) => {
                         ? format(new Date(employee.accepted_at), 'MMM d, yyyy')
                         : '-'}
                     </TableCell>
+                    <TableCell>{renderAllowance(employee)}</TableCell>
                     <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openEmployeeCap(employee)}
+                        title="Set allowance cap"
+                      >
+                        <Gauge size={16} />
+                      </Button>
                       <Button
                         variant="ghost"
                         size="sm"
@@ -370,6 +571,27 @@ const EmployeeManagement: React.FC<EmployeeManagementProps> = ({ company }) => {
         </CardContent>
       </Card>
 
+      {/* Employee Cap Dialog */}
+      <Dialog open={!!employeeToCap} onOpenChange={() => setEmployeeToCap(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Allowance for {employeeToCap?.email}</DialogTitle>
+            <DialogDescription>
+              Booking requests that would take this employee over their cap are refused.
+            </DialogDescription>
+          </DialogHeader>
+          {renderCapFields(employeeCap, setEmployeeCap, true, 'employee')}
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setEmployeeToCap(null)} disabled={savingEmployeeCap}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEmployeeCap} disabled={savingEmployeeCap}>
+              {savingEmployeeCap ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Remove Confirmation Dialog */}
       <Dialog open={!!employeeToRemove} onOpenChange={() => setEmployeeToRemove(null)}>
         <DialogContent>
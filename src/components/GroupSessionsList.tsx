@@ -0,0 +1,250 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useUserTimeZone } from '@/hooks/useUserTimeZone';
+import { formatDateInTimeZone, formatTimeInTimeZone } from '@/lib/timezones';
+import { Clock, Hourglass, Loader2, LogOut, UserPlus, Users, Video } from 'lucide-react';
+import VideoCallModal from './VideoCallModal';
+
+interface GroupSession {
+  id: string;
+  title: string;
+  description: string | null;
+  start_time: string;
+  duration_minutes: number;
+  capacity: number;
+  minutes_per_attendee: number;
+  specialist: { full_name: string; specialty: string } | null;
+}
+
+interface Seats {
+  registered_count: number;
+  waitlisted_count: number;
+}
+
+const GroupSessionsList: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const timeZone = useUserTimeZone();
+  const [sessions, setSessions] = useState<GroupSession[]>([]);
+  const [seats, setSeats] = useState<Record<string, Seats>>({});
+  const [myStatus, setMyStatus] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [workingId, setWorkingId] = useState<string | null>(null);
+  const [videoRoom, setVideoRoom] = useState<{ room: string; title: string } | null>(null);
+
+  useEffect(() => {
+    if (user) fetchSessions();
+  }, [user]);
+
+  const fetchSessions = async () => {
+    if (!user) return;
+
+    // Sessions that are still running stay listed so attendees can rejoin
+    const since = new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+      .from('group_sessions')
+      .select(`
+        id, title, description, start_time, duration_minutes, capacity, minutes_per_attendee,
+        specialist:specialists!group_sessions_specialist_id_fkey(full_name, specialty)
+      `)
+      .eq('status', 'scheduled')
+      .gte('start_time', since)
+      .order('start_time', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching group sessions:', error);
+      setLoading(false);
+      return;
+    }
+
+    const visible = ((data || []) as GroupSession[]).filter(
+      (s) => new Date(s.start_time).getTime() + s.duration_minutes * 60 * 1000 > Date.now()
+    );
+    setSessions(visible);
+
+    const sessionIds = visible.map((s) => s.id);
+    if (sessionIds.length > 0) {
+      const [{ data: seatRows }, { data: mine }] = await Promise.all([
+        supabase.rpc('get_group_session_seats', { _session_ids: sessionIds }),
+        supabase
+          .from('group_session_attendees')
+          .select('session_id, status')
+          .eq('employee_user_id', user.id)
+          .in('session_id', sessionIds),
+      ]);
+
+      setSeats(Object.fromEntries((seatRows || []).map((row) => [row.session_id, row])));
+      setMyStatus(Object.fromEntries((mine || []).map((row) => [row.session_id, row.status])));
+    } else {
+      setSeats({});
+      setMyStatus({});
+    }
+
+    setLoading(false);
+  };
+
+  const hasStarted = (session: GroupSession) => new Date(session.start_time).getTime() <= Date.now();
+
+  // Open the room from 15 minutes before the start, matching one-to-one sessions
+  const canJoin = (session: GroupSession) => new Date(session.start_time).getTime() - Date.now() <= 15 * 60 * 1000;
+
+  const handleRegister = async (session: GroupSession) => {
+    setWorkingId(session.id);
+    const { data, error } = await supabase.rpc('register_for_group_session', { _session_id: session.id });
+
+    if (error) {
+      toast({ title: "Couldn't sign up", description: error.message, variant: "destructive" });
+    } else if (data === 'waitlisted') {
+      toast({
+        title: "You're on the waitlist",
+        description: "The session is full. We'll email you if a spot opens up.",
+      });
+    } else {
+      toast({
+        title: "You're registered!",
+        description: `${session.minutes_per_attendee} minutes are reserved from your company's balance.`,
+      });
+    }
+    setWorkingId(null);
+    fetchSessions();
+  };
+
+  const handleLeave = async (session: GroupSession) => {
+    setWorkingId(session.id);
+    const { data: promotedId, error } = await supabase.rpc('leave_group_session', { _session_id: session.id });
+
+    if (error) {
+      toast({ title: "Couldn't leave the session", description: error.message, variant: "destructive" });
+    } else {
+      if (promotedId) {
+        supabase.functions.invoke('notify-group-session', {
+          body: { sessionId: session.id, event: 'promoted', attendeeId: promotedId },
+        }).catch(err => console.error('Failed to notify promoted attendee:', err));
+      }
+      toast({ title: "You've left the session", description: "Your reserved minutes have been released." });
+    }
+    setWorkingId(null);
+    fetchSessions();
+  };
+
+  const handleJoin = async (session: GroupSession) => {
+    const { data, error } = await supabase.rpc('get_group_session_room', { _session_id: session.id });
+
+    if (error || !data) {
+      toast({ title: "Couldn't open the room", description: error?.message, variant: "destructive" });
+      return;
+    }
+    setVideoRoom({ room: data, title: session.title });
+  };
+
+  if (loading) {
+    return (
+      <div className="space-y-4">
+        {[1, 2].map((i) => <div key={i} className="h-32 bg-muted rounded-xl animate-pulse" />)}
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users size={20} />
+          Group Sessions
+        </CardTitle>
+        <CardDescription>
+          Classes and workshops you can join with colleagues. Minutes are charged to your company once the session ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sessions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Users className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>No upcoming group sessions</p>
+            <p className="text-sm">Check back soon for new classes and workshops.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sessions.map((session) => {
+              const status = myStatus[session.id];
+              const registered = seats[session.id]?.registered_count ?? 0;
+              const spotsLeft = Math.max(0, session.capacity - registered);
+              const isWorking = workingId === session.id;
+
+              return (
+                <div key={session.id} className="p-4 rounded-lg border space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-semibold">{session.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        with {session.specialist?.full_name || 'a specialist'}
+                      </p>
+                    </div>
+                    {status === 'registered' && <Badge className="bg-primary">Registered</Badge>}
+                    {status === 'waitlisted' && (
+                      <Badge variant="outline" className="flex items-center gap-1">
+                        <Hourglass size={12} /> Waitlisted
+                      </Badge>
+                    )}
+                  </div>
+
+                  {session.description && (
+                    <p className="text-sm text-muted-foreground">{session.description}</p>
+                  )}
+
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Clock size={14} />
+                      {formatDateInTimeZone(session.start_time, timeZone)} at {formatTimeInTimeZone(session.start_time, timeZone)}
+                    </span>
+                    <span>{session.duration_minutes} min</span>
+                    <span>{session.minutes_per_attendee} minutes per attendee</span>
+                    <span>{spotsLeft > 0 ? `${spotsLeft} of ${session.capacity} spots left` : 'Full'}</span>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {status === 'registered' && canJoin(session) && (
+                      <Button size="sm" variant="wellness" onClick={() => handleJoin(session)}>
+                        <Video size={16} />
+                        Join Session
+                      </Button>
+                    )}
+                    {(status === 'registered' || status === 'waitlisted') && !hasStarted(session) && (
+                      <Button size="sm" variant="outline" onClick={() => handleLeave(session)} disabled={isWorking}>
+                        {isWorking ? <Loader2 size={16} className="animate-spin" /> : <LogOut size={16} />}
+                        {status === 'waitlisted' ? 'Leave Waitlist' : 'Cancel Registration'}
+                      </Button>
+                    )}
+                    {(!status || status === 'cancelled') && !hasStarted(session) && (
+                      <Button size="sm" onClick={() => handleRegister(session)} disabled={isWorking}>
+                        {isWorking ? <Loader2 size={16} className="animate-spin" /> : <UserPlus size={16} />}
+                        {spotsLeft > 0 ? 'Register' : 'Join Waitlist'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {videoRoom && (
+        <VideoCallModal
+          meetingLink={videoRoom.room}
+          open={!!videoRoom}
+          onClose={() => setVideoRoom(null)}
+          userType="employee"
+          participantName={videoRoom.title}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default GroupSessionsList;
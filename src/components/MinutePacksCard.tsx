@@ -0,0 +1,206 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
+import { formatMoney } from '@/lib/currency';
+import { cn } from '@/lib/utils';
+import { Loader2, PackagePlus } from 'lucide-react';
+
+interface MinutePack {
+  id: string;
+  minutes: number;
+  amount_cents: number;
+  currency: string;
+  status: string;
+  paid_at: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+// A pack on sale now, from minute_pack_offers
+interface PackOffer {
+  pack_id: string;
+  minutes: number;
+  validity_days: number;
+  price_cents: number;
+}
+
+interface MinutePacksCardProps {
+  companyId: string;
+  // The company's billing currency; packs are offered and charged in it
+  currency: string;
+  onPurchased?: () => void;
+}
+
+// Purchases shown under the pack offers, newest first
+const MAX_PURCHASES = 10;
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+
+const MinutePacksCard: React.FC<MinutePacksCardProps> = ({ companyId, currency, onPurchased }) => {
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [offers, setOffers] = useState<PackOffer[]>([]);
+  const [purchases, setPurchases] = useState<MinutePack[]>([]);
+  const [buyingPackId, setBuyingPackId] = useState<string | null>(null);
+  // Links from the low minutes email point at a specific pack
+  const [highlightedPackId, setHighlightedPackId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchPurchases();
+  }, [companyId]);
+
+  useEffect(() => {
+    fetchOffers();
+  }, [currency]);
+
+  useEffect(() => {
+    const topup = searchParams.get('topup');
+    if (!topup) return;
+
+    if (topup === 'success') {
+      toast({
+        title: "Payment received",
+        description: "Your minutes will be added as soon as Stripe confirms the payment.",
+      });
+      // The webhook usually lands within seconds of the redirect
+      setTimeout(() => {
+        fetchPurchases();
+        onPurchased?.();
+      }, 3000);
+    } else {
+      setHighlightedPackId(topup);
+    }
+
+    searchParams.delete('topup');
+    setSearchParams(searchParams, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchParams]);
+
+  const fetchOffers = async () => {
+    const { data, error } = await supabase.rpc('minute_pack_offers', { _currency: currency });
+
+    if (error) {
+      console.error('Error fetching minute pack offers:', error);
+      return;
+    }
+    setOffers(data || []);
+  };
+
+  const fetchPurchases = async () => {
+    const { data, error } = await supabase
+      .from('minute_packs')
+      .select('id, minutes, amount_cents, currency, status, paid_at, expires_at, created_at')
+      .eq('company_id', companyId)
+      .neq('status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(MAX_PURCHASES);
+
+    if (error) {
+      console.error('Error fetching minute packs:', error);
+      return;
+    }
+    setPurchases(data || []);
+  };
+
+  const handleBuy = async (packId: string) => {
+    setBuyingPackId(packId);
+    const { data, error } = await supabase.functions.invoke('create-topup-checkout', {
+      body: { packId },
+    });
+
+    if (error) {
+      toast({
+        title: "Couldn't start checkout",
+        description: await getFunctionErrorMessage(error),
+        variant: "destructive",
+      });
+    } else if (data?.isTestAccount) {
+      toast({ title: "Minutes added!", description: "The pack was added to your balance." });
+      fetchPurchases();
+      onPurchased?.();
+    } else if (data?.url) {
+      window.location.href = data.url;
+      return;
+    }
+    setBuyingPackId(null);
+  };
+
+  const getStatusBadge = (pack: MinutePack) => {
+    if (pack.status === 'expired' || (pack.expires_at && new Date(pack.expires_at) <= new Date())) {
+      return <Badge variant="outline">Expired</Badge>;
+    }
+    return <Badge className="bg-primary">Active</Badge>;
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PackagePlus size={20} />
+          Top-up packs
+        </CardTitle>
+        <CardDescription>
+          Running low before renewal? Add minutes with a one-off payment. Plan minutes are used first, and
+          pack minutes expire after the days shown or at the end of the billing period, whichever comes first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {offers.map((pack) => (
+            <div
+              key={pack.pack_id}
+              className={cn(
+                "p-4 rounded-lg border bg-card flex flex-col gap-3",
+                highlightedPackId === pack.pack_id && "ring-2 ring-primary ring-offset-2"
+              )}
+            >
+              <div>
+                <p className="text-2xl font-bold text-foreground">+{pack.minutes} min</p>
+                <p className="text-sm text-muted-foreground">
+                  {formatMoney(pack.price_cents / 100, currency)} · valid {pack.validity_days} days
+                </p>
+              </div>
+              <Button onClick={() => handleBuy(pack.pack_id)} disabled={buyingPackId !== null}>
+                {buyingPackId === pack.pack_id && <Loader2 size={16} className="animate-spin" />}
+                Buy
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        {purchases.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium mb-2">Purchased packs</h4>
+            <div className="divide-y">
+              {purchases.map((pack) => (
+                <div key={pack.id} className="flex items-center justify-between gap-3 py-3">
+                  <div>
+                    <p className="text-sm font-medium">
+                      {pack.minutes} minutes
+                      {pack.amount_cents > 0 && (
+                        <span className="text-muted-foreground"> · {formatMoney(pack.amount_cents / 100, pack.currency)}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Bought {formatDate(pack.paid_at || pack.created_at)}
+                      {pack.expires_at && ` · expires ${formatDate(pack.expires_at)}`}
+                    </p>
+                  </div>
+                  {getStatusBadge(pack)}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MinutePacksCard;
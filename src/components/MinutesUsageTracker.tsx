@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -11,41 +11,73 @@ import {
   DialogHeader, 
   DialogTitle 
 } from '@/components/ui/dialog';
-import { Clock, TrendingUp, Zap, AlertTriangle, XCircle, ArrowDownCircle, ArrowUpCircle, Check, Building2, Loader2, CreditCard } from 'lucide-react';
-import { WELLNESS_PLANS, PLANS, isTestAccountEmail } from '@/lib/plans';
+import { Clock, TrendingUp, Zap, AlertTriangle, XCircle, ArrowDownCircle, ArrowUpCircle, Check, Building2, Loader2, CreditCard, Hourglass, CalendarClock } from 'lucide-react';
+import { describeRollover, isTestAccountEmail } from '@/lib/plans';
+import { usePricingCatalog } from '@/hooks/usePricingCatalog';
+import { formatMoney, isCurrency } from '@/lib/currency';
 import { supabase } from '@/integrations/supabase/client';
+import { getFunctionErrorMessage } from '@/lib/functionErrors';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
+// From preview_plan_change; minutes are plan minutes for the rest of the current period
+interface PlanChangePreview {
+  planId: string;
+  direction: string;
+  currency: string;
+  new_price_cents: number;
+  prorated_cents: number;
+  new_allowance: number;
+  minutes_committed: number;
+  minutes_left_after: number;
+  applies_now: boolean;
+  period_end: string;
+}
+
 interface MinutesUsageTrackerProps {
   company: {
+    id: string;
     plan_type: string | null;
+    scheduled_plan_type?: string | null;
     minutes_included: number | null;
     minutes_used: number | null;
+    minutes_reserved: number | null;
     subscription_period_end: string | null;
+    billing_currency: string;
+    billing_interval?: string;
   };
 }
 
 const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const navigate = useNavigate();
+  const { plans, tiers } = usePricingCatalog(isCurrency(company.billing_currency) ? company.billing_currency : 'usd');
   const [upgradeModalOpen, setUpgradeModalOpen] = useState(false);
-  const [downgradeConfirmOpen, setDowngradeConfirmOpen] = useState(false);
   const [upgradeLoading, setUpgradeLoading] = useState(false);
   const [portalLoading, setPortalLoading] = useState(false);
   const [selectedPlanId, setSelectedPlanId] = useState<string | null>(null);
-  const [pendingPlanId, setPendingPlanId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<PlanChangePreview | null>(null);
+  const [changeLoading, setChangeLoading] = useState(false);
 
   const planType = company.plan_type || 'starter';
+  // Plan changes keep the contract's billing interval
+  const isAnnual = company.billing_interval === 'year';
+  const intervalLabel = isAnnual ? 'year' : 'month';
   const minutesIncluded = company.minutes_included || 0;
   const minutesUsed = company.minutes_used || 0;
-  const minutesRemaining = Math.max(0, minutesIncluded - minutesUsed);
+  // Held for approved sessions that haven't taken place yet
+  const minutesReserved = company.minutes_reserved || 0;
+  const minutesRemaining = Math.max(0, minutesIncluded - minutesUsed - minutesReserved);
   const usagePercentage = minutesIncluded > 0 ? (minutesUsed / minutesIncluded) * 100 : 0;
+  const reservedPercentage = minutesIncluded > 0 ? (minutesReserved / minutesIncluded) * 100 : 0;
+  const committedPercentage = usagePercentage + reservedPercentage;
   
-  const currentPlan = PLANS.find(p => p.id === planType) || PLANS[0];
-  const currentPlanIndex = PLANS.findIndex(p => p.id === planType);
-  const availableUpgrades = PLANS.filter((_, index) => index > currentPlanIndex);
+  const currentPlan = plans.find(p => p.id === planType) || plans[0];
+  const currentPlanIndex = plans.findIndex(p => p.id === planType);
+  const availableUpgrades = plans.filter((_, index) => index > currentPlanIndex);
+  const planPrice = (plan: typeof currentPlan) => (isAnnual ? plan.annualPrice : plan.price);
   
   const formatMinutes = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
@@ -61,6 +93,9 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
     return `${displayHours}h ${minsStr}m`;
   };
 
+  const formatDate = (value: string | null) =>
+    value ? new Date(value).toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' }) : '-';
+
   const getDaysRemaining = () => {
     if (!company.subscription_period_end) return null;
     const endDate = new Date(company.subscription_period_end);
@@ -78,7 +113,7 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
 
     try {
       const { data, error } = await supabase.functions.invoke('create-checkout', {
-        body: { planType: newPlanId },
+        body: { planType: newPlanId, interval: company.billing_interval ?? 'month', currency: company.billing_currency },
       });
 
       if (error) throw error;
@@ -112,17 +147,63 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
     }
   };
 
-  const requestPlanChange = (newPlanId: string) => {
-    const newIndex = PLANS.findIndex((p) => p.id === newPlanId);
-    const isDowngrade = newIndex !== -1 && newIndex < currentPlanIndex;
+  // Companies without a plan yet go through checkout; a subscription is changed in place after a preview
+  const requestPlanChange = async (newPlanId: string) => {
+    if (!company.plan_type) {
+      void handleUpgradePlan(newPlanId);
+      return;
+    }
 
-    if (isDowngrade) {
-      setPendingPlanId(newPlanId);
-      setDowngradeConfirmOpen(true);
+    setSelectedPlanId(newPlanId);
+    setUpgradeLoading(true);
+    const { data, error } = await supabase.rpc('preview_plan_change', {
+      _company_id: company.id,
+      _plan_type: newPlanId,
+    });
+    setUpgradeLoading(false);
+    setSelectedPlanId(null);
+
+    if (error || !data?.[0]) {
+      toast({
+        title: "Unable to preview plan change",
+        description: error?.message || "Please try again.",
+        variant: "destructive",
+      });
       return;
     }
 
-    void handleUpgradePlan(newPlanId);
+    setPreview({ planId: newPlanId, ...data[0] });
+  };
+
+  const handleChangePlan = async (newPlanId: string, schedule: boolean) => {
+    setChangeLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('change-plan', {
+        body: { planType: newPlanId, schedule },
+      });
+      if (error) throw error;
+
+      const planName = plans.find((p) => p.id === newPlanId)?.name ?? newPlanId;
+      toast({
+        title: data.mode === 'cancel' ? "Plan change cancelled" : data.mode === 'scheduled' ? "Plan change scheduled" : "Plan changed",
+        description: data.mode === 'cancel'
+          ? `You'll stay on the ${planName} plan.`
+          : data.mode === 'scheduled'
+            ? `You'll move to the ${planName} plan on ${formatDate(data.appliesAt)}.`
+            : `You're now on the ${planName} plan.`,
+      });
+      setPreview(null);
+      setUpgradeModalOpen(false);
+      window.location.reload();
+    } catch (error) {
+      toast({
+        title: "Plan change failed",
+        description: await getFunctionErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setChangeLoading(false);
+    }
   };
 
   const handleManageSubscription = async () => {
@@ -156,10 +237,10 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
   };
 
   const daysRemaining = getDaysRemaining();
-  const isLowOnMinutes = usagePercentage >= 80;
-  const isCriticallyLow = usagePercentage >= 95;
+  const isLowOnMinutes = committedPercentage >= 80;
+  const isCriticallyLow = committedPercentage >= 95;
   // We keep the "Upgrade Plan" wording, but allow selecting any other plan (including downgrades).
-  const canUpgrade = PLANS.length > 1;
+  const canUpgrade = plans.length > 1;
 
   return (
     <div className="space-y-6">
@@ -179,8 +260,23 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
                   </Badge>
                 </div>
                 <CardDescription className="text-base">
-                  ${currentPlan.price}/month • {currentPlan.hours} hours of wellness sessions
+                  {formatMoney(planPrice(currentPlan), currentPlan.currency)}/{intervalLabel} • {currentPlan.hours} hours of wellness sessions a month
                 </CardDescription>
+                {company.scheduled_plan_type && (
+                  <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                    <CalendarClock className="h-4 w-4" />
+                    Moves to the {plans.find((p) => p.id === company.scheduled_plan_type)?.name ?? company.scheduled_plan_type} plan
+                    on {formatDate(company.subscription_period_end)}
+                    <Button
+                      variant="link"
+                      className="p-0 h-auto ml-1 underline"
+                      disabled={changeLoading}
+                      onClick={() => void handleChangePlan(planType, false)}
+                    >
+                      Keep {currentPlan.name}
+                    </Button>
+                  </p>
+                )}
               </div>
             </div>
             <div className="flex items-center gap-2">
@@ -217,10 +313,15 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
             </div>
             <div className="text-center p-3 border-x border-primary/10">
               <p className="text-sm text-muted-foreground">Price per Minute</p>
-              <p className="text-2xl font-bold text-foreground">${(currentPlan.price / currentPlan.minutes).toFixed(2)}</p>
+              <p className="text-2xl font-bold text-foreground">
+                {formatMoney(
+                  Math.round((planPrice(currentPlan) / (currentPlan.minutes * (isAnnual ? 12 : 1))) * 100) / 100,
+                  currentPlan.currency,
+                )}
+              </p>
             </div>
             <div className="text-center p-3">
-              <p className="text-sm text-muted-foreground">Renewal</p>
+              <p className="text-sm text-muted-foreground">{isAnnual ? 'Contract Renewal' : 'Renewal'}</p>
               <p className="text-2xl font-bold text-foreground">
                 {daysRemaining !== null ? `${daysRemaining}d` : '-'}
               </p>
@@ -243,7 +344,7 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
           <AlertDescription className={isCriticallyLow ? "" : "text-amber-600 dark:text-amber-300"}>
             {isCriticallyLow 
               ? `You have only ${formatMinutes(minutesRemaining)} remaining. Consider upgrading your plan to avoid service interruption.`
-              : `You've used ${Math.round(usagePercentage)}% of your monthly wellness minutes. ${formatMinutes(minutesRemaining)} remaining.`
+              : `You've used or reserved ${Math.round(committedPercentage)}% of your monthly wellness minutes. ${formatMinutes(minutesRemaining)} remaining.`
             }
             {canUpgrade && (
               <Button 
@@ -254,6 +355,13 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
                 Upgrade now
               </Button>
             )}
+            <Button
+              variant="link"
+              className="p-0 h-auto ml-2 text-inherit underline"
+              onClick={() => navigate('/company-billing')}
+            >
+              Buy a top-up pack
+            </Button>
           </AlertDescription>
         </Alert>
       )}
@@ -288,25 +396,35 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
               <span className="text-muted-foreground ml-2">remaining</span>
             </div>
             <div className="text-right text-sm text-muted-foreground">
-              {formatMinutes(minutesUsed)} of {formatMinutes(minutesIncluded)} used
+              <p>{formatMinutes(minutesUsed)} of {formatMinutes(minutesIncluded)} used</p>
+              {minutesReserved > 0 && (
+                <p>{formatMinutes(minutesReserved)} reserved for upcoming sessions</p>
+              )}
             </div>
           </div>
           
-          <Progress 
-            value={usagePercentage} 
-            className="h-3"
-          />
+          {/* Used minutes, with reserved minutes stacked on top in a lighter shade */}
+          <div className="relative h-3 w-full overflow-hidden rounded-full bg-secondary">
+            <div
+              className="absolute inset-y-0 left-0 bg-primary/40"
+              style={{ width: `${Math.min(100, committedPercentage)}%` }}
+            />
+            <div
+              className="absolute inset-y-0 left-0 bg-primary"
+              style={{ width: `${Math.min(100, usagePercentage)}%` }}
+            />
+          </div>
           
           {daysRemaining !== null && (
             <p className="text-sm text-muted-foreground">
-              {daysRemaining} days until renewal • Minutes reset on renewal
+              {daysRemaining} days until renewal • {describeRollover(currentPlan.rollover, currentPlan.minutes)}
             </p>
           )}
         </CardContent>
       </Card>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center gap-3">
@@ -321,6 +439,20 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
           </CardContent>
         </Card>
 
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center gap-3">
+              <div className="p-2 rounded-lg bg-amber-500/10">
+                <Hourglass className="h-5 w-5 text-amber-500" />
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Reserved</p>
+                <p className="text-2xl font-semibold">{formatMinutes(minutesReserved)}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center gap-3">
@@ -359,15 +491,15 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
           </p>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
             {[
-              { tier: 'Standard', multiplier: 1, color: 'bg-slate-500' },
-              { tier: 'Advanced', multiplier: 1.6, color: 'bg-blue-500' },
-              { tier: 'Expert', multiplier: 2.4, color: 'bg-purple-500' },
-              { tier: 'Master', multiplier: 3.2, color: 'bg-amber-500' },
-            ].map((t) => (
-              <div key={t.tier} className="flex items-center gap-2 text-sm">
+              { id: 'standard', color: 'bg-slate-500' },
+              { id: 'advanced', color: 'bg-blue-500' },
+              { id: 'expert', color: 'bg-purple-500' },
+              { id: 'master', color: 'bg-amber-500' },
+            ].filter((t) => tiers[t.id]).map((t) => (
+              <div key={t.id} className="flex items-center gap-2 text-sm">
                 <div className={`w-2 h-2 rounded-full ${t.color}`} />
-                <span className="text-muted-foreground">{t.tier}:</span>
-                <span className="font-medium">{t.multiplier}x</span>
+                <span className="text-muted-foreground">{tiers[t.id].name}:</span>
+                <span className="font-medium">{tiers[t.id].minuteMultiplier}x</span>
               </div>
             ))}
           </div>
@@ -380,13 +512,14 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
           <DialogHeader>
             <DialogTitle>Upgrade Your Plan</DialogTitle>
             <DialogDescription>
-              Get more wellness minutes for your team. Changes take effect immediately.
+              Get more wellness minutes for your team, or move to a smaller plan. You'll see what changes before confirming.
             </DialogDescription>
           </DialogHeader>
           
           <div className="space-y-4 py-4">
             <div className="grid gap-4">
-              {PLANS.map((plan, index) => {
+              {plans.map((plan, index) => {
+                if (isAnnual && plan.annualPrice <= 0) return null;
                 const isCurrentPlan = plan.id === planType;
                 const isDowngrade = index < currentPlanIndex;
                 const isUpgrade = index > currentPlanIndex;
@@ -402,7 +535,7 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
                       isCurrentPlan && "border-primary border-2 bg-primary/5",
                       isChange && "cursor-pointer hover:border-primary/50 hover:shadow-md"
                     )}
-                    onClick={() => isChange && !upgradeLoading && requestPlanChange(plan.id)}
+                    onClick={() => isChange && !upgradeLoading && void requestPlanChange(plan.id)}
                   >
                     <CardContent className="p-4">
                       <div className="flex items-center justify-between">
@@ -428,11 +561,14 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
                             <p className="text-sm text-muted-foreground">
                               {plan.minutes.toLocaleString()} minutes • {plan.hours} hours/month
                             </p>
+                            <p className="text-xs text-muted-foreground">
+                              {describeRollover(plan.rollover, plan.minutes)}
+                            </p>
                           </div>
                         </div>
                         <div className="text-right">
-                          <p className="text-xl font-bold">${plan.price}</p>
-                          <p className="text-sm text-muted-foreground">/month</p>
+                          <p className="text-xl font-bold">{formatMoney(planPrice(plan), plan.currency)}</p>
+                          <p className="text-sm text-muted-foreground">/{intervalLabel}</p>
                         </div>
                       </div>
                       
@@ -453,7 +589,7 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
                             disabled={upgradeLoading}
                             onClick={(e) => {
                               e.stopPropagation();
-                              requestPlanChange(plan.id);
+                              void requestPlanChange(plan.id);
                             }}
                           >
                             {upgradeLoading && selectedPlanId === plan.id ? (
@@ -477,66 +613,109 @@ const MinutesUsageTracker: React.FC<MinutesUsageTrackerProps> = ({ company }) =>
             </div>
             
             <p className="text-xs text-muted-foreground text-center">
-              Upgrades are prorated. You'll only pay the difference for the remaining billing period.
+              {isAnnual
+                ? "Changes are prorated over what's left of your annual contract. You'll see the charge and your new allowance before confirming."
+                : "Changes are prorated over the remaining billing period. You'll see the charge and your new allowance before confirming."}
             </p>
           </div>
         </DialogContent>
       </Dialog>
 
-      {/* Downgrade confirmation */}
-      <Dialog open={downgradeConfirmOpen} onOpenChange={setDowngradeConfirmOpen}>
+      {/* Plan change preview */}
+      <Dialog open={!!preview} onOpenChange={(open) => !open && !changeLoading && setPreview(null)}>
         <DialogContent className="sm:max-w-lg">
-          <DialogHeader>
-            <DialogTitle>Confirm plan change</DialogTitle>
-            <DialogDescription>
-              You selected a lower plan. Downgrades take effect at your next renewal, and your minutes allowance resets on renewal.
-            </DialogDescription>
-          </DialogHeader>
+          {preview && (() => {
+            const newPlan = plans.find((p) => p.id === preview.planId);
+            const isDowngrade = preview.direction === 'downgrade';
+            const renewalDate = formatDate(preview.period_end);
 
-          <div className="space-y-4">
-            <div className="rounded-lg border bg-secondary/30 p-4 text-sm text-muted-foreground">
-              <p className="font-medium text-foreground">What happens next?</p>
-              <ul className="mt-2 list-disc pl-5 space-y-1">
-                <li>Your current plan stays active until the end of the billing period.</li>
-                <li>The new (lower) plan starts on your next renewal date.</li>
-                <li>Minutes are reset on renewal based on the new plan allowance.</li>
-              </ul>
-            </div>
+            return (
+              <>
+                <DialogHeader>
+                  <DialogTitle>
+                    {isDowngrade ? 'Downgrade' : 'Upgrade'} to {newPlan?.name ?? preview.planId}
+                  </DialogTitle>
+                  <DialogDescription>
+                    {preview.applies_now
+                      ? 'This change applies straight away.'
+                      : `This change can only start at your next renewal on ${renewalDate}.`}
+                  </DialogDescription>
+                </DialogHeader>
 
-            <div className="flex justify-end gap-2">
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setDowngradeConfirmOpen(false);
-                  setPendingPlanId(null);
-                }}
-              >
-                Cancel
-              </Button>
-              <Button
-                onClick={() => {
-                  if (!pendingPlanId) return;
-                  setDowngradeConfirmOpen(false);
-                  void handleUpgradePlan(pendingPlanId);
-                  setPendingPlanId(null);
-                }}
-                disabled={upgradeLoading || !pendingPlanId}
-                className="gap-2"
-              >
-                {upgradeLoading ? (
-                  <>
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                    Processing…
-                  </>
-                ) : (
-                  <>
-                    <ArrowUpCircle className="h-4 w-4" />
-                    Upgrade
-                  </>
-                )}
-              </Button>
-            </div>
-          </div>
+                <div className="space-y-4">
+                  {preview.applies_now ? (
+                    <div className="rounded-lg border bg-secondary/30 p-4 text-sm space-y-2">
+                      <div className="flex justify-between gap-4">
+                        <span className="text-muted-foreground">
+                          {preview.prorated_cents < 0 ? 'Prorated credit' : 'Prorated charge today'}
+                        </span>
+                        <span className="font-medium">{formatMoney(Math.abs(preview.prorated_cents) / 100, preview.currency)}</span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-muted-foreground">Plan minutes this period</span>
+                        <span className="font-medium">{preview.new_allowance.toLocaleString()} minutes</span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-muted-foreground">Minutes left after the change</span>
+                        <span className="font-medium">{formatMinutes(preview.minutes_left_after)}</span>
+                      </div>
+                      <div className="flex justify-between gap-4">
+                        <span className="text-muted-foreground">From {renewalDate}</span>
+                        <span className="font-medium">
+                          {formatMoney(preview.new_price_cents / 100, preview.currency)}/{intervalLabel}
+                        </span>
+                      </div>
+                    </div>
+                  ) : (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>Your team's usage doesn't fit the smaller plan yet</AlertTitle>
+                      <AlertDescription>
+                        {isAnnual && currentPlan.annualAllowance === 'yearly'
+                          ? "Your year's minutes were granted upfront, so a smaller plan starts with your next contract."
+                          : `${formatMinutes(preview.minutes_committed)} have already been used or reserved this period, more than the ${newPlan?.name ?? preview.planId} plan includes.`}
+                        {' '}You can switch on {renewalDate} and pay{' '}
+                        {formatMoney(preview.new_price_cents / 100, preview.currency)}/{intervalLabel} from then.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    <Button variant="outline" onClick={() => setPreview(null)} disabled={changeLoading}>
+                      Cancel
+                    </Button>
+                    {isDowngrade && (
+                      <Button
+                        variant={preview.applies_now ? 'outline' : 'default'}
+                        onClick={() => void handleChangePlan(preview.planId, true)}
+                        disabled={changeLoading}
+                        className="gap-2"
+                      >
+                        <CalendarClock className="h-4 w-4" />
+                        Switch on {renewalDate}
+                      </Button>
+                    )}
+                    {preview.applies_now && (
+                      <Button
+                        onClick={() => void handleChangePlan(preview.planId, false)}
+                        disabled={changeLoading}
+                        className="gap-2"
+                      >
+                        {changeLoading ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : isDowngrade ? (
+                          <ArrowDownCircle className="h-4 w-4" />
+                        ) : (
+                          <ArrowUpCircle className="h-4 w-4" />
+                        )}
+                        {isDowngrade ? 'Downgrade now' : 'Confirm upgrade'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </>
+            );
+          })()}
         </DialogContent>
       </Dialog>
     </div>
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Globe } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getTimeZoneAbbreviation, isSameLocalTime, isValidTimeZone } from '@/lib/timezones';
+
+interface OtherPartyTimeProps {
+  datetime: string;
+  viewerTimeZone: string;
+  otherTimeZone?: string | null;
+  label: string;
+  className?: string;
+}
+
+// Shows the session time as the other participant will see it.
+// Hidden when their timezone is unknown or matches the viewer's clock.
+const OtherPartyTime: React.FC<OtherPartyTimeProps> = ({
+  datetime,
+  viewerTimeZone,
+  otherTimeZone,
+  label,
+  className,
+}) => {
+  if (!otherTimeZone || !isValidTimeZone(otherTimeZone) || isSameLocalTime(datetime, viewerTimeZone, otherTimeZone)) {
+    return null;
+  }
+
+  const localTime = new Date(datetime).toLocaleString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: otherTimeZone,
+  });
+
+  return (
+    <span className={cn('flex items-center gap-1 text-xs text-muted-foreground', className)}>
+      <Globe size={12} />
+      {label}: {localTime} {getTimeZoneAbbreviation(datetime, otherTimeZone)}
+    </span>
+  );
+};
+
+export default OtherPartyTime;
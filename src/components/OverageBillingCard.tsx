@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/currency';
+import { Gauge, Loader2 } from 'lucide-react';
+
+type CompanyOverage = {
+  overage_enabled: boolean;
+  overage_limit_cents: number | null;
+  currency: string;
+  rate_cents_per_minute: number | null;
+  minutes: number;
+  amount_cents: number;
+  minutes_left: number;
+};
+
+interface OverageBillingCardProps {
+  companyId: string;
+  onChanged?: () => void;
+}
+
+const OverageBillingCard: React.FC<OverageBillingCardProps> = ({ companyId, onChanged }) => {
+  const { toast } = useToast();
+  const [overage, setOverage] = useState<CompanyOverage | null>(null);
+  const [enabled, setEnabled] = useState(false);
+  const [limit, setLimit] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchOverage();
+  }, [companyId]);
+
+  const fetchOverage = async () => {
+    const { data, error } = await supabase.rpc('get_company_overage', { _company_id: companyId });
+    if (error) {
+      console.error('Error fetching overage:', error);
+      return;
+    }
+    const row = (data as CompanyOverage[] | null)?.[0] ?? null;
+    setOverage(row);
+    setEnabled(row?.overage_enabled ?? false);
+    setLimit(row?.overage_limit_cents ? String(row.overage_limit_cents / 100) : '');
+  };
+
+  const handleSave = async () => {
+    const limitCents = Math.round(Number(limit) * 100);
+    if (enabled && (!Number.isFinite(limitCents) || limitCents <= 0)) {
+      toast({ title: "Spending limit required", description: "Enter the most you want to spend on overage each month.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('companies')
+      .update({ overage_enabled: enabled, overage_limit_cents: enabled ? limitCents : overage?.overage_limit_cents ?? null })
+      .eq('id', companyId);
+
+    if (error) {
+      toast({ title: "Couldn't save overage settings", description: error.message, variant: "destructive" });
+    } else {
+      // The setup_company_overage_billing trigger puts the metered price on the subscription
+      toast({
+        title: enabled ? "Overage billing on" : "Overage billing off",
+        description: enabled
+          ? `Bookings can continue past your allowance, up to ${formatMoney(limitCents / 100, overage?.currency)} a month.`
+          : "Bookings stop once your allowance is used up.",
+      });
+      await fetchOverage();
+      onChanged?.();
+    }
+    setSaving(false);
+  };
+
+  if (!overage) return null;
+
+  const currency = overage.currency;
+  const rate = overage.rate_cents_per_minute;
+  const limitCents = overage.overage_limit_cents ?? 0;
+  const percent = limitCents > 0 ? Math.min(100, Math.round((overage.amount_cents / limitCents) * 100)) : 0;
+  const isDirty = enabled !== overage.overage_enabled
+    || (enabled && Math.round(Number(limit) * 100) !== overage.overage_limit_cents);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge size={20} />
+          Overage
+          {overage.overage_enabled && <Badge variant="secondary">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          {rate
+            ? `Keep booking once your allowance is used up, at ${formatMoney(rate / 100, currency)} per minute, up to a monthly spending limit. Overage is added to your next invoice.`
+            : "Your plan doesn't include overage. Top-up packs or a bigger plan add minutes instead."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center justify-between gap-4 p-3 rounded-lg border">
+          <div className="min-w-0">
+            <p className="text-sm font-medium">Overage this period</p>
+            <p className="text-xs text-muted-foreground">
+              {overage.minutes.toLocaleString()} min
+              {rate && ` × ${formatMoney(rate / 100, currency)}`}
+              {overage.overage_enabled && limitCents > 0 && ` · ${formatMoney(limitCents / 100, currency)} limit`}
+            </p>
+          </div>
+          <span className="text-lg font-semibold shrink-0">{formatMoney(overage.amount_cents / 100, currency)}</span>
+        </div>
+
+        {overage.overage_enabled && limitCents > 0 && (
+          <div className="space-y-1">
+            <Progress value={percent} />
+            <p className="text-xs text-muted-foreground">
+              {overage.minutes_left > 0
+                ? `${overage.minutes_left.toLocaleString()} more overage minutes before bookings are blocked.`
+                : "The spending limit has been reached. New bookings are blocked until renewal or a higher limit."}
+            </p>
+          </div>
+        )}
+
+        {rate && (
+          <div className="grid gap-4 sm:grid-cols-2 sm:items-end">
+            <div className="flex items-center gap-3">
+              <Switch id="overageEnabled" checked={enabled} onCheckedChange={setEnabled} />
+              <Label htmlFor="overageEnabled">Allow overage</Label>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="overageLimit">Monthly spending limit ({currency.toUpperCase()})</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="overageLimit"
+                  type="number"
+                  min={1}
+                  value={limit}
+                  onChange={(e) => setLimit(e.target.value)}
+                  disabled={!enabled}
+                />
+                <Button onClick={handleSave} disabled={saving || !isDirty}>
+                  {saving && <Loader2 size={16} className="animate-spin" />}
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OverageBillingCard;
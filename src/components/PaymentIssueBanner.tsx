@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Loader2, XCircle } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface PaymentIssueBannerProps {
+  company: {
+    subscription_status: string | null;
+    grace_period_ends_at: string | null;
+  };
+}
+
+// Shown to company admins while a failed payment is outstanding: the grace period, then suspension
+const PaymentIssueBanner: React.FC<PaymentIssueBannerProps> = ({ company }) => {
+  const { toast } = useToast();
+  const [portalLoading, setPortalLoading] = useState(false);
+
+  if (company.subscription_status !== 'past_due' && company.subscription_status !== 'suspended') {
+    return null;
+  }
+
+  const isSuspended = company.subscription_status === 'suspended';
+
+  const handleManagePayment = async () => {
+    setPortalLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('customer-portal');
+      if (error) throw error;
+      if (data.url) {
+        window.open(data.url, '_blank');
+      }
+    } catch (error) {
+      console.error('Portal error:', error);
+      toast({
+        title: "Unable to open portal",
+        description: "Please try again or contact support.",
+        variant: "destructive",
+      });
+    } finally {
+      setPortalLoading(false);
+    }
+  };
+
+  return (
+    <Alert
+      variant={isSuspended ? "destructive" : "default"}
+      className={isSuspended ? "mb-6" : "mb-6 border-amber-500 bg-amber-500/10"}
+    >
+      {isSuspended ? <XCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4 text-amber-500" />}
+      <AlertTitle className={isSuspended ? "" : "text-amber-700 dark:text-amber-400"}>
+        {isSuspended ? "Account suspended" : "Payment failed"}
+      </AlertTitle>
+      <AlertDescription className={isSuspended ? "" : "text-amber-600 dark:text-amber-300"}>
+        {isSuspended
+          ? "Your latest payment is still outstanding, so your team can't book sessions and requests that weren't confirmed yet were cancelled. Access comes back as soon as the payment goes through."
+          : `We couldn't collect your latest payment. Confirmed sessions go ahead, but new bookings are paused${
+              company.grace_period_ends_at
+                ? ` and your account will be suspended on ${format(new Date(company.grace_period_ends_at), 'PPP')}`
+                : ''
+            } unless the payment is settled.`}
+        <Button
+          variant="link"
+          className="p-0 h-auto ml-2 text-inherit underline"
+          onClick={handleManagePayment}
+          disabled={portalLoading}
+        >
+          {portalLoading && <Loader2 size={14} className="animate-spin" />}
+          Update payment details
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default PaymentIssueBanner;
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   Card,
   CardContent,
@@ -10,11 +10,17 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Check, Loader2, Zap, TrendingUp, Building2, UserRound } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { annualSavingsPercent, BillingInterval, describeAnnualAllowance } from "@/lib/plans";
+import { usePricingCatalog } from "@/hooks/usePricingCatalog";
+import { Currency, formatMoney } from "@/lib/currency";
+import CurrencyToggle from "@/components/CurrencyToggle";
 
 export interface Plan {
   id: string;
   name: string;
   price: number;
+  interval: BillingInterval;
+  currency: Currency;
   minutes: number;
   hours: number | string;
   priceId: string;
@@ -23,49 +29,26 @@ export interface Plan {
   offers: string[];
 }
 
-const WELLNESS_PLANS: Plan[] = [
-  {
-    id: "solopreneur",
-    name: "Solopreneur",
-    price: 80,
-    minutes: 60,
-    hours: "1",
-    priceId: "",
+// How each plan is presented; names, prices and minutes come from the pricing catalog
+const PLAN_PRESENTATION: Record<string, { icon: React.ReactNode; popular?: boolean; offers: (minutes: number) => string[] }> = {
+  solopreneur: {
     icon: <UserRound className="w-6 h-6" />,
-    offers: ["1 consultation with 1 specialist", "Access to free courses"],
+    offers: () => ["1 consultation with 1 specialist", "Access to free courses"],
   },
-  {
-    id: "starter",
-    name: "Starter",
-    price: 340,
-    minutes: 500,
-    hours: "8.3",
-    priceId: "price_1T2EXyGqEX4plgbe5klHtV5y",
+  starter: {
     icon: <Zap className="w-6 h-6" />,
-    offers: ["500 wellness minutes", "Access to all specialists", "Unlimited employees"],
+    offers: (minutes) => [`${minutes.toLocaleString()} wellness minutes`, "Access to all specialists", "Unlimited employees"],
   },
-  {
-    id: "growth",
-    name: "Growth",
-    price: 950,
-    minutes: 1500,
-    hours: "25",
-    priceId: "price_1T2EYQGqEX4plgbewYPw9C39",
+  growth: {
     icon: <TrendingUp className="w-6 h-6" />,
     popular: true,
-    offers: ["1,500 wellness minutes", "Access to all specialists", "Unlimited employees"],
+    offers: (minutes) => [`${minutes.toLocaleString()} wellness minutes`, "Access to all specialists", "Unlimited employees"],
   },
-  {
-    id: "scale",
-    name: "Scale",
-    price: 1850,
-    minutes: 3600,
-    hours: "60",
-    priceId: "price_1T2EYvGqEX4plgbe2d6taMm5",
+  scale: {
     icon: <Building2 className="w-6 h-6" />,
-    offers: ["3,600 wellness minutes", "Access to all specialists", "Unlimited employees"],
+    offers: (minutes) => [`${minutes.toLocaleString()} wellness minutes`, "Access to all specialists", "Unlimited employees"],
   },
-];
+};
 
 interface PlanSelectionProps {
   onSelectPlan: (plan: Plan) => void;
@@ -79,6 +62,36 @@ const PlanSelection: React.FC<PlanSelectionProps> = ({
   selectedPlanId,
 }) => {
   const [hoveredPlan, setHoveredPlan] = useState<string | null>(null);
+  const [currency, setCurrency] = useState<Currency>("usd");
+  const [interval, setBillingInterval] = useState<BillingInterval>("month");
+  const { plans: catalogPlans } = usePricingCatalog(currency);
+
+  const maxSavings = Math.max(0, ...catalogPlans.map((plan) => annualSavingsPercent(plan.price, plan.annualPrice)));
+
+  // Plans without an annual price are only offered monthly
+  const wellnessPlans = useMemo<Plan[]>(
+    () =>
+      catalogPlans
+        .filter((plan) => interval === "month" || plan.annualPrice > 0)
+        .map((plan) => {
+          const presentation = PLAN_PRESENTATION[plan.id];
+          const offers = presentation?.offers(plan.minutes) ?? [`${plan.minutes.toLocaleString()} wellness minutes`];
+          return {
+            id: plan.id,
+            name: plan.name,
+            price: interval === "year" ? plan.annualPrice : plan.price,
+            interval,
+            currency: plan.currency,
+            minutes: plan.minutes,
+            hours: plan.hours,
+            priceId: plan.priceId,
+            icon: presentation?.icon ?? <Zap className="w-6 h-6" />,
+            popular: presentation?.popular,
+            offers: interval === "year" ? [...offers, describeAnnualAllowance(plan.annualAllowance, plan.minutes)] : offers,
+          };
+        }),
+    [catalogPlans, interval],
+  );
 
   return (
     <div className="space-y-6">
@@ -89,10 +102,35 @@ const PlanSelection: React.FC<PlanSelectionProps> = ({
         <p className="text-muted-foreground mt-2">
           Purchase monthly wellness minutes for your team
         </p>
+        <div className="mt-4 flex flex-wrap items-center justify-center gap-3">
+          <div className="inline-flex rounded-lg border p-1 gap-1" role="radiogroup" aria-label="Billing interval">
+            {(["month", "year"] as const).map((option) => (
+              <Button
+                key={option}
+                type="button"
+                size="sm"
+                variant={interval === option ? "default" : "ghost"}
+                role="radio"
+                aria-checked={interval === option}
+                onClick={() => setBillingInterval(option)}
+                className="h-7 px-3"
+              >
+                {option === "month" ? "Monthly" : "Yearly"}
+                {option === "year" && maxSavings > 0 && (
+                  <span className="ml-1 text-xs opacity-80">save up to {maxSavings}%</span>
+                )}
+              </Button>
+            ))}
+          </div>
+          <CurrencyToggle value={currency} onChange={setCurrency} />
+        </div>
+        <p className="text-xs text-muted-foreground mt-2">
+          Your company is billed in the currency you choose here
+        </p>
       </div>
 
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
-        {WELLNESS_PLANS.map((plan) => (
+        {wellnessPlans.map((plan) => (
           <Card
             key={plan.id}
             className={cn(
@@ -121,8 +159,13 @@ const PlanSelection: React.FC<PlanSelectionProps> = ({
             </CardHeader>
             <CardContent className="text-center space-y-4">
               <div>
-                <span className="text-4xl font-bold">${plan.price}</span>
-                <span className="text-muted-foreground">/month</span>
+                <span className="text-4xl font-bold">{formatMoney(plan.price, plan.currency)}</span>
+                <span className="text-muted-foreground">/{plan.interval}</span>
+                {plan.interval === "year" && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatMoney(Math.round((plan.price / 12) * 100) / 100, plan.currency)}/month, billed yearly
+                  </p>
+                )}
               </div>
 
               <div className="text-sm text-muted-foreground">
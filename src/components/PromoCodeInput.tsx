@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { describePromoDiscount } from '@/lib/plans';
+import { CheckCircle2, Loader2, X } from 'lucide-react';
+
+export interface AppliedPromo {
+  code: string;
+  description: string | null;
+  percent_off: number | null;
+  amount_off_cents: number | null;
+  currency: string | null;
+  duration_months: number | null;
+}
+
+interface PromoCodeInputProps {
+  value: AppliedPromo | null;
+  onChange: (promo: AppliedPromo | null) => void;
+  disabled?: boolean;
+}
+
+// Checks a code before checkout; create-checkout validates it again when it is applied
+const PromoCodeInput: React.FC<PromoCodeInputProps> = ({ value, onChange, disabled }) => {
+  const [code, setCode] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleApply = async () => {
+    if (!code.trim()) return;
+    setChecking(true);
+    setError('');
+    const { data, error: promoError } = await supabase.rpc('validate_promo_code', { _code: code });
+    if (promoError || !data?.[0]) {
+      setError(promoError?.message || 'This promo code is not valid');
+      onChange(null);
+    } else {
+      onChange(data[0]);
+      setCode('');
+    }
+    setChecking(false);
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-primary/40 bg-primary/5">
+        <p className="text-sm flex items-center gap-2">
+          <CheckCircle2 size={16} className="text-primary shrink-0" />
+          <span>
+            <span className="font-mono font-medium">{value.code}</span>: {describePromoDiscount(value)}
+          </span>
+        </p>
+        <Button variant="ghost" size="sm" onClick={() => onChange(null)} disabled={disabled}>
+          <X size={14} />
+          Remove
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="promo-code">Promo code</Label>
+      <div className="flex gap-2">
+        <Input
+          id="promo-code"
+          value={code}
+          onChange={(e) => { setCode(e.target.value.toUpperCase()); setError(''); }}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleApply(); } }}
+          placeholder="Enter a code"
+          className="font-mono"
+          disabled={disabled}
+        />
+        <Button variant="outline" onClick={handleApply} disabled={disabled || checking || !code.trim()}>
+          {checking && <Loader2 size={16} className="animate-spin" />}
+          Apply
+        </Button>
+      </div>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+    </div>
+  );
+};
+
+export default PromoCodeInput;
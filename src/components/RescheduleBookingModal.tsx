@@ -6,8 +6,16 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar, Clock, RefreshCw } from 'lucide-react';
-import { format, addDays } from 'date-fns';
+import { Calendar, RefreshCw } from 'lucide-react';
+import { addDays } from 'date-fns';
+import OtherPartyTime from './OtherPartyTime';
+import {
+  formatDateInTimeZone,
+  formatTimeInTimeZone,
+  getDateKeyInTimeZone,
+  getTimeZoneAbbreviation,
+  zonedTimeToUtc,
+} from '@/lib/timezones';
 
 // Generate time slots with 15-minute increments
 const generateTimeSlots = () => {
@@ -33,11 +41,14 @@ interface Booking {
   confirmed_datetime: string | null;
   specialist: {
     full_name: string;
+    timezone: string | null;
   } | null;
 }
 
 interface RescheduleBookingModalProps {
   booking: Booking;
+  // Employee's timezone; the new date and time are entered in it
+  timeZone: string;
   open: boolean;
   onClose: () => void;
   onSuccess: () => void;
@@ -45,6 +56,7 @@ interface RescheduleBookingModalProps {
 
 const RescheduleBookingModal: React.FC<RescheduleBookingModalProps> = ({
   booking,
+  timeZone,
   open,
   onClose,
   onSuccess,
@@ -54,8 +66,12 @@ const RescheduleBookingModal: React.FC<RescheduleBookingModalProps> = ({
   const [proposedTime, setProposedTime] = useState('');
   const [submitting, setSubmitting] = useState(false);
 
-  const today = format(new Date(), 'yyyy-MM-dd');
-  const maxDate = format(addDays(new Date(), 90), 'yyyy-MM-dd');
+  const today = getDateKeyInTimeZone(new Date(), timeZone);
+  const maxDate = getDateKeyInTimeZone(addDays(new Date(), 90), timeZone);
+
+  const newProposedDateTime = proposedDate && proposedTime
+    ? zonedTimeToUtc(proposedDate, proposedTime, timeZone)
+    : null;
 
   const handleReschedule = async () => {
     if (!proposedDate || !proposedTime) {
@@ -69,8 +85,6 @@ const RescheduleBookingModal: React.FC<RescheduleBookingModalProps> = ({
 
     setSubmitting(true);
 
-    const newProposedDateTime = new Date(`${proposedDate}T${proposedTime}`);
-
     // Update booking to pending with new proposed datetime
     const { error } = await supabase
       .from('bookings')
@@ -114,9 +128,7 @@ const RescheduleBookingModal: React.FC<RescheduleBookingModalProps> = ({
     onClose();
   };
 
-  const currentDateTime = booking.confirmed_datetime 
-    ? new Date(booking.confirmed_datetime)
-    : null;
+  const currentDateTime = booking.confirmed_datetime;
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
@@ -131,8 +143,8 @@ const RescheduleBookingModal: React.FC<RescheduleBookingModalProps> = ({
             <strong>{booking.specialist?.full_name}</strong>.
             {currentDateTime && (
               <span className="block mt-2 text-muted-foreground">
-                Currently scheduled: {format(currentDateTime, 'EEEE, MMM d, yyyy')} at{' '}
-                {format(currentDateTime, 'h:mm a')}
+                Currently scheduled: {formatDateInTimeZone(currentDateTime, timeZone)} at{' '}
+                {formatTimeInTimeZone(currentDateTime, timeZone)} {getTimeZoneAbbreviation(currentDateTime, timeZone)}
               </span>
             )}
           </DialogDescription>
@@ -176,6 +188,15 @@ const RescheduleBookingModal: React.FC<RescheduleBookingModalProps> = ({
                 </Select>
               </div>
             </div>
+            <p className="text-xs text-muted-foreground">Times are in your timezone ({timeZone}).</p>
+            {newProposedDateTime && (
+              <OtherPartyTime
+                datetime={newProposedDateTime.toISOString()}
+                viewerTimeZone={timeZone}
+                otherTimeZone={booking.specialist?.timezone}
+                label={`${booking.specialist?.full_name}'s local time`}
+              />
+            )}
           </div>
 
           <div className="text-sm text-muted-foreground bg-muted/50 p-3 rounded-lg">
@@ -2,8 +2,10 @@ import React, { useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Clock, CheckCircle, XCircle, History, UserPlus, Users } from 'lucide-react';
-import { format } from 'date-fns';
+import { Calendar, Clock, CheckCircle, XCircle, History, UserPlus, Users, UserX } from 'lucide-react';
+import OtherPartyTime from './OtherPartyTime';
+import { useUserTimeZone } from '@/hooks/useUserTimeZone';
+import { formatDateInTimeZone, formatTimeInTimeZone, getTimeZoneAbbreviation } from '@/lib/timezones';
 
 interface Booking {
   id: string;
@@ -14,9 +16,12 @@ interface Booking {
   created_at: string;
   session_duration: number;
   session_type: string;
+  late_cancellation: boolean;
+  specialist_fee_percent: number | null;
   employee: {
     email: string;
     full_name: string | null;
+    timezone: string | null;
   } | null;
   company_name: string | null;
 }
@@ -28,6 +33,7 @@ interface SpecialistBookingHistoryProps {
 const SpecialistBookingHistory: React.FC<SpecialistBookingHistoryProps> = ({
   specialistId,
 }) => {
+  const timeZone = useUserTimeZone();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -47,10 +53,12 @@ const SpecialistBookingHistory: React.FC<SpecialistBookingHistoryProps> = ({
         created_at,
         session_duration,
         session_type,
+        late_cancellation,
+        specialist_fee_percent,
         employee_user_id
       `)
       .eq('specialist_id', specialistId)
-      .in('status', ['completed', 'cancelled', 'declined'])
+      .in('status', ['completed', 'cancelled', 'declined', 'no_show'])
       .order('created_at', { ascending: false });
 
     if (bookingsError || !bookingsData || bookingsData.length === 0) {
@@ -63,7 +71,7 @@ const SpecialistBookingHistory: React.FC<SpecialistBookingHistoryProps> = ({
     const employeeIds = bookingsData.map(b => b.employee_user_id);
     const { data: profilesData } = await supabase
       .from('profiles')
-      .select('user_id, email, full_name')
+      .select('user_id, email, full_name, timezone')
       .in('user_id', employeeIds);
 
     const profilesMap = new Map(profilesData?.map(p => [p.user_id, p]) || []);
@@ -98,6 +106,8 @@ const SpecialistBookingHistory: React.FC<SpecialistBookingHistoryProps> = ({
         return <Badge variant="outline" className="flex items-center gap-1"><XCircle size={12} /> Cancelled</Badge>;
       case 'declined':
         return <Badge variant="destructive" className="flex items-center gap-1"><XCircle size={12} /> Declined</Badge>;
+      case 'no_show':
+        return <Badge variant="destructive" className="flex items-center gap-1"><UserX size={12} /> No-show</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -146,24 +156,39 @@ const SpecialistBookingHistory: React.FC<SpecialistBookingHistoryProps> = ({
                     )}
                   </h3>
                   {getStatusBadge(booking.status)}
+                  {booking.late_cancellation && (
+                    <Badge variant="outline" className="text-xs border-destructive/40 text-destructive">Late cancellation</Badge>
+                  )}
+                  {booking.specialist_fee_percent ? (
+                    <Badge variant="outline" className="text-xs border-green-300 text-green-600">
+                      {booking.specialist_fee_percent}% fee
+                    </Badge>
+                  ) : null}
                   <Badge variant="outline" className={`text-xs ${booking.session_type === 'first_session' ? 'border-blue-300 text-blue-600' : 'border-green-300 text-green-600'}`}>
                     {booking.session_type === 'first_session' ? <><UserPlus size={10} className="mr-1" />First</> : <><Users size={10} className="mr-1" />Follow-up</>}
                   </Badge>
                 </div>
                 
                 {(booking.confirmed_datetime || booking.proposed_datetime) && (
-                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                  <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
                     <span className="flex items-center gap-1">
                       <Calendar size={14} />
-                      {format(new Date(booking.confirmed_datetime || booking.proposed_datetime!), 'EEEE, MMM d, yyyy')}
+                      {formatDateInTimeZone(booking.confirmed_datetime || booking.proposed_datetime!, timeZone)}
                     </span>
                     <span className="flex items-center gap-1">
                       <Clock size={14} />
-                      {format(new Date(booking.confirmed_datetime || booking.proposed_datetime!), 'h:mm a')}
+                      {formatTimeInTimeZone(booking.confirmed_datetime || booking.proposed_datetime!, timeZone)}{' '}
+                      {getTimeZoneAbbreviation(booking.confirmed_datetime || booking.proposed_datetime!, timeZone)}
                     </span>
                     <Badge variant="outline" className="text-xs">
                       {booking.session_duration === 30 ? '30 min' : '1 hour'}
                     </Badge>
+                    <OtherPartyTime
+                      datetime={booking.confirmed_datetime || booking.proposed_datetime!}
+                      viewerTimeZone={timeZone}
+                      otherTimeZone={booking.employee?.timezone}
+                      label="Employee's time"
+                    />
                   </div>
                 )}
               </div>
@@ -4,13 +4,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { Calendar, Clock, CheckCircle, XCircle, MessageCircle, User, UserPlus, Users, Video, CalendarPlus } from 'lucide-react';
+import { Calendar, Clock, CheckCircle, XCircle, MessageCircle, User, UserPlus, Users, Video, CalendarPlus, UserX } from 'lucide-react';
 import { format } from 'date-fns';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import BookingConversation from './BookingConversation';
 import CompleteSessionModal from './CompleteSessionModal';
 import VideoCallModal from './VideoCallModal';
+import OtherPartyTime from './OtherPartyTime';
 import { useUnreadMessages } from '@/hooks/useUnreadMessages';
+import { useUserTimeZone } from '@/hooks/useUserTimeZone';
+import { useBookingPolicy } from '@/hooks/useBookingPolicy';
+import { formatDateInTimeZone, formatTimeInTimeZone, getTimeZoneAbbreviation } from '@/lib/timezones';
 
 interface Booking {
   id: string;
@@ -25,6 +29,7 @@ interface Booking {
   employee: {
     email: string;
     full_name: string | null;
+    timezone: string | null;
   } | null;
   company_name: string | null;
 }
@@ -39,11 +44,15 @@ const SpecialistBookingRequests: React.FC<SpecialistBookingRequestsProps> = ({
   onBookingUpdate,
 }) => {
   const { toast } = useToast();
+  const timeZone = useUserTimeZone();
+  const bookingPolicy = useBookingPolicy();
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedBooking, setSelectedBooking] = useState<Booking | null>(null);
   const [processing, setProcessing] = useState<string | null>(null);
   const [bookingToComplete, setBookingToComplete] = useState<Booking | null>(null);
+  const [bookingToMarkNoShow, setBookingToMarkNoShow] = useState<Booking | null>(null);
+  const [markingNoShow, setMarkingNoShow] = useState(false);
   const [videoCallBooking, setVideoCallBooking] = useState<Booking | null>(null);
   const [calendarBooking, setCalendarBooking] = useState<Booking | null>(null);
 
@@ -97,7 +106,7 @@ const SpecialistBookingRequests: React.FC<SpecialistBookingRequestsProps> = ({
     const employeeIds = bookingsData.map(b => b.employee_user_id);
     const { data: profilesData } = await supabase
       .from('profiles')
-      .select('user_id, email, full_name')
+      .select('user_id, email, full_name, timezone')
       .in('user_id', employeeIds);
 
     const profilesMap = new Map(profilesData?.map(p => [p.user_id, p]) || []);
@@ -289,6 +298,10 @@ END:VCALENDAR`;
       supabase.functions.invoke('notify-booking-decline', {
         body: { bookingId }
       }).catch(err => console.error('Failed to send decline notification:', err));
+
+      // The freed slot may be offered to someone on the waitlist
+      supabase.functions.invoke('process-waitlist')
+        .catch(err => console.error('Failed to process waitlist:', err));
       
       fetchBookings();
       onBookingUpdate?.();
@@ -302,6 +315,47 @@ END:VCALENDAR`;
     onBookingUpdate?.();
   };
 
+  // A no-show can only be recorded once the session's start time has passed
+  const hasSessionStarted = (booking: Booking) => {
+    const start = booking.confirmed_datetime || booking.proposed_datetime;
+    return !!start && new Date(start).getTime() <= Date.now();
+  };
+
+  const handleMarkNoShow = async () => {
+    if (!bookingToMarkNoShow) return;
+
+    setMarkingNoShow(true);
+
+    // The database applies the no-show policy (minutes charge and specialist fee) on this status change
+    const { error } = await supabase
+      .from('bookings')
+      .update({ status: 'no_show' })
+      .eq('id', bookingToMarkNoShow.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Marked as no-show",
+        description: "The employee and their company have been notified.",
+      });
+
+      supabase.functions.invoke('notify-booking-no-show', {
+        body: { bookingId: bookingToMarkNoShow.id }
+      }).catch(err => console.error('Failed to send no-show notification:', err));
+
+      fetchBookings();
+      onBookingUpdate?.();
+    }
+
+    setMarkingNoShow(false);
+    setBookingToMarkNoShow(null);
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'pending':
@@ -314,6 +368,8 @@ END:VCALENDAR`;
         return <Badge className="bg-wellness-gold flex items-center gap-1"><CheckCircle size={12} /> Completed</Badge>;
       case 'cancelled':
         return <Badge variant="outline" className="flex items-center gap-1"><XCircle size={12} /> Cancelled</Badge>;
+      case 'no_show':
+        return <Badge variant="destructive" className="flex items-center gap-1"><UserX size={12} /> No-show</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -374,18 +430,25 @@ END:VCALENDAR`;
                   </div>
                   
                   {booking.proposed_datetime && (
-                    <div className="flex items-center gap-4 text-sm mb-2">
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm mb-2">
                       <span className="flex items-center gap-1">
                         <Calendar size={14} className="text-muted-foreground" />
-                        {format(new Date(booking.proposed_datetime), 'EEEE, MMM d, yyyy')}
+                        {formatDateInTimeZone(booking.proposed_datetime, timeZone)}
                       </span>
                       <span className="flex items-center gap-1">
                         <Clock size={14} className="text-muted-foreground" />
-                        {format(new Date(booking.proposed_datetime), 'h:mm a')}
+                        {formatTimeInTimeZone(booking.proposed_datetime, timeZone)}{' '}
+                        {getTimeZoneAbbreviation(booking.proposed_datetime, timeZone)}
                       </span>
                       <Badge variant="outline" className="text-xs">
                         {booking.session_duration === 30 ? '30 min' : '1 hour'}
                       </Badge>
+                      <OtherPartyTime
+                        datetime={booking.proposed_datetime}
+                        viewerTimeZone={timeZone}
+                        otherTimeZone={booking.employee?.timezone}
+                        label="Employee's time"
+                      />
                     </div>
                   )}
                   
@@ -432,13 +495,21 @@ END:VCALENDAR`;
               <div className="flex items-center justify-between">
                 {getStatusBadge(selectedBooking.status)}
                 {selectedBooking.proposed_datetime && (
-                  <div className="text-sm text-muted-foreground">
+                  <div className="text-sm text-muted-foreground space-y-1">
                     <span className="flex items-center gap-2">
                       <Calendar size={14} />
-                      {format(new Date(selectedBooking.proposed_datetime), 'EEEE, MMM d, yyyy')}
+                      {formatDateInTimeZone(selectedBooking.proposed_datetime, timeZone)}
                       <Clock size={14} className="ml-2" />
-                      {format(new Date(selectedBooking.proposed_datetime), 'h:mm a')}
+                      {formatTimeInTimeZone(selectedBooking.proposed_datetime, timeZone)}{' '}
+                      {getTimeZoneAbbreviation(selectedBooking.proposed_datetime, timeZone)}
                     </span>
+                    <OtherPartyTime
+                      datetime={selectedBooking.proposed_datetime}
+                      viewerTimeZone={timeZone}
+                      otherTimeZone={selectedBooking.employee?.timezone}
+                      label="Employee's time"
+                      className="justify-end"
+                    />
                   </div>
                 )}
               </div>
@@ -510,6 +581,19 @@ END:VCALENDAR`;
                       <CheckCircle size={16} className="mr-2" />
                       Complete Session
                     </Button>
+                    {hasSessionStarted(selectedBooking) && (
+                      <Button
+                        variant="outline"
+                        onClick={() => {
+                          setBookingToMarkNoShow(selectedBooking);
+                          setSelectedBooking(null);
+                        }}
+                        className="flex-1"
+                      >
+                        <UserX size={16} className="mr-2" />
+                        Mark No-Show
+                      </Button>
+                    )}
                   </>
                 )}
               </div>
@@ -539,6 +623,38 @@ END:VCALENDAR`;
         />
       )}
 
+      {/* Mark No-Show Confirmation */}
+      <Dialog open={!!bookingToMarkNoShow} onOpenChange={(open) => !open && setBookingToMarkNoShow(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <UserX className="text-destructive" size={20} />
+              Mark as No-Show
+            </DialogTitle>
+            <DialogDescription className="pt-2">
+              Confirm that {bookingToMarkNoShow?.employee?.full_name || bookingToMarkNoShow?.employee?.email || 'the employee'} did
+              not attend this session. The employee, their company and you will be notified by email.
+              {bookingPolicy?.charge_company && (
+                <span className="block mt-2">The session's minutes will be charged to the employee's company.</span>
+              )}
+              {bookingPolicy?.pay_specialist && (
+                <span className="block mt-2">
+                  You'll be paid a no-show fee of {bookingPolicy.specialist_fee_percent}% of the session rate.
+                </span>
+              )}
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter className="gap-2 sm:gap-0">
+            <Button variant="outline" onClick={() => setBookingToMarkNoShow(null)} disabled={markingNoShow}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleMarkNoShow} disabled={markingNoShow}>
+              {markingNoShow ? 'Saving...' : 'Mark No-Show'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Video Call Modal */}
       {videoCallBooking && videoCallBooking.meeting_link && (
         <VideoCallModal
@@ -573,10 +689,10 @@ END:VCALENDAR`;
                   Session with {calendarBooking.employee?.full_name || calendarBooking.employee?.email || 'Employee'}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  {calendarBooking.proposed_datetime && format(new Date(calendarBooking.proposed_datetime), 'EEEE, MMMM d, yyyy')}
+                  {calendarBooking.proposed_datetime && formatDateInTimeZone(calendarBooking.proposed_datetime, timeZone)}
                 </p>
                 <p className="text-sm text-muted-foreground">
-                  {calendarBooking.proposed_datetime && format(new Date(calendarBooking.proposed_datetime), 'h:mm a')} ({calendarBooking.session_duration} min)
+                  {calendarBooking.proposed_datetime && formatTimeInTimeZone(calendarBooking.proposed_datetime, timeZone)} ({calendarBooking.session_duration} min)
                 </p>
               </div>
             )}
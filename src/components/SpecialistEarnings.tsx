@@ -3,159 +3,167 @@ import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { DollarSign, TrendingUp, Send, Clock, CheckCircle } from 'lucide-react';
+import { DollarSign, TrendingUp, Send, Clock, AlertTriangle, History } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { SPECIALIST_TIERS } from '@/lib/plans';
-import { format, startOfWeek, startOfMonth, endOfWeek, endOfMonth } from 'date-fns';
+import { getCatalogTier, usePricingCatalog } from '@/hooks/usePricingCatalog';
+import { formatMoney, isCurrency } from '@/lib/currency';
+import { isOpenPayout, isPayoutStatus, PAYOUT_EVENT_LABELS, PAYOUT_STATUS_CLASSES, PAYOUT_STATUS_LABELS } from '@/lib/payouts';
+import { addMonths, addWeeks, format, startOfMonth, startOfWeek } from 'date-fns';
 
 interface SpecialistEarningsProps {
   specialistId: string;
   rateTier: string | null;
+  payoutCurrency: string | null;
 }
 
 interface PayoutRequest {
   id: string;
   amount: number;
+  currency: string;
   status: string;
   created_at: string;
   period_start: string;
   period_end: string;
+  expected_payment_date: string | null;
+  paid_at: string | null;
+  rejection_reason: string | null;
+  failure_reason: string | null;
 }
 
-const SpecialistEarnings: React.FC<SpecialistEarningsProps> = ({ specialistId, rateTier }) => {
+interface PayoutEvent {
+  payout_request_id: string;
+  event: string;
+  reason: string | null;
+  created_at: string;
+}
+
+// Pay is stored on each booking when it is earned; specialist_earnings totals it per currency
+interface Earnings {
+  currency: string;
+  earnings_cents: number;
+  sessions: number;
+}
+
+// expected_payment_date is a date column, so it is read as a local day rather than UTC midnight
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), 'MMM d, yyyy');
+
+const PayoutStatusBadge: React.FC<{ status: string }> = ({ status }) => (
+  <Badge variant="secondary" className={isPayoutStatus(status) ? PAYOUT_STATUS_CLASSES[status] : ''}>
+    {isPayoutStatus(status) ? PAYOUT_STATUS_LABELS[status] : status}
+  </Badge>
+);
+
+const SpecialistEarnings: React.FC<SpecialistEarningsProps> = ({ specialistId, rateTier, payoutCurrency }) => {
   const { toast } = useToast();
-  const [weeklyEarnings, setWeeklyEarnings] = useState(0);
-  const [monthlyEarnings, setMonthlyEarnings] = useState(0);
-  const [weeklySessionCount, setWeeklySessionCount] = useState(0);
-  const [monthlySessionCount, setMonthlySessionCount] = useState(0);
-  const [pendingPayout, setPendingPayout] = useState<PayoutRequest | null>(null);
+  const [weeklyEarnings, setWeeklyEarnings] = useState<Earnings[]>([]);
+  const [monthlyEarnings, setMonthlyEarnings] = useState<Earnings[]>([]);
+  const [unpaidEarnings, setUnpaidEarnings] = useState<Earnings[]>([]);
+  const [payouts, setPayouts] = useState<PayoutRequest[]>([]);
+  const [payoutEvents, setPayoutEvents] = useState<PayoutEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [requesting, setRequesting] = useState(false);
 
-  const tier = rateTier && rateTier in SPECIALIST_TIERS 
-    ? SPECIALIST_TIERS[rateTier as keyof typeof SPECIALIST_TIERS] 
-    : SPECIALIST_TIERS.standard;
+  const currency = isCurrency(payoutCurrency) ? payoutCurrency : 'usd';
+  const pricingCatalog = usePricingCatalog(currency);
+  const tier = getCatalogTier(pricingCatalog, rateTier);
 
   useEffect(() => {
     fetchEarnings();
-    fetchPendingPayout();
-  }, [specialistId, rateTier]);
+    fetchPayouts();
+  }, [specialistId]);
+
+  const fetchEarningsBetween = async (from: Date, to: Date) => {
+    const { data, error } = await supabase.rpc('specialist_earnings', {
+      _specialist_id: specialistId,
+      _from: from.toISOString(),
+      _to: to.toISOString(),
+    });
+
+    if (error) {
+      console.error('Error fetching earnings:', error);
+      return [];
+    }
+    return data || [];
+  };
 
   const fetchEarnings = async () => {
     const now = new Date();
     const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-    const weekEnd = endOfWeek(now, { weekStartsOn: 1 });
     const monthStart = startOfMonth(now);
-    const monthEnd = endOfMonth(now);
 
-    // Fetch completed bookings for this week
-    const { data: weeklyBookings, error: weeklyError } = await supabase
-      .from('bookings')
-      .select('session_duration, confirmed_datetime')
-      .eq('specialist_id', specialistId)
-      .eq('status', 'completed')
-      .gte('confirmed_datetime', weekStart.toISOString())
-      .lte('confirmed_datetime', weekEnd.toISOString());
-
-    if (!weeklyError && weeklyBookings) {
-      const totalMinutes = weeklyBookings.reduce((sum, b) => sum + (b.session_duration || 60), 0);
-      const hours = totalMinutes / 60;
-      setWeeklyEarnings(hours * tier.specialistGets);
-      setWeeklySessionCount(weeklyBookings.length);
-    }
+    const [weekly, monthly, unpaid] = await Promise.all([
+      fetchEarningsBetween(weekStart, addWeeks(weekStart, 1)),
+      fetchEarningsBetween(monthStart, addMonths(monthStart, 1)),
+      supabase.rpc('specialist_unpaid_earnings', { _specialist_id: specialistId }),
+    ]);
 
-    // Fetch completed bookings for this month
-    const { data: monthlyBookings, error: monthlyError } = await supabase
-      .from('bookings')
-      .select('session_duration, confirmed_datetime')
-      .eq('specialist_id', specialistId)
-      .eq('status', 'completed')
-      .gte('confirmed_datetime', monthStart.toISOString())
-      .lte('confirmed_datetime', monthEnd.toISOString());
-
-    if (!monthlyError && monthlyBookings) {
-      const totalMinutes = monthlyBookings.reduce((sum, b) => sum + (b.session_duration || 60), 0);
-      const hours = totalMinutes / 60;
-      setMonthlyEarnings(hours * tier.specialistGets);
-      setMonthlySessionCount(monthlyBookings.length);
-    }
+    if (unpaid.error) console.error('Error fetching unpaid earnings:', unpaid.error);
 
+    setWeeklyEarnings(weekly);
+    setMonthlyEarnings(monthly);
+    setUnpaidEarnings(unpaid.data || []);
     setLoading(false);
   };
 
-  const fetchPendingPayout = async () => {
+  const fetchPayouts = async () => {
     const { data, error } = await supabase
       .from('payout_requests')
-      .select('*')
+      .select('id, amount, currency, status, created_at, period_start, period_end, expected_payment_date, paid_at, rejection_reason, failure_reason')
       .eq('specialist_id', specialistId)
-      .eq('status', 'pending')
       .order('created_at', { ascending: false })
-      .limit(1)
-      .maybeSingle();
+      .limit(20);
 
-    if (!error && data) {
-      setPendingPayout(data as PayoutRequest);
+    if (error) {
+      console.error('Error fetching payout requests:', error);
+      return;
     }
-  };
 
-  const handleRequestPayout = async () => {
-    if (monthlyEarnings <= 0) {
-      toast({
-        title: "No earnings to request",
-        description: "You need completed sessions before requesting a payout.",
-        variant: "destructive",
-      });
-      return;
+    setPayouts(data || []);
+
+    if (data && data.length > 0) {
+      const { data: events, error: eventsError } = await supabase
+        .from('payout_request_events')
+        .select('payout_request_id, event, reason, created_at')
+        .in('payout_request_id', data.map((p) => p.id))
+        .order('created_at');
+
+      if (eventsError) console.error('Error fetching payout history:', eventsError);
+      setPayoutEvents(events || []);
     }
+  };
 
+  const handleRequestPayout = async () => {
     setRequesting(true);
 
     try {
-      const now = new Date();
-      const monthStart = startOfMonth(now);
-      const monthEnd = endOfMonth(now);
-
-      // Create payout request in database
-      const { data: payoutData, error: payoutError } = await supabase
-        .from('payout_requests')
-        .insert({
-          specialist_id: specialistId,
-          amount: monthlyEarnings,
-          period_start: monthStart.toISOString(),
-          period_end: monthEnd.toISOString(),
-          status: 'pending',
-        })
-        .select()
-        .single();
+      // The server links every unpaid session to the request and works out the amount from their stored pay
+      const { data: payoutData, error: payoutError } = await supabase.rpc('request_specialist_payout', {
+        _specialist_id: specialistId,
+      });
 
       if (payoutError) throw payoutError;
 
       // Call edge function to send notification email
       const { error: notifyError } = await supabase.functions.invoke('request-payout', {
-        body: {
-          payoutRequestId: payoutData.id,
-          specialistId,
-          amount: monthlyEarnings,
-          periodStart: monthStart.toISOString(),
-          periodEnd: monthEnd.toISOString(),
-        },
+        body: { payoutRequestId: payoutData.id },
       });
 
       if (notifyError) {
         console.error('Error sending payout notification:', notifyError);
       }
 
-      setPendingPayout(payoutData as PayoutRequest);
+      fetchEarnings();
+      fetchPayouts();
 
       toast({
         title: "Payout requested!",
-        description: `Your request for $${monthlyEarnings.toFixed(2)} has been submitted.`,
+        description: `Your request for ${formatMoney(payoutData.amount, payoutData.currency)} has been submitted.`,
       });
     } catch (error) {
       console.error('Error requesting payout:', error);
       toast({
         title: "Error",
-        description: "Failed to submit payout request. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to submit payout request. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -163,6 +171,30 @@ const SpecialistEarnings: React.FC<SpecialistEarningsProps> = ({ specialistId, r
     }
   };
 
+  // Earlier sessions stay in the currency they were earned in if the payout currency changes
+  const formatEarnings = (earnings: Earnings[]) =>
+    earnings.length === 0
+      ? formatMoney(0, currency)
+      : earnings.map((e) => formatMoney(e.earnings_cents / 100, e.currency)).join(' + ');
+
+  const countSessions = (earnings: Earnings[]) => earnings.reduce((sum, e) => sum + e.sessions, 0);
+
+  const weeklySessionCount = countSessions(weeklyEarnings);
+  const monthlySessionCount = countSessions(monthlyEarnings);
+  // Payouts are made in the current payout currency only
+  const availableForPayout = (unpaidEarnings.find((e) => e.currency === currency)?.earnings_cents ?? 0) / 100;
+  const openPayout = payouts.find((p) => isOpenPayout(p.status)) ?? null;
+  const openPayoutEvents = openPayout ? payoutEvents.filter((e) => e.payout_request_id === openPayout.id) : [];
+
+  const describeExpectedPayment = (payout: PayoutRequest) => {
+    if (payout.status === 'requested') return 'Payment date set once approved';
+    if (payout.status === 'failed') return 'New payment date set when retried';
+    if (payout.status === 'approved' && payout.expected_payment_date) {
+      return `Expected ${formatDate(payout.expected_payment_date)}`;
+    }
+    return null;
+  };
+
   if (loading) {
     return (
       <Card>
@@ -189,7 +221,7 @@ const SpecialistEarnings: React.FC<SpecialistEarningsProps> = ({ specialistId, r
           </CardHeader>
           <CardContent>
             <div className="flex items-baseline gap-2">
-              <span className="text-3xl font-bold text-primary">${weeklyEarnings.toFixed(2)}</span>
+              <span className="text-3xl font-bold text-primary">{formatEarnings(weeklyEarnings)}</span>
               <span className="text-sm text-muted-foreground">
                 ({weeklySessionCount} session{weeklySessionCount !== 1 ? 's' : ''})
               </span>
@@ -206,7 +238,7 @@ const SpecialistEarnings: React.FC<SpecialistEarningsProps> = ({ specialistId, r
           </CardHeader>
           <CardContent>
             <div className="flex items-baseline gap-2">
-              <span className="text-3xl font-bold text-primary">${monthlyEarnings.toFixed(2)}</span>
+              <span className="text-3xl font-bold text-primary">{formatEarnings(monthlyEarnings)}</span>
               <span className="text-sm text-muted-foreground">
                 ({monthlySessionCount} session{monthlySessionCount !== 1 ? 's' : ''})
               </span>
@@ -224,34 +256,51 @@ const SpecialistEarnings: React.FC<SpecialistEarningsProps> = ({ specialistId, r
           </CardTitle>
         </CardHeader>
         <CardContent>
-          {pendingPayout ? (
-            <div className="flex items-center justify-between p-4 bg-amber-50 dark:bg-amber-950/30 rounded-lg border border-amber-200 dark:border-amber-800">
-              <div className="flex items-center gap-3">
-                <Clock className="text-amber-600" size={20} />
-                <div>
-                  <p className="font-medium">Pending Payout Request</p>
-                  <p className="text-sm text-muted-foreground">
-                    ${pendingPayout.amount.toFixed(2)} • Requested {format(new Date(pendingPayout.created_at), 'MMM d, yyyy')}
-                  </p>
+          {openPayout ? (
+            <div className="p-4 bg-amber-50 dark:bg-amber-950/30 rounded-lg border border-amber-200 dark:border-amber-800 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  {openPayout.status === 'failed' ? (
+                    <AlertTriangle className="text-orange-600" size={20} />
+                  ) : (
+                    <Clock className="text-amber-600" size={20} />
+                  )}
+                  <div>
+                    <p className="font-medium">
+                      {formatMoney(openPayout.amount, openPayout.currency)} • Requested {format(new Date(openPayout.created_at), 'MMM d, yyyy')}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{describeExpectedPayment(openPayout)}</p>
+                  </div>
                 </div>
+                <PayoutStatusBadge status={openPayout.status} />
               </div>
-              <Badge variant="secondary" className="bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
-                Processing
-              </Badge>
+              {openPayout.status === 'failed' && openPayout.failure_reason && (
+                <p className="text-sm text-orange-700 dark:text-orange-300">
+                  The payment didn't go through: {openPayout.failure_reason}. Check your payout details in Settings; we'll retry it.
+                </p>
+              )}
+              <ol className="text-xs text-muted-foreground space-y-1 border-l pl-3">
+                {openPayoutEvents.map((event) => (
+                  <li key={`${event.event}-${event.created_at}`}>
+                    {PAYOUT_EVENT_LABELS[event.event] ?? event.event} · {format(new Date(event.created_at), 'MMM d, yyyy')}
+                    {event.reason && ` · ${event.reason}`}
+                  </li>
+                ))}
+              </ol>
             </div>
           ) : (
             <div className="flex items-center justify-between">
               <div>
                 <p className="text-sm text-muted-foreground">
-                  Request a payout for your monthly earnings
+                  Request a payout for your sessions that haven't been paid yet
                 </p>
                 <p className="text-lg font-semibold mt-1">
-                  Available: ${monthlyEarnings.toFixed(2)}
+                  Available: {formatMoney(availableForPayout, currency)}
                 </p>
               </div>
               <Button
                 onClick={handleRequestPayout}
-                disabled={requesting || monthlyEarnings <= 0}
+                disabled={requesting || availableForPayout <= 0}
                 className="flex items-center gap-2"
               >
                 {requesting ? (
@@ -271,9 +320,44 @@ const SpecialistEarnings: React.FC<SpecialistEarningsProps> = ({ specialistId, r
         </CardContent>
       </Card>
 
+      {/* Payout History */}
+      {payouts.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History size={18} />
+              Payout History
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {payouts.map((payout) => (
+                <div key={payout.id} className="flex items-start justify-between gap-4 py-3">
+                  <div>
+                    <p className="font-medium">{formatMoney(payout.amount, payout.currency)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Sessions {format(new Date(payout.period_start), 'MMM d')} – {format(new Date(payout.period_end), 'MMM d, yyyy')}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {payout.status === 'paid' && payout.paid_at
+                        ? `Paid ${format(new Date(payout.paid_at), 'MMM d, yyyy')}`
+                        : describeExpectedPayment(payout) ?? `Requested ${format(new Date(payout.created_at), 'MMM d, yyyy')}`}
+                    </p>
+                    {payout.status === 'rejected' && payout.rejection_reason && (
+                      <p className="text-xs text-destructive">Rejected: {payout.rejection_reason}</p>
+                    )}
+                  </div>
+                  <PayoutStatusBadge status={payout.status} />
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Rate Info */}
       <p className="text-xs text-muted-foreground text-center">
-        Your rate: ${tier.specialistGets}/hour ({tier.name} tier)
+        Your rate: {formatMoney(tier.specialistGets, currency)}/hour ({tier.name} tier). Past sessions keep the rate they were earned at.
       </p>
     </div>
   );
@@ -9,6 +9,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { Upload, X } from 'lucide-react';
+import { TIME_ZONE_OPTIONS } from '@/lib/timezones';
 
 type RateTier = 'standard' | 'advanced' | 'expert' | 'master';
 
@@ -27,6 +28,7 @@ interface Specialist {
   bio: string | null;
   avatar_url: string | null;
   website?: string | null;
+  timezone?: string | null;
   rate_tier?: string | null;
   hourly_rate?: number;
   user_id?: string | null;
@@ -62,6 +64,7 @@ const SpecialistFormDialog: React.FC<SpecialistFormDialogProps> = ({
   const [email, setEmail] = useState('');
   const [specialty, setSpecialty] = useState('');
   const [website, setWebsite] = useState('');
+  const [timeZone, setTimeZone] = useState('');
   const [bio, setBio] = useState('');
   const [rateTier, setRateTier] = useState<RateTier | ''>('');
   const [submitting, setSubmitting] = useState(false);
@@ -75,6 +78,7 @@ const SpecialistFormDialog: React.FC<SpecialistFormDialogProps> = ({
       setEmail(specialist.email || '');
       setSpecialty(specialist.specialty || '');
       setWebsite(specialist.website || '');
+      setTimeZone(specialist.timezone || '');
       setBio(specialist.bio || '');
       setRateTier((specialist.rate_tier as RateTier) || '');
       setAvatarPreview(specialist.avatar_url || null);
@@ -89,6 +93,7 @@ const SpecialistFormDialog: React.FC<SpecialistFormDialogProps> = ({
     setEmail('');
     setSpecialty('');
     setWebsite('');
+    setTimeZone('');
     setBio('');
     setRateTier('');
     setAvatarFile(null);
@@ -161,6 +166,7 @@ const SpecialistFormDialog: React.FC<SpecialistFormDialogProps> = ({
         email: email,
         specialty: specialty,
         website: website || null,
+        timezone: timeZone || null,
         bio: bio || null,
         avatar_url: avatarUrl,
         updated_at: new Date().toISOString(),
@@ -208,6 +214,7 @@ const SpecialistFormDialog: React.FC<SpecialistFormDialogProps> = ({
           email: email,
           specialty: specialty,
           website: website || null,
+          timezone: timeZone || null,
           bio: bio || null,
           hourly_rate: 25, // Placeholder, specialist will set their tier on signup
           is_active: false, // Inactive until specialist completes signup
@@ -344,6 +351,27 @@ const SpecialistFormDialog: React.FC<SpecialistFormDialogProps> = ({
               placeholder="https://example.com"
             />
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="time-zone">Timezone (optional)</Label>
+            <Select value={timeZone} onValueChange={setTimeZone}>
+              <SelectTrigger id="time-zone">
+                <SelectValue placeholder="Select timezone" />
+              </SelectTrigger>
+              <SelectContent>
+                {timeZone && !TIME_ZONE_OPTIONS.some((option) => option.value === timeZone) && (
+                  <SelectItem value={timeZone}>{timeZone}</SelectItem>
+                )}
+                {TIME_ZONE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label} ({option.value})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Use the timezone from their preregistration. They can change it later in Settings.
+            </p>
+          </div>
 
           {/* Rate Tier - Only shown when editing */}
           {isEdit && (
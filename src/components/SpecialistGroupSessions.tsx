@@ -0,0 +1,527 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { useUserTimeZone } from '@/hooks/useUserTimeZone';
+import { formatDateInTimeZone, formatTimeInTimeZone, getDateKeyInTimeZone, zonedTimeToUtc } from '@/lib/timezones';
+import { CheckCircle, Loader2, Plus, Users, Video, XCircle } from 'lucide-react';
+import VideoCallModal from './VideoCallModal';
+
+interface GroupSession {
+  id: string;
+  title: string;
+  description: string | null;
+  start_time: string;
+  duration_minutes: number;
+  capacity: number;
+  minutes_per_attendee: number;
+  company_id: string | null;
+  status: string;
+}
+
+interface Attendee {
+  id: string;
+  session_id: string;
+  employee_user_id: string;
+  status: string;
+  minutes_charged: number | null;
+  profile?: { full_name: string | null; email: string } | null;
+}
+
+interface SpecialistGroupSessionsProps {
+  specialistId: string;
+}
+
+const DURATION_OPTIONS = [30, 45, 60, 90, 120];
+
+const emptyForm = {
+  title: '',
+  description: '',
+  date: '',
+  time: '',
+  durationMinutes: 60,
+  capacity: 10,
+  minutesPerAttendee: 60,
+  companyId: 'all',
+};
+
+const SpecialistGroupSessions: React.FC<SpecialistGroupSessionsProps> = ({ specialistId }) => {
+  const { toast } = useToast();
+  const timeZone = useUserTimeZone();
+  const [sessions, setSessions] = useState<GroupSession[]>([]);
+  const [attendees, setAttendees] = useState<Attendee[]>([]);
+  const [companies, setCompanies] = useState<{ id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [sessionToCancel, setSessionToCancel] = useState<GroupSession | null>(null);
+  const [sessionToComplete, setSessionToComplete] = useState<GroupSession | null>(null);
+  const [absentIds, setAbsentIds] = useState<string[]>([]);
+  const [processing, setProcessing] = useState(false);
+  const [videoRoom, setVideoRoom] = useState<{ room: string; title: string } | null>(null);
+
+  useEffect(() => {
+    fetchSessions();
+    fetchCompanies();
+  }, [specialistId]);
+
+  const fetchSessions = async () => {
+    const { data, error } = await supabase
+      .from('group_sessions')
+      .select('id, title, description, start_time, duration_minutes, capacity, minutes_per_attendee, company_id, status')
+      .eq('specialist_id', specialistId)
+      .order('start_time', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching group sessions:', error);
+      setLoading(false);
+      return;
+    }
+
+    setSessions(data || []);
+
+    const sessionIds = (data || []).map((s) => s.id);
+    if (sessionIds.length > 0) {
+      const { data: attendeeRows } = await supabase
+        .from('group_session_attendees')
+        .select('id, session_id, employee_user_id, status, minutes_charged')
+        .in('session_id', sessionIds)
+        .order('joined_at', { ascending: true });
+
+      const userIds = [...new Set((attendeeRows || []).map((a) => a.employee_user_id))];
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from('profiles').select('user_id, full_name, email').in('user_id', userIds)
+        : { data: [] };
+
+      setAttendees((attendeeRows || []).map((a) => ({
+        ...a,
+        profile: profiles?.find((p) => p.user_id === a.employee_user_id) ?? null,
+      })));
+    } else {
+      setAttendees([]);
+    }
+
+    setLoading(false);
+  };
+
+  // Only companies this specialist already works with are visible to them
+  const fetchCompanies = async () => {
+    const { data } = await supabase.from('companies').select('id, name').order('name');
+    setCompanies(data || []);
+  };
+
+  const attendeesFor = (sessionId: string, status: string) =>
+    attendees.filter((a) => a.session_id === sessionId && a.status === status);
+
+  const attendeeName = (attendee: Attendee) =>
+    attendee.profile?.full_name || attendee.profile?.email || 'Employee';
+
+  const hasStarted = (session: GroupSession) => new Date(session.start_time).getTime() <= Date.now();
+
+  const handleCreate = async () => {
+    if (!form.title.trim() || !form.date || !form.time) {
+      toast({
+        title: "Missing information",
+        description: "Please add a title, date and time.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const startTime = zonedTimeToUtc(form.date, form.time, timeZone);
+    if (startTime.getTime() <= Date.now()) {
+      toast({ title: "Invalid time", description: "The session must start in the future.", variant: "destructive" });
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from('group_sessions').insert({
+      specialist_id: specialistId,
+      title: form.title.trim(),
+      description: form.description.trim() || null,
+      start_time: startTime.toISOString(),
+      duration_minutes: form.durationMinutes,
+      capacity: Math.max(1, Math.round(form.capacity)),
+      minutes_per_attendee: Math.max(0, Math.round(form.minutesPerAttendee)),
+      company_id: form.companyId === 'all' ? null : form.companyId,
+    });
+
+    if (error) {
+      toast({ title: "Failed to publish session", description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: "Group session published", description: "Employees can now register." });
+      setShowForm(false);
+      setForm(emptyForm);
+      fetchSessions();
+    }
+    setSaving(false);
+  };
+
+  const handleCancel = async () => {
+    if (!sessionToCancel) return;
+
+    setProcessing(true);
+    const { error } = await supabase
+      .from('group_sessions')
+      .update({ status: 'cancelled' })
+      .eq('id', sessionToCancel.id);
+
+    if (error) {
+      toast({ title: "Failed to cancel session", description: error.message, variant: "destructive" });
+    } else {
+      supabase.functions.invoke('notify-group-session', {
+        body: { sessionId: sessionToCancel.id, event: 'cancelled' },
+      }).catch(err => console.error('Failed to send group session cancellation:', err));
+
+      toast({ title: "Group session cancelled", description: "Everyone signed up has been notified." });
+      fetchSessions();
+    }
+    setProcessing(false);
+    setSessionToCancel(null);
+  };
+
+  const openComplete = (session: GroupSession) => {
+    setAbsentIds([]);
+    setSessionToComplete(session);
+  };
+
+  const handleComplete = async () => {
+    if (!sessionToComplete) return;
+
+    setProcessing(true);
+    const { data, error } = await supabase.rpc('complete_group_session', {
+      _session_id: sessionToComplete.id,
+      _absent_attendee_ids: absentIds,
+    });
+
+    if (error) {
+      toast({ title: "Failed to complete session", description: error.message, variant: "destructive" });
+    } else {
+      toast({
+        title: "Session completed!",
+        description: `${data} attendee${data === 1 ? '' : 's'} charged ${sessionToComplete.minutes_per_attendee} minutes each.`,
+      });
+      setSessionToComplete(null);
+      fetchSessions();
+    }
+    setProcessing(false);
+  };
+
+  const handleStartCall = async (session: GroupSession) => {
+    const { data, error } = await supabase.rpc('get_group_session_room', { _session_id: session.id });
+
+    if (error || !data) {
+      toast({ title: "Couldn't open the room", description: error?.message, variant: "destructive" });
+      return;
+    }
+    setVideoRoom({ room: data, title: session.title });
+  };
+
+  const getStatusBadge = (session: GroupSession) => {
+    switch (session.status) {
+      case 'scheduled': return <Badge className="bg-primary">Scheduled</Badge>;
+      case 'completed': return <Badge className="bg-wellness-gold flex items-center gap-1"><CheckCircle size={12} /> Completed</Badge>;
+      case 'cancelled': return <Badge variant="outline" className="flex items-center gap-1"><XCircle size={12} /> Cancelled</Badge>;
+      default: return <Badge variant="outline">{session.status}</Badge>;
+    }
+  };
+
+  const registeredForCompletion = sessionToComplete ? attendeesFor(sessionToComplete.id, 'registered') : [];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Users size={20} />
+            Group Sessions
+          </CardTitle>
+          <CardDescription>
+            Publish classes and workshops that several employees can join together
+          </CardDescription>
+        </div>
+        <Button onClick={() => setShowForm(true)}>
+          <Plus size={16} />
+          New Session
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="space-y-3">
+            {[1, 2].map((i) => <div key={i} className="h-24 bg-muted rounded-lg animate-pulse" />)}
+          </div>
+        ) : sessions.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Users className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>No group sessions yet</p>
+            <p className="text-sm">Publish one to reach a whole team at once.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {sessions.map((session) => {
+              const registered = attendeesFor(session.id, 'registered');
+              const waitlisted = attendeesFor(session.id, 'waitlisted');
+              const attended = attendeesFor(session.id, 'attended');
+              const company = companies.find((c) => c.id === session.company_id);
+
+              return (
+                <div key={session.id} className="p-4 rounded-lg border space-y-3">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-semibold">{session.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatDateInTimeZone(session.start_time, timeZone)} at {formatTimeInTimeZone(session.start_time, timeZone)}
+                        {' · '}{session.duration_minutes} min · {session.minutes_per_attendee} min per attendee
+                      </p>
+                      {session.company_id && (
+                        <p className="text-xs text-muted-foreground">Only for {company?.name || 'one company'}</p>
+                      )}
+                    </div>
+                    {getStatusBadge(session)}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    <Badge variant="secondary">
+                      {session.status === 'completed' ? `${attended.length} attended` : `${registered.length}/${session.capacity} registered`}
+                    </Badge>
+                    {waitlisted.length > 0 && session.status === 'scheduled' && (
+                      <Badge variant="outline">{waitlisted.length} on waitlist</Badge>
+                    )}
+                  </div>
+
+                  {registered.length > 0 && session.status === 'scheduled' && (
+                    <p className="text-sm text-muted-foreground">
+                      {registered.map(attendeeName).join(', ')}
+                    </p>
+                  )}
+
+                  {session.status === 'scheduled' && (
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="wellness" onClick={() => handleStartCall(session)}>
+                        <Video size={16} />
+                        Open Room
+                      </Button>
+                      {hasStarted(session) && (
+                        <Button size="sm" variant="outline" onClick={() => openComplete(session)}>
+                          <CheckCircle size={16} />
+                          Complete
+                        </Button>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => setSessionToCancel(session)}>
+                        <XCircle size={16} />
+                        Cancel
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      {/* New Session Dialog */}
+      <Dialog open={showForm} onOpenChange={setShowForm}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Group Session</DialogTitle>
+            <DialogDescription>Times are in your timezone ({timeZone}).</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="groupTitle">Title</Label>
+              <Input
+                id="groupTitle"
+                placeholder="Team breathwork class"
+                value={form.title}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="groupDescription">Description (optional)</Label>
+              <Textarea
+                id="groupDescription"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="groupDate">Date</Label>
+                <Input
+                  id="groupDate"
+                  type="date"
+                  min={getDateKeyInTimeZone(new Date(), timeZone)}
+                  value={form.date}
+                  onChange={(e) => setForm({ ...form, date: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="groupTime">Start time</Label>
+                <Input
+                  id="groupTime"
+                  type="time"
+                  value={form.time}
+                  onChange={(e) => setForm({ ...form, time: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Duration</Label>
+                <Select
+                  value={String(form.durationMinutes)}
+                  onValueChange={(value) => setForm({ ...form, durationMinutes: Number(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DURATION_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>{minutes} min</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="groupCapacity">Capacity</Label>
+                <Input
+                  id="groupCapacity"
+                  type="number"
+                  min={1}
+                  value={form.capacity}
+                  onChange={(e) => setForm({ ...form, capacity: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="groupMinutes">Minutes each</Label>
+                <Input
+                  id="groupMinutes"
+                  type="number"
+                  min={0}
+                  value={form.minutesPerAttendee}
+                  onChange={(e) => setForm({ ...form, minutesPerAttendee: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Each attendee's company is charged the minutes above when you complete the session.
+            </p>
+            <div className="space-y-2">
+              <Label>Who can register</Label>
+              <Select value={form.companyId} onValueChange={(value) => setForm({ ...form, companyId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Employees of any company</SelectItem>
+                  {companies.map((company) => (
+                    <SelectItem key={company.id} value={company.id}>Only {company.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowForm(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving ? <Loader2 size={16} className="animate-spin" /> : <Plus size={16} />}
+              Publish
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Complete Session Dialog */}
+      <Dialog open={!!sessionToComplete} onOpenChange={(open) => !open && setSessionToComplete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Complete Group Session</DialogTitle>
+            <DialogDescription>
+              Untick anyone who didn't attend. They're recorded as a no-show and charged according to the
+              cancellation policy.
+            </DialogDescription>
+          </DialogHeader>
+
+          {registeredForCompletion.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nobody registered for this session.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {registeredForCompletion.map((attendee) => (
+                <label key={attendee.id} className="flex items-center gap-3 p-2 rounded-lg border cursor-pointer">
+                  <Checkbox
+                    checked={!absentIds.includes(attendee.id)}
+                    onCheckedChange={(checked) =>
+                      setAbsentIds((prev) =>
+                        checked ? prev.filter((id) => id !== attendee.id) : [...prev, attendee.id]
+                      )
+                    }
+                  />
+                  <span className="text-sm">{attendeeName(attendee)}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setSessionToComplete(null)}>Cancel</Button>
+            <Button onClick={handleComplete} disabled={processing}>
+              {processing ? <Loader2 size={16} className="animate-spin" /> : <CheckCircle size={16} />}
+              Complete Session
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Session Confirmation */}
+      <AlertDialog open={!!sessionToCancel} onOpenChange={(open) => !open && setSessionToCancel(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Cancel this group session?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Everyone registered or on the waitlist will be emailed, and no minutes will be charged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Session</AlertDialogCancel>
+            <AlertDialogAction onClick={handleCancel} disabled={processing}>Cancel Session</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {videoRoom && (
+        <VideoCallModal
+          meetingLink={videoRoom.room}
+          open={!!videoRoom}
+          onClose={() => setVideoRoom(null)}
+          userType="specialist"
+          participantName={videoRoom.title}
+        />
+      )}
+    </Card>
+  );
+};
+
+export default SpecialistGroupSessions;
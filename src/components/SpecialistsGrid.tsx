@@ -12,6 +12,7 @@ import BookingConversation from './BookingConversation';
 import SpecialistProfileModal from './SpecialistProfileModal';
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSearchParams } from 'react-router-dom';
 import { useUnreadMessages } from '@/hooks/useUnreadMessages';
 
 interface Specialist {
@@ -23,6 +24,7 @@ interface Specialist {
   rate_tier: string | null;
   video_url?: string | null;
   website?: string | null;
+  timezone?: string | null;
   avg_rating?: number;
   review_count?: number;
 }
@@ -68,6 +70,7 @@ const SpecialistsGrid: React.FC = () => {
   const [conversationSpecialistName, setConversationSpecialistName] = useState<string>('');
   const [specialtyFilter, setSpecialtyFilter] = useState<string>('all');
   const [ratingFilter, setRatingFilter] = useState<string>('all');
+  const [searchParams, setSearchParams] = useSearchParams();
 
   useEffect(() => {
     fetchSpecialists();
@@ -76,6 +79,20 @@ const SpecialistsGrid: React.FC = () => {
     }
   }, [user]);
 
+  // Waitlist emails link to /dashboard?book=<specialistId> so the held slot can be claimed in one click
+  useEffect(() => {
+    const bookId = searchParams.get('book');
+    if (!bookId || specialists.length === 0) return;
+
+    const specialist = specialists.find((s) => s.id === bookId);
+    if (specialist) {
+      setSelectedSpecialist(specialist);
+      setShowBookingModal(true);
+    }
+    searchParams.delete('book');
+    setSearchParams(searchParams, { replace: true });
+  }, [specialists, searchParams, setSearchParams]);
+
   // Check if specialist has an active conversation (booking with future datetime)
   const getActiveBooking = (specialistId: string): ActiveBooking | null => {
     const now = new Date();
@@ -152,7 +169,7 @@ const SpecialistsGrid: React.FC = () => {
     // Use the specialists_public view which excludes sensitive data
     const { data, error } = await supabase
       .from('specialists_public')
-      .select('id, full_name, specialty, bio, avatar_url, rate_tier, video_url, website');
+      .select('id, full_name, specialty, bio, avatar_url, rate_tier, video_url, website, timezone');
 
     if (!error && data) {
       // Fetch review stats for all specialists
@@ -0,0 +1,49 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Gift } from 'lucide-react';
+import { differenceInCalendarDays, format } from 'date-fns';
+
+interface TrialBannerProps {
+  company: {
+    plan_type: string | null;
+    subscription_status: string | null;
+    trial_ends_at: string | null;
+  };
+}
+
+// Shown to company admins during the free trial, which lasts until a plan is chosen or it runs out
+const TrialBanner: React.FC<TrialBannerProps> = ({ company }) => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+
+  if (company.plan_type || company.subscription_status !== 'active' || !company.trial_ends_at) {
+    return null;
+  }
+
+  const endsAt = new Date(company.trial_ends_at);
+  const daysLeft = Math.max(0, differenceInCalendarDays(endsAt, new Date()));
+
+  return (
+    <Alert className="mb-6 border-primary/40 bg-primary/5">
+      <Gift className="h-4 w-4 text-primary" />
+      <AlertTitle>
+        {daysLeft === 0 ? 'Your free trial ends today' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left in your free trial`}
+      </AlertTitle>
+      <AlertDescription>
+        Choose a plan before {format(endsAt, 'PPP')} to keep your team booking sessions.
+        <Button
+          variant="link"
+          className="p-0 h-auto ml-2 underline"
+          onClick={() => navigate('/auth', { state: { view: 'select-plan', registeredUserId: user?.id } })}
+        >
+          Choose a plan
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default TrialBanner;
@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { useToast } from '@/hooks/use-toast';
+import { useUserTimeZone } from '@/hooks/useUserTimeZone';
+import { BellRing, Loader2 } from 'lucide-react';
+
+interface WaitlistEntry {
+  id: string;
+  weekdays: number[];
+  earliest_time: string | null;
+  latest_time: string | null;
+  timezone: string;
+}
+
+interface WaitlistJoinCardProps {
+  specialistId: string;
+  specialistName: string;
+}
+
+// Ordered Monday-first for display; values follow JS/Postgres day numbers (0 = Sunday)
+const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+];
+
+// Postgres returns "09:00:00"; show "09:00"
+const trimSeconds = (time: string) => time.slice(0, 5);
+
+const describeEntry = (entry: WaitlistEntry) => {
+  const days = entry.weekdays.length === 0
+    ? 'Any day'
+    : WEEKDAYS.filter((d) => entry.weekdays.includes(d.value)).map((d) => d.label).join(', ');
+
+  const from = entry.earliest_time ? trimSeconds(entry.earliest_time) : null;
+  const to = entry.latest_time ? trimSeconds(entry.latest_time) : null;
+  const times = from && to ? `${from}–${to}` : from ? `from ${from}` : to ? `until ${to}` : 'any time';
+
+  return `${days}, ${times} (${entry.timezone})`;
+};
+
+const WaitlistJoinCard: React.FC<WaitlistJoinCardProps> = ({ specialistId, specialistName }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const timeZone = useUserTimeZone();
+  const [entry, setEntry] = useState<WaitlistEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [weekdays, setWeekdays] = useState<string[]>([]);
+  const [earliestTime, setEarliestTime] = useState('');
+  const [latestTime, setLatestTime] = useState('');
+
+  useEffect(() => {
+    if (user) fetchEntry();
+  }, [user, specialistId]);
+
+  const fetchEntry = async () => {
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .select('id, weekdays, earliest_time, latest_time, timezone')
+      .eq('specialist_id', specialistId)
+      .eq('employee_user_id', user!.id)
+      .eq('status', 'waiting')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching waitlist entry:', error);
+    } else {
+      setEntry(data);
+    }
+    setLoading(false);
+  };
+
+  const handleJoin = async () => {
+    if (!user) return;
+
+    if (earliestTime && latestTime && latestTime <= earliestTime) {
+      toast({
+        title: "Invalid time range",
+        description: "The latest start time must be after the earliest.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase
+      .from('waitlist_entries')
+      .insert({
+        specialist_id: specialistId,
+        employee_user_id: user.id,
+        weekdays: weekdays.map(Number),
+        earliest_time: earliestTime || null,
+        latest_time: latestTime || null,
+        timezone: timeZone,
+      })
+      .select('id, weekdays, earliest_time, latest_time, timezone')
+      .single();
+
+    if (error) {
+      toast({ title: "Couldn't join the waitlist", description: error.message, variant: "destructive" });
+    } else {
+      setEntry(data);
+      toast({
+        title: "You're on the waitlist",
+        description: `We'll email you as soon as a matching slot with ${specialistName} opens up.`,
+      });
+    }
+    setSaving(false);
+  };
+
+  const handleLeave = async () => {
+    if (!entry) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('waitlist_entries')
+      .update({ status: 'cancelled' })
+      .eq('id', entry.id);
+
+    if (error) {
+      toast({ title: "Couldn't leave the waitlist", description: error.message, variant: "destructive" });
+    } else {
+      setEntry(null);
+      toast({ title: "Left the waitlist" });
+    }
+    setSaving(false);
+  };
+
+  if (loading) {
+    return <div className="h-24 bg-muted rounded-lg animate-pulse" />;
+  }
+
+  return (
+    <Card className="border-primary/30 bg-primary/5">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-start gap-3">
+          <BellRing className="text-primary shrink-0 mt-0.5" size={20} />
+          <div>
+            <p className="font-semibold">
+              {entry ? "You're on the waitlist" : `Join ${specialistName}'s waitlist`}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {entry
+                ? `Matching times: ${describeEntry(entry)}. When one opens, you'll get an email and the slot is held for you for a short time.`
+                : "When a matching slot opens up, the first person in line gets an email and a short window to claim it."}
+            </p>
+          </div>
+        </div>
+
+        {entry ? (
+          <Button variant="outline" size="sm" onClick={handleLeave} disabled={saving}>
+            {saving ? <Loader2 size={16} className="animate-spin" /> : null}
+            Leave Waitlist
+          </Button>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label>Days that work for you (leave empty for any day)</Label>
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                className="justify-start flex-wrap"
+                value={weekdays}
+                onValueChange={setWeekdays}
+              >
+                {WEEKDAYS.map((day) => (
+                  <ToggleGroupItem key={day.value} value={String(day.value)} size="sm">
+                    {day.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="waitlistEarliest">Earliest start (optional)</Label>
+                <Input
+                  id="waitlistEarliest"
+                  type="time"
+                  value={earliestTime}
+                  onChange={(e) => setEarliestTime(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="waitlistLatest">Latest start (optional)</Label>
+                <Input
+                  id="waitlistLatest"
+                  type="time"
+                  value={latestTime}
+                  onChange={(e) => setLatestTime(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">Times are in your timezone ({timeZone}).</p>
+
+            <Button type="button" variant="wellness" onClick={handleJoin} disabled={saving}>
+              {saving ? <Loader2 size={16} className="animate-spin" /> : <BellRing size={16} />}
+              Join Waitlist
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WaitlistJoinCard;
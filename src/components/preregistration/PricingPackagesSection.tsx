@@ -1,7 +1,9 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
 import { Link } from "react-router-dom";
 import { Building2, Check, TrendingUp, UserRound, Zap } from "lucide-react";
-import { PLANS } from "@/lib/plans";
+import { usePricingCatalog } from "@/hooks/usePricingCatalog";
+import { Currency, formatMoney } from "@/lib/currency";
+import CurrencyToggle from "@/components/CurrencyToggle";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 
@@ -36,7 +38,8 @@ export function PricingPackagesSection() {
     return () => observer.disconnect();
   }, []);
 
-  const plans = useMemo(() => PLANS, []);
+  const [currency, setCurrency] = useState<Currency>("usd");
+  const { plans } = usePricingCatalog(currency);
 
   return (
     <section
@@ -56,6 +59,7 @@ export function PricingPackagesSection() {
             Choose the monthly wellness minutes package that fits your team and get direct access to our specialist
             network.
           </p>
+          <CurrencyToggle value={currency} onChange={setCurrency} className="mt-6" />
         </div>
 
         <div className="grid grid-cols-1 gap-6 md:grid-cols-2 lg:grid-cols-4">
@@ -88,7 +92,7 @@ export function PricingPackagesSection() {
 
                 <CardContent className="space-y-4">
                   <div className="text-center">
-                    <span className="text-4xl font-bold">${plan.price}</span>
+                    <span className="text-4xl font-bold">{formatMoney(plan.price, plan.currency)}</span>
                     <span className="text-muted-foreground">/month</span>
                     <p className="text-sm text-muted-foreground mt-2">≈ {plan.hours} hours of wellness sessions</p>
                   </div>
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface BookingPolicy {
+  late_cancellation_hours: number;
+  charge_company: boolean;
+  pay_specialist: boolean;
+  specialist_fee_percent: number;
+}
+
+// Cancelling an approved session that starts within the policy window is a late cancellation
+export const isLateCancellation = (sessionStart: string | null, policy: BookingPolicy | null): boolean => {
+  if (!sessionStart || !policy) return false;
+  const hoursUntilStart = (new Date(sessionStart).getTime() - Date.now()) / (1000 * 60 * 60);
+  return hoursUntilStart < policy.late_cancellation_hours;
+};
+
+// Platform late-cancellation and no-show policy; null until loaded
+export const useBookingPolicy = () => {
+  const [policy, setPolicy] = useState<BookingPolicy | null>(null);
+
+  useEffect(() => {
+    const fetchPolicy = async () => {
+      const { data, error } = await supabase
+        .from('booking_policy')
+        .select('late_cancellation_hours, charge_company, pay_specialist, specialist_fee_percent')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching booking policy:', error);
+        return;
+      }
+      setPolicy(data);
+    };
+
+    fetchPolicy();
+  }, []);
+
+  return policy;
+};
@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AnnualAllowance, PLANS, SPECIALIST_TIERS, RolloverRule } from '@/lib/plans';
+import type { Currency } from '@/lib/currency';
+
+export interface CatalogPlan {
+  id: string;
+  name: string;
+  currency: Currency;
+  price: number;
+  // 0 when the plan is only sold monthly
+  annualPrice: number;
+  annualAllowance: AnnualAllowance;
+  minutes: number;
+  hours: number;
+  rollover: RolloverRule;
+  priceId: string;
+  productId: string;
+}
+
+export interface CatalogTier {
+  id: string;
+  name: string;
+  currency: Currency;
+  hourlyRate: number;
+  platformFee: number;
+  specialistGets: number;
+  minuteMultiplier: number;
+}
+
+export interface PricingCatalog {
+  versionId: string | null;
+  effectiveFrom: string | null;
+  plans: CatalogPlan[];
+  tiers: Record<string, CatalogTier>;
+}
+
+type PlanRow = {
+  plan_type: string;
+  name: string;
+  minutes: number;
+  rollover_type: string;
+  rollover_max: number;
+  annual_allowance: string;
+  stripe_product_id: string | null;
+};
+
+type PlanPriceRow = {
+  plan_type: string;
+  price_cents: number;
+  stripe_price_id: string | null;
+  annual_price_cents: number;
+};
+
+type TierRow = {
+  rate_tier: string;
+  name: string;
+  minute_multiplier: number;
+};
+
+type TierRateRow = {
+  rate_tier: string;
+  hourly_rate_cents: number;
+  specialist_rate_cents: number;
+};
+
+export const toRolloverRule = (type: string, max: number): RolloverRule =>
+  type === 'minutes' || type === 'percent' ? { type, max } : { type: 'none' };
+
+export const toCatalogPlan = (row: PlanRow, price: PlanPriceRow | undefined, currency: Currency): CatalogPlan => ({
+  id: row.plan_type,
+  name: row.name,
+  currency,
+  price: (price?.price_cents ?? 0) / 100,
+  annualPrice: (price?.annual_price_cents ?? 0) / 100,
+  annualAllowance: row.annual_allowance === 'yearly' ? 'yearly' : 'monthly',
+  minutes: row.minutes,
+  hours: Math.round((row.minutes / 60) * 10) / 10,
+  rollover: toRolloverRule(row.rollover_type, row.rollover_max),
+  priceId: price?.stripe_price_id ?? '',
+  productId: row.stripe_product_id ?? '',
+});
+
+export const toCatalogTier = (row: TierRow, rate: TierRateRow | undefined, currency: Currency): CatalogTier => ({
+  id: row.rate_tier,
+  name: row.name,
+  currency,
+  hourlyRate: (rate?.hourly_rate_cents ?? 0) / 100,
+  platformFee: ((rate?.hourly_rate_cents ?? 0) - (rate?.specialist_rate_cents ?? 0)) / 100,
+  specialistGets: (rate?.specialist_rate_cents ?? 0) / 100,
+  minuteMultiplier: Number(row.minute_multiplier),
+});
+
+// The launch USD prices the catalog was seeded with, shown until the live catalog has loaded
+const FALLBACK_CATALOG: PricingCatalog = {
+  versionId: null,
+  effectiveFrom: null,
+  plans: PLANS.map((plan) => ({ ...plan, currency: 'usd' as const })),
+  tiers: Object.fromEntries(Object.values(SPECIALIST_TIERS).map((tier) => [tier.id, { ...tier, currency: 'usd' as const }])),
+};
+
+// The version in effect at `at`; times before the first version use the first one, as pricing_version_at does
+export const pickPricingVersion = <T extends { effective_from: string }>(versions: T[], at = new Date()): T | null => {
+  const sorted = [...versions].sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+  const inEffect = sorted.filter((version) => new Date(version.effective_from) <= at);
+  return inEffect[inEffect.length - 1] ?? sorted[0] ?? null;
+};
+
+export const getCatalogTier = (catalog: PricingCatalog, rateTier: string | null | undefined): CatalogTier =>
+  catalog.tiers[rateTier || 'standard'] ?? catalog.tiers.standard ?? FALLBACK_CATALOG.tiers.standard;
+
+// Plans and specialist tiers of the pricing version in effect now, priced in `currency`
+export const usePricingCatalog = (currency: Currency = 'usd') => {
+  const [catalog, setCatalog] = useState<PricingCatalog>(FALLBACK_CATALOG);
+
+  useEffect(() => {
+    const fetchCatalog = async () => {
+      const { data: versions, error: versionsError } = await supabase
+        .from('pricing_versions')
+        .select('id, effective_from');
+
+      if (versionsError) {
+        console.error('Error fetching pricing versions:', versionsError);
+        return;
+      }
+
+      const version = pickPricingVersion(versions || []);
+      if (!version) return;
+
+      const [plansResult, pricesResult, tiersResult, ratesResult] = await Promise.all([
+        supabase
+          .from('pricing_plans')
+          .select('plan_type, name, minutes, rollover_type, rollover_max, annual_allowance, stripe_product_id')
+          .eq('version_id', version.id)
+          .order('sort_order'),
+        supabase
+          .from('pricing_plan_prices')
+          .select('plan_type, price_cents, stripe_price_id, annual_price_cents')
+          .eq('version_id', version.id)
+          .eq('currency', currency),
+        supabase
+          .from('pricing_tiers')
+          .select('rate_tier, name, minute_multiplier')
+          .eq('version_id', version.id)
+          .order('sort_order'),
+        supabase
+          .from('pricing_tier_rates')
+          .select('rate_tier, hourly_rate_cents, specialist_rate_cents')
+          .eq('version_id', version.id)
+          .eq('currency', currency),
+      ]);
+
+      const error = plansResult.error || pricesResult.error || tiersResult.error || ratesResult.error;
+      if (error) {
+        console.error('Error fetching pricing catalog:', error);
+        return;
+      }
+
+      const prices = new Map((pricesResult.data || []).map((row) => [row.plan_type, row]));
+      const rates = new Map((ratesResult.data || []).map((row) => [row.rate_tier, row]));
+
+      setCatalog({
+        versionId: version.id,
+        effectiveFrom: version.effective_from,
+        plans: (plansResult.data || []).map((row) => toCatalogPlan(row, prices.get(row.plan_type), currency)),
+        tiers: Object.fromEntries(
+          (tiersResult.data || []).map((row) => [row.rate_tier, toCatalogTier(row, rates.get(row.rate_tier), currency)]),
+        ),
+      });
+    };
+
+    fetchCatalog();
+  }, [currency]);
+
+  return catalog;
+};
@@ -0,0 +1,40 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { getBrowserTimeZone, resolveTimeZone } from '@/lib/timezones';
+
+// The signed-in user's stored timezone, falling back to the browser's until one is saved
+export const useUserTimeZone = () => {
+  const { user } = useAuth();
+  const [timeZone, setTimeZone] = useState(getBrowserTimeZone());
+
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchTimeZone = async () => {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('timezone')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      let stored = profile?.timezone;
+
+      // Specialists created by an admin may only have the timezone on their specialist record
+      if (!stored) {
+        const { data: specialist } = await supabase
+          .from('specialists')
+          .select('timezone')
+          .eq('user_id', user.id)
+          .maybeSingle();
+        stored = specialist?.timezone;
+      }
+
+      setTimeZone(resolveTimeZone(stored));
+    };
+
+    fetchTimeZone();
+  }, [user]);
+
+  return timeZone;
+};
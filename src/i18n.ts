@@ -75,6 +75,7 @@ const resources = {
         usage: "Usage",
         specialists: "Specialists",
         myBookings: "My Bookings",
+        groupSessions: "Group Sessions",
         employees: "Employees",
       },
       billing: {
@@ -99,6 +100,7 @@ const resources = {
         usage: "Utilisation",
         specialists: "Spécialistes",
         myBookings: "Mes réservations",
+        groupSessions: "Séances de groupe",
         employees: "Employés",
       },
       billing: {
@@ -123,6 +125,7 @@ const resources = {
         usage: "Uso",
         specialists: "Especialistas",
         myBookings: "Mis reservas",
+        groupSessions: "Sesiones grupales",
         employees: "Empleados",
       },
       billing: {
@@ -147,6 +150,7 @@ const resources = {
         usage: "Uso",
         specialists: "Especialistas",
         myBookings: "Minhas reservas",
+        groupSessions: "Sessões em grupo",
         employees: "Funcionários",
       },
       billing: {
@@ -171,6 +175,7 @@ const resources = {
         usage: "Nutzung",
         specialists: "Spezialisten",
         myBookings: "Meine Buchungen",
+        groupSessions: "Gruppensitzungen",
         employees: "Mitarbeiter",
       },
       billing: {
@@ -195,6 +200,7 @@ const resources = {
         usage: "Utilizzo",
         specialists: "Specialisti",
         myBookings: "Le mie prenotazioni",
+        groupSessions: "Sessioni di gruppo",
         employees: "Dipendenti",
       },
       billing: {
@@ -219,6 +225,7 @@ const resources = {
         usage: "Gebruik",
         specialists: "Specialisten",
         myBookings: "Mijn boekingen",
+        groupSessions: "Groepssessies",
         employees: "Medewerkers",
       },
       billing: {
@@ -71,12 +71,72 @@ export type Database = {
         }
         Relationships: []
       }
+      availability_rules: {
+        Row: {
+          buffer_minutes: number
+          created_at: string
+          end_time: string
+          id: string
+          is_active: boolean
+          session_minutes: number
+          specialist_id: string
+          start_time: string
+          timezone: string
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          buffer_minutes?: number
+          created_at?: string
+          end_time: string
+          id?: string
+          is_active?: boolean
+          session_minutes?: number
+          specialist_id: string
+          start_time: string
+          timezone?: string
+          updated_at?: string
+          weekdays: number[]
+        }
+        Update: {
+          buffer_minutes?: number
+          created_at?: string
+          end_time?: string
+          id?: string
+          is_active?: boolean
+          session_minutes?: number
+          specialist_id?: string
+          start_time?: string
+          timezone?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "availability_rules_specialist_id_fkey"
+            columns: ["specialist_id"]
+            isOneToOne: false
+            referencedRelation: "specialists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "availability_rules_specialist_id_fkey"
+            columns: ["specialist_id"]
+            isOneToOne: false
+            referencedRelation: "specialists_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       availability_slots: {
         Row: {
           created_at: string
           end_time: string
           id: string
           is_booked: boolean | null
+          reserved_for_user_id: string | null
+          reserved_until: string | null
+          rule_id: string | null
           specialist_id: string
           start_time: string
         }
@@ -85,6 +145,9 @@ export type Database = {
           end_time: string
           id?: string
           is_booked?: boolean | null
+          reserved_for_user_id?: string | null
+          reserved_until?: string | null
+          rule_id?: string | null
           specialist_id: string
           start_time: string
         }
@@ -93,10 +156,20 @@ export type Database = {
           end_time?: string
           id?: string
           is_booked?: boolean | null
+          reserved_for_user_id?: string | null
+          reserved_until?: string | null
+          rule_id?: string | null
           specialist_id?: string
           start_time?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "availability_slots_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "availability_rules"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "availability_slots_specialist_id_fkey"
             columns: ["specialist_id"]
@@ -180,56 +253,172 @@ export type Database = {
           },
         ]
       }
+      billing_policy: {
+        Row: {
+          created_at: string
+          grace_period_days: number
+          id: boolean
+          reminder_interval_days: number
+          trial_days: number
+          trial_minutes: number
+          trial_warning_days: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          grace_period_days?: number
+          id?: boolean
+          reminder_interval_days?: number
+          trial_days?: number
+          trial_minutes?: number
+          trial_warning_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          grace_period_days?: number
+          id?: boolean
+          reminder_interval_days?: number
+          trial_days?: number
+          trial_minutes?: number
+          trial_warning_days?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      booking_policy: {
+        Row: {
+          charge_company: boolean
+          created_at: string
+          id: boolean
+          late_cancellation_hours: number
+          pay_specialist: boolean
+          specialist_fee_percent: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          charge_company?: boolean
+          created_at?: string
+          id?: boolean
+          late_cancellation_hours?: number
+          pay_specialist?: boolean
+          specialist_fee_percent?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          charge_company?: boolean
+          created_at?: string
+          id?: boolean
+          late_cancellation_hours?: number
+          pay_specialist?: boolean
+          specialist_fee_percent?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
       bookings: {
         Row: {
+          calendar_sequence: number
+          company_id: string | null
           confirmed_datetime: string | null
           created_at: string
+          department: string | null
           employee_user_id: string
           id: string
+          late_cancellation: boolean
           meeting_link: string | null
+          minutes_charged: number | null
+          minutes_reserved: number
           notes: string | null
+          pricing_version_id: string | null
           proposed_datetime: string | null
           session_duration: number
           session_type: string
           slot_id: string | null
+          specialist_fee_percent: number | null
           specialist_id: string
+          specialist_pay_cents: number | null
+          specialist_pay_currency: string | null
+          specialist_rate_cents: number | null
           status: string
           updated_at: string
           zoom_link: string | null
         }
         Insert: {
+          calendar_sequence?: number
+          company_id?: string | null
           confirmed_datetime?: string | null
           created_at?: string
+          department?: string | null
           employee_user_id: string
           id?: string
+          late_cancellation?: boolean
           meeting_link?: string | null
+          minutes_charged?: number | null
+          minutes_reserved?: number
           notes?: string | null
+          pricing_version_id?: string | null
           proposed_datetime?: string | null
           session_duration?: number
           session_type?: string
           slot_id?: string | null
+          specialist_fee_percent?: number | null
           specialist_id: string
+          specialist_pay_cents?: number | null
+          specialist_pay_currency?: string | null
+          specialist_rate_cents?: number | null
           status?: string
           updated_at?: string
           zoom_link?: string | null
         }
         Update: {
+          calendar_sequence?: number
+          company_id?: string | null
           confirmed_datetime?: string | null
           created_at?: string
+          department?: string | null
           employee_user_id?: string
           id?: string
+          late_cancellation?: boolean
           meeting_link?: string | null
+          minutes_charged?: number | null
+          minutes_reserved?: number
           notes?: string | null
+          pricing_version_id?: string | null
           proposed_datetime?: string | null
           session_duration?: number
           session_type?: string
           slot_id?: string | null
+          specialist_fee_percent?: number | null
           specialist_id?: string
+          specialist_pay_cents?: number | null
+          specialist_pay_currency?: string | null
+          specialist_rate_cents?: number | null
           status?: string
           updated_at?: string
           zoom_link?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "bookings_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bookings_pricing_version_id_fkey"
+            columns: ["pricing_version_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bookings_slot_id_fkey"
             columns: ["slot_id"]
@@ -253,65 +442,134 @@ export type Database = {
           },
         ]
       }
+      calendar_feeds: {
+        Row: {
+          created_at: string
+          secret: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          secret: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          secret?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       companies: {
         Row: {
           admin_user_id: string | null
+          billing_currency: string
+          billing_interval: string
           created_at: string
+          dunning_reminders_sent: number
           email_domain: string
+          employee_cap_type: string | null
+          employee_cap_value: number | null
+          grace_period_ends_at: string | null
           id: string
           is_paid: boolean | null
           is_test_account: boolean | null
+          last_dunning_reminder_at: string | null
           logo_url: string | null
           max_employees: number | null
           minutes_included: number | null
+          minutes_reserved: number
           minutes_used: number | null
           name: string
+          overage_enabled: boolean
+          overage_limit_cents: number | null
+          past_due_since: string | null
           plan_type: string | null
+          scheduled_plan_type: string | null
           stripe_customer_id: string | null
           stripe_subscription_id: string | null
           subscription_period_end: string | null
           subscription_period_start: string | null
           subscription_status: string | null
+          suspended_at: string | null
+          trial_ends_at: string | null
+          trial_started_at: string | null
+          trial_warning_sent_at: string | null
           updated_at: string
         }
         Insert: {
           admin_user_id?: string | null
+          billing_currency?: string
+          billing_interval?: string
           created_at?: string
+          dunning_reminders_sent?: number
           email_domain: string
+          employee_cap_type?: string | null
+          employee_cap_value?: number | null
+          grace_period_ends_at?: string | null
           id?: string
           is_paid?: boolean | null
           is_test_account?: boolean | null
+          last_dunning_reminder_at?: string | null
           logo_url?: string | null
           max_employees?: number | null
           minutes_included?: number | null
+          minutes_reserved?: number
           minutes_used?: number | null
           name: string
+          overage_enabled?: boolean
+          overage_limit_cents?: number | null
+          past_due_since?: string | null
           plan_type?: string | null
+          scheduled_plan_type?: string | null
           stripe_customer_id?: string | null
           stripe_subscription_id?: string | null
           subscription_period_end?: string | null
           subscription_period_start?: string | null
           subscription_status?: string | null
+          suspended_at?: string | null
+          trial_ends_at?: string | null
+          trial_started_at?: string | null
+          trial_warning_sent_at?: string | null
           updated_at?: string
         }
         Update: {
           admin_user_id?: string | null
+          billing_currency?: string
+          billing_interval?: string
           created_at?: string
+          dunning_reminders_sent?: number
           email_domain?: string
+          employee_cap_type?: string | null
+          employee_cap_value?: number | null
+          grace_period_ends_at?: string | null
           id?: string
           is_paid?: boolean | null
           is_test_account?: boolean | null
+          last_dunning_reminder_at?: string | null
           logo_url?: string | null
           max_employees?: number | null
           minutes_included?: number | null
+          minutes_reserved?: number
           minutes_used?: number | null
           name?: string
+          overage_enabled?: boolean
+          overage_limit_cents?: number | null
+          past_due_since?: string | null
           plan_type?: string | null
+          scheduled_plan_type?: string | null
           stripe_customer_id?: string | null
           stripe_subscription_id?: string | null
           subscription_period_end?: string | null
           subscription_period_start?: string | null
           subscription_status?: string | null
+          suspended_at?: string | null
+          trial_ends_at?: string | null
+          trial_started_at?: string | null
+          trial_warning_sent_at?: string | null
           updated_at?: string
         }
         Relationships: []
@@ -357,150 +615,199 @@ export type Database = {
           },
         ]
       }
-      payout_requests: {
+      department_budgets: {
         Row: {
-          amount: number
+          cap_type: string
+          company_id: string
           created_at: string
+          department: string
           id: string
-          notes: string | null
-          period_end: string
-          period_start: string
-          processed_at: string | null
-          processed_by: string | null
-          specialist_id: string
-          status: string
+          minutes_budget: number
+          updated_at: string
         }
         Insert: {
-          amount: number
+          cap_type?: string
+          company_id: string
           created_at?: string
+          department: string
           id?: string
-          notes?: string | null
-          period_end: string
-          period_start: string
-          processed_at?: string | null
-          processed_by?: string | null
-          specialist_id: string
-          status?: string
+          minutes_budget: number
+          updated_at?: string
         }
         Update: {
-          amount?: number
+          cap_type?: string
+          company_id?: string
           created_at?: string
+          department?: string
           id?: string
-          notes?: string | null
-          period_end?: string
-          period_start?: string
-          processed_at?: string | null
-          processed_by?: string | null
-          specialist_id?: string
-          status?: string
+          minutes_budget?: number
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "payout_requests_specialist_id_fkey"
-            columns: ["specialist_id"]
+            foreignKeyName: "department_budgets_company_id_fkey"
+            columns: ["company_id"]
             isOneToOne: false
-            referencedRelation: "specialists"
+            referencedRelation: "companies"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      employee_allowance_caps: {
+        Row: {
+          cap_type: string
+          cap_value: number | null
+          company_employee_id: string
+          created_at: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          cap_type: string
+          cap_value?: number | null
+          company_employee_id: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+        }
+        Update: {
+          cap_type?: string
+          cap_value?: number | null
+          company_employee_id?: string
+          created_at?: string
+          id?: string
+          updated_at?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "payout_requests_specialist_id_fkey"
-            columns: ["specialist_id"]
-            isOneToOne: false
-            referencedRelation: "specialists_public"
+            foreignKeyName: "employee_allowance_caps_company_employee_id_fkey"
+            columns: ["company_employee_id"]
+            isOneToOne: true
+            referencedRelation: "company_employees"
             referencedColumns: ["id"]
           },
         ]
       }
-      profiles: {
+      group_session_attendees: {
         Row: {
-          avatar_url: string | null
+          company_id: string | null
           created_at: string
-          department: string | null
-          email: string
-          full_name: string | null
+          employee_user_id: string
           id: string
-          job_title: string | null
-          notification_preference: string
-          onboarding_completed_at: string | null
-          phone_number: string | null
+          joined_at: string
+          minutes_charged: number | null
+          minutes_reserved: number
+          session_id: string
+          status: string
           updated_at: string
-          user_id: string
         }
         Insert: {
-          avatar_url?: string | null
+          company_id?: string | null
           created_at?: string
-          department?: string | null
-          email: string
-          full_name?: string | null
+          employee_user_id: string
           id?: string
-          job_title?: string | null
-          notification_preference?: string
-          onboarding_completed_at?: string | null
-          phone_number?: string | null
+          joined_at?: string
+          minutes_charged?: number | null
+          minutes_reserved?: number
+          session_id: string
+          status?: string
           updated_at?: string
-          user_id: string
         }
         Update: {
-          avatar_url?: string | null
+          company_id?: string | null
           created_at?: string
-          department?: string | null
-          email?: string
-          full_name?: string | null
+          employee_user_id?: string
           id?: string
-          job_title?: string | null
-          notification_preference?: string
-          onboarding_completed_at?: string | null
-          phone_number?: string | null
+          joined_at?: string
+          minutes_charged?: number | null
+          minutes_reserved?: number
+          session_id?: string
+          status?: string
           updated_at?: string
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "group_session_attendees_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "group_session_attendees_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "group_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      specialist_reviews: {
+      group_sessions: {
         Row: {
-          booking_id: string
-          comment: string | null
+          capacity: number
+          company_id: string | null
+          completed_at: string | null
           created_at: string
-          employee_user_id: string
+          description: string | null
+          duration_minutes: number
           id: string
-          rating: number
+          meeting_link: string
+          minutes_per_attendee: number
           specialist_id: string
+          start_time: string
+          status: string
+          title: string
+          updated_at: string
         }
         Insert: {
-          booking_id: string
-          comment?: string | null
+          capacity: number
+          company_id?: string | null
+          completed_at?: string | null
           created_at?: string
-          employee_user_id: string
+          description?: string | null
+          duration_minutes?: number
           id?: string
-          rating: number
+          meeting_link?: string
+          minutes_per_attendee: number
           specialist_id: string
+          start_time: string
+          status?: string
+          title: string
+          updated_at?: string
         }
         Update: {
-          booking_id?: string
-          comment?: string | null
+          capacity?: number
+          company_id?: string | null
+          completed_at?: string | null
           created_at?: string
-          employee_user_id?: string
+          description?: string | null
+          duration_minutes?: number
           id?: string
-          rating?: number
+          meeting_link?: string
+          minutes_per_attendee?: number
           specialist_id?: string
+          start_time?: string
+          status?: string
+          title?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "specialist_reviews_booking_id_fkey"
-            columns: ["booking_id"]
-            isOneToOne: true
-            referencedRelation: "bookings"
+            foreignKeyName: "group_sessions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "specialist_reviews_specialist_id_fkey"
+            foreignKeyName: "group_sessions_specialist_id_fkey"
             columns: ["specialist_id"]
             isOneToOne: false
             referencedRelation: "specialists"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "specialist_reviews_specialist_id_fkey"
+            foreignKeyName: "group_sessions_specialist_id_fkey"
             columns: ["specialist_id"]
             isOneToOne: false
             referencedRelation: "specialists_public"
@@ -508,26 +815,804 @@ export type Database = {
           },
         ]
       }
-      specialists: {
+      minute_packs: {
         Row: {
-          avatar_url: string | null
-          bio: string | null
+          amount_cents: number
+          company_id: string
           created_at: string
-          email: string
-          full_name: string
-          has_set_availability: boolean | null
-          hourly_rate: number
+          currency: string
+          expires_at: string | null
           id: string
-          invitation_accepted_at: string | null
-          invitation_sent_at: string | null
-          invitation_token: string | null
-          is_active: boolean | null
-          phone_number: string | null
-          rate_tier: Database["public"]["Enums"]["specialist_rate_tier"] | null
-          specialty: string
+          minutes: number
+          pack_id: string
+          paid_at: string | null
+          purchased_by: string | null
+          status: string
+          stripe_checkout_session_id: string | null
+          stripe_payment_intent_id: string | null
           updated_at: string
-          user_id: string | null
-          video_url: string | null
+          validity_days: number
+        }
+        Insert: {
+          amount_cents: number
+          company_id: string
+          created_at?: string
+          currency?: string
+          expires_at?: string | null
+          id?: string
+          minutes: number
+          pack_id: string
+          paid_at?: string | null
+          purchased_by?: string | null
+          status?: string
+          stripe_checkout_session_id?: string | null
+          stripe_payment_intent_id?: string | null
+          updated_at?: string
+          validity_days: number
+        }
+        Update: {
+          amount_cents?: number
+          company_id?: string
+          created_at?: string
+          currency?: string
+          expires_at?: string | null
+          id?: string
+          minutes?: number
+          pack_id?: string
+          paid_at?: string | null
+          purchased_by?: string | null
+          status?: string
+          stripe_checkout_session_id?: string | null
+          stripe_payment_intent_id?: string | null
+          updated_at?: string
+          validity_days?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "minute_packs_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      minutes_ledger: {
+        Row: {
+          actor_user_id: string | null
+          booking_id: string | null
+          company_id: string
+          created_at: string
+          entry_type: string
+          group_attendee_id: string | null
+          id: string
+          minute_pack_id: string | null
+          minutes: number
+          multiplier: number | null
+          note: string | null
+          period_start: string | null
+          rate_tier: string | null
+          session_minutes: number | null
+        }
+        Insert: {
+          actor_user_id?: string | null
+          booking_id?: string | null
+          company_id: string
+          created_at?: string
+          entry_type: string
+          group_attendee_id?: string | null
+          id?: string
+          minute_pack_id?: string | null
+          minutes: number
+          multiplier?: number | null
+          note?: string | null
+          period_start?: string | null
+          rate_tier?: string | null
+          session_minutes?: number | null
+        }
+        Update: {
+          actor_user_id?: string | null
+          booking_id?: string | null
+          company_id?: string
+          created_at?: string
+          entry_type?: string
+          group_attendee_id?: string | null
+          id?: string
+          minute_pack_id?: string | null
+          minutes?: number
+          multiplier?: number | null
+          note?: string | null
+          period_start?: string | null
+          rate_tier?: string | null
+          session_minutes?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "minutes_ledger_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "minutes_ledger_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "minutes_ledger_group_attendee_id_fkey"
+            columns: ["group_attendee_id"]
+            isOneToOne: false
+            referencedRelation: "group_session_attendees"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "minutes_ledger_minute_pack_id_fkey"
+            columns: ["minute_pack_id"]
+            isOneToOne: false
+            referencedRelation: "minute_packs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      overage_charges: {
+        Row: {
+          amount_cents: number
+          booking_id: string | null
+          company_id: string
+          created_at: string
+          currency: string
+          id: string
+          ledger_entry_id: string
+          minutes: number
+          rate_cents_per_minute: number
+          report_error: string | null
+          reported_at: string | null
+        }
+        Insert: {
+          amount_cents: number
+          booking_id?: string | null
+          company_id: string
+          created_at?: string
+          currency: string
+          id?: string
+          ledger_entry_id: string
+          minutes: number
+          rate_cents_per_minute: number
+          report_error?: string | null
+          reported_at?: string | null
+        }
+        Update: {
+          amount_cents?: number
+          booking_id?: string | null
+          company_id?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          ledger_entry_id?: string
+          minutes?: number
+          rate_cents_per_minute?: number
+          report_error?: string | null
+          reported_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "overage_charges_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overage_charges_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "overage_charges_ledger_entry_id_fkey"
+            columns: ["ledger_entry_id"]
+            isOneToOne: true
+            referencedRelation: "minutes_ledger"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payout_request_bookings: {
+        Row: {
+          amount_cents: number
+          booking_id: string
+          payout_request_id: string
+          released_at: string | null
+        }
+        Insert: {
+          amount_cents: number
+          booking_id: string
+          payout_request_id: string
+          released_at?: string | null
+        }
+        Update: {
+          amount_cents?: number
+          booking_id?: string
+          payout_request_id?: string
+          released_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_request_bookings_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: false
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_request_bookings_payout_request_id_fkey"
+            columns: ["payout_request_id"]
+            isOneToOne: false
+            referencedRelation: "payout_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payout_request_events: {
+        Row: {
+          actor_user_id: string | null
+          created_at: string
+          event: string
+          id: string
+          payout_request_id: string
+          reason: string | null
+        }
+        Insert: {
+          actor_user_id?: string | null
+          created_at?: string
+          event: string
+          id?: string
+          payout_request_id: string
+          reason?: string | null
+        }
+        Update: {
+          actor_user_id?: string | null
+          created_at?: string
+          event?: string
+          id?: string
+          payout_request_id?: string
+          reason?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_request_events_payout_request_id_fkey"
+            columns: ["payout_request_id"]
+            isOneToOne: false
+            referencedRelation: "payout_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payout_requests: {
+        Row: {
+          amount: number
+          approved_at: string | null
+          created_at: string
+          currency: string
+          expected_payment_date: string | null
+          failure_reason: string | null
+          id: string
+          notes: string | null
+          paid_at: string | null
+          period_end: string
+          period_start: string
+          processed_at: string | null
+          processed_by: string | null
+          rejection_reason: string | null
+          retry_count: number
+          specialist_id: string
+          status: string
+        }
+        Insert: {
+          amount: number
+          approved_at?: string | null
+          created_at?: string
+          currency?: string
+          expected_payment_date?: string | null
+          failure_reason?: string | null
+          id?: string
+          notes?: string | null
+          paid_at?: string | null
+          period_end: string
+          period_start: string
+          processed_at?: string | null
+          processed_by?: string | null
+          rejection_reason?: string | null
+          retry_count?: number
+          specialist_id: string
+          status?: string
+        }
+        Update: {
+          amount?: number
+          approved_at?: string | null
+          created_at?: string
+          currency?: string
+          expected_payment_date?: string | null
+          failure_reason?: string | null
+          id?: string
+          notes?: string | null
+          paid_at?: string | null
+          period_end?: string
+          period_start?: string
+          processed_at?: string | null
+          processed_by?: string | null
+          rejection_reason?: string | null
+          retry_count?: number
+          specialist_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payout_requests_specialist_id_fkey"
+            columns: ["specialist_id"]
+            isOneToOne: false
+            referencedRelation: "specialists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payout_requests_specialist_id_fkey"
+            columns: ["specialist_id"]
+            isOneToOne: false
+            referencedRelation: "specialists_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_minute_packs: {
+        Row: {
+          minutes: number
+          pack_id: string
+          sort_order: number
+          validity_days: number
+          version_id: string
+        }
+        Insert: {
+          minutes: number
+          pack_id: string
+          sort_order?: number
+          validity_days: number
+          version_id: string
+        }
+        Update: {
+          minutes?: number
+          pack_id?: string
+          sort_order?: number
+          validity_days?: number
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_minute_packs_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_pack_prices: {
+        Row: {
+          currency: string
+          pack_id: string
+          price_cents: number
+          version_id: string
+        }
+        Insert: {
+          currency: string
+          pack_id: string
+          price_cents: number
+          version_id: string
+        }
+        Update: {
+          currency?: string
+          pack_id?: string
+          price_cents?: number
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_pack_prices_version_id_pack_id_fkey"
+            columns: ["version_id", "pack_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_minute_packs"
+            referencedColumns: ["version_id", "pack_id"]
+          },
+        ]
+      }
+      pricing_plan_prices: {
+        Row: {
+          annual_price_cents: number
+          currency: string
+          overage_cents_per_minute: number
+          plan_type: string
+          price_cents: number
+          stripe_annual_price_id: string | null
+          stripe_overage_price_id: string | null
+          stripe_price_id: string | null
+          version_id: string
+        }
+        Insert: {
+          annual_price_cents?: number
+          currency: string
+          overage_cents_per_minute?: number
+          plan_type: string
+          price_cents: number
+          stripe_annual_price_id?: string | null
+          stripe_overage_price_id?: string | null
+          stripe_price_id?: string | null
+          version_id: string
+        }
+        Update: {
+          annual_price_cents?: number
+          currency?: string
+          overage_cents_per_minute?: number
+          plan_type?: string
+          price_cents?: number
+          stripe_annual_price_id?: string | null
+          stripe_overage_price_id?: string | null
+          stripe_price_id?: string | null
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_plan_prices_version_id_plan_type_fkey"
+            columns: ["version_id", "plan_type"]
+            isOneToOne: false
+            referencedRelation: "pricing_plans"
+            referencedColumns: ["version_id", "plan_type"]
+          },
+        ]
+      }
+      pricing_plans: {
+        Row: {
+          annual_allowance: string
+          minutes: number
+          name: string
+          plan_type: string
+          rollover_max: number
+          rollover_type: string
+          sort_order: number
+          stripe_product_id: string | null
+          version_id: string
+        }
+        Insert: {
+          annual_allowance?: string
+          minutes: number
+          name: string
+          plan_type: string
+          rollover_max?: number
+          rollover_type?: string
+          sort_order?: number
+          stripe_product_id?: string | null
+          version_id: string
+        }
+        Update: {
+          annual_allowance?: string
+          minutes?: number
+          name?: string
+          plan_type?: string
+          rollover_max?: number
+          rollover_type?: string
+          sort_order?: number
+          stripe_product_id?: string | null
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_plans_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_tier_rates: {
+        Row: {
+          currency: string
+          hourly_rate_cents: number
+          rate_tier: Database["public"]["Enums"]["specialist_rate_tier"]
+          specialist_rate_cents: number
+          version_id: string
+        }
+        Insert: {
+          currency: string
+          hourly_rate_cents: number
+          rate_tier: Database["public"]["Enums"]["specialist_rate_tier"]
+          specialist_rate_cents: number
+          version_id: string
+        }
+        Update: {
+          currency?: string
+          hourly_rate_cents?: number
+          rate_tier?: Database["public"]["Enums"]["specialist_rate_tier"]
+          specialist_rate_cents?: number
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_tier_rates_version_id_rate_tier_fkey"
+            columns: ["version_id", "rate_tier"]
+            isOneToOne: false
+            referencedRelation: "pricing_tiers"
+            referencedColumns: ["version_id", "rate_tier"]
+          },
+        ]
+      }
+      pricing_tiers: {
+        Row: {
+          minute_multiplier: number
+          name: string
+          rate_tier: Database["public"]["Enums"]["specialist_rate_tier"]
+          sort_order: number
+          version_id: string
+        }
+        Insert: {
+          minute_multiplier: number
+          name: string
+          rate_tier: Database["public"]["Enums"]["specialist_rate_tier"]
+          sort_order?: number
+          version_id: string
+        }
+        Update: {
+          minute_multiplier?: number
+          name?: string
+          rate_tier?: Database["public"]["Enums"]["specialist_rate_tier"]
+          sort_order?: number
+          version_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_tiers_version_id_fkey"
+            columns: ["version_id"]
+            isOneToOne: false
+            referencedRelation: "pricing_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          id: string
+          note: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_from: string
+          id?: string
+          note?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          id?: string
+          note?: string | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          department: string | null
+          email: string
+          full_name: string | null
+          id: string
+          job_title: string | null
+          notification_preference: string
+          onboarding_completed_at: string | null
+          phone_number: string | null
+          timezone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          department?: string | null
+          email: string
+          full_name?: string | null
+          id?: string
+          job_title?: string | null
+          notification_preference?: string
+          onboarding_completed_at?: string | null
+          phone_number?: string | null
+          timezone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          department?: string | null
+          email?: string
+          full_name?: string | null
+          id?: string
+          job_title?: string | null
+          notification_preference?: string
+          onboarding_completed_at?: string | null
+          phone_number?: string | null
+          timezone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      promo_code_redemptions: {
+        Row: {
+          company_id: string
+          created_at: string
+          id: string
+          promo_code_id: string
+          stripe_checkout_session_id: string | null
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          id?: string
+          promo_code_id: string
+          stripe_checkout_session_id?: string | null
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          id?: string
+          promo_code_id?: string
+          stripe_checkout_session_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promo_code_redemptions_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promo_code_redemptions_promo_code_id_fkey"
+            columns: ["promo_code_id"]
+            isOneToOne: false
+            referencedRelation: "promo_codes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promo_codes: {
+        Row: {
+          amount_off_cents: number | null
+          code: string
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          description: string | null
+          duration_months: number | null
+          expires_at: string | null
+          id: string
+          max_redemptions: number | null
+          percent_off: number | null
+          retired_at: string | null
+          stripe_coupon_id: string | null
+        }
+        Insert: {
+          amount_off_cents?: number | null
+          code: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          description?: string | null
+          duration_months?: number | null
+          expires_at?: string | null
+          id?: string
+          max_redemptions?: number | null
+          percent_off?: number | null
+          retired_at?: string | null
+          stripe_coupon_id?: string | null
+        }
+        Update: {
+          amount_off_cents?: number | null
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          description?: string | null
+          duration_months?: number | null
+          expires_at?: string | null
+          id?: string
+          max_redemptions?: number | null
+          percent_off?: number | null
+          retired_at?: string | null
+          stripe_coupon_id?: string | null
+        }
+        Relationships: []
+      }
+      specialist_reviews: {
+        Row: {
+          booking_id: string
+          comment: string | null
+          created_at: string
+          employee_user_id: string
+          id: string
+          rating: number
+          specialist_id: string
+        }
+        Insert: {
+          booking_id: string
+          comment?: string | null
+          created_at?: string
+          employee_user_id: string
+          id?: string
+          rating: number
+          specialist_id: string
+        }
+        Update: {
+          booking_id?: string
+          comment?: string | null
+          created_at?: string
+          employee_user_id?: string
+          id?: string
+          rating?: number
+          specialist_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "specialist_reviews_booking_id_fkey"
+            columns: ["booking_id"]
+            isOneToOne: true
+            referencedRelation: "bookings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "specialist_reviews_specialist_id_fkey"
+            columns: ["specialist_id"]
+            isOneToOne: false
+            referencedRelation: "specialists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "specialist_reviews_specialist_id_fkey"
+            columns: ["specialist_id"]
+            isOneToOne: false
+            referencedRelation: "specialists_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      specialists: {
+        Row: {
+          avatar_url: string | null
+          bio: string | null
+          created_at: string
+          email: string
+          full_name: string
+          has_set_availability: boolean | null
+          hourly_rate: number
+          id: string
+          invitation_accepted_at: string | null
+          invitation_sent_at: string | null
+          invitation_token: string | null
+          is_active: boolean | null
+          payout_currency: string
+          phone_number: string | null
+          rate_tier: Database["public"]["Enums"]["specialist_rate_tier"] | null
+          specialty: string
+          timezone: string | null
+          updated_at: string
+          user_id: string | null
+          video_url: string | null
           website: string | null
         }
         Insert: {
@@ -543,9 +1628,11 @@ export type Database = {
           invitation_sent_at?: string | null
           invitation_token?: string | null
           is_active?: boolean | null
+          payout_currency?: string
           phone_number?: string | null
           rate_tier?: Database["public"]["Enums"]["specialist_rate_tier"] | null
           specialty: string
+          timezone?: string | null
           updated_at?: string
           user_id?: string | null
           video_url?: string | null
@@ -564,9 +1651,11 @@ export type Database = {
           invitation_sent_at?: string | null
           invitation_token?: string | null
           is_active?: boolean | null
+          payout_currency?: string
           phone_number?: string | null
           rate_tier?: Database["public"]["Enums"]["specialist_rate_tier"] | null
           specialty?: string
+          timezone?: string | null
           updated_at?: string
           user_id?: string | null
           video_url?: string | null
@@ -574,6 +1663,44 @@ export type Database = {
         }
         Relationships: []
       }
+      stripe_webhook_events: {
+        Row: {
+          attempts: number
+          company_id: string | null
+          event_id: string
+          event_type: string
+          last_error: string | null
+          processed_at: string | null
+          received_at: string
+        }
+        Insert: {
+          attempts?: number
+          company_id?: string | null
+          event_id: string
+          event_type: string
+          last_error?: string | null
+          processed_at?: string | null
+          received_at?: string
+        }
+        Update: {
+          attempts?: number
+          company_id?: string | null
+          event_id?: string
+          event_type?: string
+          last_error?: string | null
+          processed_at?: string | null
+          received_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stripe_webhook_events_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       test_account_data: {
         Row: {
           created_at: string
@@ -622,8 +1749,149 @@ export type Database = {
         }
         Relationships: []
       }
+      waitlist_entries: {
+        Row: {
+          created_at: string
+          earliest_time: string | null
+          employee_user_id: string
+          id: string
+          latest_time: string | null
+          specialist_id: string
+          status: string
+          timezone: string
+          updated_at: string
+          weekdays: number[]
+        }
+        Insert: {
+          created_at?: string
+          earliest_time?: string | null
+          employee_user_id: string
+          id?: string
+          latest_time?: string | null
+          specialist_id: string
+          status?: string
+          timezone?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Update: {
+          created_at?: string
+          earliest_time?: string | null
+          employee_user_id?: string
+          id?: string
+          latest_time?: string | null
+          specialist_id?: string
+          status?: string
+          timezone?: string
+          updated_at?: string
+          weekdays?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_entries_specialist_id_fkey"
+            columns: ["specialist_id"]
+            isOneToOne: false
+            referencedRelation: "specialists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_entries_specialist_id_fkey"
+            columns: ["specialist_id"]
+            isOneToOne: false
+            referencedRelation: "specialists_public"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      waitlist_offers: {
+        Row: {
+          created_at: string
+          entry_id: string
+          expires_at: string
+          id: string
+          notified_at: string | null
+          slot_id: string | null
+          slot_start: string
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          entry_id: string
+          expires_at: string
+          id?: string
+          notified_at?: string | null
+          slot_id?: string | null
+          slot_start: string
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          entry_id?: string
+          expires_at?: string
+          id?: string
+          notified_at?: string | null
+          slot_id?: string | null
+          slot_start?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "waitlist_offers_entry_id_fkey"
+            columns: ["entry_id"]
+            isOneToOne: false
+            referencedRelation: "waitlist_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "waitlist_offers_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "availability_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
+      company_billing_periods: {
+        Row: {
+          company_id: string | null
+          ended_at: string | null
+          granted_minutes: number | null
+          minutes_used: number | null
+          period_start: string | null
+          plan_minutes: number | null
+          rollover_minutes: number | null
+          started_at: string | null
+          topup_minutes: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "minutes_ledger_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      company_minutes_balances: {
+        Row: {
+          company_id: string | null
+          minutes_included: number | null
+          minutes_used: number | null
+          period_start: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "minutes_ledger_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       specialists_public: {
         Row: {
           avatar_url: string | null
@@ -633,6 +1901,7 @@ export type Database = {
           is_active: boolean | null
           rate_tier: Database["public"]["Enums"]["specialist_rate_tier"] | null
           specialty: string | null
+          timezone: string | null
           video_url: string | null
           website: string | null
         }
@@ -644,6 +1913,7 @@ export type Database = {
           is_active?: boolean | null
           rate_tier?: Database["public"]["Enums"]["specialist_rate_tier"] | null
           specialty?: string | null
+          timezone?: string | null
           video_url?: string | null
           website?: string | null
         }
@@ -655,6 +1925,7 @@ export type Database = {
           is_active?: boolean | null
           rate_tier?: Database["public"]["Enums"]["specialist_rate_tier"] | null
           specialty?: string | null
+          timezone?: string | null
           video_url?: string | null
           website?: string | null
         }
@@ -662,7 +1933,185 @@ export type Database = {
       }
     }
     Functions: {
+      advance_waitlist: {
+        Args: { _claim_window?: unknown }
+        Returns: Database["public"]["Tables"]["waitlist_offers"]["Row"][]
+      }
+      apply_plan_downgrade: {
+        Args: { _actor_user_id?: string; _company_id: string; _plan_type: string }
+        Returns: undefined
+      }
+      booking_minutes_required:
+        | {
+            Args: { _session_duration: number; _specialist_id: string }
+            Returns: number
+          }
+        | {
+            Args: {
+              _pricing_version_id: string
+              _session_duration: number
+              _specialist_id: string
+            }
+            Returns: number
+          }
+      claim_dunning_reminders: {
+        Args: never
+        Returns: {
+          admin_email: string
+          company_id: string
+          company_name: string
+          grace_period_ends_at: string
+          reminder_number: number
+        }[]
+      }
+      claim_trial_warnings: {
+        Args: never
+        Returns: {
+          admin_email: string
+          company_id: string
+          company_name: string
+          trial_ends_at: string
+        }[]
+      }
       cleanup_expired_test_data: { Args: never; Returns: undefined }
+      company_overage_minutes_left: {
+        Args: { _company_id: string }
+        Returns: number
+      }
+      company_overage_rate: {
+        Args: { _company_id: string; _pricing_version_id?: string }
+        Returns: number
+      }
+      company_overage_spent_cents: {
+        Args: { _company_id: string }
+        Returns: number
+      }
+      complete_booking: {
+        Args: {
+          _actor_user_id?: string
+          _booking_id: string
+          _session_minutes: number
+        }
+        Returns: Database["public"]["Tables"]["minutes_ledger"]["Row"]
+      }
+      complete_group_session: {
+        Args: { _absent_attendee_ids?: string[]; _session_id: string }
+        Returns: number
+      }
+      create_booking: {
+        Args: {
+          _employee_user_id: string
+          _minutes_required: number
+          _notes: string | null
+          _proposed_datetime: string | null
+          _session_duration: number
+          _session_type: string
+          _slot_id: string | null
+          _specialist_id: string
+        }
+        Returns: Database["public"]["Tables"]["bookings"]["Row"]
+      }
+      create_pricing_version: {
+        Args: {
+          _effective_from: string
+          _note: string | null
+          _plans: Json
+          _tiers: Json
+        }
+        Returns: Database["public"]["Tables"]["pricing_versions"]["Row"]
+      }
+      credit_minute_pack: {
+        Args: { _checkout_session_id: string; _payment_intent_id?: string }
+        Returns: Database["public"]["Tables"]["minute_packs"]["Row"]
+      }
+      department_minutes_usage: {
+        Args: { _company_id: string }
+        Returns: {
+          department: string
+          minutes_reserved: number
+          minutes_used: number
+        }[]
+      }
+      employee_allowance: {
+        Args: { _company_id: string; _user_id: string }
+        Returns: {
+          cap_type: string
+          cap_value: number
+          is_default: boolean
+          minutes_used: number
+          sessions_used: number
+        }[]
+      }
+      expand_all_availability_rules: { Args: never; Returns: undefined }
+      expand_availability_rules: {
+        Args: { _days?: number; _specialist_id: string }
+        Returns: number
+      }
+      expire_minute_packs: { Args: never; Returns: undefined }
+      expire_trials: {
+        Args: never
+        Returns: {
+          admin_email: string
+          company_id: string
+          company_name: string
+        }[]
+      }
+      get_company_employee_allowances: {
+        Args: { _company_id: string }
+        Returns: {
+          cap_type: string
+          cap_value: number
+          company_employee_id: string
+          is_default: boolean
+          minutes_used: number
+          sessions_used: number
+        }[]
+      }
+      get_company_overage: {
+        Args: { _company_id: string }
+        Returns: {
+          amount_cents: number
+          currency: string
+          minutes: number
+          minutes_left: number
+          overage_enabled: boolean
+          overage_limit_cents: number
+          rate_cents_per_minute: number
+        }[]
+      }
+      get_department_approval_requests: {
+        Args: { _company_id: string }
+        Returns: {
+          booking_id: string
+          created_at: string
+          department: string
+          employee_email: string
+          employee_name: string
+          minutes_required: number
+          proposed_datetime: string
+          session_duration: number
+          specialist_name: string
+        }[]
+      }
+      get_group_session_room: { Args: { _session_id: string }; Returns: string }
+      get_group_session_seats: {
+        Args: { _session_ids: string[] }
+        Returns: {
+          registered_count: number
+          session_id: string
+          waitlisted_count: number
+        }[]
+      }
+      get_my_booking_allowance: {
+        Args: never
+        Returns: {
+          cap_type: string
+          cap_value: number
+          is_default: boolean
+          minutes_used: number
+          sessions_used: number
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -683,6 +2132,152 @@ export type Database = {
         Returns: boolean
       }
       is_test_account: { Args: { _user_id: string }; Returns: boolean }
+      leave_group_session: { Args: { _session_id: string }; Returns: string }
+      minute_pack_offers: {
+        Args: { _currency: string }
+        Returns: {
+          minutes: number
+          pack_id: string
+          price_cents: number
+          validity_days: number
+        }[]
+      }
+      plan_allowance: { Args: { _plan_type: string }; Returns: number }
+      plan_annual_allowance: { Args: { _plan_type: string }; Returns: string }
+      plan_rollover_cap: {
+        Args: { _plan_minutes: number; _plan_type: string }
+        Returns: number
+      }
+      preview_plan_change: {
+        Args: { _company_id: string; _plan_type: string }
+        Returns: {
+          applies_now: boolean
+          billing_interval: string
+          current_allowance: number
+          current_price_cents: number
+          currency: string
+          direction: string
+          minutes_committed: number
+          minutes_left_after: number
+          new_allowance: number
+          new_price_cents: number
+          period_end: string
+          prorated_cents: number
+        }[]
+      }
+      pricing_tier_multiplier: {
+        Args: { _rate_tier: string; _version_id: string | null }
+        Returns: number
+      }
+      pricing_version_at: { Args: { _at?: string }; Returns: string }
+      promote_group_waitlist: { Args: { _session_id: string }; Returns: string }
+      refresh_company_minutes: {
+        Args: { _company_id: string }
+        Returns: undefined
+      }
+      register_for_group_session: {
+        Args: { _session_id: string }
+        Returns: string
+      }
+      renew_test_account_periods: { Args: never; Returns: undefined }
+      request_specialist_payout: {
+        Args: { _specialist_id: string }
+        Returns: Database["public"]["Tables"]["payout_requests"]["Row"]
+      }
+      resolve_employee_company: { Args: { _user_id: string }; Returns: string }
+      review_department_booking: {
+        Args: { _approve: boolean; _booking_id: string }
+        Returns: Database["public"]["Tables"]["bookings"]["Row"]
+      }
+      specialist_booking_pay: {
+        Args: { _booking: Database["public"]["Tables"]["bookings"]["Row"] }
+        Returns: {
+          currency: string
+          pay_cents: number
+          rate_cents: number
+        }[]
+      }
+      specialist_earnings: {
+        Args: { _from: string; _specialist_id: string; _to: string }
+        Returns: {
+          currency: string
+          earnings_cents: number
+          sessions: number
+        }[]
+      }
+      specialist_unpaid_earnings: {
+        Args: { _specialist_id: string }
+        Returns: {
+          currency: string
+          earnings_cents: number
+          sessions: number
+        }[]
+      }
+      start_company_trial: {
+        Args: never
+        Returns: {
+          trial_ends_at: string
+          trial_minutes: number
+        }[]
+      }
+      suspend_overdue_companies: {
+        Args: never
+        Returns: {
+          admin_email: string
+          booking_id: string
+          company_id: string
+          company_name: string
+        }[]
+      }
+      sync_annual_allowances: { Args: never; Returns: undefined }
+      sync_plan_minutes: {
+        Args: {
+          _actor_user_id?: string
+          _company_id: string
+          _period_start: string
+          _plan_minutes: number
+        }
+        Returns: undefined
+      }
+      sync_subscription_minutes: {
+        Args: { _actor_user_id?: string; _company_id: string }
+        Returns: undefined
+      }
+      tier_multiplier: { Args: { _rate_tier: string }; Returns: number }
+      transition_payout_request: {
+        Args: {
+          _action: string
+          _actor_user_id?: string
+          _expected_payment_date?: string
+          _payout_request_id: string
+          _reason?: string
+        }
+        Returns: Database["public"]["Tables"]["payout_requests"]["Row"]
+      }
+      unused_pack_minutes: { Args: { _company_id: string }; Returns: number }
+      validate_promo_code: {
+        Args: { _code: string; _company_id?: string }
+        Returns: {
+          amount_off_cents: number
+          code: string
+          currency: string
+          description: string
+          duration_months: number
+          id: string
+          percent_off: number
+          stripe_coupon_id: string
+        }[]
+      }
+      waitlist_entry_matches: {
+        Args: {
+          _earliest_time: string
+          _latest_time: string
+          _start: string
+          _timezone: string
+          _weekdays: number[]
+        }
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "company_admin" | "employee" | "specialist"
@@ -0,0 +1,33 @@
+// Per-employee allowance caps, enforced by create_booking. A cap limits either the minutes or the
+// number of sessions an employee can use in each billing period.
+
+export type AllowanceCapType = 'minutes' | 'sessions';
+
+export type EmployeeAllowance = {
+  cap_type: AllowanceCapType | null;
+  cap_value: number | null;
+  is_default: boolean;
+  minutes_used: number;
+  sessions_used: number;
+};
+
+export const describeCap = (capType: AllowanceCapType | null, capValue: number | null): string => {
+  if (!capType || !capValue) return 'No cap';
+  return capType === 'minutes'
+    ? `${capValue.toLocaleString()} minutes per period`
+    : `${capValue} ${capValue === 1 ? 'session' : 'sessions'} per period`;
+};
+
+// What is left of the cap in its own unit, or null when the employee has no cap
+export const getRemainingAllowance = (allowance: EmployeeAllowance): number | null => {
+  if (!allowance.cap_type || !allowance.cap_value) return null;
+  const used = allowance.cap_type === 'minutes' ? allowance.minutes_used : allowance.sessions_used;
+  return Math.max(0, allowance.cap_value - used);
+};
+
+// Whether a session costing `minutesRequired` still fits within the cap
+export const fitsAllowance = (allowance: EmployeeAllowance, minutesRequired: number): boolean => {
+  const remaining = getRemainingAllowance(allowance);
+  if (remaining === null) return true;
+  return allowance.cap_type === 'minutes' ? minutesRequired <= remaining : remaining >= 1;
+};
@@ -0,0 +1,25 @@
+// Currencies companies can be billed in and specialists paid in, as lowercase Stripe codes.
+// Matches the currency checks in the database.
+export const CURRENCIES = ['usd', 'eur', 'gbp'] as const;
+
+export type Currency = typeof CURRENCIES[number];
+
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  usd: 'US Dollar ($)',
+  eur: 'Euro (€)',
+  gbp: 'British Pound (£)',
+};
+
+export const isCurrency = (value: unknown): value is Currency =>
+  typeof value === 'string' && (CURRENCIES as readonly string[]).includes(value);
+
+// Whole amounts are shown without decimals, e.g. "€315" but "€18.40"
+export const formatMoney = (amount: number, currency: string | null | undefined): string => {
+  const code = isCurrency(currency) ? currency : 'usd';
+  return new Intl.NumberFormat(undefined, {
+    style: 'currency',
+    currency: code.toUpperCase(),
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
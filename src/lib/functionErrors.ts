@@ -0,0 +1,16 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+// supabase.functions.invoke only reports "Edge Function returned a non-2xx status code"
+// for error responses; the actual reason lives in the JSON body ({ error: string }).
+export const getFunctionErrorMessage = async (error: unknown): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    try {
+      const body = await error.context.json();
+      if (body?.error) return String(body.error);
+    } catch {
+      // Body was not JSON; fall back to the generic message below.
+    }
+  }
+
+  return error instanceof Error ? error.message : String(error);
+};
@@ -0,0 +1,33 @@
+// requested -> approved -> paid, or rejected; an approved payout can fail and be retried
+export type PayoutStatus = 'requested' | 'approved' | 'paid' | 'rejected' | 'failed';
+
+export const PAYOUT_STATUS_LABELS: Record<PayoutStatus, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  paid: 'Paid',
+  rejected: 'Rejected',
+  failed: 'Failed',
+};
+
+export const PAYOUT_STATUS_CLASSES: Record<PayoutStatus, string> = {
+  requested: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200',
+  approved: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  paid: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  failed: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+};
+
+// Entries in payout_request_events
+export const PAYOUT_EVENT_LABELS: Record<string, string> = {
+  requested: 'Requested',
+  approved: 'Approved',
+  paid: 'Paid',
+  rejected: 'Rejected',
+  failed: 'Payment failed',
+  retried: 'Retried',
+};
+
+export const isPayoutStatus = (value: string): value is PayoutStatus => value in PAYOUT_STATUS_LABELS;
+
+// Requests still on their way to being paid; a specialist can only have one at a time
+export const isOpenPayout = (status: string) => ['requested', 'approved', 'failed'].includes(status);
@@ -1,11 +1,30 @@
-// Wellness Plans Configuration
+import { formatMoney } from '@/lib/currency';
+
+// How many unused minutes carry into the next billing period.
+// public.plan_rollover_cap applies the rule of the current pricing version at renewal.
+export type RolloverRule =
+  | { type: 'none' }
+  | { type: 'minutes'; max: number }
+  | { type: 'percent'; max: number };
+
+export type BillingInterval = 'month' | 'year';
+
+// How an annual contract hands out minutes: the monthly allowance each month, or twelve months'
+// worth as one pool at the start. Set per plan in the pricing catalog.
+export type AnnualAllowance = 'monthly' | 'yearly';
+
+// Launch prices, as seeded into the pricing catalog. Live prices are edited from /admin and
+// read through usePricingCatalog; these are only shown until the catalog has loaded.
 export const WELLNESS_PLANS = {
   solopreneur: {
     id: 'solopreneur',
     name: 'Solopreneur',
     price: 80,
+    annualPrice: 800,
+    annualAllowance: 'monthly' as AnnualAllowance,
     minutes: 60,
     hours: 1,
+    rollover: { type: 'none' } as RolloverRule,
     // Solopreneur checkout uses dynamic Stripe price_data unless a dedicated price is configured.
     priceId: '',
     productId: '',
@@ -14,8 +33,11 @@ export const WELLNESS_PLANS = {
     id: 'starter',
     name: 'Starter',
     price: 340,
+    annualPrice: 3400,
+    annualAllowance: 'monthly' as AnnualAllowance,
     minutes: 500,
     hours: 8.3,
+    rollover: { type: 'minutes', max: 120 } as RolloverRule,
     priceId: 'price_1SqEi7GdNaB1L9YZi2z1wViF',
     productId: 'prod_TnqOv9nQuyjGf6',
   },
@@ -23,8 +45,11 @@ export const WELLNESS_PLANS = {
     id: 'growth',
     name: 'Growth',
     price: 950,
+    annualPrice: 9500,
+    annualAllowance: 'monthly' as AnnualAllowance,
     minutes: 1500,
     hours: 25,
+    rollover: { type: 'percent', max: 20 } as RolloverRule,
     priceId: 'price_1SqEiJGdNaB1L9YZCJqfjMTg',
     productId: 'prod_TnqPkq4mEodBDu',
   },
@@ -32,14 +57,17 @@ export const WELLNESS_PLANS = {
     id: 'scale',
     name: 'Scale',
     price: 1850,
+    annualPrice: 18500,
+    annualAllowance: 'monthly' as AnnualAllowance,
     minutes: 3600,
     hours: 60,
+    rollover: { type: 'percent', max: 25 } as RolloverRule,
     priceId: 'price_1SqEiVGdNaB1L9YZBSASxzco',
     productId: 'prod_TnqPblqQcc6hnM',
   },
 } as const;
 
-// Specialist Rate Tiers
+// Specialist Rate Tiers, as seeded into the pricing catalog
 export const SPECIALIST_TIERS = {
   standard: {
     id: 'standard',
@@ -81,6 +109,45 @@ export type SpecialistTier = keyof typeof SPECIALIST_TIERS;
 // Array format for easy iteration
 export const PLANS = Object.values(WELLNESS_PLANS);
 
+export const getRolloverCap = (rule: RolloverRule, allowance: number): number => {
+  switch (rule.type) {
+    case 'minutes': return rule.max;
+    case 'percent': return Math.floor((allowance * rule.max) / 100);
+    default: return 0;
+  }
+};
+
+export const describeRollover = (rule: RolloverRule, allowance: number): string => {
+  switch (rule.type) {
+    case 'minutes': return `Up to ${rule.max} unused minutes roll over at renewal`;
+    case 'percent': return `Up to ${getRolloverCap(rule, allowance)} unused minutes (${rule.max}% of the allowance) roll over at renewal`;
+    default: return 'Unused minutes expire at renewal';
+  }
+};
+
+// How much an annual contract saves over twelve monthly payments, as a whole percentage
+export const annualSavingsPercent = (monthlyPrice: number, annualPrice: number): number =>
+  monthlyPrice > 0 && annualPrice > 0 ? Math.max(0, Math.round((1 - annualPrice / (monthlyPrice * 12)) * 100)) : 0;
+
+export const describeAnnualAllowance = (allowance: AnnualAllowance, monthlyMinutes: number): string =>
+  allowance === 'yearly'
+    ? `${(monthlyMinutes * 12).toLocaleString()} minutes to use across the year`
+    : `${monthlyMinutes.toLocaleString()} minutes granted each month`;
+
+// A promo code's discount as shown to admins and at checkout, e.g. "20% off for 3 months"
+export const describePromoDiscount = (promo: {
+  percent_off: number | null;
+  amount_off_cents: number | null;
+  currency: string | null;
+  duration_months: number | null;
+}): string => {
+  const amount = promo.percent_off
+    ? `${promo.percent_off}% off`
+    : `${formatMoney((promo.amount_off_cents ?? 0) / 100, promo.currency)} off`;
+  if (!promo.duration_months) return `${amount} every month`;
+  return promo.duration_months === 1 ? `${amount} the first month` : `${amount} for ${promo.duration_months} months`;
+};
+
 // Test account domains that bypass Stripe payment
 export const TEST_ACCOUNT_DOMAINS = ['hollyaid.com', 'shakeapp.today', 'aptw.us'];
 
@@ -0,0 +1,197 @@
+import { format } from 'date-fns';
+import { formatMoney } from '@/lib/currency';
+
+// A billing period's statement as returned by company-minutes-breakdown
+export interface Statement {
+  company: { name: string; logo_url: string | null };
+  currency: string;
+  period: { started_at: string; ended_at: string | null };
+  lines: Array<{
+    date: string;
+    kind: 'plan' | 'discount' | 'topup' | 'overage';
+    description: string;
+    minutes: number | null;
+    amount_cents: number;
+  }>;
+  sessions: Array<{
+    date: string;
+    specialty: string;
+    rate_tier: string | null;
+    duration_minutes: number;
+    minutes_charged: number;
+  }>;
+  total_cents: number;
+}
+
+const LINE_LABELS: Record<Statement['lines'][number]['kind'], string> = {
+  plan: 'Plan fee',
+  discount: 'Discount',
+  topup: 'Top-up',
+  overage: 'Overage',
+};
+
+const formatTier = (tier: string | null) => (tier ? tier.charAt(0).toUpperCase() + tier.slice(1) : '');
+
+const formatDay = (value: string) => format(new Date(value), 'yyyy-MM-dd');
+
+export const describeStatementPeriod = (statement: Statement) =>
+  `${format(new Date(statement.period.started_at), 'PP')} – ${
+    statement.period.ended_at ? format(new Date(statement.period.ended_at), 'PP') : 'today'
+  }`;
+
+const statementFileName = (statement: Statement, extension: string) =>
+  `hollyaid-statement-${formatDay(statement.period.started_at)}.${extension}`;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per charge and per session, so finance can filter by type in a spreadsheet
+export const downloadStatementCsv = (statement: Statement) => {
+  const currency = statement.currency.toUpperCase();
+  const rows: Array<Array<string | number | null>> = [
+    ['Date', 'Type', 'Description', 'Specialty', 'Tier', 'Duration (min)', 'Minutes', `Amount (${currency})`],
+    ...statement.lines.map((line) => [
+      formatDay(line.date),
+      LINE_LABELS[line.kind],
+      line.description,
+      null,
+      null,
+      null,
+      line.minutes,
+      (line.amount_cents / 100).toFixed(2),
+    ]),
+    ...statement.sessions.map((session) => [
+      formatDay(session.date),
+      'Session',
+      null,
+      session.specialty,
+      formatTier(session.rate_tier),
+      session.duration_minutes,
+      session.minutes_charged,
+      null,
+    ]),
+    [null, 'Total', null, null, null, null, null, (statement.total_cents / 100).toFixed(2)],
+  ];
+
+  const csv = rows.map((row) => row.map(csvCell).join(',')).join('\n');
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), statementFileName(statement, 'csv'));
+};
+
+// The logo is optional; a missing or unreadable image leaves the header without it
+const loadLogo = async (url: string | null) => {
+  if (!url) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const blob = await response.blob();
+    if (!['image/png', 'image/jpeg'].includes(blob.type)) return null;
+    return await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(blob);
+    });
+  } catch {
+    return null;
+  }
+};
+
+export const downloadStatementPdf = async (statement: Statement) => {
+  // Loaded on demand; most visits to the billing page never download a statement
+  const { jsPDF } = await import('jspdf');
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const right = pageWidth - margin;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  const logo = await loadLogo(statement.company.logo_url);
+  if (logo) {
+    const { width, height } = doc.getImageProperties(logo);
+    const logoHeight = 14;
+    doc.addImage(logo, margin, y, (width / height) * logoHeight, logoHeight);
+    y += logoHeight + 6;
+  }
+
+  doc.setFontSize(18);
+  doc.text(statement.company.name, margin, y + 4);
+  doc.setFontSize(10);
+  doc.text('HollyAid statement', right, y, { align: 'right' });
+  doc.text(describeStatementPeriod(statement), right, y + 5, { align: 'right' });
+  y += 16;
+
+  const money = (cents: number) => formatMoney(cents / 100, statement.currency);
+
+  doc.setFontSize(12);
+  doc.text('Charges', margin, y);
+  y += 6;
+  doc.setFontSize(9);
+  if (statement.lines.length === 0) {
+    doc.text('No charges in this period.', margin, y);
+    y += 6;
+  }
+  for (const line of statement.lines) {
+    ensureSpace(6);
+    doc.text(formatDay(line.date), margin, y);
+    doc.text(LINE_LABELS[line.kind], margin + 25, y);
+    doc.text(line.description, margin + 50, y);
+    if (line.minutes !== null) doc.text(`${line.minutes.toLocaleString()} min`, right - 35, y, { align: 'right' });
+    doc.text(money(line.amount_cents), right, y, { align: 'right' });
+    y += 6;
+  }
+  doc.setLineWidth(0.2);
+  doc.line(margin, y - 3, right, y - 3);
+  doc.setFontSize(10);
+  doc.text('Total', margin, y + 2);
+  doc.text(money(statement.total_cents), right, y + 2, { align: 'right' });
+  y += 14;
+
+  ensureSpace(20);
+  doc.setFontSize(12);
+  doc.text('Sessions', margin, y);
+  y += 6;
+  doc.setFontSize(9);
+  if (statement.sessions.length === 0) {
+    doc.text('No completed sessions in this period.', margin, y);
+    y += 6;
+  } else {
+    doc.text('Date', margin, y);
+    doc.text('Specialty', margin + 25, y);
+    doc.text('Tier', margin + 95, y);
+    doc.text('Duration', right - 35, y, { align: 'right' });
+    doc.text('Minutes charged', right, y, { align: 'right' });
+    y += 6;
+  }
+  for (const session of statement.sessions) {
+    ensureSpace(6);
+    doc.text(formatDay(session.date), margin, y);
+    doc.text(session.specialty, margin + 25, y);
+    doc.text(formatTier(session.rate_tier), margin + 95, y);
+    doc.text(`${session.duration_minutes} min`, right - 35, y, { align: 'right' });
+    doc.text(session.minutes_charged.toLocaleString(), right, y, { align: 'right' });
+    y += 6;
+  }
+
+  doc.save(statementFileName(statement, 'pdf'));
+};
@@ -0,0 +1,121 @@
+// Timezone helpers built on Intl so times can be shown and entered in a user's stored
+// IANA timezone rather than whatever timezone the browser happens to be in.
+
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Stored timezone if it is set and valid, otherwise the browser's
+export const resolveTimeZone = (timeZone?: string | null): string =>
+  timeZone && isValidTimeZone(timeZone) ? timeZone : getBrowserTimeZone();
+
+// Common IANA timezones offered in Settings and the admin specialist form
+export const TIME_ZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'Pacific/Honolulu', label: 'Honolulu' },
+  { value: 'America/Anchorage', label: 'Anchorage' },
+  { value: 'America/Los_Angeles', label: 'Los Angeles (Pacific)' },
+  { value: 'America/Denver', label: 'Denver (Mountain)' },
+  { value: 'America/Chicago', label: 'Chicago (Central)' },
+  { value: 'America/Mexico_City', label: 'Mexico City' },
+  { value: 'America/New_York', label: 'New York (Eastern)' },
+  { value: 'America/Bogota', label: 'Bogotá' },
+  { value: 'America/Halifax', label: 'Halifax (Atlantic)' },
+  { value: 'America/Sao_Paulo', label: 'São Paulo' },
+  { value: 'America/Argentina/Buenos_Aires', label: 'Buenos Aires' },
+  { value: 'Atlantic/Azores', label: 'Azores' },
+  { value: 'UTC', label: 'UTC' },
+  { value: 'Europe/London', label: 'London' },
+  { value: 'Europe/Dublin', label: 'Dublin' },
+  { value: 'Europe/Lisbon', label: 'Lisbon' },
+  { value: 'Europe/Madrid', label: 'Madrid' },
+  { value: 'Europe/Paris', label: 'Paris' },
+  { value: 'Europe/Berlin', label: 'Berlin' },
+  { value: 'Europe/Amsterdam', label: 'Amsterdam' },
+  { value: 'Europe/Rome', label: 'Rome' },
+  { value: 'Europe/Warsaw', label: 'Warsaw' },
+  { value: 'Africa/Johannesburg', label: 'Johannesburg' },
+  { value: 'Europe/Athens', label: 'Athens' },
+  { value: 'Europe/Helsinki', label: 'Helsinki' },
+  { value: 'Europe/Istanbul', label: 'Istanbul' },
+  { value: 'Asia/Dubai', label: 'Dubai' },
+  { value: 'Asia/Kolkata', label: 'India' },
+  { value: 'Asia/Bangkok', label: 'Bangkok' },
+  { value: 'Asia/Singapore', label: 'Singapore' },
+  { value: 'Asia/Shanghai', label: 'Shanghai' },
+  { value: 'Asia/Tokyo', label: 'Tokyo' },
+  { value: 'Australia/Sydney', label: 'Sydney' },
+  { value: 'Pacific/Auckland', label: 'Auckland' },
+];
+
+export const formatDateInTimeZone = (date: Date | string, timeZone: string): string =>
+  new Date(date).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone,
+  });
+
+export const formatTimeInTimeZone = (date: Date | string, timeZone: string): string =>
+  new Date(date).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+  });
+
+// Short name such as "CET" or "GMT+1", resolved for the given instant so DST is reflected
+export const getTimeZoneAbbreviation = (date: Date | string, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(new Date(date))
+    .find((part) => part.type === 'timeZoneName')?.value || timeZone;
+
+// "yyyy-MM-dd" of the instant as seen in the given timezone
+export const getDateKeyInTimeZone = (date: Date | string, timeZone: string): string =>
+  new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' })
+    .format(new Date(date));
+
+// Milliseconds the timezone is ahead of UTC at the given instant
+const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Wall-clock date ("yyyy-MM-dd") and time ("HH:mm") in a timezone -> absolute instant.
+// The offset is re-checked at the resulting instant so dates across a DST change resolve correctly.
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const result = wallClock - offset;
+  const correctedOffset = getTimeZoneOffset(new Date(result), timeZone);
+
+  return new Date(correctedOffset === offset ? result : wallClock - correctedOffset);
+};
+
+// True when both timezones show the same wall-clock time at this instant
+export const isSameLocalTime = (date: Date | string, timeZoneA: string, timeZoneB: string): boolean =>
+  getTimeZoneOffset(new Date(date), timeZoneA) === getTimeZoneOffset(new Date(date), timeZoneB);
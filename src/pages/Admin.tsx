@@ -29,7 +29,11 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import AdminActivityLog from '@/components/AdminActivityLog';
+import AdminBookingPolicy from '@/components/AdminBookingPolicy';
+import AdminBillingPolicy from '@/components/AdminBillingPolicy';
 import AdminPayoutRequests from '@/components/AdminPayoutRequests';
+import AdminPricingCatalog from '@/components/AdminPricingCatalog';
+import AdminPromoCodes from '@/components/AdminPromoCodes';
 import SpecialistFormDialog from '@/components/SpecialistFormDialog';
 
 interface Specialist {
@@ -44,6 +48,7 @@ interface Specialist {
   user_id: string | null;
   rate_tier: string | null;
   website?: string | null;
+  timezone?: string | null;
 }
 
 // Only these emails can invite specialists
@@ -786,11 +791,15 @@ const Admin: React.FC = () => {
           </Card>
         )}
 
-        {/* Payout Requests & Activity Log - only visible to authorized emails */}
+        {/* Payout Requests, Activity Log & Policies - only visible to authorized emails */}
         {canInviteSpecialists && (
           <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-6">
             <AdminPayoutRequests />
             <AdminActivityLog />
+            <AdminBookingPolicy onLogActivity={logActivity} />
+            <AdminBillingPolicy onLogActivity={logActivity} />
+            <AdminPricingCatalog onLogActivity={logActivity} />
+            <AdminPromoCodes onLogActivity={logActivity} />
           </div>
         )}
       </main>
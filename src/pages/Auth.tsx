@@ -8,9 +8,10 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Building2, Users, AlertCircle, CheckCircle2, Loader2, HandHeart, ArrowLeft, KeyRound } from 'lucide-react';
+import { Building2, Users, AlertCircle, CheckCircle2, Loader2, HandHeart, ArrowLeft, KeyRound, Gift } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import PlanSelection, { Plan } from '@/components/PlanSelection';
+import PromoCodeInput, { AppliedPromo } from '@/components/PromoCodeInput';
 import { isTestAccountEmail } from '@/lib/plans';
 
 type AuthView = 'main' | 'employee-login' | 'specialist-login' | 'company-login' | 'register' | 'select-plan';
@@ -47,6 +48,22 @@ const Auth: React.FC = () => {
   const [redirectingToPayment, setRedirectingToPayment] = useState(false);
   const [selectedPlanId, setSelectedPlanId] = useState<string>('');
   const [registeredUserId, setRegisteredUserId] = useState<string | null>(null);
+  const [appliedPromo, setAppliedPromo] = useState<AppliedPromo | null>(null);
+  const [trialOffer, setTrialOffer] = useState<{ days: number; minutes: number } | null>(null);
+
+  // The free trial is only offered to a company that has never had a plan or a trial
+  useEffect(() => {
+    if (view !== 'select-plan' || !registeredUserId) return;
+    const fetchTrialOffer = async () => {
+      const [{ data: policy }, { data: company }] = await Promise.all([
+        supabase.from('billing_policy').select('trial_days, trial_minutes').maybeSingle(),
+        supabase.from('companies').select('plan_type, trial_started_at, stripe_subscription_id').eq('admin_user_id', registeredUserId).order('created_at', { ascending: false }).limit(1).maybeSingle(),
+      ]);
+      const eligible = company && !company.plan_type && !company.trial_started_at && !company.stripe_subscription_id;
+      setTrialOffer(policy && eligible ? { days: policy.trial_days, minutes: policy.trial_minutes } : null);
+    };
+    fetchTrialOffer();
+  }, [view, registeredUserId]);
 
   const validateCompanyEmail = (email: string) => {
     if (!email) { setEmailError(''); return; }
@@ -57,7 +74,7 @@ const Auth: React.FC = () => {
 
   const resetForm = () => {
     setEmail(''); setPin(''); setPassword(''); setFullName('');
-    setCompanyName(''); setEmailError(''); setSelectedPlanId(''); setRegisteredUserId(null);
+    setCompanyName(''); setEmailError(''); setSelectedPlanId(''); setRegisteredUserId(null); setAppliedPromo(null); setTrialOffer(null);
   };
 
   const handlePinLogin = async (e: React.FormEvent, type: 'employee' | 'specialist' | 'company') => {
@@ -130,7 +147,7 @@ const Auth: React.FC = () => {
         const domain = normalizedEmail.split('@')[1];
         const { data: company, error: companyError } = await supabase
           .from('companies')
-          .select('subscription_status')
+          .select('subscription_status, admin_user_id')
           .eq('email_domain', domain)
           .single();
 
@@ -144,6 +161,15 @@ const Auth: React.FC = () => {
           return;
         }
 
+        // The company admin picks a plan (or starts a trial) rather than being turned away
+        const { data: { user: currentUser } } = await supabase.auth.getUser();
+        if (company?.subscription_status === 'unpaid' && currentUser && company.admin_user_id === currentUser.id) {
+          toast({ title: 'Choose a plan', description: 'Your company needs a plan to continue.' });
+          setRegisteredUserId(currentUser.id);
+          setView('select-plan');
+          return;
+        }
+
         if (!company || company.subscription_status === 'unpaid') {
           toast({
             title: 'Subscription required',
@@ -211,7 +237,7 @@ const Auth: React.FC = () => {
   const handlePlanSelect = async (plan: Plan) => {
     setSelectedPlanId(plan.id); setLoading(true);
     try {
-      const { data, error } = await supabase.functions.invoke('create-checkout', { body: { planType: plan.id } });
+      const { data, error } = await supabase.functions.invoke('create-checkout', { body: { planType: plan.id, interval: plan.interval, currency: plan.currency, promoCode: appliedPromo?.code } });
       if (error) throw error;
       if (data?.isTestAccount) { toast({ title: 'Plan activated!', description: `Your ${plan.name} plan is now active.` }); navigate('/complete-profile'); return; }
       if (data?.url) { setRedirectingToPayment(true); window.location.href = data.url; }
@@ -220,6 +246,16 @@ const Auth: React.FC = () => {
     setLoading(false);
   };
 
+  const handleStartTrial = async () => {
+    setSelectedPlanId('trial'); setLoading(true);
+    const { data, error } = await supabase.rpc('start_company_trial');
+    if (error) { toast({ title: 'Could not start your trial', description: error.message, variant: 'destructive' }); setLoading(false); return; }
+    const trial = data?.[0];
+    toast({ title: 'Your free trial has started', description: trial ? `${trial.trial_minutes} minutes to use until ${new Date(trial.trial_ends_at).toLocaleDateString()}.` : undefined });
+    setLoading(false);
+    navigate('/complete-profile');
+  };
+
   if (redirectingToPayment) {
     return (
       <div className="min-h-screen bg-background flex flex-col items-center justify-center">
@@ -345,6 +381,27 @@ const Auth: React.FC = () => {
         <ArrowLeft size={16} className="mr-1" /> Back to Login
       </Button>
       <PlanSelection onSelectPlan={handlePlanSelect} loading={loading} selectedPlanId={selectedPlanId} />
+      <div className="mt-6 grid gap-4 md:grid-cols-2">
+        <Card>
+          <CardContent className="pt-6">
+            <PromoCodeInput value={appliedPromo} onChange={setAppliedPromo} disabled={loading} />
+          </CardContent>
+        </Card>
+        {trialOffer && (
+          <Card>
+            <CardContent className="pt-6 flex items-center justify-between gap-4">
+              <div>
+                <p className="font-medium flex items-center gap-2"><Gift size={16} className="text-primary" />Not ready to choose?</p>
+                <p className="text-sm text-muted-foreground">Try HollyAid free for {trialOffer.days} days with {trialOffer.minutes} wellness minutes. No card needed.</p>
+              </div>
+              <Button variant="outline" onClick={handleStartTrial} disabled={loading}>
+                {loading && selectedPlanId === 'trial' && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                Start free trial
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
     </div>
   );
 
@@ -3,23 +3,96 @@ import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { getCompanyAdminAccess } from "@/lib/companyAdminAccess";
+import { describeAnnualAllowance } from "@/lib/plans";
+import { isCurrency } from "@/lib/currency";
+import { getFunctionErrorMessage } from "@/lib/functionErrors";
+import { downloadStatementCsv, downloadStatementPdf, type Statement } from "@/lib/statements";
+import { useToast } from "@/hooks/use-toast";
+import { usePricingCatalog } from "@/hooks/usePricingCatalog";
 import Logo from "@/components/Logo";
 import MinutesUsageTracker from "@/components/MinutesUsageTracker";
+import MinutePacksCard from "@/components/MinutePacksCard";
+import OverageBillingCard from "@/components/OverageBillingCard";
+import DepartmentBudgetsCard, { type DepartmentUsage } from "@/components/DepartmentBudgetsCard";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Building2, Clock, ReceiptText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Building2, CalendarRange, Clock, Download, History, Loader2, ReceiptText } from "lucide-react";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
 import { useTranslation } from "react-i18next";
 import LanguagePicker from "@/components/LanguagePicker";
 
 interface Company {
+  id: string;
   plan_type: string | null;
+  scheduled_plan_type: string | null;
   minutes_included: number | null;
   minutes_used: number | null;
+  minutes_reserved: number | null;
+  subscription_period_start: string | null;
   subscription_period_end: string | null;
+  trial_ends_at: string | null;
+  billing_currency: string;
+  billing_interval: string;
 }
 
+type LedgerEntry = {
+  id: string;
+  entry_type: "grant" | "deduction" | "refund" | "reset" | "rollover" | "topup" | "expiry" | "downgrade";
+  minutes: number;
+  booking_id: string | null;
+  rate_tier: string | null;
+  multiplier: number | null;
+  session_minutes: number | null;
+  note: string | null;
+  created_at: string;
+};
+
+const ENTRY_LABELS: Record<LedgerEntry["entry_type"], string> = {
+  reset: "Period start",
+  rollover: "Rolled over",
+  topup: "Top-up pack",
+  expiry: "Pack expired",
+  downgrade: "Plan downgrade",
+  grant: "Minutes added",
+  deduction: "Session",
+  refund: "Refund",
+};
+
+// Minutes a ledger entry adds to (+) or takes from (-) the balance
+const signedMinutes = (entry: LedgerEntry) =>
+  entry.entry_type === "deduction" || entry.entry_type === "expiry" || entry.entry_type === "downgrade"
+    ? -entry.minutes
+    : entry.minutes;
+
+const describeEntry = (entry: LedgerEntry) => {
+  if (entry.entry_type === "deduction" && entry.session_minutes) {
+    const tier = entry.rate_tier ? `${entry.rate_tier} tier` : "session";
+    const detail = `${entry.session_minutes} min ${tier} × ${entry.multiplier ?? 1}`;
+    return entry.note ? `${entry.note} · ${detail}` : detail;
+  }
+  return entry.note ?? "";
+};
+
+type BillingPeriod = {
+  period_start: string;
+  started_at: string;
+  ended_at: string | null;
+  plan_minutes: number;
+  rollover_minutes: number;
+  granted_minutes: number;
+  minutes_used: number;
+  topup_minutes: number;
+};
+
+// Periods shown in the billing history, newest first
+const MAX_BILLING_PERIODS = 12;
+
+const formatPeriodDate = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+
 type WeeklyUsagePoint = {
   weekLabel: string;
   minutes: number;
@@ -29,6 +102,7 @@ const CompanyBilling: React.FC = () => {
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
   const { t } = useTranslation();
+  const { toast } = useToast();
 
   const [loading, setLoading] = useState(true);
   const [company, setCompany] = useState<Company | null>(null);
@@ -36,6 +110,11 @@ const CompanyBilling: React.FC = () => {
 
   const [weeklyLoading, setWeeklyLoading] = useState(false);
   const [weekly, setWeekly] = useState<WeeklyUsagePoint[]>([]);
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [periods, setPeriods] = useState<BillingPeriod[]>([]);
+  const [departments, setDepartments] = useState<DepartmentUsage[]>([]);
+  // "<started_at>:pdf" or "<started_at>:csv" while that statement is being prepared
+  const [downloadingStatement, setDownloadingStatement] = useState<string | null>(null);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -66,7 +145,7 @@ const CompanyBilling: React.FC = () => {
 
       const { data: companyData, error: companyDataError } = await supabase
         .from("companies")
-        .select("plan_type, minutes_included, minutes_used, subscription_period_end")
+        .select("id, plan_type, scheduled_plan_type, minutes_included, minutes_used, minutes_reserved, subscription_period_start, subscription_period_end, trial_ends_at, billing_currency, billing_interval")
         .eq("id", adminCompany.id)
         .maybeSingle();
 
@@ -74,6 +153,16 @@ const CompanyBilling: React.FC = () => {
 
       setIsCompanyAdmin(!!companyData);
       setCompany((companyData as Company | null) ?? null);
+
+      const { data: periodRows, error: periodsError } = await supabase
+        .from("company_billing_periods")
+        .select("period_start, started_at, ended_at, plan_minutes, rollover_minutes, granted_minutes, minutes_used, topup_minutes")
+        .eq("company_id", adminCompany.id)
+        .order("started_at", { ascending: false })
+        .limit(MAX_BILLING_PERIODS);
+
+      if (periodsError) console.error("Error loading billing periods:", periodsError);
+      setPeriods((periodRows as BillingPeriod[] | null) ?? []);
     } catch (e) {
       console.error("Error loading company billing:", e);
       setIsCompanyAdmin(false);
@@ -96,9 +185,13 @@ const CompanyBilling: React.FC = () => {
         return { weekLabel: label, minutes: Number(w.minutes_used ?? 0) };
       });
       setWeekly(points);
+      setEntries((data?.entries ?? []) as LedgerEntry[]);
+      setDepartments((data?.departments ?? []) as DepartmentUsage[]);
     } catch (e) {
       console.error("Error loading weekly breakdown:", e);
       setWeekly([]);
+      setEntries([]);
+      setDepartments([]);
     } finally {
       setWeeklyLoading(false);
     }
@@ -111,10 +204,39 @@ const CompanyBilling: React.FC = () => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isCompanyAdmin, !!company]);
 
+  const downloadStatement = async (period: BillingPeriod, kind: "pdf" | "csv") => {
+    setDownloadingStatement(`${period.started_at}:${kind}`);
+    try {
+      const { data, error } = await supabase.functions.invoke("company-minutes-breakdown", {
+        body: { statementStartedAt: period.started_at },
+      });
+      if (error) throw error;
+
+      const statement = data.statement as Statement;
+      if (kind === "pdf") {
+        await downloadStatementPdf(statement);
+      } else {
+        downloadStatementCsv(statement);
+      }
+    } catch (e) {
+      toast({
+        title: "Failed to download statement",
+        description: await getFunctionErrorMessage(e),
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingStatement(null);
+    }
+  };
+
+  const { plans } = usePricingCatalog(isCurrency(company?.billing_currency) ? company.billing_currency : "usd");
+  const currentPlan = plans.find((plan) => plan.id === company?.plan_type);
+
   const summary = useMemo(() => {
     const included = company?.minutes_included ?? 0;
     const used = company?.minutes_used ?? 0;
-    const remaining = Math.max(0, included - used);
+    const reserved = company?.minutes_reserved ?? 0;
+    const remaining = Math.max(0, included - used - reserved);
     const percent = included > 0 ? Math.round((used / included) * 100) : 0;
 
     const renewalText = company?.subscription_period_end
@@ -125,8 +247,19 @@ const CompanyBilling: React.FC = () => {
         })
       : "-";
 
-    return { included, used, remaining, percent, renewalText };
-  }, [company]);
+    // Annual contracts with monthly grants get their next minutes on the next monthly anniversary
+    let nextGrantText: string | null = null;
+    if (company?.billing_interval === "year" && currentPlan?.annualAllowance === "monthly" && company.subscription_period_start) {
+      const start = new Date(company.subscription_period_start);
+      const next = new Date(start);
+      while (next <= new Date()) next.setMonth(next.getMonth() + 1);
+      if (!company.subscription_period_end || next < new Date(company.subscription_period_end)) {
+        nextGrantText = next.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+      }
+    }
+
+    return { included, used, reserved, remaining, percent, renewalText, nextGrantText };
+  }, [company, currentPlan]);
 
   if (authLoading || loading) {
     return (
@@ -190,8 +323,15 @@ const CompanyBilling: React.FC = () => {
                 <div>
                   <p className="text-sm text-muted-foreground">Plan</p>
                   <p className="text-lg font-semibold text-foreground">
-                    {(company.plan_type || "starter").toUpperCase()}
+                    {(company.plan_type || (company.trial_ends_at ? "free trial" : "starter")).toUpperCase()}
                   </p>
+                  {company.plan_type && (
+                    <p className="text-sm text-muted-foreground">
+                      {company.billing_interval === "year" ? "Billed yearly" : "Billed monthly"}
+                      {company.billing_interval === "year" && currentPlan &&
+                        ` · ${describeAnnualAllowance(currentPlan.annualAllowance, currentPlan.minutes)}`}
+                    </p>
+                  )}
                 </div>
               </div>
 
@@ -200,8 +340,13 @@ const CompanyBilling: React.FC = () => {
                   <Clock className="h-5 w-5 text-muted-foreground" />
                 </div>
                 <div>
-                  <p className="text-sm text-muted-foreground">Renewal date</p>
+                  <p className="text-sm text-muted-foreground">
+                    {company.billing_interval === "year" ? "Contract renews" : "Renewal date"}
+                  </p>
                   <p className="text-lg font-semibold text-foreground">{summary.renewalText}</p>
+                  {summary.nextGrantText && (
+                    <p className="text-sm text-muted-foreground">Next minutes on {summary.nextGrantText}</p>
+                  )}
                 </div>
               </div>
 
@@ -214,7 +359,10 @@ const CompanyBilling: React.FC = () => {
                   <p className="text-lg font-semibold text-foreground">
                     {summary.used.toLocaleString()} / {summary.included.toLocaleString()} ({summary.percent}%)
                   </p>
-                  <p className="text-sm text-muted-foreground">{summary.remaining.toLocaleString()} remaining</p>
+                  <p className="text-sm text-muted-foreground">
+                    {summary.reserved > 0 && `${summary.reserved.toLocaleString()} reserved · `}
+                    {summary.remaining.toLocaleString()} available
+                  </p>
                 </div>
               </div>
             </div>
@@ -245,6 +393,171 @@ const CompanyBilling: React.FC = () => {
           </CardContent>
         </Card>
 
+        <DepartmentBudgetsCard
+          companyId={company.id}
+          departments={departments}
+          loading={weeklyLoading}
+          onChanged={() => void fetchWeeklyBreakdown()}
+        />
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History size={20} />
+              Minutes history
+            </CardTitle>
+            <CardDescription>Every change to your minutes balance in the current billing cycle.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {weeklyLoading ? (
+              <div className="h-24 flex items-center justify-center text-muted-foreground">Loading history…</div>
+            ) : entries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No balance changes yet this cycle.</p>
+            ) : (
+              <div className="divide-y">
+                {entries.map((entry) => {
+                  const minutes = signedMinutes(entry);
+                  return (
+                    <div key={entry.id} className="flex items-center justify-between gap-3 py-3">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={entry.entry_type === "deduction" ? "secondary" : "outline"}>
+                            {ENTRY_LABELS[entry.entry_type]}
+                          </Badge>
+                          <span className="text-sm text-muted-foreground truncate">{describeEntry(entry)}</span>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {new Date(entry.created_at).toLocaleString(undefined, {
+                            month: "short",
+                            day: "numeric",
+                            hour: "numeric",
+                            minute: "2-digit",
+                          })}
+                        </p>
+                      </div>
+                      <span
+                        className={`font-semibold shrink-0 ${minutes < 0 ? "text-destructive" : "text-primary"}`}
+                      >
+                        {entry.entry_type === "reset" ? "" : minutes > 0 ? "+" : ""}
+                        {minutes.toLocaleString()} min
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarRange size={20} />
+              Billing periods
+            </CardTitle>
+            <CardDescription>
+              Allowance and usage for each billing cycle, and how many unused minutes carried over. Download a
+              statement of a cycle's fees, top-ups, overage and sessions as PDF or CSV.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {periods.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No billing periods yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Allowance</TableHead>
+                    <TableHead className="text-right">Rolled over in</TableHead>
+                    <TableHead className="text-right">Top-ups</TableHead>
+                    <TableHead className="text-right">Used</TableHead>
+                    <TableHead className="text-right">Unused</TableHead>
+                    <TableHead className="text-right">Carried over</TableHead>
+                    <TableHead className="text-right">Statement</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {periods.map((period, index) => {
+                    const isCurrent = !period.ended_at;
+                    const available =
+                      period.plan_minutes + period.rollover_minutes + period.granted_minutes + period.topup_minutes;
+                    const unused = Math.max(0, available - period.minutes_used);
+                    // The newer period (listed just above) records what this one carried into it
+                    const carriedOver = index > 0 ? periods[index - 1].rollover_minutes : null;
+
+                    return (
+                      <TableRow key={period.started_at}>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <span>
+                              {formatPeriodDate(period.started_at)}
+                              {period.ended_at && ` – ${formatPeriodDate(period.ended_at)}`}
+                            </span>
+                            {isCurrent && <Badge variant="secondary">Current</Badge>}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {period.plan_minutes.toLocaleString()}
+                          {period.granted_minutes > 0 && (
+                            <span className="text-muted-foreground"> +{period.granted_minutes.toLocaleString()}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {period.rollover_minutes > 0 ? `+${period.rollover_minutes.toLocaleString()}` : "–"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {period.topup_minutes > 0 ? `+${period.topup_minutes.toLocaleString()}` : "–"}
+                        </TableCell>
+                        <TableCell className="text-right">{period.minutes_used.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{unused.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          {isCurrent ? (
+                            <span className="text-muted-foreground">At renewal</span>
+                          ) : (
+                            (carriedOver ?? 0).toLocaleString()
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            {(["pdf", "csv"] as const).map((kind) => (
+                              <Button
+                                key={kind}
+                                variant="ghost"
+                                size="sm"
+                                disabled={downloadingStatement !== null}
+                                onClick={() => void downloadStatement(period, kind)}
+                              >
+                                {downloadingStatement === `${period.started_at}:${kind}` ? (
+                                  <Loader2 size={14} className="animate-spin" />
+                                ) : (
+                                  <Download size={14} />
+                                )}
+                                {kind.toUpperCase()}
+                              </Button>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <OverageBillingCard companyId={company.id} onChanged={() => void fetchCompany()} />
+
+        <MinutePacksCard
+          companyId={company.id}
+          currency={company.billing_currency}
+          onPurchased={() => {
+            void fetchCompany();
+            void fetchWeeklyBreakdown();
+          }}
+        />
+
         <MinutesUsageTracker company={company} />
       </main>
     </div>
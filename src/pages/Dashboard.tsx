@@ -14,7 +14,10 @@ import {
 import SpecialistsGrid from '@/components/SpecialistsGrid';
 import EmployeeManagement from '@/components/EmployeeManagement';
 import BookingsList from '@/components/BookingsList';
+import GroupSessionsList from '@/components/GroupSessionsList';
 import MinutesUsageTracker from '@/components/MinutesUsageTracker';
+import PaymentIssueBanner from '@/components/PaymentIssueBanner';
+import TrialBanner from '@/components/TrialBanner';
 import ProfileCompletionIndicator from '@/components/ProfileCompletionIndicator';
 import OnboardingTour, { TourStep } from '@/components/OnboardingTour';
 import { useToast } from '@/hooks/use-toast';
@@ -86,9 +89,16 @@ interface Company {
   is_paid: boolean;
   max_employees: number;
   plan_type: string | null;
+  scheduled_plan_type: string | null;
   minutes_included: number | null;
   minutes_used: number | null;
+  minutes_reserved: number | null;
   subscription_period_end: string | null;
+  subscription_status: string | null;
+  grace_period_ends_at: string | null;
+  trial_ends_at: string | null;
+  billing_currency: string;
+  billing_interval: string;
 }
 
 const Dashboard: React.FC = () => {
@@ -231,6 +241,9 @@ const Dashboard: React.FC = () => {
           steps={isCompanyAdmin ? COMPANY_ADMIN_TOUR_STEPS : EMPLOYEE_TOUR_STEPS}
           tourKey={isCompanyAdmin ? 'company-admin-dashboard' : 'employee-dashboard'}
         />
+        {isCompanyAdmin && company && <PaymentIssueBanner company={company} />}
+        {isCompanyAdmin && company && <TrialBanner company={company} />}
+
         {/* Profile Completion Indicator */}
         <div className="mb-6">
           <ProfileCompletionIndicator />
@@ -266,6 +279,10 @@ const Dashboard: React.FC = () => {
               <Calendar size={16} />
               {t('dashboard.myBookings')}
             </TabsTrigger>
+            <TabsTrigger value="group" className="flex items-center gap-2">
+              <Video size={16} />
+              {t('dashboard.groupSessions')}
+            </TabsTrigger>
             {isCompanyAdmin && (
               <TabsTrigger value="employees" className="flex items-center gap-2" data-tour="employees-tab">
                 <UserPlus size={16} />
@@ -288,6 +305,10 @@ const Dashboard: React.FC = () => {
             <BookingsList />
           </TabsContent>
 
+          <TabsContent value="group" className="animate-fade-in">
+            <GroupSessionsList />
+          </TabsContent>
+
           {isCompanyAdmin && company && (
             <TabsContent value="employees" className="animate-fade-in">
               <EmployeeManagement company={company} />
@@ -10,11 +10,16 @@ import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, Phone, Bell, Save, Loader2, User, Briefcase, Building2, Camera, X, RotateCcw, Video, Trash2, Globe } from 'lucide-react';
 import { resetOnboardingTour } from '@/components/OnboardingTour';
 import { useTranslation } from 'react-i18next';
 import LanguagePicker from '@/components/LanguagePicker';
+import AvailabilityRulesEditor from '@/components/AvailabilityRulesEditor';
+import CalendarFeedCard from '@/components/CalendarFeedCard';
+import { TIME_ZONE_OPTIONS, getBrowserTimeZone } from '@/lib/timezones';
+import { CURRENCIES, CURRENCY_LABELS, Currency, isCurrency } from '@/lib/currency';
 
 type NotificationPreference = 'email' | 'whatsapp' | 'both';
 
@@ -34,6 +39,9 @@ const Settings: React.FC = () => {
   const [department, setDepartment] = useState('');
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
   const [notificationPreference, setNotificationPreference] = useState<NotificationPreference>('both');
+  const [timeZone, setTimeZone] = useState(getBrowserTimeZone());
+  // Last saved value; availability rules are expressed in this timezone
+  const [savedTimeZone, setSavedTimeZone] = useState(getBrowserTimeZone());
 
   // Specialist-specific fields
   const [isSpecialist, setIsSpecialist] = useState(false);
@@ -41,6 +49,7 @@ const Settings: React.FC = () => {
   const [specialty, setSpecialty] = useState('');
   const [bio, setBio] = useState('');
   const [website, setWebsite] = useState('');
+  const [payoutCurrency, setPayoutCurrency] = useState<Currency>('usd');
   const [specialistAvatarUrl, setSpecialistAvatarUrl] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
 
@@ -68,7 +77,7 @@ const Settings: React.FC = () => {
       // Fetch profile data
       const { data: profileData, error: profileError } = await supabase
         .from('profiles')
-        .select('full_name, email, phone_number, job_title, department, avatar_url, notification_preference')
+        .select('full_name, email, phone_number, job_title, department, avatar_url, notification_preference, timezone')
         .eq('user_id', user.id)
         .single();
 
@@ -82,12 +91,16 @@ const Settings: React.FC = () => {
         setDepartment(profileData.department || '');
         setAvatarUrl(profileData.avatar_url || null);
         setNotificationPreference((profileData.notification_preference as NotificationPreference) || 'both');
+        if (profileData.timezone) {
+          setTimeZone(profileData.timezone);
+          setSavedTimeZone(profileData.timezone);
+        }
       }
 
       // Check if user is a specialist
       const { data: specialistData } = await supabase
         .from('specialists')
-        .select('id, full_name, email, phone_number, specialty, bio, avatar_url, video_url, website')
+        .select('id, full_name, email, phone_number, specialty, bio, avatar_url, video_url, website, timezone, payout_currency')
         .eq('user_id', user.id)
         .maybeSingle();
 
@@ -100,8 +113,13 @@ const Settings: React.FC = () => {
         setSpecialty(specialistData.specialty || '');
         setBio(specialistData.bio || '');
         setWebsite(specialistData.website || '');
+        if (isCurrency(specialistData.payout_currency)) setPayoutCurrency(specialistData.payout_currency);
         setSpecialistAvatarUrl(specialistData.avatar_url || null);
         setVideoUrl(specialistData.video_url || null);
+        if (specialistData.timezone && !profileData?.timezone) {
+          setTimeZone(specialistData.timezone);
+          setSavedTimeZone(specialistData.timezone);
+        }
       }
 
       // Note: Company billing/plan details live on the dedicated Company Billing page.
@@ -453,11 +471,13 @@ const Settings: React.FC = () => {
           job_title: jobTitle.trim() || null,
           department: department.trim() || null,
           notification_preference: notificationPreference,
+          timezone: timeZone,
           updated_at: new Date().toISOString(),
         })
         .eq('user_id', user.id);
 
       if (profileError) throw profileError;
+      setSavedTimeZone(timeZone);
 
       // Update specialist data if applicable
       if (isSpecialist && specialistId) {
@@ -469,6 +489,8 @@ const Settings: React.FC = () => {
             specialty: specialty.trim(),
             bio: bio.trim() || null,
             website: website.trim() || null,
+            timezone: timeZone,
+            payout_currency: payoutCurrency,
             updated_at: new Date().toISOString(),
           })
           .eq('id', specialistId);
@@ -635,6 +657,30 @@ const Settings: React.FC = () => {
                   <p className="text-xs text-muted-foreground">Email cannot be changed</p>
                 </div>
               </div>
+              <div className="space-y-2">
+                <Label htmlFor="timeZone" className="flex items-center gap-2">
+                  <Globe size={16} />
+                  Timezone
+                </Label>
+                <Select value={timeZone} onValueChange={setTimeZone}>
+                  <SelectTrigger id="timeZone">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {!TIME_ZONE_OPTIONS.some((option) => option.value === timeZone) && (
+                      <SelectItem value={timeZone}>{timeZone}</SelectItem>
+                    )}
+                    {TIME_ZONE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label} ({option.value})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Session times are shown in this timezone, and the other participant sees them in theirs
+                </p>
+              </div>
             </CardContent>
           </Card>
 
@@ -729,10 +775,31 @@ const Settings: React.FC = () => {
                     Your personal or professional website (optional)
                   </p>
                 </div>
+                <div className="space-y-2">
+                  <Label htmlFor="payoutCurrency">Payout currency</Label>
+                  <Select value={payoutCurrency} onValueChange={(value) => setPayoutCurrency(value as Currency)}>
+                    <SelectTrigger id="payoutCurrency">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map((currency) => (
+                        <SelectItem key={currency} value={currency}>{CURRENCY_LABELS[currency]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Your earnings are calculated and paid in this currency
+                  </p>
+                </div>
               </CardContent>
             </Card>
           )}
 
+          {/* Weekly Availability Card (Specialists Only) */}
+          {isSpecialist && specialistId && (
+            <AvailabilityRulesEditor specialistId={specialistId} timeZone={savedTimeZone} />
+          )}
+
           {/* Intro Video Card (Specialists Only) */}
           {isSpecialist && (
             <Card>
@@ -938,6 +1005,9 @@ const Settings: React.FC = () => {
             </CardContent>
           </Card>
 
+          {/* Calendar Subscription Card */}
+          <CalendarFeedCard />
+
           {/* Onboarding Tour */}
           <Card>
             <CardHeader>
@@ -8,10 +8,11 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
-import { LogOut, MessageSquare, History, User, DollarSign } from 'lucide-react';
+import { LogOut, MessageSquare, History, User, DollarSign, Users } from 'lucide-react';
 import SpecialistBookingRequests from '@/components/SpecialistBookingRequests';
 import SpecialistBookingHistory from '@/components/SpecialistBookingHistory';
 import SpecialistEarnings from '@/components/SpecialistEarnings';
+import SpecialistGroupSessions from '@/components/SpecialistGroupSessions';
 import ProfileCompletionIndicator from '@/components/ProfileCompletionIndicator';
 import OnboardingTour, { TourStep } from '@/components/OnboardingTour';
 
@@ -54,6 +55,7 @@ interface Specialist {
   specialty: string;
   hourly_rate: number;
   rate_tier: string | null;
+  payout_currency: string | null;
 }
 
 const SpecialistDashboard: React.FC = () => {
@@ -193,6 +195,10 @@ const SpecialistDashboard: React.FC = () => {
               <History size={16} />
               Booking History
             </TabsTrigger>
+            <TabsTrigger value="group" className="flex items-center gap-2">
+              <Users size={16} />
+              Group Sessions
+            </TabsTrigger>
             <TabsTrigger value="earnings" className="flex items-center gap-2">
               <DollarSign size={16} />
               Earnings
@@ -210,10 +216,15 @@ const SpecialistDashboard: React.FC = () => {
             <SpecialistBookingHistory specialistId={specialist.id} />
           </TabsContent>
 
+          <TabsContent value="group">
+            <SpecialistGroupSessions specialistId={specialist.id} />
+          </TabsContent>
+
           <TabsContent value="earnings">
             <SpecialistEarnings 
               specialistId={specialist.id} 
               rateTier={specialist.rate_tier}
+              payoutCurrency={specialist.payout_currency}
             />
           </TabsContent>
         </Tabs>
@@ -12,12 +12,14 @@ import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
 import { AlertCircle, CheckCircle2, DollarSign, Phone, Video, X } from 'lucide-react';
 import { SPECIALIST_TIERS, SpecialistTier } from '@/lib/plans';
+import { getCatalogTier, usePricingCatalog } from '@/hooks/usePricingCatalog';
 
 const SpecialistSignup: React.FC = () => {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const { signUp, signIn } = useAuth();
   const { toast } = useToast();
+  const pricingCatalog = usePricingCatalog();
 
   const token = searchParams.get('token');
   const emailFromUrl = searchParams.get('email');
@@ -246,7 +248,7 @@ const SpecialistSignup: React.FC = () => {
       }
 
       if (user) {
-        const tier = SPECIALIST_TIERS[selectedTier];
+        const tier = getCatalogTier(pricingCatalog, selectedTier);
         
         // Upload video if selected
         let videoUrl: string | null = null;
@@ -376,7 +378,7 @@ const SpecialistSignup: React.FC = () => {
                     onValueChange={(value) => setSelectedTier(value as SpecialistTier)}
                     className="grid grid-cols-2 gap-3"
                   >
-                    {Object.entries(SPECIALIST_TIERS).map(([key, tier]) => (
+                    {Object.keys(SPECIALIST_TIERS).map((key) => [key, getCatalogTier(pricingCatalog, key)] as const).map(([key, tier]) => (
                       <div key={key} className="relative">
                         <RadioGroupItem
                           value={key}
@@ -397,7 +399,7 @@ const SpecialistSignup: React.FC = () => {
                     ))}
                   </RadioGroup>
                   <p className="text-xs text-muted-foreground">
-                    HollyAid takes a 20% platform fee. You can change your tier later.
+                    The HollyAid platform fee is included in the hourly rate. You can change your tier later.
                   </p>
                 </div>
 
@@ -0,0 +1,11 @@
+// Money formatting for emails, matching formatMoney in src/lib/currency.ts. Amounts are in major
+// units; whole amounts are shown without decimals, e.g. "€315" but "€18.40".
+export const formatMoney = (amount: number, currency: string | null | undefined): string => {
+  const code = currency && ["usd", "eur", "gbp"].includes(currency) ? currency : "usd";
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency: code.toUpperCase(),
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+};
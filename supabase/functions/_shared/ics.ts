@@ -0,0 +1,107 @@
+// iCalendar (RFC 5545) helpers shared by the booking emails and the calendar feed
+
+export const formatICSDate = (date: Date): string => {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+};
+
+export const escapeICSText = (text: string): string => {
+  return text.replace(/[\\;,]/g, (match) => '\\' + match).replace(/\r?\n/g, '\\n');
+};
+
+const encoder = new TextEncoder();
+
+// Content lines are limited to 75 octets; the rest continues on lines starting with a space
+export const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    if (currentOctets + charOctets > 75) {
+      parts.push(current);
+      current = ' ';
+      currentOctets = 1;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+};
+
+// Folds each content line and ends every one with CRLF
+export const serializeICS = (lines: string[]): string => lines.map(foldLine).join('\r\n') + '\r\n';
+
+export interface CalendarInviteOptions {
+  method: "REQUEST" | "CANCEL";
+  uid: string;
+  sequence: number;
+  status: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  startDate: Date;
+  endDate: Date;
+  summary: string;
+  description: string;
+  joinUrl: string | null;
+  attendees: { name: string; email: string }[];
+  localTimes: { label: string; timeZone: string }[];
+}
+
+// Generate an RFC 5545 calendar invite. The UID stays the same for a booking and the SEQUENCE
+// grows with every change, so calendar apps update or remove the event they already have.
+export function generateICSContent(options: CalendarInviteOptions): string {
+  // Calendar apps only show the viewer's own timezone, so both parties' local times are spelled out
+  const localTimes = options.localTimes.map(({ label, timeZone }) =>
+    `${label}: ${options.startDate.toLocaleString('en-US', {
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: true,
+      timeZone,
+      timeZoneName: 'short',
+    })} (${timeZone})`
+  );
+
+  const description = [
+    options.description,
+    options.joinUrl ? `Join the video session: ${options.joinUrl}` : 'The video link will be shared once the session is confirmed.',
+    localTimes.join('\n'),
+  ].join('\n\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//HollyAid//Booking System//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${options.method}`,
+    'BEGIN:VEVENT',
+    `UID:${options.uid}`,
+    `SEQUENCE:${options.sequence}`,
+    `DTSTAMP:${formatICSDate(new Date())}`,
+    `DTSTART:${formatICSDate(options.startDate)}`,
+    `DTEND:${formatICSDate(options.endDate)}`,
+    `SUMMARY:${escapeICSText(options.summary)}`,
+    `DESCRIPTION:${escapeICSText(description)}`,
+    `LOCATION:${escapeICSText(options.joinUrl || 'Online (link to be provided)')}`,
+    ...(options.joinUrl ? [`URL:${options.joinUrl}`] : []),
+    'ORGANIZER;CN=HollyAid:mailto:bookings@hollyaid.com',
+    ...options.attendees.map((attendee) =>
+      `ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE;CN="${attendee.name.replace(/"/g, '')}":mailto:${attendee.email}`
+    ),
+    `STATUS:${options.status}`,
+    ...(options.method === 'REQUEST'
+      ? [
+          'BEGIN:VALARM',
+          'TRIGGER:-PT15M',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:Reminder: ${escapeICSText(options.summary)}`,
+          'END:VALARM',
+        ]
+      : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+
+  return serializeICS(lines);
+}
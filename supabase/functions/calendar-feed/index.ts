@@ -0,0 +1,262 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { escapeICSText, formatICSDate, serializeICS } from "../_shared/ics.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Sessions that started within this window stay in the feed, so one in progress doesn't vanish
+const RECENT_SESSION_HOURS = 24;
+
+interface FeedRequest {
+  action?: "get" | "create" | "regenerate";
+}
+
+interface FeedBooking {
+  id: string;
+  confirmed_datetime: string;
+  session_duration: number;
+  meeting_link: string | null;
+  calendar_sequence: number;
+  specialist: { full_name: string; specialty: string | null } | null;
+  employee: { full_name: string | null; email: string } | null;
+}
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  encodeBase64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+// Signs feed tokens; changing it invalidates every feed URL already handed out.
+// Set with: supabase secrets set CALENDAR_FEED_SIGNING_KEY=$(openssl rand -base64 32)
+const signingKey = Deno.env.get("CALENDAR_FEED_SIGNING_KEY");
+if (!signingKey) {
+  console.error("calendar-feed: CALENDAR_FEED_SIGNING_KEY is not set, so feed URLs can't be created or served");
+}
+
+async function sign(userId: string, secret: string): Promise<string> {
+  if (!signingKey) throw new Error("CALENDAR_FEED_SIGNING_KEY is not set for the calendar-feed function");
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(signingKey),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${userId}:${secret}`));
+  return toBase64Url(new Uint8Array(signature));
+}
+
+// Compare in constant time so the signature can't be guessed byte by byte
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+function generateFeedContent(events: {
+  booking: FeedBooking;
+  summary: string;
+  description: string;
+  joinUrl: string | null;
+}[]): string {
+  const now = formatICSDate(new Date());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//HollyAid//Booking System//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:HollyAid Sessions',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(({ booking, summary, description, joinUrl }) => {
+      const startDate = new Date(booking.confirmed_datetime);
+      const endDate = new Date(startDate.getTime() + (booking.session_duration || 60) * 60 * 1000);
+
+      return [
+        'BEGIN:VEVENT',
+        // Same UID as the emailed invites, so calendars that have both treat them as one event
+        `UID:booking-${booking.id}@hollyaid.com`,
+        `SEQUENCE:${booking.calendar_sequence}`,
+        `DTSTAMP:${now}`,
+        `DTSTART:${formatICSDate(startDate)}`,
+        `DTEND:${formatICSDate(endDate)}`,
+        `SUMMARY:${escapeICSText(summary)}`,
+        `DESCRIPTION:${escapeICSText(description)}`,
+        `LOCATION:${escapeICSText(joinUrl || 'Online')}`,
+        ...(joinUrl ? [`URL:${joinUrl}`] : []),
+        'STATUS:CONFIRMED',
+        'END:VEVENT',
+      ];
+    }),
+    'END:VCALENDAR',
+  ];
+
+  return serializeICS(lines);
+}
+
+// GET ?token=... serves the feed to calendar apps; an authenticated POST returns the user's
+// feed URL, creating it or replacing its secret on request.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!signingKey) {
+    return new Response(JSON.stringify({ error: "Calendar feeds are not configured: CALENDAR_FEED_SIGNING_KEY is not set" }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 503,
+    });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } },
+  );
+
+  try {
+    if (req.method === "GET") {
+      const token = new URL(req.url).searchParams.get("token") ?? "";
+      const [userId, signature] = token.split(".");
+
+      const { data: feed } = userId && signature
+        ? await supabaseClient.from("calendar_feeds").select("secret").eq("user_id", userId).maybeSingle()
+        : { data: null };
+
+      if (!feed || !timingSafeEqual(signature, await sign(userId, feed.secret))) {
+        return new Response(JSON.stringify({ error: "Invalid or revoked calendar feed" }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 401,
+        });
+      }
+
+      const { data: ownSpecialist } = await supabaseClient
+        .from("specialists")
+        .select("id")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      const since = new Date(Date.now() - RECENT_SESSION_HOURS * 60 * 60 * 1000).toISOString();
+      const ownerFilter = ownSpecialist
+        ? `employee_user_id.eq.${userId},specialist_id.eq.${ownSpecialist.id}`
+        : `employee_user_id.eq.${userId}`;
+
+      const { data: bookings, error: bookingsError } = await supabaseClient
+        .from("bookings")
+        .select(`
+          id,
+          confirmed_datetime,
+          session_duration,
+          meeting_link,
+          calendar_sequence,
+          specialist_id,
+          specialist:specialists!bookings_specialist_id_fkey(
+            full_name,
+            specialty
+          ),
+          employee:profiles!bookings_employee_user_id_fkey(
+            full_name,
+            email
+          )
+        `)
+        .eq("status", "approved")
+        .not("confirmed_datetime", "is", null)
+        .gte("confirmed_datetime", since)
+        .or(ownerFilter)
+        .order("confirmed_datetime", { ascending: true });
+
+      if (bookingsError) throw bookingsError;
+
+      // Construct proper JaaS meeting URL from room ID
+      const jaasApiKeyId = Deno.env.get("JAAS_API_KEY_ID");
+      const appId = jaasApiKeyId?.split('/')[0];
+
+      const events = (bookings ?? []).map((row) => {
+        const booking = row as unknown as FeedBooking & { specialist_id: string };
+        const joinUrl = booking.meeting_link
+          ? appId ? `https://8x8.vc/${appId}/${booking.meeting_link}` : booking.meeting_link
+          : null;
+        const asSpecialist = ownSpecialist?.id === booking.specialist_id;
+        const otherParty = asSpecialist
+          ? booking.employee?.full_name || booking.employee?.email || 'Employee'
+          : booking.specialist?.full_name || 'your specialist';
+
+        return {
+          booking,
+          summary: `HollyAid Session with ${otherParty}`,
+          description: [
+            `${booking.specialist?.specialty || 'Wellness Consultation'} with ${otherParty}`,
+            joinUrl ? `Join the video session: ${joinUrl}` : 'Join from your HollyAid dashboard.',
+          ].join('\n\n'),
+          joinUrl,
+        };
+      });
+
+      console.log(`calendar-feed: ${events.length} session(s) for ${userId}`);
+
+      return new Response(generateFeedContent(events), {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Content-Disposition": 'inline; filename="hollyaid.ics"',
+          "Cache-Control": "private, max-age=300",
+        },
+        status: 200,
+      });
+    }
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const user = userData.user;
+    if (!user?.id) throw new Error("User not authenticated");
+
+    const { action = "get" }: FeedRequest = await req.json().catch(() => ({}));
+
+    let { data: feed } = await supabaseClient
+      .from("calendar_feeds")
+      .select("secret")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (action === "regenerate" || (action === "create" && !feed)) {
+      const secret = toBase64Url(crypto.getRandomValues(new Uint8Array(24)));
+      const { error: upsertError } = await supabaseClient
+        .from("calendar_feeds")
+        .upsert({ user_id: user.id, secret }, { onConflict: "user_id" });
+
+      if (upsertError) throw upsertError;
+      feed = { secret };
+      console.log(`calendar-feed: ${action} for ${user.id}`);
+    }
+
+    const url = feed
+      ? `${Deno.env.get("SUPABASE_URL")}/functions/v1/calendar-feed?token=${user.id}.${await sign(user.id, feed.secret)}`
+      : null;
+
+    return new Response(JSON.stringify({ url }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("calendar-feed error:", errorMessage);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,194 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+type ChangePlanRequest = {
+  planType?: string;
+  // Downgrades only: move to the plan when the subscription renews
+  schedule?: boolean;
+};
+
+// Changes the plan of a company that already has a subscription, in place. Upgrades, and
+// downgrades whose used and reserved minutes fit the smaller plan, apply now and are prorated.
+// Other downgrades are scheduled: Stripe charges the new price from the next renewal and
+// stripe-webhook moves the company to the plan when that period starts. Choosing the current
+// plan again cancels a scheduled change.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_ANON_KEY") ?? "",
+  );
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+  );
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data } = await supabaseClient.auth.getUser(token);
+    const user = data.user;
+    if (!user) throw new Error("User not authenticated");
+
+    const body: ChangePlanRequest = await req.json().catch(() => ({}));
+    const planType = (body.planType || "").toString().trim().toLowerCase();
+    if (!planType) throw new Error("Choose a plan");
+
+    const { data: company, error: companyError } = await supabaseAdmin
+      .from("companies")
+      .select("id, plan_type, scheduled_plan_type, billing_currency, billing_interval, stripe_subscription_id, is_test_account, subscription_period_end")
+      .eq("admin_user_id", user.id)
+      .maybeSingle();
+    if (companyError) throw companyError;
+    if (!company?.plan_type) throw new Error("Choose a plan to start a subscription first");
+
+    const cancelScheduled = planType === company.plan_type;
+    if (cancelScheduled && !company.scheduled_plan_type) throw new Error("You are already on this plan");
+
+    // preview_plan_change applies the downgrade guard and raises with the reason a plan can't be chosen
+    let mode: "now" | "scheduled" | "cancel" = "cancel";
+    let direction: string | null = null;
+    if (!cancelScheduled) {
+      const { data: previewRows, error: previewError } = await supabaseAdmin.rpc("preview_plan_change", {
+        _company_id: company.id,
+        _plan_type: planType,
+      });
+      if (previewError) throw new Error(previewError.message);
+      const preview = previewRows?.[0];
+      direction = preview.direction;
+
+      if (body.schedule) {
+        if (direction !== "downgrade") throw new Error("Upgrades apply straight away and can't be scheduled");
+        mode = "scheduled";
+      } else if (preview.applies_now) {
+        mode = "now";
+      } else {
+        throw new Error(
+          "Minutes already used or reserved this period go over the smaller plan. Schedule the change for the end of the period instead.",
+        );
+      }
+    }
+
+    // Stripe bills planType from now on: the new plan, or the current one again when cancelling
+    if (!company.is_test_account && company.stripe_subscription_id) {
+      const stripe = new Stripe((Deno.env.get("STRIPE_SECRET_KEY") || "").trim());
+      const interval: "month" | "year" = company.billing_interval === "year" ? "year" : "month";
+
+      const { data: versionId, error: versionError } = await supabaseAdmin.rpc("pricing_version_at");
+      if (versionError) throw versionError;
+
+      const { data: catalogPlan, error: catalogError } = await supabaseAdmin
+        .from("pricing_plans")
+        .select("name")
+        .eq("version_id", versionId)
+        .eq("plan_type", planType)
+        .maybeSingle();
+      if (catalogError) throw catalogError;
+      if (!catalogPlan) throw new Error(`Invalid plan type: ${planType}`);
+
+      const { data: catalogPrice, error: priceError } = await supabaseAdmin
+        .from("pricing_plan_prices")
+        .select("price_cents, stripe_price_id, annual_price_cents, stripe_annual_price_id")
+        .eq("version_id", versionId)
+        .eq("plan_type", planType)
+        .eq("currency", company.billing_currency)
+        .maybeSingle();
+      if (priceError) throw priceError;
+      if (!catalogPrice) throw new Error(`The ${catalogPlan.name} plan has no ${company.billing_currency.toUpperCase()} price`);
+
+      // Subscription items can't carry product details inline, so a catalog price without a
+      // Stripe price gets one created for it, as create-checkout does with price_data
+      let priceId = (
+        (interval === "year" ? catalogPrice.stripe_annual_price_id : catalogPrice.stripe_price_id) || ""
+      ).replace(/[^\x20-\x7E]/g, "").trim();
+      if (!priceId) {
+        const price = await stripe.prices.create({
+          currency: company.billing_currency,
+          unit_amount: interval === "year" ? catalogPrice.annual_price_cents : catalogPrice.price_cents,
+          recurring: { interval },
+          product_data: {
+            name: interval === "year" ? `${catalogPlan.name} Wellness Plan (annual)` : `${catalogPlan.name} Wellness Plan`,
+          },
+        });
+        priceId = price.id;
+      }
+
+      const subscription = await stripe.subscriptions.retrieve(company.stripe_subscription_id);
+      const item = subscription.items.data.find((i) => i.price.recurring?.usage_type !== "metered") ??
+        subscription.items.data[0];
+
+      await stripe.subscriptions.update(subscription.id, {
+        items: [{ id: item.id, price: priceId }],
+        proration_behavior: mode === "now" ? "always_invoice" : "none",
+        metadata: {
+          ...subscription.metadata,
+          plan_type: mode === "now" ? planType : company.plan_type,
+          // An empty value removes the key
+          scheduled_plan_type: mode === "scheduled" ? planType : "",
+        },
+      });
+    }
+
+    if (mode === "now" && direction === "downgrade") {
+      const { error: downgradeError } = await supabaseAdmin.rpc("apply_plan_downgrade", {
+        _company_id: company.id,
+        _plan_type: planType,
+        _actor_user_id: user.id,
+      });
+      if (downgradeError) throw new Error(downgradeError.message);
+    } else if (mode === "now") {
+      const { error: updateError } = await supabaseAdmin
+        .from("companies")
+        .update({ plan_type: planType, scheduled_plan_type: null })
+        .eq("id", company.id);
+      if (updateError) throw updateError;
+
+      // Grants the extra minutes straight away; stripe-webhook repeats the sync harmlessly
+      const { error: syncError } = await supabaseAdmin.rpc("sync_subscription_minutes", {
+        _company_id: company.id,
+        _actor_user_id: user.id,
+      });
+      if (syncError) throw syncError;
+    } else {
+      const { error: scheduleError } = await supabaseAdmin
+        .from("companies")
+        .update({ scheduled_plan_type: mode === "scheduled" ? planType : null })
+        .eq("id", company.id);
+      if (scheduleError) throw scheduleError;
+    }
+
+    console.log(`change-plan: company ${company.id} ${mode} ${planType}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        mode,
+        appliesAt: mode === "scheduled" ? company.subscription_period_end : null,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      },
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("change-plan error:", errorMessage);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -8,20 +8,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
-// Plan configurations
-const PLANS: Record<string, { minutes: number }> = {
-  solopreneur: { minutes: 60 },
-  starter: { minutes: 500 },
-  growth: { minutes: 1500 },
-  scale: { minutes: 3600 },
-};
-
-const PRODUCT_TO_PLAN: Record<string, string> = {
-  prod_U0F25g5hTFo0bf: "starter",
-  prod_U0F2RcfeUW22qz: "growth",
-  prod_U0F3zIzg5ueR98: "scale",
-};
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -63,6 +49,7 @@ serve(async (req) => {
           minutes_included: company.minutes_included,
           minutes_used: company.minutes_used,
           subscription_end: company.subscription_period_end,
+          billing_interval: company.billing_interval,
           is_test_account: true,
         }),
         {
@@ -92,36 +79,65 @@ serve(async (req) => {
     const customerId = customers.data[0].id;
     const subscriptions = await stripe.subscriptions.list({
       customer: customerId,
-      status: "active",
-      limit: 1,
+      status: "all",
+      limit: 10,
     });
 
-    const hasActiveSub = subscriptions.data.length > 0;
+    const subscription = subscriptions.data.find((sub) => sub.status === "active" || sub.status === "trialing");
+    const hasActiveSub = !!subscription;
     let planType = null;
     let minutesIncluded = 0;
     let subscriptionEnd = null;
+    let billingInterval = "month";
+
+    // A failed renewal leaves the subscription past_due rather than ending it. The company goes into
+    // its grace period (or stays suspended) instead of looking unsubscribed; see track_company_dunning.
+    const pastDueSub = subscription
+      ? null
+      : subscriptions.data.find((sub) => sub.status === "past_due");
 
-    if (hasActiveSub) {
-      const subscription = subscriptions.data[0];
+    if (pastDueSub && company?.id) {
+      await supabaseClient
+        .from("companies")
+        .update({ subscription_status: "past_due", is_paid: false })
+        .eq("id", company.id)
+        .eq("subscription_status", "active");
+    }
+
+    if (subscription) {
       subscriptionEnd = new Date(
         subscription.current_period_end * 1000,
       ).toISOString();
       const metadataPlanType = subscription.metadata?.plan_type?.toString().trim().toLowerCase();
       const productId = subscription.items.data[0].price.product as string;
-      const productMappedPlan = PRODUCT_TO_PLAN[productId];
 
-      if (metadataPlanType && PLANS[metadataPlanType]) {
+      // Plans come from the pricing catalog; every version is searched so older products still match
+      const { data: catalogPlans, error: catalogError } = await supabaseClient
+        .from("pricing_plans")
+        .select("plan_type, stripe_product_id");
+      if (catalogError) throw catalogError;
+
+      const productMappedPlan = catalogPlans.find(
+        (plan) => plan.stripe_product_id && plan.stripe_product_id === productId,
+      )?.plan_type;
+
+      if (metadataPlanType && catalogPlans.some((plan) => plan.plan_type === metadataPlanType)) {
         planType = metadataPlanType;
       } else {
         planType = productMappedPlan || "starter";
       }
 
-      minutesIncluded = PLANS[planType]?.minutes || 500;
+      const { data: planMinutes, error: allowanceError } = await supabaseClient.rpc("plan_allowance", {
+        _plan_type: planType,
+      });
+      if (allowanceError) throw allowanceError;
+      minutesIncluded = planMinutes;
 
       // Update company subscription info
       const periodStart = new Date(
         subscription.current_period_start * 1000,
       ).toISOString();
+      billingInterval = subscription.items.data[0].price.recurring?.interval === "year" ? "year" : "month";
 
       await supabaseClient
         .from("companies")
@@ -131,20 +147,31 @@ serve(async (req) => {
           stripe_customer_id: customerId,
           stripe_subscription_id: subscription.id,
           plan_type: planType,
-          minutes_included: minutesIncluded,
+          billing_currency: subscription.currency,
+          billing_interval: billingInterval,
           subscription_period_start: periodStart,
           subscription_period_end: subscriptionEnd,
         })
         .eq("admin_user_id", user.id);
+
+      // The allowance is recorded in minutes_ledger: a reset for a new period, or a grant on upgrade
+      if (company?.id) {
+        const { error: syncError } = await supabaseClient.rpc("sync_subscription_minutes", {
+          _company_id: company.id,
+        });
+        if (syncError) console.error("Failed to sync plan minutes:", syncError);
+      }
     }
 
     return new Response(
       JSON.stringify({
         subscribed: hasActiveSub,
+        past_due: !!pastDueSub,
         plan_type: planType,
         minutes_included: minutesIncluded,
         minutes_used: company?.minutes_used || 0,
         subscription_end: subscriptionEnd,
+        billing_interval: billingInterval,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -6,11 +6,44 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Ledger entries returned for the current period's history
+const MAX_LEDGER_ENTRIES = 200;
+
+type BreakdownRequest = {
+  // started_at of a billing period from company_billing_periods; returns that period's statement
+  statementStartedAt?: string;
+};
+
+type StatementLine = {
+  date: string;
+  kind: "plan" | "discount" | "topup" | "overage";
+  description: string;
+  minutes: number | null;
+  amount_cents: number;
+};
+
+type StatementSession = {
+  date: string;
+  specialty: string;
+  rate_tier: string | null;
+  duration_minutes: number;
+  minutes_charged: number;
+};
+
 type BreakdownRow = {
   week_start: string;
   minutes_used: number;
 };
 
+type DepartmentRow = {
+  department: string | null;
+  minutes_used: number;
+  minutes_reserved: number;
+  budget_id: string | null;
+  minutes_budget: number | null;
+  cap_type: "hard" | "soft" | null;
+};
+
 function startOfWeekUTC(d: Date) {
   const date = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
   const day = date.getUTCDay(); // 0=Sun
@@ -26,6 +59,216 @@ function addWeeksUTC(d: Date, weeks: number) {
   return out;
 }
 
+function monthsBetweenUTC(from: Date, to: Date) {
+  return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+}
+
+// Fees, top-ups, overage and anonymized sessions of one billing period. The plan fee is the
+// catalog price in effect when the period started, charged on every monthly period and on the
+// first period of each annual contract; promo code discounts are applied as Stripe would.
+async function buildStatement(
+  supabaseClient: ReturnType<typeof createClient>,
+  companyId: string,
+  startedAt: string,
+) {
+  const { data: company, error: companyError } = await supabaseClient
+    .from("companies")
+    .select("name, logo_url, plan_type, billing_currency, billing_interval, subscription_period_start")
+    .eq("id", companyId)
+    .single();
+  if (companyError) throw companyError;
+
+  const { data: period, error: periodError } = await supabaseClient
+    .from("company_billing_periods")
+    .select("period_start, started_at, ended_at, plan_minutes, rollover_minutes, granted_minutes, minutes_used, topup_minutes")
+    .eq("company_id", companyId)
+    .eq("started_at", startedAt)
+    .maybeSingle();
+  if (periodError) throw periodError;
+  if (!period) throw new Error("Billing period not found");
+
+  const { data: reset, error: resetError } = await supabaseClient
+    .from("minutes_ledger")
+    .select("note")
+    .eq("company_id", companyId)
+    .eq("entry_type", "reset")
+    .eq("created_at", period.started_at)
+    .limit(1)
+    .maybeSingle();
+  if (resetError) throw resetError;
+
+  const currency = company.billing_currency;
+  const periodEnd = period.ended_at ?? new Date().toISOString();
+  const lines: StatementLine[] = [];
+
+  // A trial period has no plan yet, so no fee
+  const isTrial = reset?.note === "Free trial allowance";
+  const isAnnual = company.billing_interval === "year";
+  const feeDue = company.plan_type && !isTrial && (
+    !isAnnual ||
+    !company.subscription_period_start ||
+    monthsBetweenUTC(new Date(company.subscription_period_start), new Date(period.period_start ?? period.started_at)) % 12 === 0
+  );
+
+  if (feeDue) {
+    const { data: versionId, error: versionError } = await supabaseClient
+      .rpc("pricing_version_at", { _at: period.started_at });
+    if (versionError) throw versionError;
+
+    const { data: plan, error: planError } = await supabaseClient
+      .from("pricing_plans")
+      .select("name")
+      .eq("version_id", versionId)
+      .eq("plan_type", company.plan_type)
+      .maybeSingle();
+    if (planError) throw planError;
+
+    const { data: price, error: priceError } = await supabaseClient
+      .from("pricing_plan_prices")
+      .select("price_cents, annual_price_cents")
+      .eq("version_id", versionId)
+      .eq("plan_type", company.plan_type)
+      .eq("currency", currency)
+      .maybeSingle();
+    if (priceError) throw priceError;
+
+    const fee = (isAnnual ? price?.annual_price_cents : price?.price_cents) ?? 0;
+    lines.push({
+      date: period.started_at,
+      kind: "plan",
+      description: `${plan?.name ?? company.plan_type} plan (${isAnnual ? "yearly" : "monthly"})`,
+      minutes: period.plan_minutes,
+      amount_cents: fee,
+    });
+
+    const { data: redemptions, error: redemptionsError } = await supabaseClient
+      .from("promo_code_redemptions")
+      .select("created_at, promo_codes(code, percent_off, amount_off_cents, currency, duration_months)")
+      .eq("company_id", companyId)
+      .lte("created_at", periodEnd);
+    if (redemptionsError) throw redemptionsError;
+
+    let remaining = fee;
+    for (const redemption of redemptions ?? []) {
+      const promo = redemption.promo_codes as {
+        code: string;
+        percent_off: number | null;
+        amount_off_cents: number | null;
+        currency: string | null;
+        duration_months: number | null;
+      } | null;
+      if (!promo || remaining <= 0) continue;
+
+      // stripe-webhook records the redemption just after checkout starts the first discounted period
+      const redeemedAt = new Date(redemption.created_at);
+      const discountFrom = new Date(redeemedAt);
+      discountFrom.setUTCDate(discountFrom.getUTCDate() - 1);
+      if (new Date(period.started_at) < discountFrom) continue;
+
+      const monthsIn = monthsBetweenUTC(redeemedAt, new Date(period.started_at));
+      if (promo.duration_months !== null && monthsIn >= promo.duration_months) continue;
+
+      const discount = promo.percent_off
+        ? Math.round((remaining * promo.percent_off) / 100)
+        : promo.currency === currency ? Math.min(promo.amount_off_cents ?? 0, remaining) : 0;
+      if (discount <= 0) continue;
+
+      remaining -= discount;
+      lines.push({
+        date: period.started_at,
+        kind: "discount",
+        description: `Promo code ${promo.code}`,
+        minutes: null,
+        amount_cents: -discount,
+      });
+    }
+  }
+
+  const { data: packs, error: packsError } = await supabaseClient
+    .from("minute_packs")
+    .select("paid_at, minutes, amount_cents")
+    .eq("company_id", companyId)
+    .neq("status", "pending")
+    .gte("paid_at", period.started_at)
+    .lt("paid_at", periodEnd)
+    .order("paid_at");
+  if (packsError) throw packsError;
+
+  for (const pack of packs ?? []) {
+    lines.push({
+      date: pack.paid_at as string,
+      kind: "topup",
+      description: `Top-up pack of ${pack.minutes} minutes`,
+      minutes: pack.minutes,
+      amount_cents: pack.amount_cents,
+    });
+  }
+
+  const { data: overage, error: overageError } = await supabaseClient
+    .from("overage_charges")
+    .select("created_at, minutes, amount_cents, rate_cents_per_minute")
+    .eq("company_id", companyId)
+    .gte("created_at", period.started_at)
+    .lt("created_at", periodEnd)
+    .order("created_at");
+  if (overageError) throw overageError;
+
+  for (const charge of overage ?? []) {
+    lines.push({
+      date: charge.created_at,
+      kind: "overage",
+      description: `Overage at ${(charge.rate_cents_per_minute / 100).toFixed(2)} ${currency.toUpperCase()} per minute`,
+      minutes: charge.minutes,
+      amount_cents: charge.amount_cents,
+    });
+  }
+
+  // Sessions are the completed bookings charged in the period, without employee or specialist names
+  const { data: deductions, error: deductionsError } = await supabaseClient
+    .from("minutes_ledger")
+    .select("booking_id, rate_tier, minutes, created_at")
+    .eq("company_id", companyId)
+    .eq("entry_type", "deduction")
+    .not("booking_id", "is", null)
+    .gte("created_at", period.started_at)
+    .lt("created_at", periodEnd)
+    .order("created_at");
+  if (deductionsError) throw deductionsError;
+
+  const bookingIds = (deductions ?? []).map((d) => d.booking_id as string);
+  const { data: bookings, error: bookingsError } = bookingIds.length > 0
+    ? await supabaseClient
+      .from("bookings")
+      .select("id, confirmed_datetime, session_duration, minutes_charged, specialists(specialty)")
+      .in("id", bookingIds)
+      .eq("status", "completed")
+    : { data: [], error: null };
+  if (bookingsError) throw bookingsError;
+
+  const bookingsById = new Map((bookings ?? []).map((b) => [b.id, b]));
+  const sessions: StatementSession[] = [];
+  for (const deduction of deductions ?? []) {
+    const booking = bookingsById.get(deduction.booking_id as string);
+    if (!booking) continue;
+    sessions.push({
+      date: booking.confirmed_datetime ?? deduction.created_at,
+      specialty: (booking.specialists as { specialty: string } | null)?.specialty ?? "",
+      rate_tier: deduction.rate_tier,
+      duration_minutes: booking.session_duration,
+      minutes_charged: booking.minutes_charged ?? deduction.minutes,
+    });
+  }
+
+  return {
+    company: { name: company.name, logo_url: company.logo_url },
+    currency,
+    period,
+    lines,
+    sessions,
+    total_cents: lines.reduce((sum, line) => sum + line.amount_cents, 0),
+  };
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -123,75 +366,139 @@ serve(async (req) => {
       });
     }
 
+    const { statementStartedAt }: BreakdownRequest = await req.json().catch(() => ({}));
+    if (statementStartedAt) {
+      const statement = await buildStatement(supabaseClient, companyId, statementStartedAt);
+      return new Response(JSON.stringify({ statement }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
     const now = new Date();
     const rangeEnd = now;
     const rangeStart = new Date(now);
     rangeStart.setUTCDate(rangeStart.getUTCDate() - 30);
 
-    // Get all member user ids (accepted employees) + admin themselves.
-    const { data: members, error: membersError } = await supabaseClient
-      .from("company_employees")
-      .select("user_id")
+    // Usage comes from minutes_ledger: deductions minus refunds, bucketed by when they were recorded.
+    const { data: usageEntries, error: usageError } = await supabaseClient
+      .from("minutes_ledger")
+      .select("entry_type, minutes, created_at")
       .eq("company_id", companyId)
-      .eq("status", "accepted")
-      .not("user_id", "is", null);
+      .in("entry_type", ["deduction", "refund"])
+      .gte("created_at", rangeStart.toISOString())
+      .lte("created_at", rangeEnd.toISOString());
 
-    if (membersError) throw membersError;
+    if (usageError) throw usageError;
 
-    const memberIds = Array.from(
-      new Set<string>([user.id, ...(members ?? []).map((m: any) => m.user_id).filter(Boolean)]),
-    );
+    const buckets = new Map<string, number>();
+    for (const entry of usageEntries ?? []) {
+      const weekStart = startOfWeekUTC(new Date(entry.created_at)).toISOString();
+      const minutes = entry.entry_type === "refund" ? -entry.minutes : entry.minutes;
+      buckets.set(weekStart, (buckets.get(weekStart) ?? 0) + minutes);
+    }
 
-    // Fetch completed bookings for those members in the last 30 days.
-    const { data: bookings, error: bookingsError } = await supabaseClient
-      .from("bookings")
-      .select("confirmed_datetime, proposed_datetime, session_duration, specialist_id, employee_user_id")
-      .eq("status", "completed")
-      .gte("confirmed_datetime", rangeStart.toISOString())
-      .lte("confirmed_datetime", rangeEnd.toISOString())
-      .in("employee_user_id", memberIds);
+    const { data: balance, error: balanceError } = await supabaseClient
+      .from("company_minutes_balances")
+      .select("period_start, minutes_included, minutes_used")
+      .eq("company_id", companyId)
+      .maybeSingle();
 
-    if (bookingsError) throw bookingsError;
+    if (balanceError) throw balanceError;
 
-    const specialistIds = Array.from(new Set<string>((bookings ?? []).map((b: any) => b.specialist_id).filter(Boolean)));
-    const { data: specialists, error: specialistsError } = await supabaseClient
-      .from("specialists")
-      .select("id, rate_tier")
-      .in("id", specialistIds);
+    // Every entry of the current period, newest first, for the billing history
+    let entriesQuery = supabaseClient
+      .from("minutes_ledger")
+      .select("id, entry_type, minutes, booking_id, rate_tier, multiplier, session_minutes, note, created_at")
+      .eq("company_id", companyId)
+      .order("created_at", { ascending: false })
+      .limit(MAX_LEDGER_ENTRIES);
 
-    if (specialistsError) throw specialistsError;
+    const { data: latestReset, error: resetError } = await supabaseClient
+      .from("minutes_ledger")
+      .select("created_at")
+      .eq("company_id", companyId)
+      .eq("entry_type", "reset")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
 
-    const tierBySpecialistId = new Map<string, string | null>();
-    for (const s of specialists ?? []) {
-      tierBySpecialistId.set((s as any).id, (s as any).rate_tier ?? null);
-    }
+    if (resetError) throw resetError;
+    if (latestReset) entriesQuery = entriesQuery.gte("created_at", latestReset.created_at);
 
-    const tierMultiplier = (tier: string | null | undefined) => {
-      switch (tier) {
-        case "advanced":
-          return 1.6;
-        case "expert":
-          return 2.4;
-        case "master":
-          return 3.2;
-        case "standard":
-        default:
-          return 1.0;
+    const { data: entries, error: entriesError } = await entriesQuery;
+    if (entriesError) throw entriesError;
+
+    // Usage per department this period, merged with the budgets and with every department an
+    // employee lists, so departments with a budget or staff but no usage yet still show up.
+    // Departments are matched case-insensitively, as in create_booking.
+    const { data: departmentUsage, error: departmentUsageError } = await supabaseClient
+      .rpc("department_minutes_usage", { _company_id: companyId });
+    if (departmentUsageError) throw departmentUsageError;
+
+    const { data: budgets, error: budgetsError } = await supabaseClient
+      .from("department_budgets")
+      .select("id, department, minutes_budget, cap_type")
+      .eq("company_id", companyId);
+    if (budgetsError) throw budgetsError;
+
+    const { data: employeeLinks, error: employeeLinksError } = await supabaseClient
+      .from("company_employees")
+      .select("user_id")
+      .eq("company_id", companyId)
+      .eq("status", "accepted")
+      .not("user_id", "is", null);
+    if (employeeLinksError) throw employeeLinksError;
+
+    const employeeIds = (employeeLinks ?? []).map((link) => link.user_id as string);
+    const { data: employeeProfiles, error: profilesError } = employeeIds.length > 0
+      ? await supabaseClient.from("profiles").select("department").in("user_id", employeeIds)
+      : { data: [], error: null };
+    if (profilesError) throw profilesError;
+
+    const departments = new Map<string, DepartmentRow>();
+    const departmentRow = (name: string | null) => {
+      const trimmed = name?.trim() || null;
+      const key = trimmed?.toLowerCase() ?? "";
+      let row = departments.get(key);
+      if (!row) {
+        row = {
+          department: trimmed,
+          minutes_used: 0,
+          minutes_reserved: 0,
+          budget_id: null,
+          minutes_budget: null,
+          cap_type: null,
+        };
+        departments.set(key, row);
       }
+      return row;
     };
 
-    const buckets = new Map<string, number>();
-    for (const b of bookings ?? []) {
-      const dt = b.confirmed_datetime ?? b.proposed_datetime;
-      if (!dt) continue;
-      const d = new Date(dt);
-      const weekStart = startOfWeekUTC(d).toISOString();
-      const duration = Number(b.session_duration ?? 60);
-      const tier = tierBySpecialistId.get((b as any).specialist_id) ?? null;
-      const minutes = Math.round(duration * tierMultiplier(tier));
-      buckets.set(weekStart, (buckets.get(weekStart) ?? 0) + minutes);
+    for (const profile of employeeProfiles ?? []) {
+      if (profile.department?.trim()) departmentRow(profile.department);
+    }
+    for (const usage of departmentUsage ?? []) {
+      const row = departmentRow(usage.department);
+      row.minutes_used += usage.minutes_used;
+      row.minutes_reserved += usage.minutes_reserved;
+    }
+    for (const budget of budgets ?? []) {
+      const row = departmentRow(budget.department);
+      // The budget's spelling is the one the admin chose
+      row.department = budget.department;
+      row.budget_id = budget.id;
+      row.minutes_budget = budget.minutes_budget;
+      row.cap_type = budget.cap_type;
     }
 
+    // Named departments alphabetically, with usage by employees without one last
+    const departmentRows = [...departments.values()].sort((a, b) => {
+      if (!a.department) return 1;
+      if (!b.department) return -1;
+      return a.department.localeCompare(b.department);
+    });
+
     // Fill missing weeks within range
     const firstWeek = startOfWeekUTC(rangeStart);
     const lastWeek = startOfWeekUTC(rangeEnd);
@@ -201,10 +508,20 @@ serve(async (req) => {
       out.push({ week_start: key, minutes_used: buckets.get(key) ?? 0 });
     }
 
-    return new Response(JSON.stringify({ range_start: rangeStart.toISOString(), range_end: rangeEnd.toISOString(), weeks: out }), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-      status: 200,
-    });
+    return new Response(
+      JSON.stringify({
+        range_start: rangeStart.toISOString(),
+        range_end: rangeEnd.toISOString(),
+        weeks: out,
+        balance: balance ?? { period_start: null, minutes_included: 0, minutes_used: 0 },
+        entries: entries ?? [],
+        departments: departmentRows,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      },
+    );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     console.error("company-minutes-breakdown error:", errorMessage);
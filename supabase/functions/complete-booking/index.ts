@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import { formatMoney } from "../_shared/currency.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 
@@ -10,14 +11,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
-// Specialist tier multipliers matching src/lib/plans.ts
-const TIER_MULTIPLIERS: Record<string, number> = {
-  standard: 1.0,
-  advanced: 1.6,
-  expert: 2.4,
-  master: 3.2,
-};
-
 // Default session duration in minutes (1 hour)
 const DEFAULT_SESSION_MINUTES = 60;
 
@@ -29,13 +22,22 @@ interface CompleteBookingRequest {
   sessionMinutes?: number;
 }
 
+// A row of minute_pack_offers: a top-up pack on sale now, in the company's billing currency
+interface PackOffer {
+  pack_id: string;
+  minutes: number;
+  price_cents: number;
+}
+
 // Function to send low minutes warning email
 async function sendLowMinutesEmail(
   adminEmail: string,
   companyName: string,
   minutesUsed: number,
   minutesIncluded: number,
-  usagePercentage: number
+  usagePercentage: number,
+  packs: PackOffer[],
+  currency: string
 ): Promise<void> {
   const minutesRemaining = minutesIncluded - minutesUsed;
   const hoursRemaining = Math.floor(minutesRemaining / 60);
@@ -44,6 +46,12 @@ async function sendLowMinutesEmail(
     ? `${hoursRemaining}h ${minsRemaining}m` 
     : `${minsRemaining}m`;
 
+  const packOffers = packs.map((pack) => `
+                <a href="https://hollyaid.com/company-billing?topup=${pack.pack_id}" class="pack">
+                  <div class="pack-minutes">+${pack.minutes}</div>
+                  <div class="stat-label">minutes · ${formatMoney(pack.price_cents / 100, currency)}</div>
+                </a>`).join("");
+
   try {
     await resend.emails.send({
       from: "HollyAid <onboarding@resend.dev>",
@@ -64,6 +72,8 @@ async function sendLowMinutesEmail(
             .stat-value { font-size: 28px; font-weight: bold; color: #111827; }
             .stat-label { font-size: 14px; color: #6b7280; }
             .cta { display: inline-block; background: #22c55e; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 20px; }
+            .pack { display: block; background: white; padding: 14px; border-radius: 8px; text-align: center; text-decoration: none; border: 2px solid #22c55e; }
+            .pack-minutes { font-size: 22px; font-weight: bold; color: #16a34a; }
             .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
           </style>
         </head>
@@ -97,7 +107,12 @@ async function sendLowMinutesEmail(
                 </div>
               </div>
               
-              <p style="margin-top: 20px;">To ensure uninterrupted access to wellness services, consider upgrading your plan before your minutes run out.</p>
+              <p style="margin-top: 20px;"><strong>Need a few more minutes this period?</strong> Top up with a one-off pack, no plan change needed:</p>
+
+              <div style="display: grid; grid-template-columns: 1fr 1fr 1fr; gap: 10px;">${packOffers}
+              </div>
+
+              <p style="margin-top: 20px;">If your team regularly needs more, consider upgrading your plan before your minutes run out.</p>
               
               <center>
                 <a href="https://hollyaid.com/dashboard" class="cta">
@@ -140,145 +155,61 @@ const handler = async (req: Request): Promise<Response> => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Fetch booking with specialist tier and employee info
-    const { data: booking, error: bookingError } = await supabase
-      .from("bookings")
-      .select(`
-        id,
-        status,
-        employee_user_id,
-        specialist:specialists!bookings_specialist_id_fkey(
-          id,
-          rate_tier,
-          full_name
-        )
-      `)
-      .eq("id", bookingId)
-      .single();
-
-    if (bookingError || !booking) {
-      console.error("Error fetching booking:", bookingError);
-      throw new Error("Booking not found");
+    // Record who completed the session; the ledger stores it as the entry's actor
+    let actorUserId: string | null = null;
+    const authHeader = req.headers.get("Authorization");
+    if (authHeader) {
+      const { data: userData } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+      actorUserId = userData.user?.id ?? null;
     }
 
-    console.log("Booking data:", JSON.stringify(booking, null, 2));
+    // complete_booking locks the booking, writes the deduction to minutes_ledger and marks the
+    // booking completed in one transaction. The ledger is unique per booking, so a retried call
+    // fails instead of charging twice, and the hold placed at approval is released by trigger.
+    const { data: entry, error: completeError } = await supabase.rpc("complete_booking", {
+      _booking_id: bookingId,
+      _session_minutes: sessionMinutes,
+      _actor_user_id: actorUserId,
+    });
 
-    if (booking.status !== "approved") {
-      throw new Error(`Booking cannot be completed. Current status: ${booking.status}`);
+    if (completeError) {
+      console.error("Error completing booking:", completeError);
+      throw new Error(completeError.message);
     }
 
-    const specialist = booking.specialist as unknown as { id: string; rate_tier: string | null; full_name: string } | null;
-    
-    if (!specialist) {
-      throw new Error("Specialist not found for this booking");
-    }
+    const tier: string = entry.rate_tier;
+    const multiplier = Number(entry.multiplier);
+    const minutesToDeduct: number = entry.minutes;
+    console.log(`Tier: ${tier}, Multiplier: ${multiplier}, Session: ${sessionMinutes}min, Deducted: ${minutesToDeduct} minutes`);
 
-    const tier = specialist.rate_tier || "standard";
-    const multiplier = TIER_MULTIPLIERS[tier] || 1.0;
-    const minutesToDeduct = Math.ceil(sessionMinutes * multiplier);
-    console.log(`Tier: ${tier}, Multiplier: ${multiplier}, Session: ${sessionMinutes}min, Deducting: ${minutesToDeduct} minutes`);
-
-    // Find the employee's company - first try company_employees, then fallback to email domain
-    type CompanyType = { 
-      id: string; 
-      name: string; 
-      minutes_used: number | null; 
-      minutes_included: number | null;
-      admin_user_id: string | null;
-    };
-    
-    let company: CompanyType | null = null;
-
-    // Try to find via company_employees table
-    const { data: employeeCompany, error: companyError } = await supabase
-      .from("company_employees")
-      .select(`
-        company_id,
-        company:companies!company_employees_company_id_fkey(
-          id,
-          name,
-          minutes_used,
-          minutes_included,
-          admin_user_id
-        )
-      `)
-      .eq("user_id", booking.employee_user_id)
+    // Balances on companies are recomputed from the ledger when the entry is inserted
+    const { data: company, error: companyError } = await supabase
+      .from("companies")
+      .select("id, name, minutes_used, minutes_included, admin_user_id, billing_currency")
+      .eq("id", entry.company_id)
       .single();
 
-    if (!companyError && employeeCompany?.company) {
-      company = employeeCompany.company as unknown as CompanyType;
-      console.log("Found company via company_employees:", company.name);
-    } else {
-      console.log("Employee not in company_employees, trying email domain fallback");
-      
-      // Fallback: Get employee's email from profiles and match by domain
-      const { data: employeeProfile, error: profileError } = await supabase
-        .from("profiles")
-        .select("email")
-        .eq("user_id", booking.employee_user_id)
-        .single();
-
-      if (profileError || !employeeProfile?.email) {
-        console.error("Error fetching employee profile:", profileError);
-        throw new Error("Employee profile not found");
-      }
-
-      const emailDomain = employeeProfile.email.split("@")[1];
-      console.log("Looking for company with email domain:", emailDomain);
-
-      const { data: domainCompany, error: domainError } = await supabase
-        .from("companies")
-        .select("id, name, minutes_used, minutes_included, admin_user_id")
-        .eq("email_domain", emailDomain)
-        .single();
-
-      if (domainError || !domainCompany) {
-        console.error("Error finding company by domain:", domainError);
-        throw new Error("Employee's company not found");
-      }
-
-      company = domainCompany as CompanyType;
-      console.log("Found company via email domain:", company.name);
-    }
-
-    if (!company) {
+    if (companyError || !company) {
+      console.error("Error fetching company:", companyError);
       throw new Error("Company data not found");
     }
 
-    const currentMinutesUsed = company.minutes_used || 0;
+    // Any part of the session past the allowance was recorded as overage; send it to Stripe
+    supabase.functions.invoke("report-overage-usage", { body: { companyId: company.id } })
+      .catch((err) => console.error("Failed to report overage usage:", err));
+
+    const newMinutesUsed = company.minutes_used || 0;
     const minutesIncluded = company.minutes_included || 0;
-    const newMinutesUsed = currentMinutesUsed + minutesToDeduct;
+    const previousMinutesUsed = newMinutesUsed - minutesToDeduct;
 
     // Calculate usage percentages before and after
-    const previousUsagePercentage = minutesIncluded > 0 ? (currentMinutesUsed / minutesIncluded) * 100 : 0;
+    const previousUsagePercentage = minutesIncluded > 0 ? (previousMinutesUsed / minutesIncluded) * 100 : 0;
     const newUsagePercentage = minutesIncluded > 0 ? (newMinutesUsed / minutesIncluded) * 100 : 0;
     const thresholdPercentage = LOW_MINUTES_THRESHOLD * 100;
 
-    console.log(`Company: ${company.name}, Current used: ${currentMinutesUsed}, New total: ${newMinutesUsed}`);
+    console.log(`Company: ${company.name}, Previously used: ${previousMinutesUsed}, New total: ${newMinutesUsed}`);
     console.log(`Usage: ${previousUsagePercentage.toFixed(1)}% -> ${newUsagePercentage.toFixed(1)}% (threshold: ${thresholdPercentage}%)`);
 
-    // Update company minutes_used
-    const { error: updateCompanyError } = await supabase
-      .from("companies")
-      .update({ minutes_used: newMinutesUsed })
-      .eq("id", company.id);
-
-    if (updateCompanyError) {
-      console.error("Error updating company minutes:", updateCompanyError);
-      throw new Error("Failed to update company minutes");
-    }
-
-    // Mark booking as completed
-    const { error: updateBookingError } = await supabase
-      .from("bookings")
-      .update({ status: "completed" })
-      .eq("id", bookingId);
-
-    if (updateBookingError) {
-      console.error("Error completing booking:", updateBookingError);
-      throw new Error("Failed to complete booking");
-    }
-
     // Check if usage just crossed the 80% threshold and send email notification
     let lowMinutesEmailSent = false;
     if (previousUsagePercentage < thresholdPercentage && newUsagePercentage >= thresholdPercentage) {
@@ -292,13 +223,20 @@ const handler = async (req: Request): Promise<Response> => {
           .eq("user_id", company.admin_user_id)
           .single();
 
+        // Top-up offers in the company's billing currency, from the pricing catalog
+        const { data: packs, error: packsError } = await supabase
+          .rpc("minute_pack_offers", { _currency: company.billing_currency });
+        if (packsError) console.error("Could not load minute pack offers:", packsError);
+
         if (!profileError && adminProfile?.email) {
           await sendLowMinutesEmail(
             adminProfile.email,
             company.name,
             newMinutesUsed,
             minutesIncluded,
-            newUsagePercentage
+            newUsagePercentage,
+            packs ?? [],
+            company.billing_currency
           );
           lowMinutesEmailSent = true;
         } else {
@@ -0,0 +1,161 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const ALLOWED_DURATIONS = [30, 60];
+const DEFAULT_SESSION_MINUTES = 60;
+const MAX_NOTES_LENGTH = 500;
+
+interface CreateBookingRequest {
+  specialistId: string;
+  slotId?: string | null;
+  proposedDatetime?: string | null;
+  sessionDuration?: number;
+  notes?: string | null;
+}
+
+// Errors raised on purpose by the request validation or the create_booking RPC.
+// They are returned as 400 with their message so the modal can show it as-is.
+class BookingRejectedError extends Error {}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } },
+  );
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const user = userData.user;
+    if (!user?.id) throw new Error("User not authenticated");
+
+    const {
+      specialistId,
+      slotId = null,
+      proposedDatetime = null,
+      sessionDuration,
+      notes = null,
+    }: CreateBookingRequest = await req.json();
+
+    if (!specialistId) throw new BookingRejectedError("specialistId is required");
+    if (!slotId && !proposedDatetime) {
+      throw new BookingRejectedError("Either a time slot or a proposed date and time is required");
+    }
+
+    const trimmedNotes = notes?.trim() ? notes.trim().slice(0, MAX_NOTES_LENGTH) : null;
+
+    const { data: specialist, error: specialistError } = await supabaseClient
+      .from("specialists")
+      .select("id, rate_tier")
+      .eq("id", specialistId)
+      .maybeSingle();
+
+    if (specialistError) throw specialistError;
+    if (!specialist) throw new BookingRejectedError("Specialist not found");
+
+    // Slot bookings take their length from the slot; free-form proposals pick 30 or 60 minutes.
+    let duration = sessionDuration ?? DEFAULT_SESSION_MINUTES;
+    if (slotId) {
+      const { data: slot, error: slotError } = await supabaseClient
+        .from("availability_slots")
+        .select("start_time, end_time")
+        .eq("id", slotId)
+        .maybeSingle();
+
+      if (slotError) throw slotError;
+      if (!slot) throw new BookingRejectedError("Time slot not found");
+
+      duration = Math.round(
+        (new Date(slot.end_time).getTime() - new Date(slot.start_time).getTime()) / 60000,
+      );
+    } else if (!ALLOWED_DURATIONS.includes(duration)) {
+      throw new BookingRejectedError(`Session duration must be one of ${ALLOWED_DURATIONS.join(", ")} minutes`);
+    }
+
+    const tier = specialist.rate_tier || "standard";
+
+    // Priced from the catalog version in effect now, which the new booking also records
+    const { data: minutesRequired, error: priceError } = await supabaseClient.rpc("booking_minutes_required", {
+      _specialist_id: specialistId,
+      _session_duration: duration,
+    });
+
+    if (priceError) throw priceError;
+
+    const { count: completedCount, error: countError } = await supabaseClient
+      .from("bookings")
+      .select("id", { count: "exact", head: true })
+      .eq("employee_user_id", user.id)
+      .eq("specialist_id", specialistId)
+      .eq("status", "completed");
+
+    if (countError) throw countError;
+
+    const sessionType = (completedCount ?? 0) === 0 ? "first_session" : "follow_up";
+
+    console.log(
+      `Creating booking for ${user.id} with specialist ${specialistId}: ${duration}min, tier ${tier}, ${minutesRequired} minutes required`,
+    );
+
+    const { data: booking, error: rpcError } = await supabaseClient.rpc("create_booking", {
+      _employee_user_id: user.id,
+      _specialist_id: specialistId,
+      _slot_id: slotId,
+      _proposed_datetime: slotId ? null : proposedDatetime,
+      _session_duration: duration,
+      _session_type: sessionType,
+      _notes: trimmedNotes,
+      _minutes_required: minutesRequired,
+    });
+
+    if (rpcError) {
+      // P0001 is the default SQLSTATE for RAISE EXCEPTION in create_booking.
+      if (rpcError.code === "P0001") throw new BookingRejectedError(rpcError.message);
+      throw rpcError;
+    }
+
+    // Requests over a soft department budget reach the specialist once the company admin approves them
+    const awaitingApproval = booking.status === "awaiting_approval";
+
+    // The booking is already committed; a failed notification must not fail the request.
+    if (!awaitingApproval) {
+      const { error: notifyError } = await supabaseClient.functions.invoke("notify-specialist-booking", {
+        body: { bookingId: booking.id },
+      });
+      if (notifyError) {
+        console.error("Failed to notify specialist:", notifyError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, booking, minutesRequired, awaitingApproval }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      },
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("create-booking error:", errorMessage);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: error instanceof BookingRejectedError ? 400 : 500,
+    });
+  }
+});
@@ -11,37 +11,11 @@ const corsHeaders = {
 type PlanConfig = {
   priceId: string;
   minutes: number;
-  monthlyAmountCents: number;
+  amountCents: number;
   displayName: string;
 };
 
-// Plan configurations
-const PLANS = {
-  solopreneur: {
-    priceId: (Deno.env.get("STRIPE_SOLOPRENEUR_PRICE_ID") || "").trim(),
-    minutes: 60,
-    monthlyAmountCents: 8000,
-    displayName: "Solopreneur",
-  },
-  starter: {
-    priceId: "price_1T2EXyGqEX4plgbe5klHtV5y",
-    minutes: 500,
-    monthlyAmountCents: 34000,
-    displayName: "Starter",
-  },
-  growth: {
-    priceId: "price_1T2EYQGqEX4plgbewYPw9C39",
-    minutes: 1500,
-    monthlyAmountCents: 95000,
-    displayName: "Growth",
-  },
-  scale: {
-    priceId: "price_1T2EYvGqEX4plgbe2d6taMm5",
-    minutes: 3600,
-    monthlyAmountCents: 185000,
-    displayName: "Scale",
-  },
-};
+const CURRENCIES = ["usd", "eur", "gbp"];
 
 // Test account domains
 const TEST_DOMAINS = ["hollyaid.com", "shakeapp.today", "aptw.us"];
@@ -72,8 +46,95 @@ serve(async (req) => {
     // Get request body for plan selection
     const body = await req.json().catch(() => ({}));
     const planType = (body.planType || "starter").toString().trim().toLowerCase();
-    const plan = PLANS[planType as keyof typeof PLANS] as PlanConfig | undefined;
-    if (!plan) throw new Error(`Invalid plan type: ${planType}`);
+    const interval: "month" | "year" = body.interval === "year" ? "year" : "month";
+
+    const { data: company, error: companyError } = await supabaseAdmin
+      .from("companies")
+      .select("id, billing_currency, stripe_customer_id")
+      .eq("admin_user_id", user.id)
+      .maybeSingle();
+    if (companyError) throw companyError;
+
+    // A Stripe customer can only be billed in one currency, so it is fixed after the first checkout
+    const requestedCurrency = (body.currency || "").toString().trim().toLowerCase();
+    const currency = CURRENCIES.includes(requestedCurrency)
+      ? requestedCurrency
+      : company?.billing_currency || "usd";
+    if (company?.stripe_customer_id && company.billing_currency !== currency) {
+      throw new Error(
+        `Your company is billed in ${company.billing_currency.toUpperCase()}. Contact support to change the billing currency.`,
+      );
+    }
+
+    // Prices come from the pricing catalog version in effect now
+    const { data: versionId, error: versionError } = await supabaseAdmin.rpc("pricing_version_at");
+    if (versionError) throw versionError;
+
+    const { data: catalogPlan, error: catalogError } = await supabaseAdmin
+      .from("pricing_plans")
+      .select("name, minutes")
+      .eq("version_id", versionId)
+      .eq("plan_type", planType)
+      .maybeSingle();
+    if (catalogError) throw catalogError;
+    if (!catalogPlan) throw new Error(`Invalid plan type: ${planType}`);
+
+    const { data: catalogPrice, error: priceError } = await supabaseAdmin
+      .from("pricing_plan_prices")
+      .select("price_cents, stripe_price_id, annual_price_cents, stripe_annual_price_id")
+      .eq("version_id", versionId)
+      .eq("plan_type", planType)
+      .eq("currency", currency)
+      .maybeSingle();
+    if (priceError) throw priceError;
+    if (!catalogPrice) throw new Error(`The ${catalogPlan.name} plan has no ${currency.toUpperCase()} price`);
+    if (interval === "year" && catalogPrice.annual_price_cents <= 0) {
+      throw new Error(`The ${catalogPlan.name} plan isn't available with annual billing`);
+    }
+
+    // Solopreneur checkout uses dynamic Stripe price_data unless a dedicated price is configured.
+    // Annual contracts use price_data too until a yearly Stripe price is set in the catalog.
+    const plan: PlanConfig = interval === "year"
+      ? {
+          priceId: (catalogPrice.stripe_annual_price_id || "").trim(),
+          minutes: catalogPlan.minutes,
+          amountCents: catalogPrice.annual_price_cents,
+          displayName: catalogPlan.name,
+        }
+      : {
+          priceId: (
+            catalogPrice.stripe_price_id ||
+            (planType === "solopreneur" && currency === "usd" ? Deno.env.get("STRIPE_SOLOPRENEUR_PRICE_ID") : "") ||
+            ""
+          ).trim(),
+          minutes: catalogPlan.minutes,
+          amountCents: catalogPrice.price_cents,
+          displayName: catalogPlan.name,
+        };
+
+    // validate_promo_code raises with the reason a code can't be used, which is shown to the admin
+    const promoCode = (body.promoCode || "").toString().trim();
+    let promo: {
+      id: string;
+      code: string;
+      percent_off: number | null;
+      amount_off_cents: number | null;
+      currency: string | null;
+      duration_months: number | null;
+      stripe_coupon_id: string | null;
+    } | null = null;
+
+    if (promoCode) {
+      const { data: promoRows, error: promoError } = await supabaseAdmin.rpc("validate_promo_code", {
+        _code: promoCode,
+        _company_id: company?.id ?? null,
+      });
+      if (promoError) throw new Error(promoError.message);
+      promo = promoRows?.[0] ?? null;
+      if (promo?.currency && promo.currency !== currency) {
+        throw new Error(`The promo code ${promo.code} can only be used when paying in ${promo.currency.toUpperCase()}`);
+      }
+    }
 
     const emailDomain = user.email.split("@")[1]?.toLowerCase();
     const isTestAccount = TEST_DOMAINS.includes(emailDomain);
@@ -84,27 +145,42 @@ serve(async (req) => {
 
       const now = new Date();
       const periodEnd = new Date(now);
-      periodEnd.setMonth(periodEnd.getMonth() + 1);
+      periodEnd.setMonth(periodEnd.getMonth() + (interval === "year" ? 12 : 1));
 
-      const { error: updateError } = await supabaseAdmin
+      const { data: testCompany, error: updateError } = await supabaseAdmin
         .from("companies")
         .update({
           subscription_status: "active",
           is_paid: true,
           plan_type: planType,
-          minutes_included: plan.minutes,
-          minutes_used: 0,
+          billing_currency: currency,
+          billing_interval: interval,
           subscription_period_start: now.toISOString(),
           subscription_period_end: periodEnd.toISOString(),
           is_test_account: true,
         })
-        .eq("admin_user_id", user.id);
+        .eq("admin_user_id", user.id)
+        .select("id")
+        .maybeSingle();
 
       if (updateError) {
         console.error("Error updating test company:", updateError);
         throw new Error("Failed to activate test subscription");
       }
 
+      // A fresh period in minutes_ledger gives the full plan allowance with nothing used
+      if (testCompany) {
+        const { error: syncError } = await supabaseAdmin.rpc("sync_subscription_minutes", {
+          _company_id: testCompany.id,
+          _actor_user_id: user.id,
+        });
+
+        if (syncError) {
+          console.error("Error granting test minutes:", syncError);
+          throw new Error("Failed to activate test subscription");
+        }
+      }
+
       return new Response(
         JSON.stringify({
           success: true,
@@ -142,12 +218,45 @@ serve(async (req) => {
 
     const origin = req.headers.get("origin") || "https://hollyaid.com";
 
-    const subscriptionMetadata = {
+    const { error: currencyError } = await supabaseAdmin
+      .from("companies")
+      .update({ billing_currency: currency })
+      .eq("admin_user_id", user.id);
+    if (currencyError) throw currencyError;
+
+    const subscriptionMetadata: Record<string, string> = {
       user_id: user.id,
       plan_type: rawPlanType,
       minutes_included: plan.minutes.toString(),
+      billing_interval: interval,
     };
 
+    // The Stripe coupon behind a promo code is created the first time the code is used
+    let couponId: string | null = null;
+    if (promo) {
+      couponId = promo.stripe_coupon_id;
+      if (!couponId) {
+        const coupon = await stripe.coupons.create({
+          name: promo.code,
+          ...(promo.percent_off
+            ? { percent_off: promo.percent_off }
+            : { amount_off: promo.amount_off_cents!, currency: promo.currency! }),
+          ...(promo.duration_months
+            ? { duration: "repeating" as const, duration_in_months: promo.duration_months }
+            : { duration: "forever" as const }),
+          metadata: { promo_code_id: promo.id },
+        });
+        couponId = coupon.id;
+
+        const { error: couponError } = await supabaseAdmin
+          .from("promo_codes")
+          .update({ stripe_coupon_id: couponId })
+          .eq("id", promo.id);
+        if (couponError) console.error("Failed to save Stripe coupon for promo code:", couponError);
+      }
+      subscriptionMetadata.promo_code_id = promo.id;
+    }
+
     const lineItem = cleanPriceId
       ? {
           price: cleanPriceId,
@@ -155,11 +264,11 @@ serve(async (req) => {
         }
       : {
           price_data: {
-            currency: "usd",
-            unit_amount: plan.monthlyAmountCents,
-            recurring: { interval: "month" as const },
+            currency,
+            unit_amount: plan.amountCents,
+            recurring: { interval },
             product_data: {
-              name: `${plan.displayName} Wellness Plan`,
+              name: interval === "year" ? `${plan.displayName} Wellness Plan (annual)` : `${plan.displayName} Wellness Plan`,
             },
           },
           quantity: 1,
@@ -170,6 +279,7 @@ serve(async (req) => {
       customer_email: customerId ? undefined : user.email,
       line_items: [lineItem],
       mode: "subscription",
+      discounts: couponId ? [{ coupon: couponId }] : undefined,
       success_url: `${origin}/payment-success?session_id={CHECKOUT_SESSION_ID}&plan=${rawPlanType}`,
       cancel_url: `${origin}/auth`,
       metadata: subscriptionMetadata,
@@ -0,0 +1,158 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// A row of minute_pack_offers
+interface PackOffer {
+  pack_id: string;
+  minutes: number;
+  validity_days: number;
+  price_cents: number;
+}
+
+// One-off Stripe payment for a minute pack, at the catalog price in the company's billing currency.
+// The pack is credited by stripe-webhook once the payment completes; test accounts are credited
+// straight away.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } },
+  );
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+
+    const user = userData.user;
+    if (!user?.email) throw new Error("User not authenticated or email not available");
+
+    const body = await req.json().catch(() => ({}));
+    const packId = (body.packId || "").toString().trim();
+
+    const { data: company } = await supabaseClient
+      .from("companies")
+      .select("id, name, is_test_account, subscription_status, stripe_customer_id, billing_currency")
+      .eq("admin_user_id", user.id)
+      .maybeSingle();
+
+    if (!company) throw new Error("Only company admins can buy minute packs");
+    if (company.subscription_status !== "active") {
+      throw new Error("Minute packs are available to companies with an active plan");
+    }
+
+    const { data: offers, error: offersError } = await supabaseClient
+      .rpc("minute_pack_offers", { _currency: company.billing_currency });
+    if (offersError) throw offersError;
+
+    const pack = ((offers ?? []) as PackOffer[]).find((offer) => offer.pack_id === packId);
+    if (!pack) throw new Error(`Invalid minute pack: ${packId}`);
+
+    if (company.is_test_account) {
+      const checkoutSessionId = `test_${crypto.randomUUID()}`;
+      const { error: insertError } = await supabaseClient.from("minute_packs").insert({
+        company_id: company.id,
+        pack_id: packId,
+        minutes: pack.minutes,
+        validity_days: pack.validity_days,
+        amount_cents: 0,
+        currency: company.billing_currency,
+        stripe_checkout_session_id: checkoutSessionId,
+        purchased_by: user.id,
+      });
+      if (insertError) throw insertError;
+
+      const { error: creditError } = await supabaseClient.rpc("credit_minute_pack", {
+        _checkout_session_id: checkoutSessionId,
+      });
+      if (creditError) throw creditError;
+
+      console.log(`Test account ${company.id} credited ${pack.minutes} top-up minutes`);
+      return new Response(JSON.stringify({ success: true, isTestAccount: true }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+    if (!stripeKey) throw new Error("STRIPE_SECRET_KEY is not set");
+
+    const stripe = new Stripe(stripeKey, { apiVersion: "2025-08-27.basil" });
+
+    let customerId = company.stripe_customer_id ?? undefined;
+    if (!customerId) {
+      const customers = await stripe.customers.list({ email: user.email, limit: 1 });
+      customerId = customers.data[0]?.id;
+    }
+
+    const origin = req.headers.get("origin") || "https://hollyaid.com";
+
+    const metadata = {
+      kind: "minute_pack",
+      company_id: company.id,
+      pack_id: packId,
+      user_id: user.id,
+    };
+
+    const session = await stripe.checkout.sessions.create({
+      customer: customerId,
+      customer_email: customerId ? undefined : user.email,
+      mode: "payment",
+      line_items: [
+        {
+          price_data: {
+            currency: company.billing_currency,
+            unit_amount: pack.price_cents,
+            product_data: {
+              name: `${pack.minutes} Wellness Minutes Top-up`,
+              description: `Valid for ${pack.validity_days} days or until the end of your billing period`,
+            },
+          },
+          quantity: 1,
+        },
+      ],
+      success_url: `${origin}/company-billing?topup=success`,
+      cancel_url: `${origin}/company-billing`,
+      metadata,
+      payment_intent_data: { metadata },
+    });
+
+    const { error: insertError } = await supabaseClient.from("minute_packs").insert({
+      company_id: company.id,
+      pack_id: packId,
+      minutes: pack.minutes,
+      validity_days: pack.validity_days,
+      amount_cents: pack.price_cents,
+      currency: company.billing_currency,
+      stripe_checkout_session_id: session.id,
+      purchased_by: user.id,
+    });
+    if (insertError) throw insertError;
+
+    return new Response(JSON.stringify({ url: session.url }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("Top-up checkout error:", errorMessage);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
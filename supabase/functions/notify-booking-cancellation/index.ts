@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { generateICSContent } from "../_shared/ics.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 
@@ -41,14 +43,22 @@ const handler = async (req: Request): Promise<Response> => {
         proposed_datetime,
         confirmed_datetime,
         notes,
+        session_duration,
+        calendar_sequence,
+        late_cancellation,
+        minutes_charged,
+        specialist_fee_percent,
         specialist:specialists!bookings_specialist_id_fkey(
           id,
           full_name,
-          email
+          email,
+          specialty,
+          timezone
         ),
         employee:profiles!bookings_employee_user_id_fkey(
           full_name,
-          email
+          email,
+          timezone
         )
       `)
       .eq("id", bookingId)
@@ -61,8 +71,14 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log("Booking data:", JSON.stringify(booking, null, 2));
 
-    const specialist = booking.specialist as unknown as { id: string; full_name: string; email: string } | null;
-    const employee = booking.employee as unknown as { full_name: string | null; email: string } | null;
+    const specialist = booking.specialist as unknown as {
+      id: string;
+      full_name: string;
+      email: string;
+      specialty: string | null;
+      timezone: string | null;
+    } | null;
+    const employee = booking.employee as unknown as { full_name: string | null; email: string; timezone: string | null } | null;
 
     if (!specialist?.email) {
       throw new Error("Specialist email not found");
@@ -84,6 +100,51 @@ const handler = async (req: Request): Promise<Response> => {
 
     const employeeName = employee?.full_name || employee?.email || "An employee";
 
+    // Late cancellations carry the policy outcome recorded on the booking
+    const lateCancellationHtml = booking.late_cancellation
+      ? `
+              <div class="detail-row">
+                <div class="label">Late Cancellation</div>
+                <div class="value">⏰ Cancelled inside the cancellation window</div>
+                ${booking.specialist_fee_percent ? `<p style="margin: 8px 0 0;">You'll receive a cancellation fee of ${booking.specialist_fee_percent}% of the session rate.</p>` : ""}
+                ${booking.minutes_charged ? `<p style="margin: 8px 0 0;">${booking.minutes_charged} minutes were charged to the employee's company.</p>` : ""}
+              </div>
+      `
+      : "";
+
+    // METHOD:CANCEL with the booking's UID removes the event from both parties' calendars
+    let attachments: { filename: string; content: string; type: string }[] = [];
+    if (sessionDate) {
+      const startDate = new Date(sessionDate);
+      const endDate = new Date(startDate.getTime() + (booking.session_duration || 60) * 60 * 1000);
+
+      const icsContent = generateICSContent({
+        method: "CANCEL",
+        uid: `booking-${bookingId}@hollyaid.com`,
+        sequence: booking.calendar_sequence,
+        status: "CANCELLED",
+        startDate,
+        endDate,
+        summary: `HollyAid Session: ${specialist.specialty || "Wellness Consultation"} (cancelled)`,
+        description: `Wellness session with ${specialist.full_name}, cancelled by ${employeeName}`,
+        joinUrl: null,
+        attendees: [
+          ...(employee?.email ? [{ name: employee.full_name || "Employee", email: employee.email }] : []),
+          { name: specialist.full_name, email: specialist.email },
+        ],
+        localTimes: [
+          { label: `${employeeName}'s time`, timeZone: employee?.timezone || "UTC" },
+          { label: `${specialist.full_name}'s time`, timeZone: specialist.timezone || "UTC" },
+        ],
+      });
+
+      attachments = [{
+        filename: "hollyaid-session.ics",
+        content: encodeBase64(icsContent),
+        type: "text/calendar",
+      }];
+    }
+
     // Send cancellation email to specialist
     const emailResponse = await resend.emails.send({
       from: "HollyAid <onboarding@resend.dev>",
@@ -124,7 +185,7 @@ const handler = async (req: Request): Promise<Response> => {
                 <div class="label">Employee</div>
                 <div class="value">👤 ${employeeName}</div>
               </div>
-              
+              ${lateCancellationHtml}
               <p style="margin-top: 20px;">This time slot is now available for other bookings.</p>
               
               <center>
@@ -141,10 +202,36 @@ const handler = async (req: Request): Promise<Response> => {
         </body>
         </html>
       `,
+      attachments,
     });
 
     console.log("Cancellation email sent successfully:", emailResponse);
 
+    // The employee cancelled, but the event is still in their calendar from the confirmation
+    if (employee?.email && attachments.length > 0) {
+      try {
+        await resend.emails.send({
+          from: "HollyAid <onboarding@resend.dev>",
+          to: [employee.email],
+          subject: `Your session with ${specialist.full_name} is cancelled`,
+          html: `
+            <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+              <h2 style="color: #dc2626;">Session Cancelled</h2>
+              <p>Hello ${employee.full_name || "there"},</p>
+              <p>Your session with <strong>${specialist.full_name}</strong> on ${formattedDate} has been cancelled.</p>
+              <p>Open the attached calendar update to remove it from your calendar.</p>
+              <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
+                This is an automated message from HollyAid. Please do not reply directly to this email.
+              </p>
+            </div>
+          `,
+          attachments,
+        });
+      } catch (employeeEmailError) {
+        console.error("Failed to send cancellation update to employee:", employeeEmailError);
+      }
+    }
+
     return new Response(
       JSON.stringify({ success: true, emailResponse }),
       {
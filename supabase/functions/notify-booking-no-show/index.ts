@@ -0,0 +1,255 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface NoShowRequest {
+  bookingId: string;
+}
+
+interface DetailRow {
+  label: string;
+  value: string;
+}
+
+// Shared layout for the three no-show emails (employee, specialist, company admin)
+function buildEmailHtml(greeting: string, intro: string, details: DetailRow[], ctaUrl: string): string {
+  const rows = details
+    .map(
+      (row) => `
+              <div class="detail-row">
+                <div class="label">${row.label}</div>
+                <div class="value">${row.value}</div>
+              </div>`,
+    )
+    .join("");
+
+  return `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #f59e0b, #d97706); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px; }
+            .detail-row { background: white; padding: 15px; margin: 10px 0; border-radius: 8px; border-left: 4px solid #f59e0b; }
+            .label { font-size: 12px; color: #6b7280; text-transform: uppercase; letter-spacing: 0.5px; }
+            .value { font-size: 16px; font-weight: 600; color: #111827; margin-top: 4px; }
+            .cta { display: inline-block; background: #22c55e; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 20px; }
+            .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1 style="margin: 0; font-size: 24px;">🚫 Session Missed</h1>
+              <p style="margin: 10px 0 0; opacity: 0.9;">A confirmed session was marked as a no-show</p>
+            </div>
+            <div class="content">
+              <p>${greeting}</p>
+              <p>${intro}</p>
+              ${rows}
+              <center>
+                <a href="${ctaUrl}" class="cta">
+                  View Dashboard →
+                </a>
+              </center>
+
+              <div class="footer">
+                <p>This is an automated notification from HollyAid Wellness.</p>
+              </div>
+            </div>
+          </div>
+        </body>
+        </html>
+      `;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log("notify-booking-no-show function called");
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { bookingId }: NoShowRequest = await req.json();
+    console.log("Processing no-show notification for:", bookingId);
+
+    if (!bookingId) {
+      throw new Error("bookingId is required");
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: booking, error: bookingError } = await supabase
+      .from("bookings")
+      .select(`
+        id,
+        status,
+        proposed_datetime,
+        confirmed_datetime,
+        minutes_charged,
+        specialist_fee_percent,
+        company_id,
+        specialist:specialists!bookings_specialist_id_fkey(
+          full_name,
+          email
+        ),
+        employee:profiles!bookings_employee_user_id_fkey(
+          full_name,
+          email
+        )
+      `)
+      .eq("id", bookingId)
+      .single();
+
+    if (bookingError || !booking) {
+      console.error("Error fetching booking:", bookingError);
+      throw new Error("Booking not found");
+    }
+
+    // Only bookings the specialist has actually marked as a no-show send these emails
+    if (booking.status !== "no_show") {
+      throw new Error("Booking is not marked as a no-show");
+    }
+
+    const specialist = booking.specialist as unknown as { full_name: string; email: string } | null;
+    const employee = booking.employee as unknown as { full_name: string | null; email: string } | null;
+
+    const sessionDate = booking.confirmed_datetime || booking.proposed_datetime;
+    const formattedDate = sessionDate
+      ? new Date(sessionDate).toLocaleString("en-US", {
+          weekday: "long",
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+          hour: "numeric",
+          minute: "2-digit",
+          hour12: true,
+          timeZone: "UTC",
+          timeZoneName: "short",
+        })
+      : "Not specified";
+
+    const employeeName = employee?.full_name || employee?.email || "The employee";
+    const specialistName = specialist?.full_name || "your specialist";
+
+    const sessionRows: DetailRow[] = [
+      { label: "Scheduled Date & Time", value: `📅 ${formattedDate}` },
+      { label: "Employee", value: `👤 ${employeeName}` },
+      { label: "Specialist", value: `🩺 ${specialistName}` },
+    ];
+    const chargeRow: DetailRow[] = booking.minutes_charged
+      ? [{ label: "Minutes Charged", value: `⏱️ ${booking.minutes_charged} minutes` }]
+      : [];
+
+    const sends: Promise<unknown>[] = [];
+
+    if (employee?.email) {
+      sends.push(
+        resend.emails.send({
+          from: "HollyAid <onboarding@resend.dev>",
+          to: [employee.email],
+          subject: `Missed session with ${specialistName}`,
+          html: buildEmailHtml(
+            `Hello ${employee.full_name || "there"},`,
+            `${specialistName} has marked your confirmed session as a no-show. If you believe this is a mistake, please reply in the booking conversation.`,
+            [...sessionRows, ...chargeRow],
+            "https://hollyaid.com/dashboard",
+          ),
+        }),
+      );
+    }
+
+    if (specialist?.email) {
+      const feeRow: DetailRow[] = booking.specialist_fee_percent
+        ? [{ label: "No-Show Fee", value: `💰 ${booking.specialist_fee_percent}% of the session rate` }]
+        : [];
+
+      sends.push(
+        resend.emails.send({
+          from: "HollyAid <onboarding@resend.dev>",
+          to: [specialist.email],
+          subject: `No-show recorded for ${employeeName}`,
+          html: buildEmailHtml(
+            `Hello ${specialist.full_name},`,
+            `Your session with <strong>${employeeName}</strong> has been recorded as a no-show.`,
+            [...sessionRows, ...feeRow],
+            "https://hollyaid.com/specialist-dashboard",
+          ),
+        }),
+      );
+    }
+
+    // The company admin sees the charge against their minutes
+    if (booking.company_id) {
+      const { data: company } = await supabase
+        .from("companies")
+        .select("name, admin_user_id")
+        .eq("id", booking.company_id)
+        .maybeSingle();
+
+      if (company?.admin_user_id) {
+        const { data: adminProfile } = await supabase
+          .from("profiles")
+          .select("email")
+          .eq("user_id", company.admin_user_id)
+          .maybeSingle();
+
+        if (adminProfile?.email && adminProfile.email !== employee?.email) {
+          sends.push(
+            resend.emails.send({
+              from: "HollyAid <onboarding@resend.dev>",
+              to: [adminProfile.email],
+              subject: `No-show recorded for ${employeeName} - ${company.name}`,
+              html: buildEmailHtml(
+                "Hello,",
+                `<strong>${employeeName}</strong> from ${company.name} did not attend a confirmed session with ${specialistName}.`,
+                [...sessionRows, ...chargeRow],
+                "https://hollyaid.com/company-billing",
+              ),
+            }),
+          );
+        }
+      }
+    }
+
+    const results = await Promise.allSettled(sends);
+    results
+      .filter((result): result is PromiseRejectedResult => result.status === "rejected")
+      .forEach((result) => console.error("Failed to send no-show email:", result.reason));
+
+    console.log(`No-show emails sent: ${results.filter((r) => r.status === "fulfilled").length}/${results.length}`);
+
+    return new Response(
+      JSON.stringify({ success: true, emailsSent: results.filter((r) => r.status === "fulfilled").length }),
+      {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  } catch (error) {
+    console.error("Error in notify-booking-no-show function:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      }
+    );
+  }
+};
+
+serve(handler);
@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { generateICSContent } from "../_shared/ics.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 
@@ -70,7 +72,7 @@ serve(async (req) => {
     // Fetch booking details with specialist and employee info
     const { data: booking, error: bookingError } = await supabase
       .from("bookings")
-      .select("id, proposed_datetime, specialist_id, employee_user_id")
+      .select("id, proposed_datetime, session_duration, calendar_sequence, notes, specialist_id, employee_user_id")
       .eq("id", bookingId)
       .single();
 
@@ -85,7 +87,7 @@ serve(async (req) => {
     // Fetch specialist details
     const { data: specialist, error: specialistError } = await supabase
       .from("specialists")
-      .select("email, full_name, phone_number")
+      .select("email, full_name, phone_number, specialty, timezone")
       .eq("id", booking.specialist_id)
       .single();
 
@@ -100,7 +102,7 @@ serve(async (req) => {
     // Fetch employee details
     const { data: employee, error: employeeError } = await supabase
       .from("profiles")
-      .select("email, full_name, phone_number")
+      .select("email, full_name, phone_number, timezone")
       .eq("user_id", booking.employee_user_id)
       .single();
 
@@ -130,6 +132,40 @@ serve(async (req) => {
         })
       : "Not specified";
 
+    // Updated invite for the event both parties already have; it stays tentative until the new
+    // time is accepted, at which point the confirmation email sends the final version
+    let attachments: { filename: string; content: string; type: string }[] = [];
+    if (booking.proposed_datetime) {
+      const startDate = new Date(booking.proposed_datetime);
+      const endDate = new Date(startDate.getTime() + (booking.session_duration || 60) * 60 * 1000);
+
+      const icsContent = generateICSContent({
+        method: "REQUEST",
+        uid: `booking-${bookingId}@hollyaid.com`,
+        sequence: booking.calendar_sequence,
+        status: "TENTATIVE",
+        startDate,
+        endDate,
+        summary: `HollyAid Session: ${specialist.specialty || "Wellness Consultation"} (awaiting confirmation)`,
+        description: `Wellness session with ${specialist.full_name}, rescheduled and awaiting confirmation${booking.notes ? `\n\nNotes: ${booking.notes}` : ""}`,
+        joinUrl: null,
+        attendees: [
+          { name: employee.full_name || "Employee", email: employee.email },
+          { name: specialist.full_name, email: specialist.email },
+        ],
+        localTimes: [
+          { label: `${employee.full_name || "Employee"}'s time`, timeZone: employee.timezone || "UTC" },
+          { label: `${specialist.full_name}'s time`, timeZone: specialist.timezone || "UTC" },
+        ],
+      });
+
+      attachments = [{
+        filename: "hollyaid-session.ics",
+        content: encodeBase64(icsContent),
+        type: "text/calendar",
+      }];
+    }
+
     // Send email to specialist (default behavior - employee reschedules)
     if (!notifyEmployee) {
       await resend.emails.send({
@@ -155,6 +191,7 @@ serve(async (req) => {
             </p>
           </div>
         `,
+        attachments,
       });
 
       // Send WhatsApp to specialist
@@ -164,6 +201,35 @@ serve(async (req) => {
       }
 
       console.log("Reschedule notification sent to specialist:", specialist.email);
+
+      // Move the event in the employee's own calendar too
+      if (attachments.length > 0) {
+        await resend.emails.send({
+          from: "HollyAid <onboarding@resend.dev>",
+          to: [employee.email],
+          subject: `Reschedule Request Sent to ${specialist.full_name}`,
+          html: `
+            <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+              <h2 style="color: #16a34a;">Reschedule Requested</h2>
+              <p>Hello ${employee.full_name || 'there'},</p>
+              <p>Your request to move your session with <strong>${specialist.full_name}</strong> has been sent.</p>
+              
+              <div style="background-color: #f3f4f6; padding: 16px; border-radius: 8px; margin: 20px 0;">
+                <h3 style="margin-top: 0; color: #374151;">New Proposed Time</h3>
+                <p style="margin: 8px 0;"><strong>Date:</strong> ${proposedDate}</p>
+                <p style="margin: 8px 0;"><strong>Time:</strong> ${proposedTime}</p>
+              </div>
+              
+              <p>The attached calendar update marks the session as tentative until ${specialist.full_name} confirms the new time.</p>
+              
+              <p style="color: #6b7280; font-size: 14px; margin-top: 30px;">
+                This is an automated message from HollyAid. Please do not reply directly to this email.
+              </p>
+            </div>
+          `,
+          attachments,
+        });
+      }
     } else {
       // Notify employee (specialist initiated reschedule)
       await resend.emails.send({
@@ -189,6 +255,7 @@ serve(async (req) => {
             </p>
           </div>
         `,
+        attachments,
       });
 
       // Send WhatsApp to employee
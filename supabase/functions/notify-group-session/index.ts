@@ -0,0 +1,228 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+interface GroupSessionNotification {
+  sessionId: string;
+  event: "promoted" | "cancelled";
+  attendeeId?: string;
+}
+
+interface Attendee {
+  id: string;
+  status: string;
+  employee_user_id: string;
+}
+
+// Shared layout for group session emails
+function buildEmailHtml(heading: string, greeting: string, intro: string, rows: { label: string; value: string }[]): string {
+  const details = rows
+    .map(
+      (row) => `
+              <div class="detail-row">
+                <div class="label">${row.label}</div>
+                <div class="value">${row.value}</div>
+              </div>`,
+    )
+    .join("");
+
+  return `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #22c55e, #16a34a); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px; }
+            .detail-row { background: white; padding: 15px; margin: 10px 0; border-radius: 8px; border-left: 4px solid #22c55e; }
+            .label { font-size: 12px; color: #6b7280; text-transform: uppercase; letter-spacing: 0.5px; }
+            .value { font-size: 16px; font-weight: 600; color: #111827; margin-top: 4px; }
+            .cta { display: inline-block; background: #22c55e; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 20px; }
+            .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1 style="margin: 0; font-size: 24px;">${heading}</h1>
+            </div>
+            <div class="content">
+              <p>${greeting}</p>
+              <p>${intro}</p>
+              ${details}
+              <center>
+                <a href="https://hollyaid.com/dashboard" class="cta">
+                  View Dashboard →
+                </a>
+              </center>
+
+              <div class="footer">
+                <p>This is an automated notification from HollyAid Wellness.</p>
+              </div>
+            </div>
+          </div>
+        </body>
+        </html>
+      `;
+}
+
+const handler = async (req: Request): Promise<Response> => {
+  console.log("notify-group-session function called");
+
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { sessionId, event, attendeeId }: GroupSessionNotification = await req.json();
+    console.log("Processing group session notification:", { sessionId, event, attendeeId });
+
+    if (!sessionId || !event) {
+      throw new Error("sessionId and event are required");
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: session, error: sessionError } = await supabase
+      .from("group_sessions")
+      .select(`
+        id,
+        title,
+        start_time,
+        duration_minutes,
+        status,
+        specialist:specialists!group_sessions_specialist_id_fkey(
+          full_name
+        )
+      `)
+      .eq("id", sessionId)
+      .single();
+
+    if (sessionError || !session) {
+      console.error("Error fetching group session:", sessionError);
+      throw new Error("Group session not found");
+    }
+
+    const specialist = session.specialist as unknown as { full_name: string } | null;
+    const specialistName = specialist?.full_name || "your specialist";
+
+    // Each recipient's own timezone, falling back to UTC like the other booking emails
+    const formatStart = (timeZone: string | null) =>
+      new Date(session.start_time).toLocaleString("en-US", {
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+        hour12: true,
+        timeZone: timeZone || "UTC",
+        timeZoneName: "short",
+      });
+
+    // Only rows in the state the event describes are emailed, so a stale or repeated call is harmless
+    let attendees: Attendee[] = [];
+    if (event === "promoted") {
+      if (!attendeeId) throw new Error("attendeeId is required for promotions");
+
+      const { data } = await supabase
+        .from("group_session_attendees")
+        .select("id, status, employee_user_id")
+        .eq("id", attendeeId)
+        .eq("session_id", sessionId)
+        .eq("status", "registered")
+        .maybeSingle();
+      attendees = data ? [data] : [];
+    } else {
+      if (session.status !== "cancelled") {
+        throw new Error("Group session is not cancelled");
+      }
+
+      const { data } = await supabase
+        .from("group_session_attendees")
+        .select("id, status, employee_user_id")
+        .eq("session_id", sessionId)
+        .in("status", ["registered", "waitlisted"]);
+      attendees = data ?? [];
+    }
+
+    if (attendees.length === 0) {
+      return new Response(JSON.stringify({ success: true, emailsSent: 0 }), {
+        status: 200,
+        headers: { "Content-Type": "application/json", ...corsHeaders },
+      });
+    }
+
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("user_id, full_name, email, timezone")
+      .in("user_id", attendees.map((a) => a.employee_user_id));
+
+    const sends = (profiles ?? [])
+      .filter((profile) => profile.email)
+      .map((profile) => {
+        const rows = [
+          { label: "Session", value: `👥 ${session.title}` },
+          { label: "Date & Time", value: `📅 ${formatStart(profile.timezone)}` },
+          { label: "Specialist", value: `🩺 ${specialistName}` },
+        ];
+
+        return event === "promoted"
+          ? resend.emails.send({
+              from: "HollyAid <onboarding@resend.dev>",
+              to: [profile.email],
+              subject: `You're in: ${session.title}`,
+              html: buildEmailHtml(
+                "🎉 A Spot Opened Up",
+                `Hello ${profile.full_name || "there"},`,
+                `A seat became free in <strong>${session.title}</strong> with ${specialistName}, and you were next on the waitlist. You're now registered.`,
+                [...rows, { label: "Duration", value: `⏱️ ${session.duration_minutes} minutes` }],
+              ),
+            })
+          : resend.emails.send({
+              from: "HollyAid <onboarding@resend.dev>",
+              to: [profile.email],
+              subject: `Cancelled: ${session.title}`,
+              html: buildEmailHtml(
+                "❌ Group Session Cancelled",
+                `Hello ${profile.full_name || "there"},`,
+                `${specialistName} has cancelled <strong>${session.title}</strong>. No minutes were charged to your company.`,
+                rows,
+              ),
+            });
+      });
+
+    const results = await Promise.allSettled(sends);
+    results
+      .filter((result): result is PromiseRejectedResult => result.status === "rejected")
+      .forEach((result) => console.error("Failed to send group session email:", result.reason));
+
+    const emailsSent = results.filter((r) => r.status === "fulfilled").length;
+    console.log(`Group session emails sent: ${emailsSent}/${results.length}`);
+
+    return new Response(JSON.stringify({ success: true, emailsSent }), {
+      status: 200,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  } catch (error) {
+    console.error("Error in notify-group-session function:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { "Content-Type": "application/json", ...corsHeaders },
+    });
+  }
+};
+
+serve(handler);
@@ -0,0 +1,257 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface DunningReminder {
+  company_id: string;
+  company_name: string;
+  admin_email: string | null;
+  grace_period_ends_at: string;
+  reminder_number: number;
+}
+
+interface Suspension {
+  company_id: string;
+  company_name: string;
+  admin_email: string | null;
+  booking_id: string | null;
+}
+
+const formatInTimeZone = (date: string, timeZone: string) =>
+  new Date(date).toLocaleString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+    timeZone,
+    timeZoneName: "short",
+  });
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", timeZone: "UTC" });
+
+const emailLayout = (color: string, title: string, subtitle: string, body: string) => `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <style>
+      body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+      .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+      .header { background: ${color}; color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
+      .content { background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px; }
+      .detail-row { background: white; padding: 15px; margin: 10px 0; border-radius: 8px; border-left: 4px solid #f59e0b; }
+      .label { font-size: 12px; color: #6b7280; text-transform: uppercase; letter-spacing: 0.5px; }
+      .value { font-size: 16px; font-weight: 600; color: #111827; margin-top: 4px; }
+      .cta { display: inline-block; background: #22c55e; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 20px; }
+      .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+    </style>
+  </head>
+  <body>
+    <div class="container">
+      <div class="header">
+        <h1 style="margin: 0; font-size: 24px;">${title}</h1>
+        <p style="margin: 10px 0 0; opacity: 0.9;">${subtitle}</p>
+      </div>
+      <div class="content">
+        ${body}
+        <div class="footer">
+          <p>This is an automated notification from HollyAid Wellness.</p>
+        </div>
+      </div>
+    </div>
+  </body>
+  </html>
+`;
+
+// Sends payment reminders to past-due companies and suspends those whose grace period is over.
+// Runs after the Stripe webhook records a failed payment, so the first reminder goes out straight
+// away, and hourly from pg_cron, which sends the later reminders and carries out suspensions. Both
+// call with the service-role key; any other caller is turned away.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 401,
+    });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    serviceRoleKey,
+    { auth: { persistSession: false } },
+  );
+
+  try {
+    const { data: reminderRows, error: remindersError } = await supabaseClient.rpc("claim_dunning_reminders");
+    if (remindersError) throw remindersError;
+
+    const reminders = (reminderRows ?? []) as DunningReminder[];
+    let remindersSent = 0;
+
+    for (const reminder of reminders) {
+      if (!reminder.admin_email) {
+        console.error("No admin email for past-due company:", reminder.company_id);
+        continue;
+      }
+
+      try {
+        await resend.emails.send({
+          from: "HollyAid <onboarding@resend.dev>",
+          to: [reminder.admin_email],
+          subject: reminder.reminder_number === 1
+            ? `Payment failed for ${reminder.company_name}`
+            : `Reminder: update your payment details for ${reminder.company_name}`,
+          html: emailLayout(
+            "linear-gradient(135deg, #f59e0b, #d97706)",
+            "⚠️ Payment Failed",
+            "Your HollyAid subscription payment didn't go through",
+            `
+              <p>Hello,</p>
+              <p>We couldn't collect the latest subscription payment for <strong>${reminder.company_name}</strong>.</p>
+              <p>Sessions that are already confirmed will go ahead, but your team can't request new sessions until the payment is settled.</p>
+
+              <div class="detail-row">
+                <div class="label">Account Suspended On</div>
+                <div class="value">📅 ${formatDate(reminder.grace_period_ends_at)}</div>
+              </div>
+
+              <p style="margin-top: 20px;">If the payment is still outstanding by then, your account will be suspended and any session requests that aren't confirmed yet cancelled.</p>
+
+              <center>
+                <a href="https://hollyaid.com/dashboard" class="cta">
+                  Update Payment Details →
+                </a>
+              </center>
+            `,
+          ),
+        });
+        remindersSent++;
+      } catch (emailError) {
+        console.error(`Failed to send payment reminder to company ${reminder.company_id}:`, emailError);
+      }
+    }
+
+    const { data: suspensionRows, error: suspendError } = await supabaseClient.rpc("suspend_overdue_companies");
+    if (suspendError) throw suspendError;
+
+    const suspensions = (suspensionRows ?? []) as Suspension[];
+    const suspendedCompanies = new Map(suspensions.map((row) => [row.company_id, row]));
+    const cancelledBookingIds = suspensions.map((row) => row.booking_id).filter(Boolean) as string[];
+
+    for (const company of suspendedCompanies.values()) {
+      console.log(`process-dunning: suspended company ${company.company_id}`);
+      if (!company.admin_email) continue;
+
+      try {
+        await resend.emails.send({
+          from: "HollyAid <onboarding@resend.dev>",
+          to: [company.admin_email],
+          subject: `${company.company_name} has been suspended`,
+          html: emailLayout(
+            "linear-gradient(135deg, #ef4444, #dc2626)",
+            "Account Suspended",
+            "Your HollyAid subscription payment is still outstanding",
+            `
+              <p>Hello,</p>
+              <p>The grace period for the failed payment on <strong>${company.company_name}</strong> has ended, so the account has been suspended.</p>
+              <p>Session requests that weren't confirmed yet have been cancelled; confirmed sessions will still go ahead. Your team's access is restored as soon as the payment goes through.</p>
+
+              <center>
+                <a href="https://hollyaid.com/dashboard" class="cta">
+                  Update Payment Details →
+                </a>
+              </center>
+            `,
+          ),
+        });
+      } catch (emailError) {
+        console.error(`Failed to send suspension notice to company ${company.company_id}:`, emailError);
+      }
+    }
+
+    let specialistsNotified = 0;
+
+    if (cancelledBookingIds.length > 0) {
+      const { data: bookings, error: bookingsError } = await supabaseClient
+        .from("bookings")
+        .select("id, company_id, confirmed_datetime, proposed_datetime, specialists(full_name, email, timezone)")
+        .in("id", cancelledBookingIds);
+      if (bookingsError) throw bookingsError;
+
+      for (const booking of bookings ?? []) {
+        const specialist = booking.specialists as { full_name: string; email: string; timezone: string | null } | null;
+        const sessionStart = booking.confirmed_datetime || booking.proposed_datetime;
+        if (!specialist?.email || !sessionStart) continue;
+
+        try {
+          await resend.emails.send({
+            from: "HollyAid <onboarding@resend.dev>",
+            to: [specialist.email],
+            subject: "A session request has been cancelled",
+            html: emailLayout(
+              "linear-gradient(135deg, #6b7280, #4b5563)",
+              "Session Request Cancelled",
+              "The client's company account has been suspended",
+              `
+                <p>Hello ${specialist.full_name},</p>
+                <p>The company this session was booked through, <strong>${suspendedCompanies.get(booking.company_id!)?.company_name ?? "your client's company"}</strong>, has been suspended for non-payment, so this session request has been cancelled and the time is free again.</p>
+
+                <div class="detail-row">
+                  <div class="label">Cancelled Request</div>
+                  <div class="value">📅 ${formatInTimeZone(sessionStart, specialist.timezone || "UTC")}</div>
+                </div>
+              `,
+            ),
+          });
+          specialistsNotified++;
+        } catch (emailError) {
+          // One failed email shouldn't stop the rest
+          console.error(`Failed to notify specialist of cancelled booking ${booking.id}:`, emailError);
+        }
+      }
+
+      // The freed slots go to anyone waiting for them
+      supabaseClient.functions.invoke("process-waitlist")
+        .catch((err) => console.error("Failed to run process-waitlist:", err));
+    }
+
+    console.log(
+      `process-dunning: ${remindersSent} reminder(s), ${suspendedCompanies.size} suspension(s), ${specialistsNotified} specialist notice(s)`,
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        reminders: remindersSent,
+        suspended: suspendedCompanies.size,
+        specialistsNotified,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      },
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("process-dunning error:", errorMessage);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,188 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface TrialWarning {
+  company_id: string;
+  company_name: string;
+  admin_email: string | null;
+  trial_ends_at: string;
+}
+
+interface ExpiredTrial {
+  company_id: string;
+  company_name: string;
+  admin_email: string | null;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", timeZone: "UTC" });
+
+const emailLayout = (color: string, title: string, subtitle: string, body: string) => `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <style>
+      body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+      .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+      .header { background: ${color}; color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
+      .content { background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px; }
+      .detail-row { background: white; padding: 15px; margin: 10px 0; border-radius: 8px; border-left: 4px solid #3b82f6; }
+      .label { font-size: 12px; color: #6b7280; text-transform: uppercase; letter-spacing: 0.5px; }
+      .value { font-size: 16px; font-weight: 600; color: #111827; margin-top: 4px; }
+      .cta { display: inline-block; background: #22c55e; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 20px; }
+      .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+    </style>
+  </head>
+  <body>
+    <div class="container">
+      <div class="header">
+        <h1 style="margin: 0; font-size: 24px;">${title}</h1>
+        <p style="margin: 10px 0 0; opacity: 0.9;">${subtitle}</p>
+      </div>
+      <div class="content">
+        ${body}
+        <div class="footer">
+          <p>This is an automated notification from HollyAid Wellness.</p>
+        </div>
+      </div>
+    </div>
+  </body>
+  </html>
+`;
+
+// Warns company admins whose free trial is about to end and moves companies whose trial ended
+// without a plan back to 'unpaid'. Runs hourly from pg_cron, which calls with the service-role
+// key; any other caller is turned away.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 401,
+    });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    serviceRoleKey,
+    { auth: { persistSession: false } },
+  );
+
+  try {
+    const { data: warningRows, error: warningsError } = await supabaseClient.rpc("claim_trial_warnings");
+    if (warningsError) throw warningsError;
+
+    const warnings = (warningRows ?? []) as TrialWarning[];
+    let warningsSent = 0;
+
+    for (const warning of warnings) {
+      if (!warning.admin_email) {
+        console.error("No admin email for trial company:", warning.company_id);
+        continue;
+      }
+
+      try {
+        await resend.emails.send({
+          from: "HollyAid <onboarding@resend.dev>",
+          to: [warning.admin_email],
+          subject: `Your HollyAid trial for ${warning.company_name} ends soon`,
+          html: emailLayout(
+            "linear-gradient(135deg, #3b82f6, #2563eb)",
+            "⏳ Your Trial Ends Soon",
+            "Pick a plan to keep your team's access",
+            `
+              <p>Hello,</p>
+              <p>The free HollyAid trial for <strong>${warning.company_name}</strong> is nearly over.</p>
+
+              <div class="detail-row">
+                <div class="label">Trial Ends On</div>
+                <div class="value">📅 ${formatDate(warning.trial_ends_at)}</div>
+              </div>
+
+              <p style="margin-top: 20px;">Choose a plan before then and your team can keep booking sessions without interruption. Otherwise new bookings stop when the trial ends.</p>
+
+              <center>
+                <a href="https://hollyaid.com/dashboard" class="cta">
+                  Choose a Plan →
+                </a>
+              </center>
+            `,
+          ),
+        });
+        warningsSent++;
+      } catch (emailError) {
+        console.error(`Failed to send trial warning to company ${warning.company_id}:`, emailError);
+      }
+    }
+
+    const { data: expiredRows, error: expireError } = await supabaseClient.rpc("expire_trials");
+    if (expireError) throw expireError;
+
+    const expired = (expiredRows ?? []) as ExpiredTrial[];
+
+    for (const company of expired) {
+      console.log(`process-trials: trial ended for company ${company.company_id}`);
+      if (!company.admin_email) continue;
+
+      try {
+        await resend.emails.send({
+          from: "HollyAid <onboarding@resend.dev>",
+          to: [company.admin_email],
+          subject: `Your HollyAid trial for ${company.company_name} has ended`,
+          html: emailLayout(
+            "linear-gradient(135deg, #6b7280, #4b5563)",
+            "Your Trial Has Ended",
+            "Choose a plan to continue",
+            `
+              <p>Hello,</p>
+              <p>The free trial for <strong>${company.company_name}</strong> has ended, so your team can no longer book new sessions. Sessions that were already confirmed will still go ahead.</p>
+              <p>Sign in and choose a plan to restore access straight away.</p>
+
+              <center>
+                <a href="https://hollyaid.com/auth" class="cta">
+                  Choose a Plan →
+                </a>
+              </center>
+            `,
+          ),
+        });
+      } catch (emailError) {
+        console.error(`Failed to send trial ended notice to company ${company.company_id}:`, emailError);
+      }
+    }
+
+    console.log(`process-trials: ${warningsSent} warning(s), ${expired.length} trial(s) ended`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        warnings: warningsSent,
+        expired: expired.length,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      },
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("process-trials error:", errorMessage);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
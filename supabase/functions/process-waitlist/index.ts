@@ -0,0 +1,176 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// How long the first person in line has the slot to themselves
+const CLAIM_WINDOW_MINUTES = 120;
+
+interface WaitlistOffer {
+  id: string;
+  entry_id: string;
+  slot_start: string;
+  expires_at: string;
+}
+
+const formatInTimeZone = (date: string, timeZone: string) =>
+  new Date(date).toLocaleString("en-US", {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    hour12: true,
+    timeZone,
+    timeZoneName: "short",
+  });
+
+// Runs after anything that can free a slot (cancellations, declines, availability changes) and on a
+// schedule (pg_cron, every five minutes), which is also what moves an unclaimed slot on to the
+// next person once the hold lapses.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    serviceRoleKey,
+    { auth: { persistSession: false } },
+  );
+
+  // The schedule and other functions call with the service-role key; the app calls as the
+  // signed-in user whose change freed the slot
+  const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+  if (!token || (token !== serviceRoleKey && !(await supabaseClient.auth.getUser(token)).data.user)) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 401,
+    });
+  }
+
+  try {
+    const { data: offers, error: advanceError } = await supabaseClient.rpc("advance_waitlist", {
+      _claim_window: `${CLAIM_WINDOW_MINUTES} minutes`,
+    });
+
+    if (advanceError) throw advanceError;
+
+    const newOffers = (offers ?? []) as WaitlistOffer[];
+    console.log(`process-waitlist: ${newOffers.length} new offer(s)`);
+
+    let notified = 0;
+
+    for (const offer of newOffers) {
+      try {
+        const { data: entry, error: entryError } = await supabaseClient
+          .from("waitlist_entries")
+          .select("employee_user_id, specialist_id, timezone")
+          .eq("id", offer.entry_id)
+          .single();
+
+        if (entryError || !entry) throw entryError ?? new Error("Waitlist entry not found");
+
+        const [{ data: employee }, { data: specialist }] = await Promise.all([
+          supabaseClient.from("profiles").select("full_name, email").eq("user_id", entry.employee_user_id).maybeSingle(),
+          supabaseClient.from("specialists").select("full_name").eq("id", entry.specialist_id).maybeSingle(),
+        ]);
+
+        if (!employee?.email) {
+          console.error("No email for waitlisted employee:", entry.employee_user_id);
+          continue;
+        }
+
+        const specialistName = specialist?.full_name || "Your specialist";
+        const bookUrl = `https://hollyaid.com/dashboard?book=${entry.specialist_id}`;
+
+        await resend.emails.send({
+          from: "HollyAid <onboarding@resend.dev>",
+          to: [employee.email],
+          subject: `A slot with ${specialistName} just opened up`,
+          html: `
+            <!DOCTYPE html>
+            <html>
+            <head>
+              <style>
+                body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+                .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+                .header { background: linear-gradient(135deg, #22c55e, #16a34a); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
+                .content { background: #f9fafb; padding: 30px; border-radius: 0 0 12px 12px; }
+                .detail-row { background: white; padding: 15px; margin: 10px 0; border-radius: 8px; border-left: 4px solid #22c55e; }
+                .label { font-size: 12px; color: #6b7280; text-transform: uppercase; letter-spacing: 0.5px; }
+                .value { font-size: 16px; font-weight: 600; color: #111827; margin-top: 4px; }
+                .cta { display: inline-block; background: #22c55e; color: white; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: 600; margin-top: 20px; }
+                .footer { text-align: center; margin-top: 30px; color: #6b7280; font-size: 14px; }
+              </style>
+            </head>
+            <body>
+              <div class="container">
+                <div class="header">
+                  <h1 style="margin: 0; font-size: 24px;">🎉 You're Next in Line</h1>
+                  <p style="margin: 10px 0 0; opacity: 0.9;">A session matching your waitlist request is available</p>
+                </div>
+                <div class="content">
+                  <p>Hello ${employee.full_name || "there"},</p>
+                  <p>A slot with <strong>${specialistName}</strong> has opened up and we're holding it for you.</p>
+
+                  <div class="detail-row">
+                    <div class="label">Session Time</div>
+                    <div class="value">📅 ${formatInTimeZone(offer.slot_start, entry.timezone)}</div>
+                  </div>
+
+                  <div class="detail-row">
+                    <div class="label">Held For You Until</div>
+                    <div class="value">⏳ ${formatInTimeZone(offer.expires_at, entry.timezone)}</div>
+                  </div>
+
+                  <p style="margin-top: 20px;">After that, the slot is offered to the next person on the waitlist.</p>
+
+                  <center>
+                    <a href="${bookUrl}" class="cta">
+                      Claim This Slot →
+                    </a>
+                  </center>
+
+                  <div class="footer">
+                    <p>This is an automated notification from HollyAid Wellness.</p>
+                  </div>
+                </div>
+              </div>
+            </body>
+            </html>
+          `,
+        });
+
+        await supabaseClient
+          .from("waitlist_offers")
+          .update({ notified_at: new Date().toISOString() })
+          .eq("id", offer.id);
+
+        notified++;
+      } catch (offerError) {
+        // One failed email shouldn't stop the rest of the queue
+        console.error(`Failed to notify waitlist offer ${offer.id}:`, offerError);
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, offers: newOffers.length, notified }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("process-waitlist error:", errorMessage);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
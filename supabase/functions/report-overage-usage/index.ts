@@ -0,0 +1,198 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+// Event name of the Stripe meter every overage price is attached to
+const METER_EVENT_NAME = Deno.env.get("STRIPE_OVERAGE_METER_EVENT") ?? "overage_minutes";
+
+interface ReportOverageRequest {
+  companyId?: string;
+}
+
+interface OverageCompany {
+  id: string;
+  plan_type: string | null;
+  billing_currency: string;
+  stripe_customer_id: string | null;
+  stripe_subscription_id: string | null;
+  overage_enabled: boolean;
+  is_test_account: boolean | null;
+}
+
+// Sends unreported overage charges to Stripe as meter events. Runs after complete-booking, when a
+// company admin turns overage on (so the metered price is on the subscription before any usage)
+// and every 15 minutes from pg_cron, which retries anything Stripe rejected earlier. All of these
+// call with the service-role key; nobody else can trigger a report.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+  if (!serviceRoleKey || token !== serviceRoleKey) {
+    return new Response(JSON.stringify({ error: "Unauthorized" }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 401,
+    });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    serviceRoleKey,
+    { auth: { persistSession: false } },
+  );
+
+  try {
+    const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+    if (!stripeKey) throw new Error("STRIPE_SECRET_KEY is not set");
+    const stripe = new Stripe(stripeKey, { apiVersion: "2025-08-27.basil" });
+
+    let companyId: string | undefined;
+    try {
+      ({ companyId } = (await req.json()) as ReportOverageRequest);
+    } catch {
+      // Scheduled runs have no body and report for every company
+    }
+
+    let chargesQuery = supabaseClient
+      .from("overage_charges")
+      .select("id, company_id, minutes, created_at")
+      .is("reported_at", null)
+      .order("created_at");
+    if (companyId) chargesQuery = chargesQuery.eq("company_id", companyId);
+
+    const { data: charges, error: chargesError } = await chargesQuery;
+    if (chargesError) throw chargesError;
+
+    const companyIds = [...new Set([...(companyId ? [companyId] : []), ...charges.map((charge) => charge.company_id)])];
+    if (companyIds.length === 0) {
+      return new Response(JSON.stringify({ reported: 0, failed: 0 }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    const { data: companies, error: companiesError } = await supabaseClient
+      .from("companies")
+      .select("id, plan_type, billing_currency, stripe_customer_id, stripe_subscription_id, overage_enabled, is_test_account")
+      .in("id", companyIds);
+    if (companiesError) throw companiesError;
+
+    const { data: versionId, error: versionError } = await supabaseClient.rpc("pricing_version_at");
+    if (versionError) throw versionError;
+
+    const { data: prices, error: pricesError } = await supabaseClient
+      .from("pricing_plan_prices")
+      .select("plan_type, currency, stripe_overage_price_id")
+      .eq("version_id", versionId);
+    if (pricesError) throw pricesError;
+
+    // The subscription carries one metered item; after a plan or price change it is moved to the new price
+    const ensureOverageItem = async (company: OverageCompany, priceId: string) => {
+      const subscription = await stripe.subscriptions.retrieve(company.stripe_subscription_id!);
+      if (subscription.items.data.some((item) => item.price.id === priceId)) return;
+
+      const metered = subscription.items.data.find((item) => item.price.recurring?.usage_type === "metered");
+      if (metered) {
+        await stripe.subscriptionItems.update(metered.id, { price: priceId });
+      } else {
+        await stripe.subscriptionItems.create({ subscription: subscription.id, price: priceId });
+      }
+      console.log(`report-overage-usage: overage price ${priceId} on subscription ${subscription.id}`);
+    };
+
+    const markFailed = async (ids: string[], message: string) => {
+      if (ids.length === 0) return;
+      await supabaseClient.from("overage_charges").update({ report_error: message }).in("id", ids);
+    };
+
+    let reported = 0;
+    let failed = 0;
+
+    for (const company of (companies ?? []) as OverageCompany[]) {
+      if (company.is_test_account) continue;
+      const companyCharges = charges.filter((charge) => charge.company_id === company.id);
+
+      // Charges stay unreported while overage is off and go to Stripe if it is turned back on
+      if (!company.overage_enabled) {
+        console.warn(`report-overage-usage: skipping company ${company.id}: overage billing is off`);
+        await markFailed(companyCharges.map((charge) => charge.id), "Overage billing is off for this company");
+        failed += companyCharges.length;
+        continue;
+      }
+
+      const priceId = prices.find(
+        (price) => price.plan_type === (company.plan_type || "starter") && price.currency === company.billing_currency,
+      )?.stripe_overage_price_id;
+
+      if (!company.stripe_customer_id || !company.stripe_subscription_id || !priceId) {
+        const reason = !priceId
+          ? `No overage price for ${company.plan_type} in ${company.billing_currency}`
+          : "Company has no Stripe subscription";
+        console.warn(`report-overage-usage: skipping company ${company.id}: ${reason}`);
+        await markFailed(companyCharges.map((charge) => charge.id), reason);
+        failed += companyCharges.length;
+        continue;
+      }
+
+      try {
+        await ensureOverageItem(company, priceId);
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        console.error(`report-overage-usage: could not add the overage price for company ${company.id}:`, errorMessage);
+        await markFailed(companyCharges.map((charge) => charge.id), errorMessage);
+        failed += companyCharges.length;
+        continue;
+      }
+
+      for (const charge of companyCharges) {
+        try {
+          // The charge id makes a retried report a no-op on Stripe's side
+          await stripe.billing.meterEvents.create({
+            event_name: METER_EVENT_NAME,
+            identifier: charge.id,
+            timestamp: Math.floor(new Date(charge.created_at).getTime() / 1000),
+            payload: {
+              stripe_customer_id: company.stripe_customer_id,
+              value: String(charge.minutes),
+            },
+          });
+
+          const { error: updateError } = await supabaseClient
+            .from("overage_charges")
+            .update({ reported_at: new Date().toISOString(), report_error: null })
+            .eq("id", charge.id);
+          if (updateError) throw updateError;
+
+          reported++;
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          console.error(`report-overage-usage: failed to report charge ${charge.id}:`, errorMessage);
+          await markFailed([charge.id], errorMessage);
+          failed++;
+        }
+      }
+    }
+
+    console.log(`report-overage-usage: ${reported} reported, ${failed} failed`);
+
+    return new Response(JSON.stringify({ reported, failed }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("report-overage-usage error:", errorMessage);
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
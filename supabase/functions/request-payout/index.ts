@@ -9,10 +9,6 @@ const corsHeaders = {
 
 interface PayoutRequest {
   payoutRequestId: string;
-  specialistId: string;
-  amount: number;
-  periodStart: string;
-  periodEnd: string;
 }
 
 serve(async (req) => {
@@ -27,21 +23,46 @@ serve(async (req) => {
   );
 
   try {
-    const { payoutRequestId, specialistId, amount, periodStart, periodEnd }: PayoutRequest = await req.json();
+    const { payoutRequestId }: PayoutRequest = await req.json();
 
-    console.log("Processing payout request:", { payoutRequestId, specialistId, amount });
+    console.log("Processing payout request:", { payoutRequestId });
+
+    // Amount, currency and period were worked out by request_specialist_payout from the
+    // pay stored on the bookings, so the email repeats the request rather than the caller
+    const { data: payoutRequest, error: payoutError } = await supabaseClient
+      .from("payout_requests")
+      .select("specialist_id, amount, currency, period_start, period_end")
+      .eq("id", payoutRequestId)
+      .maybeSingle();
+
+    if (payoutError) throw payoutError;
+    if (!payoutRequest) throw new Error("Payout request not found");
+
+    const { amount, period_start: periodStart, period_end: periodEnd } = payoutRequest;
 
     // Get specialist details
     const { data: specialist, error: specialistError } = await supabaseClient
       .from("specialists")
       .select("full_name, email, rate_tier")
-      .eq("id", specialistId)
+      .eq("id", payoutRequest.specialist_id)
       .single();
 
     if (specialistError || !specialist) {
       throw new Error("Specialist not found");
     }
 
+    const { count: sessionCount, error: countError } = await supabaseClient
+      .from("payout_request_bookings")
+      .select("booking_id", { count: "exact", head: true })
+      .eq("payout_request_id", payoutRequestId);
+
+    if (countError) throw countError;
+
+    const formattedAmount = new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: payoutRequest.currency.toUpperCase(),
+    }).format(amount);
+
     // Format dates for email
     const startDate = new Date(periodStart).toLocaleDateString("en-US", {
       month: "long",
@@ -68,7 +89,7 @@ serve(async (req) => {
     const { error: emailError } = await resend.emails.send({
       from: "HollyAid <noreply@hollyaid.com>",
       to: [adminEmail],
-      subject: `💰 Payout Request: ${specialist.full_name} - $${amount.toFixed(2)}`,
+      subject: `💰 Payout Request: ${specialist.full_name} - ${formattedAmount}`,
       html: `
         <!DOCTYPE html>
         <html>
@@ -96,7 +117,7 @@ serve(async (req) => {
             <div class="content">
               <p>A specialist has requested a payout:</p>
               
-              <div class="amount">$${amount.toFixed(2)}</div>
+              <div class="amount">${formattedAmount}</div>
               
               <div class="details">
                 <div class="detail-row">
@@ -115,6 +136,10 @@ serve(async (req) => {
                   <span class="label">Period</span>
                   <span class="value">${startDate} - ${endDate}</span>
                 </div>
+                <div class="detail-row">
+                  <span class="label">Sessions</span>
+                  <span class="value">${sessionCount ?? 0}</span>
+                </div>
                 <div class="detail-row">
                   <span class="label">Request ID</span>
                   <span class="value" style="font-family: monospace; font-size: 12px;">${payoutRequestId}</span>
@@ -138,6 +163,52 @@ serve(async (req) => {
       throw new Error(`Failed to send notification email: ${emailError.message}`);
     }
 
+    // The specialist's confirmation is the first of the emails sent at each step of the payout;
+    // update-payout sends the rest
+    const { error: confirmationError } = await resend.emails.send({
+      from: "HollyAid <noreply@hollyaid.com>",
+      to: [specialist.email],
+      subject: `We've received your payout request for ${formattedAmount}`,
+      html: `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: linear-gradient(135deg, #0d9488, #14b8a6); color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
+            .content { background: #f8fafc; padding: 30px; border: 1px solid #e2e8f0; border-top: none; border-radius: 0 0 12px 12px; }
+            .amount { font-size: 36px; font-weight: bold; color: #0d9488; margin: 20px 0; }
+            .footer { text-align: center; margin-top: 30px; color: #94a3b8; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1 style="margin: 0;">Payout Requested</h1>
+            </div>
+            <div class="content">
+              <p>Hi ${specialist.full_name},</p>
+              <p>We've received your payout request for ${sessionCount ?? 0} session${sessionCount === 1 ? "" : "s"} from ${startDate} to ${endDate}:</p>
+
+              <div class="amount">${formattedAmount}</div>
+
+              <p>We'll email you again once it has been reviewed, with the date you can expect the payment.</p>
+
+              <div class="footer">
+                <p>This is an automated notification from HollyAid</p>
+              </div>
+            </div>
+          </div>
+        </body>
+        </html>
+      `,
+    });
+
+    if (confirmationError) {
+      console.error("Error sending payout confirmation to specialist:", confirmationError);
+    }
+
     console.log("Payout request notification sent successfully");
 
     return new Response(
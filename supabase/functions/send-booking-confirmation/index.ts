@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { generateICSContent } from "../_shared/ics.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -45,58 +47,6 @@ async function sendWhatsAppNotification(to: string, message: string) {
   }
 }
 
-// Generate ICS calendar file content
-function generateICSContent(options: {
-  startDate: Date;
-  endDate: Date;
-  summary: string;
-  description: string;
-  location: string;
-  organizerEmail: string;
-  organizerName: string;
-  attendeeEmail: string;
-  attendeeName: string;
-  uid: string;
-}): string {
-  const formatICSDate = (date: Date): string => {
-    return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
-  };
-
-  const escapeICSText = (text: string): string => {
-    return text.replace(/[\\;,\n]/g, (match) => {
-      if (match === '\n') return '\\n';
-      return '\\' + match;
-    });
-  };
-
-  const now = new Date();
-  
-  return `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//HollyAid//Booking System//EN
-CALSCALE:GREGORIAN
-METHOD:REQUEST
-BEGIN:VEVENT
-UID:${options.uid}
-DTSTAMP:${formatICSDate(now)}
-DTSTART:${formatICSDate(options.startDate)}
-DTEND:${formatICSDate(options.endDate)}
-SUMMARY:${escapeICSText(options.summary)}
-DESCRIPTION:${escapeICSText(options.description)}
-LOCATION:${escapeICSText(options.location)}
-ORGANIZER;CN=${escapeICSText(options.organizerName)}:mailto:${options.organizerEmail}
-ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE;CN=${escapeICSText(options.attendeeName)}:mailto:${options.attendeeEmail}
-STATUS:CONFIRMED
-SEQUENCE:0
-BEGIN:VALARM
-TRIGGER:-PT15M
-ACTION:DISPLAY
-DESCRIPTION:Reminder: ${escapeICSText(options.summary)}
-END:VALARM
-END:VEVENT
-END:VCALENDAR`;
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -124,6 +74,8 @@ serve(async (req) => {
         confirmed_datetime,
         meeting_link,
         notes,
+        session_duration,
+        calendar_sequence,
         employee_user_id,
         specialist_id
       `)
@@ -137,14 +89,14 @@ serve(async (req) => {
     // Get employee details with phone number
     const { data: employee } = await supabaseClient
       .from('profiles')
-      .select('email, full_name, phone_number')
+      .select('email, full_name, phone_number, timezone')
       .eq('user_id', booking.employee_user_id)
       .single();
 
     // Get specialist details
     const { data: specialist } = await supabaseClient
       .from('specialists')
-      .select('email, full_name, specialty')
+      .select('email, full_name, specialty, timezone')
       .eq('id', booking.specialist_id)
       .single();
 
@@ -180,25 +132,32 @@ serve(async (req) => {
     let calendarAttachment = null;
     if (booking.confirmed_datetime) {
       const startDate = new Date(booking.confirmed_datetime);
-      const endDate = new Date(startDate.getTime() + 60 * 60 * 1000); // 1 hour session
+      const endDate = new Date(startDate.getTime() + (booking.session_duration || 60) * 60 * 1000);
       
       const icsContent = generateICSContent({
+        method: 'REQUEST',
+        uid: `booking-${bookingId}@hollyaid.com`,
+        sequence: booking.calendar_sequence,
+        status: 'CONFIRMED',
         startDate,
         endDate,
         summary: `HollyAid Session: ${specialist.specialty || 'Wellness Consultation'}`,
-        description: `Wellness session with ${specialist.full_name}\\n\\nMeeting Link: ${fullMeetingUrl || 'To be provided'}\\n\\n${booking.notes ? `Notes: ${booking.notes}` : ''}`,
-        location: fullMeetingUrl || 'Online (link to be provided)',
-        organizerEmail: 'bookings@hollyaid.com',
-        organizerName: 'HollyAid',
-        attendeeEmail: employee.email,
-        attendeeName: employee.full_name || 'Employee',
-        uid: `booking-${bookingId}@hollyaid.com`,
+        description: `Wellness session with ${specialist.full_name}${booking.notes ? `\n\nNotes: ${booking.notes}` : ''}`,
+        joinUrl: fullMeetingUrl || null,
+        attendees: [
+          { name: employee.full_name || 'Employee', email: employee.email },
+          { name: specialist.full_name, email: specialist.email },
+        ],
+        localTimes: [
+          { label: `${employee.full_name || 'Employee'}'s time`, timeZone: employee.timezone || 'UTC' },
+          { label: `${specialist.full_name}'s time`, timeZone: specialist.timezone || 'UTC' },
+        ],
       });
 
-      // Convert to base64 for email attachment
+      // Base64 of the UTF-8 bytes, since names may not be plain ASCII
       calendarAttachment = {
         filename: 'hollyaid-session.ics',
-        content: btoa(icsContent),
+        content: encodeBase64(icsContent),
       };
 
       console.log('Calendar invite generated successfully');
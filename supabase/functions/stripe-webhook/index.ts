@@ -0,0 +1,355 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, stripe-signature",
+};
+
+const HANDLED_EVENTS = new Set([
+  "checkout.session.completed",
+  "checkout.session.async_payment_succeeded",
+  "customer.subscription.created",
+  "customer.subscription.updated",
+  "customer.subscription.deleted",
+  "invoice.payment_succeeded",
+  "invoice.payment_failed",
+]);
+
+// Stripe subscription statuses mapped onto companies.subscription_status.
+// Ended subscriptions go back to 'unpaid', which sends the admin to pick a plan again.
+// past_due starts the grace period; a suspended company stays suspended (see track_company_dunning).
+const mapSubscriptionStatus = (status: Stripe.Subscription.Status): string => {
+  switch (status) {
+    case "active":
+    case "trialing":
+      return "active";
+    case "past_due":
+      return "past_due";
+    default:
+      return "unpaid";
+  }
+};
+
+// Since the 2025 API versions the billing period lives on the subscription item
+const getPeriod = (subscription: Stripe.Subscription) => {
+  const item = subscription.items.data[0] as Stripe.SubscriptionItem & {
+    current_period_start?: number;
+    current_period_end?: number;
+  };
+  const legacy = subscription as Stripe.Subscription & {
+    current_period_start?: number;
+    current_period_end?: number;
+  };
+  const start = item?.current_period_start ?? legacy.current_period_start;
+  const end = item?.current_period_end ?? legacy.current_period_end;
+
+  return {
+    start: start ? new Date(start * 1000).toISOString() : null,
+    end: end ? new Date(end * 1000).toISOString() : null,
+  };
+};
+
+const getInvoiceSubscriptionId = (invoice: Stripe.Invoice): string | null => {
+  const withLegacy = invoice as Stripe.Invoice & { subscription?: string | Stripe.Subscription | null };
+  const subscription = invoice.parent?.subscription_details?.subscription ?? withLegacy.subscription;
+  if (!subscription) return null;
+  return typeof subscription === "string" ? subscription : subscription.id;
+};
+
+// Receives Stripe events for checkout, subscription changes and invoice payments, so renewals,
+// cancellations and failed payments reach `companies` without anyone opening the dashboard.
+// Paid minute-pack checkouts are credited here too.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
+  const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+  if (!stripeKey || !webhookSecret) {
+    console.error("stripe-webhook: STRIPE_SECRET_KEY or STRIPE_WEBHOOK_SECRET is not set");
+    return new Response(JSON.stringify({ error: "Webhook not configured" }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+
+  const stripe = new Stripe(stripeKey, { apiVersion: "2025-08-27.basil" });
+
+  // The signature covers the raw body, so it must be read as text before any parsing
+  const signature = req.headers.get("stripe-signature");
+  const body = await req.text();
+
+  let event: Stripe.Event;
+  try {
+    if (!signature) throw new Error("Missing stripe-signature header");
+    event = await stripe.webhooks.constructEventAsync(
+      body,
+      signature,
+      webhookSecret,
+      undefined,
+      Stripe.createSubtleCryptoProvider(),
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("stripe-webhook signature verification failed:", errorMessage);
+    return new Response(JSON.stringify({ error: "Invalid signature" }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 400,
+    });
+  }
+
+  if (!HANDLED_EVENTS.has(event.type)) {
+    return new Response(JSON.stringify({ received: true, ignored: true }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } },
+  );
+
+  // Record the delivery first; a redelivery of an event that was already applied is acknowledged
+  // without touching anything. One that failed earlier is simply applied again.
+  const { data: existing } = await supabaseClient
+    .from("stripe_webhook_events")
+    .select("processed_at, attempts")
+    .eq("event_id", event.id)
+    .maybeSingle();
+
+  if (existing?.processed_at) {
+    console.log(`stripe-webhook: ${event.id} already processed`);
+    return new Response(JSON.stringify({ received: true, duplicate: true }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  }
+
+  const { error: recordError } = existing
+    ? await supabaseClient
+        .from("stripe_webhook_events")
+        .update({ attempts: existing.attempts + 1 })
+        .eq("event_id", event.id)
+    : await supabaseClient
+        .from("stripe_webhook_events")
+        .insert({ event_id: event.id, event_type: event.type });
+
+  if (recordError) {
+    // A concurrent delivery of the same event got there first; let Stripe retry this one
+    console.error("stripe-webhook: failed to record event:", recordError);
+    return new Response(JSON.stringify({ error: "Event is already being processed" }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 409,
+    });
+  }
+
+  const findCompany = async (options: { subscriptionId?: string | null; customerId?: string | null; userId?: string | null }) => {
+    const filters = [
+      options.subscriptionId && ["stripe_subscription_id", options.subscriptionId],
+      options.customerId && ["stripe_customer_id", options.customerId],
+      options.userId && ["admin_user_id", options.userId],
+    ].filter(Boolean) as [string, string][];
+
+    for (const [column, value] of filters) {
+      const { data } = await supabaseClient
+        .from("companies")
+        .select("id, is_test_account, subscription_status, scheduled_plan_type, subscription_period_start")
+        .eq(column, value)
+        .maybeSingle();
+      if (data) return data;
+    }
+    return null;
+  };
+
+  // Plan types and Stripe products come from the pricing catalog. Every version is searched so
+  // subscriptions started under an earlier price still resolve to their plan.
+  const resolvePlanType = async (subscription: Stripe.Subscription): Promise<string> => {
+    const { data: plans, error } = await supabaseClient
+      .from("pricing_plans")
+      .select("plan_type, stripe_product_id");
+    if (error) throw error;
+
+    const metadataPlanType = subscription.metadata?.plan_type?.toString().trim().toLowerCase();
+    if (metadataPlanType && plans.some((plan) => plan.plan_type === metadataPlanType)) return metadataPlanType;
+
+    const productId = subscription.items.data[0]?.price.product as string;
+    return plans.find((plan) => plan.stripe_product_id && plan.stripe_product_id === productId)?.plan_type || "starter";
+  };
+
+  // Always apply the subscription as Stripe has it now rather than as it was in the event,
+  // so out-of-order and repeated deliveries converge on the same state.
+  const syncSubscription = async (subscriptionId: string, userId?: string | null) => {
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    const customerId = typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id;
+
+    const company = await findCompany({
+      subscriptionId: subscription.id,
+      customerId,
+      userId: userId ?? subscription.metadata?.user_id,
+    });
+    if (!company) {
+      console.warn(`stripe-webhook: no company for subscription ${subscription.id}`);
+      return null;
+    }
+    if (company.is_test_account) {
+      console.log(`stripe-webhook: skipping test account ${company.id}`);
+      return company.id;
+    }
+
+    const status = mapSubscriptionStatus(subscription.status);
+    let planType = await resolvePlanType(subscription);
+    const period = getPeriod(subscription);
+
+    // A scheduled downgrade takes over when the next period starts. change-plan already moved
+    // the Stripe price, so only the plan recorded in the metadata is left to update.
+    const isNewPeriod = !!period.start && !!company.subscription_period_start &&
+      new Date(period.start).getTime() > new Date(company.subscription_period_start).getTime();
+    const appliesScheduledPlan = !!company.scheduled_plan_type && isNewPeriod;
+    if (appliesScheduledPlan) {
+      planType = company.scheduled_plan_type;
+      await stripe.subscriptions.update(subscription.id, {
+        metadata: { ...subscription.metadata, plan_type: planType, scheduled_plan_type: "" },
+      });
+    }
+    const billingInterval = subscription.items.data[0]?.price.recurring?.interval === "year" ? "year" : "month";
+
+    const { error: updateError } = await supabaseClient
+      .from("companies")
+      .update({
+        subscription_status: status,
+        is_paid: status === "active",
+        stripe_customer_id: customerId,
+        stripe_subscription_id: subscription.id,
+        plan_type: planType,
+        ...(appliesScheduledPlan ? { scheduled_plan_type: null } : {}),
+        billing_currency: subscription.currency,
+        billing_interval: billingInterval,
+        subscription_period_start: period.start,
+        subscription_period_end: period.end,
+      })
+      .eq("id", company.id);
+
+    if (updateError) throw updateError;
+
+    // The allowance is recorded in minutes_ledger: a reset for a new period, or a grant on upgrade.
+    // For annual contracts sync_subscription_minutes picks the month or the yearly pool.
+    if (status === "active" && period.start) {
+      const { error: syncError } = await supabaseClient.rpc("sync_subscription_minutes", {
+        _company_id: company.id,
+      });
+      if (syncError) throw syncError;
+    }
+
+    console.log(`stripe-webhook: company ${company.id} is ${status} on ${planType} (${billingInterval}ly)`);
+    return company.id;
+  };
+
+  // credit_minute_pack only credits a pending pack, so a redelivered payment adds nothing
+  const creditMinutePack = async (session: Stripe.Checkout.Session) => {
+    const paymentIntentId = typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id ?? null;
+
+    const { data: pack, error: creditError } = await supabaseClient.rpc("credit_minute_pack", {
+      _checkout_session_id: session.id,
+      _payment_intent_id: paymentIntentId,
+    });
+    if (creditError) throw creditError;
+
+    console.log(`stripe-webhook: credited ${pack.minutes} top-up minutes to company ${pack.company_id}`);
+    return pack.company_id as string;
+  };
+
+  try {
+    let companyId: string | null = null;
+
+    switch (event.type) {
+      case "checkout.session.completed": {
+        const session = event.data.object as Stripe.Checkout.Session;
+        if (session.mode === "payment" && session.metadata?.kind === "minute_pack") {
+          // Card payments are settled at completion; delayed methods report back separately
+          if (session.payment_status === "paid") {
+            companyId = await creditMinutePack(session);
+          }
+        } else if (session.mode === "subscription" && session.subscription) {
+          const subscriptionId = typeof session.subscription === "string" ? session.subscription : session.subscription.id;
+          companyId = await syncSubscription(subscriptionId, session.metadata?.user_id);
+
+          // Counts towards the code's redemption limit; a redelivery finds the row already there
+          if (companyId && session.metadata?.promo_code_id) {
+            const { error: redemptionError } = await supabaseClient
+              .from("promo_code_redemptions")
+              .upsert(
+                {
+                  promo_code_id: session.metadata.promo_code_id,
+                  company_id: companyId,
+                  stripe_checkout_session_id: session.id,
+                },
+                { onConflict: "promo_code_id,company_id", ignoreDuplicates: true },
+              );
+            if (redemptionError) throw redemptionError;
+          }
+        }
+        break;
+      }
+      case "checkout.session.async_payment_succeeded": {
+        const session = event.data.object as Stripe.Checkout.Session;
+        if (session.metadata?.kind === "minute_pack") {
+          companyId = await creditMinutePack(session);
+        }
+        break;
+      }
+      case "customer.subscription.created":
+      case "customer.subscription.updated":
+      case "customer.subscription.deleted": {
+        const subscription = event.data.object as Stripe.Subscription;
+        companyId = await syncSubscription(subscription.id);
+        break;
+      }
+      case "invoice.payment_succeeded":
+      case "invoice.payment_failed": {
+        const invoice = event.data.object as Stripe.Invoice;
+        const subscriptionId = getInvoiceSubscriptionId(invoice);
+        if (subscriptionId) {
+          companyId = await syncSubscription(subscriptionId);
+        }
+        if (event.type === "invoice.payment_failed" && companyId) {
+          // Sends the first payment reminder now rather than at the next scheduled run
+          supabaseClient.functions.invoke("process-dunning")
+            .catch((err) => console.error("stripe-webhook: failed to run process-dunning:", err));
+        }
+        break;
+      }
+    }
+
+    await supabaseClient
+      .from("stripe_webhook_events")
+      .update({ company_id: companyId, processed_at: new Date().toISOString(), last_error: null })
+      .eq("event_id", event.id);
+
+    return new Response(JSON.stringify({ received: true }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`stripe-webhook: failed to process ${event.type} ${event.id}:`, errorMessage);
+
+    await supabaseClient
+      .from("stripe_webhook_events")
+      .update({ last_error: errorMessage })
+      .eq("event_id", event.id);
+
+    // A non-2xx response makes Stripe retry the event later
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,226 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type PayoutAction = "approve" | "reject" | "mark_paid" | "mark_failed" | "retry";
+
+interface UpdatePayoutRequest {
+  payoutRequestId: string;
+  action: PayoutAction;
+  reason?: string;
+  expectedPaymentDate?: string;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString("en-US", { month: "long", day: "numeric", year: "numeric", timeZone: "UTC" });
+
+const emailLayout = (color: string, title: string, subtitle: string, body: string) => `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <style>
+      body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; }
+      .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+      .header { background: ${color}; color: white; padding: 30px; border-radius: 12px 12px 0 0; text-align: center; }
+      .content { background: #f8fafc; padding: 30px; border: 1px solid #e2e8f0; border-top: none; border-radius: 0 0 12px 12px; }
+      .amount { font-size: 36px; font-weight: bold; color: #0d9488; margin: 20px 0; }
+      .detail-row { background: white; padding: 15px; margin: 10px 0; border-radius: 8px; border-left: 4px solid #0d9488; }
+      .label { font-size: 12px; color: #6b7280; text-transform: uppercase; letter-spacing: 0.5px; }
+      .value { font-size: 16px; font-weight: 600; color: #111827; margin-top: 4px; }
+      .cta { display: inline-block; background: #0d9488; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; margin-top: 20px; }
+      .footer { text-align: center; margin-top: 30px; color: #94a3b8; font-size: 14px; }
+    </style>
+  </head>
+  <body>
+    <div class="container">
+      <div class="header">
+        <h1 style="margin: 0; font-size: 24px;">${title}</h1>
+        <p style="margin: 10px 0 0; opacity: 0.9;">${subtitle}</p>
+      </div>
+      <div class="content">
+        ${body}
+        <div class="footer">
+          <p>This is an automated notification from HollyAid</p>
+        </div>
+      </div>
+    </div>
+  </body>
+  </html>
+`;
+
+const detailRow = (label: string, value: string) => `
+  <div class="detail-row">
+    <div class="label">${label}</div>
+    <div class="value">${value}</div>
+  </div>
+`;
+
+// Moves a payout request to its next state for a platform admin and emails the specialist
+// about it. transition_payout_request checks the move is allowed and records it.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } },
+  );
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) throw new Error("No authorization header provided");
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    if (userError) throw new Error(`Authentication error: ${userError.message}`);
+    const user = userData.user;
+    if (!user) throw new Error("User not authenticated");
+
+    const { data: roleData } = await supabaseClient
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "admin")
+      .maybeSingle();
+
+    if (!roleData) throw new Error("Only admins can update payouts");
+
+    const { payoutRequestId, action, reason, expectedPaymentDate }: UpdatePayoutRequest = await req.json();
+    if (!payoutRequestId) throw new Error("Payout request ID is required");
+
+    const { data: payout, error: transitionError } = await supabaseClient.rpc("transition_payout_request", {
+      _payout_request_id: payoutRequestId,
+      _action: action,
+      _reason: reason || null,
+      _expected_payment_date: expectedPaymentDate || null,
+      _actor_user_id: user.id,
+    });
+    if (transitionError) throw new Error(transitionError.message);
+
+    console.log(`update-payout: ${action} payout ${payoutRequestId}, now ${payout.status}`);
+
+    const { data: specialist, error: specialistError } = await supabaseClient
+      .from("specialists")
+      .select("full_name, email")
+      .eq("id", payout.specialist_id)
+      .single();
+    if (specialistError) throw specialistError;
+
+    const formattedAmount = new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency: payout.currency.toUpperCase(),
+    }).format(payout.amount);
+    const period = `${formatDate(payout.period_start)} - ${formatDate(payout.period_end)}`;
+
+    const emails: Record<PayoutAction, { subject: string; color: string; title: string; subtitle: string; body: string }> = {
+      approve: {
+        subject: `Your payout of ${formattedAmount} has been approved`,
+        color: "linear-gradient(135deg, #0d9488, #14b8a6)",
+        title: "Payout Approved",
+        subtitle: "Your payout is on its way",
+        body: `
+          <p>Hi ${specialist.full_name},</p>
+          <p>Your payout request has been approved.</p>
+          <div class="amount">${formattedAmount}</div>
+          ${detailRow("Sessions from", period)}
+          ${detailRow("Expected payment date", `📅 ${formatDate(payout.expected_payment_date)}`)}
+        `,
+      },
+      reject: {
+        subject: `Your payout request for ${formattedAmount} was not approved`,
+        color: "linear-gradient(135deg, #ef4444, #dc2626)",
+        title: "Payout Not Approved",
+        subtitle: "Your payout request was rejected",
+        body: `
+          <p>Hi ${specialist.full_name},</p>
+          <p>Your payout request for <strong>${formattedAmount}</strong> (${period}) was not approved.</p>
+          ${detailRow("Reason", payout.rejection_reason)}
+          <p>The sessions it covered are back in your unpaid earnings, so you can include them in a new request.
+          Reply to this email if you have any questions.</p>
+        `,
+      },
+      mark_paid: {
+        subject: `Your payout of ${formattedAmount} has been paid`,
+        color: "linear-gradient(135deg, #22c55e, #16a34a)",
+        title: "Payout Sent",
+        subtitle: "Your payment has been made",
+        body: `
+          <p>Hi ${specialist.full_name},</p>
+          <p>We've paid out your earnings for ${period}.</p>
+          <div class="amount">${formattedAmount}</div>
+          ${detailRow("Paid on", formatDate(payout.paid_at))}
+          <p>Depending on your bank it can take a few days for the money to show in your account.</p>
+        `,
+      },
+      mark_failed: {
+        subject: `Your payout of ${formattedAmount} could not be sent`,
+        color: "linear-gradient(135deg, #f59e0b, #d97706)",
+        title: "⚠️ Payout Failed",
+        subtitle: "We couldn't complete your payment",
+        body: `
+          <p>Hi ${specialist.full_name},</p>
+          <p>We tried to pay out <strong>${formattedAmount}</strong> for ${period}, but the payment didn't go through.</p>
+          ${detailRow("Reason", payout.failure_reason)}
+          <p>Please check your payout details. We'll retry the payment and email you with a new expected date.</p>
+          <center>
+            <a href="https://hollyaid.com/settings" class="cta">Check Payout Details →</a>
+          </center>
+        `,
+      },
+      retry: {
+        subject: `We're retrying your payout of ${formattedAmount}`,
+        color: "linear-gradient(135deg, #0d9488, #14b8a6)",
+        title: "Payout Retried",
+        subtitle: "We're sending your payment again",
+        body: `
+          <p>Hi ${specialist.full_name},</p>
+          <p>We're retrying your payout for ${period}.</p>
+          <div class="amount">${formattedAmount}</div>
+          ${detailRow("Expected payment date", `📅 ${formatDate(payout.expected_payment_date)}`)}
+        `,
+      },
+    };
+
+    // The change has already been made, so a failed email is logged rather than reported as an error
+    let emailSent = false;
+    const resendApiKey = Deno.env.get("RESEND_API_KEY");
+    if (!resendApiKey) {
+      console.error("RESEND_API_KEY not configured");
+    } else if (specialist.email) {
+      const email = emails[action];
+      const resend = new Resend(resendApiKey);
+      const { error: emailError } = await resend.emails.send({
+        from: "HollyAid <noreply@hollyaid.com>",
+        to: [specialist.email],
+        subject: email.subject,
+        html: emailLayout(email.color, email.title, email.subtitle, email.body),
+      });
+
+      if (emailError) {
+        console.error(`Failed to email specialist about payout ${payoutRequestId}:`, emailError);
+      } else {
+        emailSent = true;
+      }
+    }
+
+    return new Response(JSON.stringify({ success: true, payout, emailSent }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("update-payout error:", errorMessage);
+
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
@@ -0,0 +1,120 @@
+-- Atomic booking creation.
+-- Bookings used to be inserted straight from the browser and the slot was marked as booked in a
+-- second call, so two employees could grab the same slot and a failed second call left it open.
+-- create_booking validates everything and locks the slot inside a single transaction.
+
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _employee_user_id uuid,
+  _specialist_id uuid,
+  _slot_id uuid,
+  _proposed_datetime timestamp with time zone,
+  _session_duration integer,
+  _session_type text,
+  _notes text,
+  _minutes_required integer
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _slot public.availability_slots%ROWTYPE;
+  _booking public.bookings%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.specialists
+    WHERE id = _specialist_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Specialist is not available for booking';
+  END IF;
+
+  -- Resolve the employee's company the same way the old bookings INSERT policy did.
+  -- The row is locked so concurrent requests from the same company check the balance one at a time.
+  SELECT c.* INTO _company
+  FROM public.company_employees ce
+  JOIN public.companies c ON c.id = ce.company_id
+  WHERE ce.user_id = _employee_user_id
+  ORDER BY (ce.status = 'accepted') DESC
+  LIMIT 1
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    SELECT * INTO _company
+    FROM public.companies
+    WHERE admin_user_id = _employee_user_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No company found for this employee';
+  END IF;
+
+  IF _company.subscription_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Your company does not have an active subscription';
+  END IF;
+
+  IF COALESCE(_company.minutes_included, 0) - COALESCE(_company.minutes_used, 0) < _minutes_required THEN
+    RAISE EXCEPTION 'Not enough wellness minutes left for this session';
+  END IF;
+
+  IF _slot_id IS NOT NULL THEN
+    SELECT * INTO _slot
+    FROM public.availability_slots
+    WHERE id = _slot_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR _slot.specialist_id <> _specialist_id THEN
+      RAISE EXCEPTION 'Time slot not found';
+    END IF;
+
+    IF COALESCE(_slot.is_booked, false) THEN
+      RAISE EXCEPTION 'This time slot has just been booked by someone else';
+    END IF;
+
+    UPDATE public.availability_slots
+    SET is_booked = true
+    WHERE id = _slot_id;
+
+    _proposed_datetime := _slot.start_time;
+  END IF;
+
+  IF _proposed_datetime IS NULL OR _proposed_datetime <= now() THEN
+    RAISE EXCEPTION 'Please choose a time in the future';
+  END IF;
+
+  INSERT INTO public.bookings (
+    slot_id,
+    employee_user_id,
+    specialist_id,
+    proposed_datetime,
+    session_duration,
+    session_type,
+    notes,
+    status
+  )
+  VALUES (
+    _slot_id,
+    _employee_user_id,
+    _specialist_id,
+    _proposed_datetime,
+    _session_duration,
+    _session_type,
+    _notes,
+    'pending'
+  )
+  RETURNING * INTO _booking;
+
+  RETURN _booking;
+END;
+$$;
+
+-- Only the create-booking edge function (service role) may call this; it computes _minutes_required.
+REVOKE EXECUTE ON FUNCTION public.create_booking(uuid, uuid, uuid, timestamp with time zone, integer, text, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_booking(uuid, uuid, uuid, timestamp with time zone, integer, text, text, integer) TO service_role;
+
+-- Bookings are now created exclusively through create_booking.
+DROP POLICY IF EXISTS "Employees from paid companies can create bookings" ON public.bookings;
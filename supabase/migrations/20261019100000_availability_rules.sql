@@ -0,0 +1,179 @@
+-- Recurring weekly availability for specialists.
+-- A rule such as "Mon/Wed 09:00-12:00, 50-minute sessions, 10-minute buffer" is expanded into
+-- availability_slots over a rolling window. Times are wall-clock times in the rule's timezone,
+-- so expansion stays correct across daylight-saving changes.
+CREATE TABLE public.availability_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  specialist_id UUID NOT NULL REFERENCES public.specialists(id) ON DELETE CASCADE,
+  weekdays SMALLINT[] NOT NULL CHECK (array_length(weekdays, 1) > 0 AND weekdays <@ ARRAY[0,1,2,3,4,5,6]::SMALLINT[]),
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  session_minutes INTEGER NOT NULL DEFAULT 50 CHECK (session_minutes BETWEEN 15 AND 240),
+  buffer_minutes INTEGER NOT NULL DEFAULT 10 CHECK (buffer_minutes BETWEEN 0 AND 120),
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+COMMENT ON COLUMN public.availability_rules.weekdays IS 'Days of week the rule applies to (0=Sunday ... 6=Saturday)';
+COMMENT ON COLUMN public.availability_rules.timezone IS 'IANA timezone the start/end times are expressed in';
+
+ALTER TABLE public.availability_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Specialists can manage their own availability rules"
+ON public.availability_rules
+FOR ALL
+USING (public.is_specialist_owner(auth.uid(), specialist_id))
+WITH CHECK (public.is_specialist_owner(auth.uid(), specialist_id));
+
+CREATE POLICY "Admins can manage all availability rules"
+ON public.availability_rules
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_availability_rules_specialist ON public.availability_rules(specialist_id);
+
+CREATE TRIGGER update_availability_rules_updated_at
+  BEFORE UPDATE ON public.availability_rules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Track which rule generated a slot so regeneration only touches generated slots
+ALTER TABLE public.availability_slots
+ADD COLUMN rule_id UUID REFERENCES public.availability_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_availability_slots_specialist_start ON public.availability_slots(specialist_id, start_time);
+
+-- Regenerate a specialist's rule-based slots for the next _days days.
+-- Open generated slots are replaced; booked slots (and any slot a booking points at) are kept,
+-- and new slots never overlap an existing one.
+CREATE OR REPLACE FUNCTION public.expand_availability_rules(_specialist_id uuid, _days integer DEFAULT 56)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.availability_rules%ROWTYPE;
+  _day date;
+  _today date;
+  _slot_start timestamp with time zone;
+  _slot_end timestamp with time zone;
+  _window_end timestamp with time zone;
+  _inserted integer := 0;
+BEGIN
+  DELETE FROM public.availability_slots s
+  WHERE s.specialist_id = _specialist_id
+    AND s.rule_id IS NOT NULL
+    AND NOT COALESCE(s.is_booked, false)
+    AND s.start_time > now()
+    AND NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.slot_id = s.id);
+
+  FOR _rule IN
+    SELECT * FROM public.availability_rules
+    WHERE specialist_id = _specialist_id AND is_active
+  LOOP
+    _today := (now() AT TIME ZONE _rule.timezone)::date;
+
+    FOR _day IN
+      SELECT d::date FROM generate_series(_today, _today + _days, interval '1 day') AS d
+    LOOP
+      CONTINUE WHEN NOT (EXTRACT(DOW FROM _day)::smallint = ANY (_rule.weekdays));
+
+      -- Local wall-clock time -> absolute instant, resolved per day so DST shifts are honoured
+      _slot_start := (_day + _rule.start_time) AT TIME ZONE _rule.timezone;
+      _window_end := (_day + _rule.end_time) AT TIME ZONE _rule.timezone;
+
+      LOOP
+        _slot_end := _slot_start + make_interval(mins => _rule.session_minutes);
+        EXIT WHEN _slot_end > _window_end;
+
+        IF _slot_start > now() AND NOT EXISTS (
+          SELECT 1 FROM public.availability_slots s
+          WHERE s.specialist_id = _specialist_id
+            AND s.start_time < _slot_end
+            AND s.end_time > _slot_start
+        ) THEN
+          INSERT INTO public.availability_slots (specialist_id, start_time, end_time, rule_id)
+          VALUES (_specialist_id, _slot_start, _slot_end, _rule.id);
+          _inserted := _inserted + 1;
+        END IF;
+
+        _slot_start := _slot_end + make_interval(mins => _rule.buffer_minutes);
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN _inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expand_availability_rules(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.expand_all_availability_rules()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _specialist_id uuid;
+BEGIN
+  FOR _specialist_id IN SELECT DISTINCT specialist_id FROM public.availability_rules LOOP
+    PERFORM public.expand_availability_rules(_specialist_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expand_all_availability_rules() FROM PUBLIC, anon, authenticated;
+
+-- Any change to a rule regenerates that specialist's slots straight away
+CREATE OR REPLACE FUNCTION public.handle_availability_rule_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.expand_availability_rules(OLD.specialist_id);
+  ELSE
+    PERFORM public.expand_availability_rules(NEW.specialist_id);
+    UPDATE public.specialists SET has_set_availability = true WHERE id = NEW.specialist_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER on_availability_rule_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.availability_rules
+  FOR EACH ROW EXECUTE FUNCTION public.handle_availability_rule_change();
+
+-- Keep the rolling window moving forward
+SELECT cron.schedule(
+  'expand-availability-rules',
+  '0 3 * * *',
+  $$SELECT public.expand_all_availability_rules()$$
+);
+
+-- A cancelled or declined booking gives its slot back
+CREATE OR REPLACE FUNCTION public.release_booking_slot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.slot_id IS NOT NULL
+    AND NEW.status IN ('cancelled', 'declined')
+    AND OLD.status NOT IN ('cancelled', 'declined') THEN
+    UPDATE public.availability_slots SET is_booked = false WHERE id = NEW.slot_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_booking_slot_on_cancel
+  AFTER UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.release_booking_slot();
@@ -0,0 +1,83 @@
+-- Store each user's IANA timezone so both parties of a booking can see the session in their
+-- own local time, independent of the browser they happen to use.
+ALTER TABLE public.profiles ADD COLUMN timezone TEXT;
+ALTER TABLE public.specialists ADD COLUMN timezone TEXT;
+
+COMMENT ON COLUMN public.profiles.timezone IS 'IANA timezone, e.g. Europe/Lisbon';
+COMMENT ON COLUMN public.specialists.timezone IS 'IANA timezone, e.g. Europe/Lisbon';
+
+-- Reject anything Postgres itself cannot resolve, so AT TIME ZONE never fails downstream
+CREATE OR REPLACE FUNCTION public.validate_timezone()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.timezone IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown timezone: %', NEW.timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_profiles_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.validate_timezone();
+
+CREATE TRIGGER validate_specialists_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.specialists
+  FOR EACH ROW EXECUTE FUNCTION public.validate_timezone();
+
+CREATE TRIGGER validate_availability_rules_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.availability_rules
+  FOR EACH ROW EXECUTE FUNCTION public.validate_timezone();
+
+-- Availability rules follow the specialist's timezone; updating the rules re-expands their slots
+CREATE OR REPLACE FUNCTION public.sync_specialist_rule_timezones()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.timezone IS NOT NULL AND NEW.timezone IS DISTINCT FROM OLD.timezone THEN
+    UPDATE public.availability_rules
+    SET timezone = NEW.timezone
+    WHERE specialist_id = NEW.id AND timezone IS DISTINCT FROM NEW.timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_specialist_rule_timezones
+  AFTER UPDATE OF timezone ON public.specialists
+  FOR EACH ROW EXECUTE FUNCTION public.sync_specialist_rule_timezones();
+
+-- Existing rules were saved with the specialist's browser timezone; adopt it as their stored one
+UPDATE public.specialists s
+SET timezone = r.timezone
+FROM (
+  SELECT DISTINCT ON (specialist_id) specialist_id, timezone
+  FROM public.availability_rules
+  ORDER BY specialist_id, created_at
+) r
+WHERE r.specialist_id = s.id AND s.timezone IS NULL;
+
+-- Employees need the specialist's timezone to see the session in the specialist's local time
+DROP VIEW IF EXISTS public.specialists_public;
+CREATE VIEW public.specialists_public
+WITH (security_invoker=on) AS
+SELECT
+  id,
+  full_name,
+  specialty,
+  bio,
+  avatar_url,
+  is_active,
+  rate_tier,
+  video_url,
+  website,
+  timezone
+FROM public.specialists
+WHERE is_active = true;
@@ -0,0 +1,276 @@
+-- Reserve wellness minutes when a booking is approved.
+-- Minutes used to be deducted only on completion, so a company could have far more approved
+-- sessions than its allowance covers. Approval now places a hold on the company's minutes,
+-- completion converts the hold into a charge, and cancelling, declining or rescheduling releases it.
+
+ALTER TABLE public.companies
+ADD COLUMN minutes_reserved INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.companies.minutes_reserved IS 'Minutes on hold for approved, not yet completed bookings';
+
+ALTER TABLE public.bookings
+ADD COLUMN company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL,
+ADD COLUMN minutes_reserved INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN minutes_charged INTEGER;
+
+COMMENT ON COLUMN public.bookings.company_id IS 'Company whose minutes pay for this booking';
+COMMENT ON COLUMN public.bookings.minutes_reserved IS 'Minutes currently held for this booking (approved bookings only)';
+COMMENT ON COLUMN public.bookings.minutes_charged IS 'Minutes deducted when the booking was completed';
+
+CREATE INDEX idx_bookings_company_id ON public.bookings(company_id);
+
+-- Tier-weighted minutes for a session; multipliers match src/lib/plans.ts
+CREATE OR REPLACE FUNCTION public.booking_minutes_required(_specialist_id uuid, _session_duration integer)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CEIL(
+    COALESCE(_session_duration, 60) *
+    CASE s.rate_tier
+      WHEN 'advanced' THEN 1.6
+      WHEN 'expert' THEN 2.4
+      WHEN 'master' THEN 3.2
+      ELSE 1.0
+    END
+  )::integer
+  FROM public.specialists s
+  WHERE s.id = _specialist_id
+$$;
+
+-- Company an employee books under: accepted membership first, then company admin,
+-- then the email domain (same order complete-booking used to follow)
+CREATE OR REPLACE FUNCTION public.resolve_employee_company(_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT ce.company_id FROM public.company_employees ce
+      WHERE ce.user_id = _user_id
+      ORDER BY (ce.status = 'accepted') DESC
+      LIMIT 1
+    ),
+    (
+      SELECT c.id FROM public.companies c
+      WHERE c.admin_user_id = _user_id
+      ORDER BY c.created_at DESC
+      LIMIT 1
+    ),
+    (
+      SELECT c.id FROM public.companies c
+      JOIN public.profiles p ON p.user_id = _user_id
+      WHERE c.email_domain = split_part(p.email, '@', 2)
+      LIMIT 1
+    )
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_employee_company(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Place, release and convert minute holds as a booking moves between statuses
+CREATE OR REPLACE FUNCTION public.apply_booking_minutes_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available integer;
+  _required integer;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Leaving 'approved' always gives the hold back first
+  IF OLD.status = 'approved' AND OLD.minutes_reserved > 0 THEN
+    UPDATE public.companies
+    SET minutes_reserved = GREATEST(0, minutes_reserved - OLD.minutes_reserved)
+    WHERE id = OLD.company_id;
+
+    NEW.minutes_reserved := 0;
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    NEW.company_id := COALESCE(NEW.company_id, public.resolve_employee_company(NEW.employee_user_id));
+    IF NEW.company_id IS NULL THEN
+      RAISE EXCEPTION 'No company found for this employee';
+    END IF;
+
+    _required := public.booking_minutes_required(NEW.specialist_id, NEW.session_duration);
+
+    SELECT COALESCE(minutes_included, 0) - COALESCE(minutes_used, 0) - minutes_reserved
+    INTO _available
+    FROM public.companies
+    WHERE id = NEW.company_id
+    FOR UPDATE;
+
+    IF _available < _required THEN
+      RAISE EXCEPTION 'The employee''s company does not have enough wellness minutes left for this session (% needed, % available)',
+        _required, GREATEST(_available, 0);
+    END IF;
+
+    UPDATE public.companies
+    SET minutes_reserved = minutes_reserved + _required
+    WHERE id = NEW.company_id;
+
+    NEW.minutes_reserved := _required;
+  ELSIF NEW.status = 'completed' AND OLD.status = 'approved' THEN
+    NEW.company_id := COALESCE(NEW.company_id, public.resolve_employee_company(NEW.employee_user_id));
+    IF NEW.company_id IS NULL THEN
+      RAISE EXCEPTION 'Employee''s company not found';
+    END IF;
+
+    -- complete-booking passes the minutes for the session actually held; default to the hold
+    NEW.minutes_charged := COALESCE(
+      NEW.minutes_charged,
+      NULLIF(OLD.minutes_reserved, 0),
+      public.booking_minutes_required(NEW.specialist_id, NEW.session_duration)
+    );
+
+    UPDATE public.companies
+    SET minutes_used = COALESCE(minutes_used, 0) + NEW.minutes_charged
+    WHERE id = NEW.company_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_booking_minutes_hold
+  BEFORE UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.apply_booking_minutes_hold();
+
+-- Bookings that are already approved get their hold now
+UPDATE public.bookings b
+SET company_id = COALESCE(b.company_id, public.resolve_employee_company(b.employee_user_id)),
+    minutes_reserved = public.booking_minutes_required(b.specialist_id, b.session_duration)
+WHERE b.status = 'approved';
+
+UPDATE public.companies c
+SET minutes_reserved = held.total
+FROM (
+  SELECT company_id, SUM(minutes_reserved)::integer AS total
+  FROM public.bookings
+  WHERE status = 'approved' AND company_id IS NOT NULL
+  GROUP BY company_id
+) held
+WHERE held.company_id = c.id;
+
+-- New bookings record their company, and the balance check counts minutes already on hold
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _employee_user_id uuid,
+  _specialist_id uuid,
+  _slot_id uuid,
+  _proposed_datetime timestamp with time zone,
+  _session_duration integer,
+  _session_type text,
+  _notes text,
+  _minutes_required integer
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _slot public.availability_slots%ROWTYPE;
+  _booking public.bookings%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.specialists
+    WHERE id = _specialist_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Specialist is not available for booking';
+  END IF;
+
+  -- Resolve the employee's company the same way the old bookings INSERT policy did.
+  -- The row is locked so concurrent requests from the same company check the balance one at a time.
+  SELECT c.* INTO _company
+  FROM public.company_employees ce
+  JOIN public.companies c ON c.id = ce.company_id
+  WHERE ce.user_id = _employee_user_id
+  ORDER BY (ce.status = 'accepted') DESC
+  LIMIT 1
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    SELECT * INTO _company
+    FROM public.companies
+    WHERE admin_user_id = _employee_user_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No company found for this employee';
+  END IF;
+
+  IF _company.subscription_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Your company does not have an active subscription';
+  END IF;
+
+  IF COALESCE(_company.minutes_included, 0) - COALESCE(_company.minutes_used, 0) - _company.minutes_reserved < _minutes_required THEN
+    RAISE EXCEPTION 'Not enough wellness minutes left for this session';
+  END IF;
+
+  IF _slot_id IS NOT NULL THEN
+    SELECT * INTO _slot
+    FROM public.availability_slots
+    WHERE id = _slot_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR _slot.specialist_id <> _specialist_id THEN
+      RAISE EXCEPTION 'Time slot not found';
+    END IF;
+
+    IF COALESCE(_slot.is_booked, false) THEN
+      RAISE EXCEPTION 'This time slot has just been booked by someone else';
+    END IF;
+
+    UPDATE public.availability_slots
+    SET is_booked = true
+    WHERE id = _slot_id;
+
+    _proposed_datetime := _slot.start_time;
+  END IF;
+
+  IF _proposed_datetime IS NULL OR _proposed_datetime <= now() THEN
+    RAISE EXCEPTION 'Please choose a time in the future';
+  END IF;
+
+  INSERT INTO public.bookings (
+    slot_id,
+    employee_user_id,
+    specialist_id,
+    company_id,
+    proposed_datetime,
+    session_duration,
+    session_type,
+    notes,
+    status
+  )
+  VALUES (
+    _slot_id,
+    _employee_user_id,
+    _specialist_id,
+    _company.id,
+    _proposed_datetime,
+    _session_duration,
+    _session_type,
+    _notes,
+    'pending'
+  )
+  RETURNING * INTO _booking;
+
+  RETURN _booking;
+END;
+$$;
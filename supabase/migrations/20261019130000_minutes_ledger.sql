@@ -0,0 +1,386 @@
+-- Append-only minutes ledger.
+-- complete-booking used to read companies.minutes_used, add to it and write it back, so two
+-- completions at the same moment could lose an update, and nothing recorded why a balance changed.
+-- Every change is now a ledger row: a reset opens a billing period with the plan allowance,
+-- grants add minutes, deductions charge a completed booking and refunds give minutes back.
+-- companies.minutes_included / minutes_used are kept as a projection of the current period.
+
+-- Tier multipliers matching src/lib/plans.ts
+CREATE OR REPLACE FUNCTION public.tier_multiplier(_rate_tier text)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _rate_tier
+    WHEN 'advanced' THEN 1.6
+    WHEN 'expert' THEN 2.4
+    WHEN 'master' THEN 3.2
+    ELSE 1.0
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION public.booking_minutes_required(_specialist_id uuid, _session_duration integer)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CEIL(COALESCE(_session_duration, 60) * public.tier_multiplier(s.rate_tier::text))::integer
+  FROM public.specialists s
+  WHERE s.id = _specialist_id
+$$;
+
+CREATE TABLE public.minutes_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('grant', 'deduction', 'refund', 'reset')),
+  minutes INTEGER NOT NULL CHECK (minutes >= 0),
+  rate_tier TEXT,
+  multiplier NUMERIC(4, 2),
+  session_minutes INTEGER,
+  period_start TIMESTAMP WITH TIME ZONE,
+  actor_user_id UUID,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (entry_type <> 'reset' OR period_start IS NOT NULL)
+);
+
+COMMENT ON COLUMN public.minutes_ledger.minutes IS 'Always positive; entry_type gives the direction';
+COMMENT ON COLUMN public.minutes_ledger.actor_user_id IS 'User who caused the entry; NULL for system entries (billing sync, cron)';
+
+-- A booking can be charged once and refunded once, however often the request is retried
+CREATE UNIQUE INDEX idx_minutes_ledger_booking_entry
+  ON public.minutes_ledger(booking_id, entry_type)
+  WHERE booking_id IS NOT NULL;
+
+-- One reset per company per billing period
+CREATE UNIQUE INDEX idx_minutes_ledger_period_reset
+  ON public.minutes_ledger(company_id, period_start)
+  WHERE entry_type = 'reset';
+
+CREATE INDEX idx_minutes_ledger_company_created ON public.minutes_ledger(company_id, created_at);
+
+ALTER TABLE public.minutes_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company admins can view their minutes ledger"
+ON public.minutes_ledger
+FOR SELECT
+USING (public.is_company_admin(auth.uid(), company_id));
+
+CREATE POLICY "Admins can view all minutes ledger entries"
+ON public.minutes_ledger
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Rows are never changed or removed; corrections are new entries.
+-- Foreign-key actions (a deleted company or booking) run one trigger level down and are allowed.
+CREATE OR REPLACE FUNCTION public.prevent_minutes_ledger_mutation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 THEN
+    IF TG_OP = 'DELETE' THEN
+      RETURN OLD;
+    END IF;
+    RETURN NEW;
+  END IF;
+  RAISE EXCEPTION 'minutes_ledger is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_minutes_ledger_mutation
+  BEFORE UPDATE OR DELETE ON public.minutes_ledger
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_minutes_ledger_mutation();
+
+-- Current-period balance per company, derived from the ledger
+CREATE VIEW public.company_minutes_balances
+WITH (security_invoker=on) AS
+SELECT
+  l.company_id,
+  MAX(l.period_start) FILTER (WHERE l.entry_type = 'reset') AS period_start,
+  COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type IN ('reset', 'grant')), 0)::integer AS minutes_included,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'deduction'), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'refund'), 0)
+  )::integer AS minutes_used
+FROM public.minutes_ledger l
+WHERE l.created_at >= COALESCE(
+  (
+    SELECT MAX(r.created_at) FROM public.minutes_ledger r
+    WHERE r.company_id = l.company_id AND r.entry_type = 'reset'
+  ),
+  '-infinity'::timestamptz
+)
+GROUP BY l.company_id;
+
+-- Recompute the cached balance on companies from the ledger
+CREATE OR REPLACE FUNCTION public.refresh_company_minutes(_company_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('hollyaid.minutes_sync', 'on', true);
+
+  UPDATE public.companies
+  SET minutes_included = COALESCE((SELECT minutes_included FROM public.company_minutes_balances WHERE company_id = _company_id), 0),
+      minutes_used = COALESCE((SELECT minutes_used FROM public.company_minutes_balances WHERE company_id = _company_id), 0)
+  WHERE id = _company_id;
+
+  PERFORM set_config('hollyaid.minutes_sync', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_minutes_ledger_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_company_minutes(NEW.company_id);
+  RETURN NULL;
+END;
+$$;
+
+-- Opening balances: each company's current period becomes a reset, and bookings completed in
+-- that period become deductions. Any usage not traceable to a booking is carried over as one entry.
+INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, period_start, note, created_at)
+SELECT
+  c.id,
+  'reset',
+  COALESCE(c.minutes_included, 0),
+  COALESCE(c.subscription_period_start, c.created_at),
+  'Opening balance',
+  COALESCE(c.subscription_period_start, c.created_at)
+FROM public.companies c;
+
+INSERT INTO public.minutes_ledger (company_id, booking_id, entry_type, minutes, rate_tier, multiplier, session_minutes, note, created_at)
+SELECT
+  c.id,
+  b.id,
+  'deduction',
+  COALESCE(b.minutes_charged, public.booking_minutes_required(b.specialist_id, b.session_duration)),
+  COALESCE(s.rate_tier::text, 'standard'),
+  public.tier_multiplier(s.rate_tier::text),
+  b.session_duration,
+  'Completed before the ledger was introduced',
+  b.updated_at
+FROM public.bookings b
+JOIN public.specialists s ON s.id = b.specialist_id
+JOIN public.companies c ON c.id = COALESCE(b.company_id, public.resolve_employee_company(b.employee_user_id))
+WHERE b.status = 'completed'
+  AND b.updated_at >= COALESCE(c.subscription_period_start, c.created_at);
+
+INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, note)
+SELECT c.id, 'deduction', COALESCE(c.minutes_used, 0) - COALESCE(traced.minutes, 0), 'Usage carried over from before the ledger'
+FROM public.companies c
+LEFT JOIN (
+  SELECT company_id, SUM(minutes) AS minutes
+  FROM public.minutes_ledger
+  WHERE entry_type = 'deduction'
+  GROUP BY company_id
+) traced ON traced.company_id = c.id
+WHERE COALESCE(c.minutes_used, 0) > COALESCE(traced.minutes, 0);
+
+-- The cached columns follow the ledger from now on (the trigger is created after the backfill so
+-- the carried-over usage above is computed from the original counter)
+CREATE TRIGGER on_minutes_ledger_insert
+  AFTER INSERT ON public.minutes_ledger
+  FOR EACH ROW EXECUTE FUNCTION public.handle_minutes_ledger_insert();
+
+SELECT public.refresh_company_minutes(id) FROM public.companies;
+
+-- From here on the balance columns only change through the ledger
+CREATE OR REPLACE FUNCTION public.guard_company_minutes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF (NEW.minutes_used IS DISTINCT FROM OLD.minutes_used OR NEW.minutes_included IS DISTINCT FROM OLD.minutes_included)
+    AND current_setting('hollyaid.minutes_sync', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Minutes balances are derived from minutes_ledger; record a ledger entry instead';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_company_minutes
+  BEFORE UPDATE OF minutes_used, minutes_included ON public.companies
+  FOR EACH ROW EXECUTE FUNCTION public.guard_company_minutes();
+
+-- Open a billing period with the plan allowance, or top the current period up after an upgrade.
+-- Safe to call repeatedly with the same period: the reset is unique per period.
+CREATE OR REPLACE FUNCTION public.sync_plan_minutes(
+  _company_id uuid,
+  _plan_minutes integer,
+  _period_start timestamp with time zone,
+  _actor_user_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _reset public.minutes_ledger%ROWTYPE;
+  _granted integer;
+BEGIN
+  -- Serialise concurrent syncs for the same company
+  PERFORM 1 FROM public.companies WHERE id = _company_id FOR UPDATE;
+
+  SELECT * INTO _reset
+  FROM public.minutes_ledger
+  WHERE company_id = _company_id AND entry_type = 'reset'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND OR _reset.period_start IS DISTINCT FROM _period_start THEN
+    INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, period_start, actor_user_id, note, created_at)
+    VALUES (_company_id, 'reset', _plan_minutes, _period_start, _actor_user_id, 'Plan allowance for new period',
+            LEAST(_period_start, now()))
+    ON CONFLICT DO NOTHING;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(minutes), 0) INTO _granted
+  FROM public.minutes_ledger
+  WHERE company_id = _company_id
+    AND entry_type IN ('reset', 'grant')
+    AND created_at >= _reset.created_at;
+
+  -- Downgrades take effect at renewal, so only ever add the difference
+  IF _plan_minutes > _granted THEN
+    INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, actor_user_id, note)
+    VALUES (_company_id, 'grant', _plan_minutes - _granted, _actor_user_id, 'Plan upgrade');
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_plan_minutes(uuid, integer, timestamp with time zone, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Complete an approved booking and charge it to the ledger in one transaction.
+-- The unique (booking_id, entry_type) index means a retried call can never charge twice.
+CREATE OR REPLACE FUNCTION public.complete_booking(
+  _booking_id uuid,
+  _session_minutes integer,
+  _actor_user_id uuid DEFAULT NULL
+)
+RETURNS public.minutes_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings%ROWTYPE;
+  _rate_tier text;
+  _multiplier numeric;
+  _session integer;
+  _company_id uuid;
+  _entry public.minutes_ledger%ROWTYPE;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF _booking.status <> 'approved' THEN
+    RAISE EXCEPTION 'Booking cannot be completed. Current status: %', _booking.status;
+  END IF;
+
+  SELECT COALESCE(rate_tier::text, 'standard') INTO _rate_tier
+  FROM public.specialists WHERE id = _booking.specialist_id;
+
+  _multiplier := public.tier_multiplier(_rate_tier);
+  _session := COALESCE(_session_minutes, _booking.session_duration, 60);
+
+  _company_id := COALESCE(_booking.company_id, public.resolve_employee_company(_booking.employee_user_id));
+  IF _company_id IS NULL THEN
+    RAISE EXCEPTION 'Employee''s company not found';
+  END IF;
+
+  INSERT INTO public.minutes_ledger (
+    company_id, booking_id, entry_type, minutes, rate_tier, multiplier, session_minutes, actor_user_id
+  )
+  VALUES (
+    _company_id, _booking_id, 'deduction', CEIL(_session * _multiplier)::integer, _rate_tier, _multiplier, _session, _actor_user_id
+  )
+  RETURNING * INTO _entry;
+
+  UPDATE public.bookings
+  SET status = 'completed',
+      company_id = _company_id,
+      minutes_charged = _entry.minutes
+  WHERE id = _booking_id;
+
+  RETURN _entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_booking(uuid, integer, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_booking(uuid, integer, uuid) TO service_role;
+
+-- Holds are still placed and released by the bookings trigger, but the charge now comes from
+-- complete_booking's ledger entry rather than a counter update here.
+CREATE OR REPLACE FUNCTION public.apply_booking_minutes_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available integer;
+  _required integer;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Leaving 'approved' always gives the hold back first
+  IF OLD.status = 'approved' AND OLD.minutes_reserved > 0 THEN
+    UPDATE public.companies
+    SET minutes_reserved = GREATEST(0, minutes_reserved - OLD.minutes_reserved)
+    WHERE id = OLD.company_id;
+
+    NEW.minutes_reserved := 0;
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    NEW.company_id := COALESCE(NEW.company_id, public.resolve_employee_company(NEW.employee_user_id));
+    IF NEW.company_id IS NULL THEN
+      RAISE EXCEPTION 'No company found for this employee';
+    END IF;
+
+    _required := public.booking_minutes_required(NEW.specialist_id, NEW.session_duration);
+
+    SELECT COALESCE(minutes_included, 0) - COALESCE(minutes_used, 0) - minutes_reserved
+    INTO _available
+    FROM public.companies
+    WHERE id = NEW.company_id
+    FOR UPDATE;
+
+    IF _available < _required THEN
+      RAISE EXCEPTION 'The employee''s company does not have enough wellness minutes left for this session (% needed, % available)',
+        _required, GREATEST(_available, 0);
+    END IF;
+
+    UPDATE public.companies
+    SET minutes_reserved = minutes_reserved + _required
+    WHERE id = NEW.company_id;
+
+    NEW.minutes_reserved := _required;
+  ELSIF NEW.status = 'completed' AND NOT EXISTS (
+    SELECT 1 FROM public.minutes_ledger
+    WHERE booking_id = NEW.id AND entry_type = 'deduction'
+  ) THEN
+    RAISE EXCEPTION 'Bookings must be completed through complete-booking so the minutes are charged';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
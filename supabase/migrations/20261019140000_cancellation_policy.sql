@@ -0,0 +1,131 @@
+-- Late-cancellation and no-show policy.
+-- Employees could cancel an approved session right up to its start at no cost, and a session the
+-- employee never joined could only be completed or left open. Platform admins now set a cancellation
+-- window and what a late cancellation costs; specialists can mark a no-show, which costs the same.
+
+CREATE TABLE public.booking_policy (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  late_cancellation_hours INTEGER NOT NULL DEFAULT 24 CHECK (late_cancellation_hours >= 0),
+  charge_company BOOLEAN NOT NULL DEFAULT true,
+  pay_specialist BOOLEAN NOT NULL DEFAULT false,
+  specialist_fee_percent INTEGER NOT NULL DEFAULT 50 CHECK (specialist_fee_percent BETWEEN 0 AND 100),
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.booking_policy IS 'Single-row platform policy for late cancellations and no-shows';
+COMMENT ON COLUMN public.booking_policy.late_cancellation_hours IS 'Cancelling an approved session less than this many hours before it starts is a late cancellation';
+COMMENT ON COLUMN public.booking_policy.charge_company IS 'Deduct the session''s minutes from the company for late cancellations and no-shows';
+COMMENT ON COLUMN public.booking_policy.pay_specialist IS 'Pay the specialist a fee for late cancellations and no-shows';
+COMMENT ON COLUMN public.booking_policy.specialist_fee_percent IS 'Fee as a percentage of what the specialist would have earned for the session';
+
+INSERT INTO public.booking_policy (id) VALUES (true);
+
+ALTER TABLE public.booking_policy ENABLE ROW LEVEL SECURITY;
+
+-- Employees see the window before they cancel; specialists see it before marking a no-show
+CREATE POLICY "Authenticated users can view the booking policy"
+ON public.booking_policy FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update the booking policy"
+ON public.booking_policy FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_booking_policy_updated_at
+  BEFORE UPDATE ON public.booking_policy
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE public.bookings
+ADD CONSTRAINT bookings_status_check
+CHECK (status IN ('pending', 'approved', 'declined', 'completed', 'cancelled', 'no_show'));
+
+ALTER TABLE public.bookings
+ADD COLUMN late_cancellation BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN specialist_fee_percent INTEGER;
+
+COMMENT ON COLUMN public.bookings.late_cancellation IS 'Cancelled inside the policy window, so the late-cancellation rules were applied';
+COMMENT ON COLUMN public.bookings.specialist_fee_percent IS 'Share of the session pay owed to the specialist for a late cancellation or no-show';
+
+-- Runs before apply_booking_minutes_hold (triggers fire in name order), so the session is charged
+-- while its hold is still recorded and the hold is then released as for any other cancellation.
+CREATE OR REPLACE FUNCTION public.apply_booking_cancellation_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.booking_policy%ROWTYPE;
+  _session_start timestamp with time zone;
+  _rate_tier text;
+  _multiplier numeric;
+  _session integer;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status NOT IN ('cancelled', 'no_show') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _policy FROM public.booking_policy;
+  _session_start := COALESCE(OLD.confirmed_datetime, OLD.proposed_datetime);
+
+  IF NEW.status = 'no_show' THEN
+    IF OLD.status <> 'approved' THEN
+      RAISE EXCEPTION 'Only approved sessions can be marked as a no-show';
+    END IF;
+
+    IF auth.uid() IS NOT NULL
+      AND NOT public.is_specialist_owner(auth.uid(), NEW.specialist_id)
+      AND NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+      RAISE EXCEPTION 'Only the specialist can mark a session as a no-show';
+    END IF;
+
+    IF _session_start IS NULL OR _session_start > now() THEN
+      RAISE EXCEPTION 'A session can only be marked as a no-show once it has started';
+    END IF;
+  ELSE
+    IF OLD.status <> 'approved'
+      OR _session_start IS NULL
+      OR _session_start - now() >= make_interval(hours => COALESCE(_policy.late_cancellation_hours, 0)) THEN
+      RETURN NEW;
+    END IF;
+
+    NEW.late_cancellation := true;
+  END IF;
+
+  IF COALESCE(_policy.pay_specialist, false) THEN
+    NEW.specialist_fee_percent := _policy.specialist_fee_percent;
+  END IF;
+
+  IF COALESCE(_policy.charge_company, false) THEN
+    NEW.company_id := COALESCE(NEW.company_id, public.resolve_employee_company(NEW.employee_user_id));
+    IF NEW.company_id IS NULL THEN
+      RAISE EXCEPTION 'Employee''s company not found';
+    END IF;
+
+    SELECT COALESCE(rate_tier::text, 'standard') INTO _rate_tier
+    FROM public.specialists WHERE id = NEW.specialist_id;
+
+    _multiplier := public.tier_multiplier(_rate_tier);
+    _session := COALESCE(OLD.session_duration, 60);
+
+    INSERT INTO public.minutes_ledger (
+      company_id, booking_id, entry_type, minutes, rate_tier, multiplier, session_minutes, actor_user_id, note
+    )
+    VALUES (
+      NEW.company_id, NEW.id, 'deduction', CEIL(_session * _multiplier)::integer, _rate_tier, _multiplier, _session,
+      auth.uid(), CASE WHEN NEW.status = 'no_show' THEN 'No-show' ELSE 'Late cancellation' END
+    )
+    RETURNING minutes INTO NEW.minutes_charged;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_booking_cancellation_policy
+  BEFORE UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.apply_booking_cancellation_policy();
@@ -0,0 +1,390 @@
+-- Waitlist for fully booked specialists.
+-- Employees join a specialist's waitlist, optionally limited to certain weekdays and times of day.
+-- When a matching slot opens (a cancellation, a declined request or new availability), the first
+-- person in line is offered it and the slot is held for them for a short window; if they don't
+-- claim it in time, the hold lapses and the next matching person is offered it.
+
+CREATE TABLE public.waitlist_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  specialist_id UUID NOT NULL REFERENCES public.specialists(id) ON DELETE CASCADE,
+  employee_user_id UUID NOT NULL,
+  weekdays SMALLINT[] NOT NULL DEFAULT '{}' CHECK (weekdays <@ ARRAY[0,1,2,3,4,5,6]::SMALLINT[]),
+  earliest_time TIME,
+  latest_time TIME,
+  timezone TEXT NOT NULL DEFAULT 'UTC',
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'fulfilled', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (earliest_time IS NULL OR latest_time IS NULL OR latest_time > earliest_time)
+);
+
+COMMENT ON COLUMN public.waitlist_entries.weekdays IS 'Acceptable days of week (0=Sunday ... 6=Saturday); empty means any day';
+COMMENT ON COLUMN public.waitlist_entries.earliest_time IS 'Earliest acceptable session start, wall-clock time in the entry''s timezone';
+COMMENT ON COLUMN public.waitlist_entries.latest_time IS 'Latest acceptable session start, wall-clock time in the entry''s timezone';
+
+-- One place in line per employee and specialist
+CREATE UNIQUE INDEX idx_waitlist_entries_active
+  ON public.waitlist_entries(specialist_id, employee_user_id)
+  WHERE status = 'waiting';
+
+CREATE INDEX idx_waitlist_entries_queue ON public.waitlist_entries(specialist_id, created_at) WHERE status = 'waiting';
+
+ALTER TABLE public.waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view their own waitlist entries"
+ON public.waitlist_entries FOR SELECT
+USING (employee_user_id = auth.uid());
+
+CREATE POLICY "Employees can join waitlists"
+ON public.waitlist_entries FOR INSERT
+TO authenticated
+WITH CHECK (employee_user_id = auth.uid() AND status = 'waiting');
+
+CREATE POLICY "Employees can update their own waitlist entries"
+ON public.waitlist_entries FOR UPDATE
+USING (employee_user_id = auth.uid())
+WITH CHECK (employee_user_id = auth.uid() AND status IN ('waiting', 'cancelled'));
+
+CREATE POLICY "Specialists can view their waitlist"
+ON public.waitlist_entries FOR SELECT
+USING (public.is_specialist_owner(auth.uid(), specialist_id));
+
+CREATE POLICY "Admins can view all waitlist entries"
+ON public.waitlist_entries FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_waitlist_entries_updated_at
+  BEFORE UPDATE ON public.waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER validate_waitlist_entries_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON public.waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION public.validate_timezone();
+
+-- Each time a slot is offered to someone in line. slot_start is kept because open slots are
+-- regenerated when availability changes, so the same time can come back with a new slot id.
+CREATE TABLE public.waitlist_offers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entry_id UUID NOT NULL REFERENCES public.waitlist_entries(id) ON DELETE CASCADE,
+  slot_id UUID REFERENCES public.availability_slots(id) ON DELETE SET NULL,
+  slot_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'claimed', 'expired')),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  notified_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (entry_id, slot_start)
+);
+
+CREATE INDEX idx_waitlist_offers_pending ON public.waitlist_offers(expires_at) WHERE status = 'pending';
+
+ALTER TABLE public.waitlist_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view offers made to them"
+ON public.waitlist_offers FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.waitlist_entries e
+    WHERE e.id = waitlist_offers.entry_id AND e.employee_user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view all waitlist offers"
+ON public.waitlist_offers FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- A slot offered to someone on the waitlist is held for them until the offer expires
+ALTER TABLE public.availability_slots
+ADD COLUMN reserved_for_user_id UUID,
+ADD COLUMN reserved_until TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.availability_slots.reserved_for_user_id IS 'Employee a waitlist offer holds this slot for';
+COMMENT ON COLUMN public.availability_slots.reserved_until IS 'End of the waitlist hold; after this anyone can book the slot';
+
+-- True when a slot starting at _start suits the entry's days and times
+CREATE OR REPLACE FUNCTION public.waitlist_entry_matches(
+  _weekdays smallint[],
+  _earliest_time time,
+  _latest_time time,
+  _timezone text,
+  _start timestamp with time zone
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    (cardinality(_weekdays) = 0 OR EXTRACT(DOW FROM _start AT TIME ZONE _timezone)::smallint = ANY (_weekdays))
+    AND (_earliest_time IS NULL OR (_start AT TIME ZONE _timezone)::time >= _earliest_time)
+    AND (_latest_time IS NULL OR (_start AT TIME ZONE _timezone)::time <= _latest_time)
+$$;
+
+-- Expire lapsed offers and offer every open slot to the first matching person in line.
+-- Returns the offers created by this run so the caller can notify those employees.
+CREATE OR REPLACE FUNCTION public.advance_waitlist(_claim_window interval DEFAULT interval '2 hours')
+RETURNS SETOF public.waitlist_offers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _slot public.availability_slots%ROWTYPE;
+  _entry public.waitlist_entries%ROWTYPE;
+  _offer public.waitlist_offers%ROWTYPE;
+BEGIN
+  UPDATE public.waitlist_offers
+  SET status = 'expired'
+  WHERE status = 'pending' AND expires_at <= now();
+
+  UPDATE public.availability_slots
+  SET reserved_for_user_id = NULL, reserved_until = NULL
+  WHERE reserved_until IS NOT NULL AND reserved_until <= now();
+
+  FOR _slot IN
+    SELECT s.* FROM public.availability_slots s
+    WHERE NOT COALESCE(s.is_booked, false)
+      AND s.reserved_until IS NULL
+      -- Leave enough time to claim the slot before it starts
+      AND s.start_time > now() + _claim_window
+      AND EXISTS (
+        SELECT 1 FROM public.waitlist_entries e
+        WHERE e.specialist_id = s.specialist_id AND e.status = 'waiting'
+      )
+    ORDER BY s.start_time
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    SELECT e.* INTO _entry
+    FROM public.waitlist_entries e
+    WHERE e.specialist_id = _slot.specialist_id
+      AND e.status = 'waiting'
+      AND public.waitlist_entry_matches(e.weekdays, e.earliest_time, e.latest_time, e.timezone, _slot.start_time)
+      -- One open offer per person, and never the same time twice
+      AND NOT EXISTS (
+        SELECT 1 FROM public.waitlist_offers o
+        WHERE o.entry_id = e.id AND (o.status = 'pending' OR o.slot_start = _slot.start_time)
+      )
+    ORDER BY e.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    CONTINUE WHEN NOT FOUND;
+
+    INSERT INTO public.waitlist_offers (entry_id, slot_id, slot_start, expires_at)
+    VALUES (_entry.id, _slot.id, _slot.start_time, now() + _claim_window)
+    RETURNING * INTO _offer;
+
+    UPDATE public.availability_slots
+    SET reserved_for_user_id = _entry.employee_user_id,
+        reserved_until = _offer.expires_at
+    WHERE id = _slot.id;
+
+    RETURN NEXT _offer;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.advance_waitlist(interval) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.advance_waitlist(interval) TO service_role;
+
+-- Regeneration replaced every open slot; slots currently held for a waitlist offer are now kept
+CREATE OR REPLACE FUNCTION public.expand_availability_rules(_specialist_id uuid, _days integer DEFAULT 56)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _rule public.availability_rules%ROWTYPE;
+  _day date;
+  _today date;
+  _slot_start timestamp with time zone;
+  _slot_end timestamp with time zone;
+  _window_end timestamp with time zone;
+  _inserted integer := 0;
+BEGIN
+  DELETE FROM public.availability_slots s
+  WHERE s.specialist_id = _specialist_id
+    AND s.rule_id IS NOT NULL
+    AND NOT COALESCE(s.is_booked, false)
+    AND s.start_time > now()
+    AND (s.reserved_until IS NULL OR s.reserved_until <= now())
+    AND NOT EXISTS (SELECT 1 FROM public.bookings b WHERE b.slot_id = s.id);
+
+  FOR _rule IN
+    SELECT * FROM public.availability_rules
+    WHERE specialist_id = _specialist_id AND is_active
+  LOOP
+    _today := (now() AT TIME ZONE _rule.timezone)::date;
+
+    FOR _day IN
+      SELECT d::date FROM generate_series(_today, _today + _days, interval '1 day') AS d
+    LOOP
+      CONTINUE WHEN NOT (EXTRACT(DOW FROM _day)::smallint = ANY (_rule.weekdays));
+
+      -- Local wall-clock time -> absolute instant, resolved per day so DST shifts are honoured
+      _slot_start := (_day + _rule.start_time) AT TIME ZONE _rule.timezone;
+      _window_end := (_day + _rule.end_time) AT TIME ZONE _rule.timezone;
+
+      LOOP
+        _slot_end := _slot_start + make_interval(mins => _rule.session_minutes);
+        EXIT WHEN _slot_end > _window_end;
+
+        IF _slot_start > now() AND NOT EXISTS (
+          SELECT 1 FROM public.availability_slots s
+          WHERE s.specialist_id = _specialist_id
+            AND s.start_time < _slot_end
+            AND s.end_time > _slot_start
+        ) THEN
+          INSERT INTO public.availability_slots (specialist_id, start_time, end_time, rule_id)
+          VALUES (_specialist_id, _slot_start, _slot_end, _rule.id);
+          _inserted := _inserted + 1;
+        END IF;
+
+        _slot_start := _slot_end + make_interval(mins => _rule.buffer_minutes);
+      END LOOP;
+    END LOOP;
+  END LOOP;
+
+  RETURN _inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expand_availability_rules(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+-- Held slots can only be booked by the person they are held for, and booking a specialist
+-- takes the employee off that specialist's waitlist
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _employee_user_id uuid,
+  _specialist_id uuid,
+  _slot_id uuid,
+  _proposed_datetime timestamp with time zone,
+  _session_duration integer,
+  _session_type text,
+  _notes text,
+  _minutes_required integer
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _slot public.availability_slots%ROWTYPE;
+  _booking public.bookings%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.specialists
+    WHERE id = _specialist_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Specialist is not available for booking';
+  END IF;
+
+  -- Resolve the employee's company the same way the old bookings INSERT policy did.
+  -- The row is locked so concurrent requests from the same company check the balance one at a time.
+  SELECT c.* INTO _company
+  FROM public.company_employees ce
+  JOIN public.companies c ON c.id = ce.company_id
+  WHERE ce.user_id = _employee_user_id
+  ORDER BY (ce.status = 'accepted') DESC
+  LIMIT 1
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    SELECT * INTO _company
+    FROM public.companies
+    WHERE admin_user_id = _employee_user_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No company found for this employee';
+  END IF;
+
+  IF _company.subscription_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Your company does not have an active subscription';
+  END IF;
+
+  IF COALESCE(_company.minutes_included, 0) - COALESCE(_company.minutes_used, 0) - _company.minutes_reserved < _minutes_required THEN
+    RAISE EXCEPTION 'Not enough wellness minutes left for this session';
+  END IF;
+
+  IF _slot_id IS NOT NULL THEN
+    SELECT * INTO _slot
+    FROM public.availability_slots
+    WHERE id = _slot_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR _slot.specialist_id <> _specialist_id THEN
+      RAISE EXCEPTION 'Time slot not found';
+    END IF;
+
+    IF COALESCE(_slot.is_booked, false) THEN
+      RAISE EXCEPTION 'This time slot has just been booked by someone else';
+    END IF;
+
+    IF _slot.reserved_until > now() AND _slot.reserved_for_user_id IS DISTINCT FROM _employee_user_id THEN
+      RAISE EXCEPTION 'This time slot is being held for someone on the waitlist';
+    END IF;
+
+    UPDATE public.availability_slots
+    SET is_booked = true,
+        reserved_for_user_id = NULL,
+        reserved_until = NULL
+    WHERE id = _slot_id;
+
+    _proposed_datetime := _slot.start_time;
+  END IF;
+
+  IF _proposed_datetime IS NULL OR _proposed_datetime <= now() THEN
+    RAISE EXCEPTION 'Please choose a time in the future';
+  END IF;
+
+  INSERT INTO public.bookings (
+    slot_id,
+    employee_user_id,
+    specialist_id,
+    company_id,
+    proposed_datetime,
+    session_duration,
+    session_type,
+    notes,
+    status
+  )
+  VALUES (
+    _slot_id,
+    _employee_user_id,
+    _specialist_id,
+    _company.id,
+    _proposed_datetime,
+    _session_duration,
+    _session_type,
+    _notes,
+    'pending'
+  )
+  RETURNING * INTO _booking;
+
+  -- Any other slot still held for this employee goes back to the queue
+  UPDATE public.availability_slots
+  SET reserved_for_user_id = NULL, reserved_until = NULL
+  WHERE specialist_id = _specialist_id AND reserved_for_user_id = _employee_user_id;
+
+  UPDATE public.waitlist_offers o
+  SET status = CASE WHEN o.slot_id = _slot_id THEN 'claimed' ELSE 'expired' END
+  FROM public.waitlist_entries e
+  WHERE o.entry_id = e.id
+    AND e.employee_user_id = _employee_user_id
+    AND e.specialist_id = _specialist_id
+    AND o.status = 'pending';
+
+  UPDATE public.waitlist_entries
+  SET status = 'fulfilled'
+  WHERE employee_user_id = _employee_user_id
+    AND specialist_id = _specialist_id
+    AND status = 'waiting';
+
+  RETURN _booking;
+END;
+$$;
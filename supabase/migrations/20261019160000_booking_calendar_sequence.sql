@@ -0,0 +1,25 @@
+-- Calendar invites for a booking share one UID, so calendar apps need an increasing SEQUENCE to
+-- tell which version of the event is current. Every change to the session's time or status bumps it.
+
+ALTER TABLE public.bookings ADD COLUMN calendar_sequence INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.bookings.calendar_sequence IS 'RFC 5545 SEQUENCE for this booking''s calendar invites; bumped on every time or status change';
+
+CREATE OR REPLACE FUNCTION public.bump_booking_calendar_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.proposed_datetime IS DISTINCT FROM OLD.proposed_datetime
+    OR NEW.confirmed_datetime IS DISTINCT FROM OLD.confirmed_datetime THEN
+    NEW.calendar_sequence := OLD.calendar_sequence + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_booking_calendar_sequence
+  BEFORE UPDATE OF status, proposed_datetime, confirmed_datetime ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.bump_booking_calendar_sequence();
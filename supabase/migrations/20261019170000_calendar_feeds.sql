@@ -0,0 +1,19 @@
+-- Personal calendar subscription feeds.
+-- Feed URLs carry a token signed with a server-side key over the user id and this per-user
+-- secret; regenerating the URL replaces the secret, which invalidates every earlier link.
+
+CREATE TABLE public.calendar_feeds (
+  user_id UUID PRIMARY KEY,
+  secret TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.calendar_feeds IS 'Per-user secret behind the signed calendar feed URL; only the calendar-feed edge function reads it';
+
+-- No policies: the secret never leaves the edge function, which uses the service role
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_calendar_feeds_updated_at
+  BEFORE UPDATE ON public.calendar_feeds
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,557 @@
+-- Group sessions and workshops.
+-- Bookings are strictly one employee with one specialist. Specialists can now publish group
+-- sessions (a team breathwork class, a workshop) with a capacity and a per-attendee minutes cost,
+-- optionally restricted to one company. Employees register, or join the waitlist once it is full,
+-- and share one video room. Completing the session charges each attendee's own company.
+
+CREATE TABLE public.group_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  specialist_id UUID NOT NULL REFERENCES public.specialists(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (length(trim(title)) > 0),
+  description TEXT,
+  start_time TIMESTAMP WITH TIME ZONE NOT NULL,
+  duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (duration_minutes > 0),
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  minutes_per_attendee INTEGER NOT NULL CHECK (minutes_per_attendee >= 0),
+  company_id UUID REFERENCES public.companies(id) ON DELETE CASCADE,
+  meeting_link TEXT NOT NULL DEFAULT ('hollyaid-group-' || replace(gen_random_uuid()::text, '-', '')),
+  status TEXT NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'cancelled', 'completed')),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.group_sessions.minutes_per_attendee IS 'Minutes charged to each attendee''s company on completion';
+COMMENT ON COLUMN public.group_sessions.company_id IS 'When set, only employees of this company can register';
+COMMENT ON COLUMN public.group_sessions.meeting_link IS 'Shared JaaS room name; read through get_group_session_room so only attendees get it';
+
+CREATE INDEX idx_group_sessions_upcoming ON public.group_sessions(start_time) WHERE status = 'scheduled';
+CREATE INDEX idx_group_sessions_specialist ON public.group_sessions(specialist_id, start_time);
+
+CREATE TABLE public.group_session_attendees (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES public.group_sessions(id) ON DELETE CASCADE,
+  employee_user_id UUID NOT NULL,
+  company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'registered' CHECK (status IN ('registered', 'waitlisted', 'cancelled', 'attended', 'no_show')),
+  minutes_reserved INTEGER NOT NULL DEFAULT 0,
+  minutes_charged INTEGER,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (session_id, employee_user_id)
+);
+
+COMMENT ON COLUMN public.group_session_attendees.joined_at IS 'When the employee last registered or joined the waitlist; the waitlist is served in this order';
+
+CREATE INDEX idx_group_session_attendees_queue ON public.group_session_attendees(session_id, status, joined_at);
+CREATE INDEX idx_group_session_attendees_employee ON public.group_session_attendees(employee_user_id);
+
+-- Group deductions point at the attendee; a retried completion can never charge twice
+ALTER TABLE public.minutes_ledger
+  ADD COLUMN group_attendee_id UUID REFERENCES public.group_session_attendees(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_minutes_ledger_group_attendee_entry
+  ON public.minutes_ledger(group_attendee_id, entry_type)
+  WHERE group_attendee_id IS NOT NULL;
+
+ALTER TABLE public.group_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.group_session_attendees ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Employees can view group sessions open to them"
+ON public.group_sessions FOR SELECT
+TO authenticated
+USING (
+  company_id IS NULL
+  OR EXISTS (
+    SELECT 1 FROM public.company_employees ce
+    WHERE ce.user_id = auth.uid() AND ce.company_id = group_sessions.company_id
+  )
+  OR public.is_company_admin(auth.uid(), company_id)
+);
+
+CREATE POLICY "Specialists can view their own group sessions"
+ON public.group_sessions FOR SELECT
+USING (public.is_specialist_owner(auth.uid(), specialist_id));
+
+CREATE POLICY "Admins can view all group sessions"
+ON public.group_sessions FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Specialists can create their own group sessions"
+ON public.group_sessions FOR INSERT
+WITH CHECK (public.is_specialist_owner(auth.uid(), specialist_id) AND status = 'scheduled');
+
+CREATE POLICY "Specialists can update their own group sessions"
+ON public.group_sessions FOR UPDATE
+USING (public.is_specialist_owner(auth.uid(), specialist_id) OR has_role(auth.uid(), 'admin'::app_role));
+
+-- The room name is left out of the column grants; attendees get it from get_group_session_room
+REVOKE SELECT, INSERT, UPDATE ON public.group_sessions FROM anon, authenticated;
+GRANT SELECT (
+  id, specialist_id, title, description, start_time, duration_minutes, capacity,
+  minutes_per_attendee, company_id, status, completed_at, created_at, updated_at
+) ON public.group_sessions TO authenticated;
+GRANT INSERT (
+  specialist_id, title, description, start_time, duration_minutes, capacity, minutes_per_attendee, company_id
+) ON public.group_sessions TO authenticated;
+GRANT UPDATE (
+  title, description, start_time, duration_minutes, capacity, minutes_per_attendee, company_id, status
+) ON public.group_sessions TO authenticated;
+
+-- Attendee rows only change through the functions below
+CREATE POLICY "Employees can view their own group registrations"
+ON public.group_session_attendees FOR SELECT
+USING (auth.uid() = employee_user_id);
+
+CREATE POLICY "Specialists can view attendees of their group sessions"
+ON public.group_session_attendees FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.group_sessions gs
+    WHERE gs.id = group_session_attendees.session_id
+      AND public.is_specialist_owner(auth.uid(), gs.specialist_id)
+  )
+);
+
+CREATE POLICY "Company admins can view their employees' group registrations"
+ON public.group_session_attendees FOR SELECT
+USING (public.is_company_admin(auth.uid(), company_id));
+
+CREATE POLICY "Admins can view all group registrations"
+ON public.group_session_attendees FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Specialists see who is coming
+CREATE POLICY "Specialists can view their group session attendees' profiles"
+ON public.profiles FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.group_session_attendees a
+    JOIN public.group_sessions gs ON gs.id = a.session_id
+    WHERE a.employee_user_id = profiles.user_id
+      AND public.is_specialist_owner(auth.uid(), gs.specialist_id)
+  )
+);
+
+CREATE TRIGGER update_group_sessions_updated_at
+  BEFORE UPDATE ON public.group_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_group_session_attendees_updated_at
+  BEFORE UPDATE ON public.group_session_attendees
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- A registered seat holds the session's minutes on the attendee's company, like an approved booking
+CREATE OR REPLACE FUNCTION public.apply_group_attendee_minutes_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available integer;
+  _required integer;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'registered' AND OLD.minutes_reserved > 0 THEN
+    UPDATE public.companies
+    SET minutes_reserved = GREATEST(0, minutes_reserved - OLD.minutes_reserved)
+    WHERE id = OLD.company_id;
+
+    NEW.minutes_reserved := 0;
+  END IF;
+
+  IF NEW.status = 'registered' THEN
+    SELECT minutes_per_attendee INTO _required
+    FROM public.group_sessions
+    WHERE id = NEW.session_id;
+
+    SELECT COALESCE(minutes_included, 0) - COALESCE(minutes_used, 0) - minutes_reserved
+    INTO _available
+    FROM public.companies
+    WHERE id = NEW.company_id
+    FOR UPDATE;
+
+    IF _available < _required THEN
+      RAISE EXCEPTION 'Your company does not have enough wellness minutes left for this session (% needed, % available)',
+        _required, GREATEST(_available, 0);
+    END IF;
+
+    UPDATE public.companies
+    SET minutes_reserved = minutes_reserved + _required
+    WHERE id = NEW.company_id;
+
+    NEW.minutes_reserved := _required;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_group_attendee_minutes_hold
+  BEFORE INSERT OR UPDATE OF status ON public.group_session_attendees
+  FOR EACH ROW EXECUTE FUNCTION public.apply_group_attendee_minutes_hold();
+
+CREATE OR REPLACE FUNCTION public.guard_group_session_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _registered integer;
+BEGIN
+  IF OLD.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'A % group session cannot be changed', OLD.status;
+  END IF;
+
+  IF NEW.status = 'completed' AND current_setting('hollyaid.group_session_completion', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Group sessions must be completed through complete_group_session so attendees are charged';
+  END IF;
+
+  SELECT COUNT(*) INTO _registered
+  FROM public.group_session_attendees
+  WHERE session_id = NEW.id AND status = 'registered';
+
+  IF NEW.minutes_per_attendee IS DISTINCT FROM OLD.minutes_per_attendee AND _registered > 0 THEN
+    RAISE EXCEPTION 'The minutes cost cannot change once employees have registered';
+  END IF;
+
+  IF NEW.capacity < _registered THEN
+    RAISE EXCEPTION 'Capacity cannot be lower than the % employees already registered', _registered;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_group_session_update
+  BEFORE UPDATE ON public.group_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.guard_group_session_update();
+
+-- Cancelling a session gives every held seat back; the registrations stay as they were so the
+-- cancellation email reaches everyone who had a seat or was waiting for one
+CREATE OR REPLACE FUNCTION public.release_group_session_holds()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    UPDATE public.companies c
+    SET minutes_reserved = GREATEST(0, c.minutes_reserved - held.minutes)
+    FROM (
+      SELECT company_id, SUM(minutes_reserved) AS minutes
+      FROM public.group_session_attendees
+      WHERE session_id = NEW.id AND status = 'registered' AND minutes_reserved > 0
+      GROUP BY company_id
+    ) held
+    WHERE c.id = held.company_id;
+
+    UPDATE public.group_session_attendees
+    SET minutes_reserved = 0
+    WHERE session_id = NEW.id AND minutes_reserved > 0;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER release_group_session_holds
+  AFTER UPDATE OF status ON public.group_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.release_group_session_holds();
+
+-- Register the calling employee, or put them on the waitlist when the session is full.
+-- Locking the session row serialises registrations, so capacity can't be exceeded.
+CREATE OR REPLACE FUNCTION public.register_for_group_session(_session_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _session public.group_sessions%ROWTYPE;
+  _company_id uuid;
+  _registered integer;
+  _status text;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO _session FROM public.group_sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _session.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This group session is not open for registration';
+  END IF;
+
+  IF _session.start_time <= now() THEN
+    RAISE EXCEPTION 'This group session has already started';
+  END IF;
+
+  _company_id := public.resolve_employee_company(_user_id);
+  IF _company_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.companies WHERE id = _company_id AND subscription_status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Group sessions are available to employees of companies with an active plan';
+  END IF;
+
+  IF _session.company_id IS NOT NULL AND _session.company_id <> _company_id THEN
+    RAISE EXCEPTION 'This group session is reserved for another company';
+  END IF;
+
+  SELECT COUNT(*) INTO _registered
+  FROM public.group_session_attendees
+  WHERE session_id = _session_id AND status = 'registered';
+
+  _status := CASE WHEN _registered < _session.capacity THEN 'registered' ELSE 'waitlisted' END;
+
+  INSERT INTO public.group_session_attendees (session_id, employee_user_id, company_id, status)
+  VALUES (_session_id, _user_id, _company_id, _status)
+  ON CONFLICT (session_id, employee_user_id) DO UPDATE
+  SET status = EXCLUDED.status,
+      company_id = EXCLUDED.company_id,
+      joined_at = now()
+  WHERE group_session_attendees.status = 'cancelled';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are already signed up for this session';
+  END IF;
+
+  RETURN _status;
+END;
+$$;
+
+-- Give a freed seat to the first waitlisted employee whose company can cover it.
+-- Returns the promoted attendee, or NULL when nobody could take the seat.
+CREATE OR REPLACE FUNCTION public.promote_group_waitlist(_session_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _candidate record;
+BEGIN
+  IF (
+    SELECT COUNT(*) FROM public.group_session_attendees
+    WHERE session_id = _session_id AND status = 'registered'
+  ) >= (SELECT capacity FROM public.group_sessions WHERE id = _session_id) THEN
+    RETURN NULL;
+  END IF;
+
+  FOR _candidate IN
+    SELECT id FROM public.group_session_attendees
+    WHERE session_id = _session_id AND status = 'waitlisted'
+    ORDER BY joined_at
+  LOOP
+    BEGIN
+      UPDATE public.group_session_attendees SET status = 'registered' WHERE id = _candidate.id;
+      RETURN _candidate.id;
+    EXCEPTION WHEN raise_exception THEN
+      -- Their company is out of minutes; they keep their place and the next person is tried
+      CONTINUE;
+    END;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.promote_group_waitlist(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Cancel the calling employee's seat or waitlist place. Returns the attendee promoted into the
+-- freed seat, if any, so they can be told.
+CREATE OR REPLACE FUNCTION public.leave_group_session(_session_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.group_sessions%ROWTYPE;
+  _previous text;
+BEGIN
+  SELECT * INTO _session FROM public.group_sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND OR _session.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This group session can no longer be changed';
+  END IF;
+
+  SELECT status INTO _previous
+  FROM public.group_session_attendees
+  WHERE session_id = _session_id AND employee_user_id = auth.uid()
+  FOR UPDATE;
+
+  IF _previous IS NULL OR _previous NOT IN ('registered', 'waitlisted') THEN
+    RAISE EXCEPTION 'You are not signed up for this session';
+  END IF;
+
+  UPDATE public.group_session_attendees
+  SET status = 'cancelled'
+  WHERE session_id = _session_id AND employee_user_id = auth.uid();
+
+  IF _previous = 'registered' AND _session.start_time > now() THEN
+    RETURN public.promote_group_waitlist(_session_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- The shared room, for the specialist and employees holding a seat
+CREATE OR REPLACE FUNCTION public.get_group_session_room(_session_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.group_sessions%ROWTYPE;
+BEGIN
+  SELECT * INTO _session FROM public.group_sessions WHERE id = _session_id;
+
+  IF NOT FOUND OR _session.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'This group session is not running';
+  END IF;
+
+  IF NOT (
+    public.is_specialist_owner(auth.uid(), _session.specialist_id)
+    OR EXISTS (
+      SELECT 1 FROM public.group_session_attendees
+      WHERE session_id = _session_id AND employee_user_id = auth.uid() AND status = 'registered'
+    )
+  ) THEN
+    RAISE EXCEPTION 'Only registered attendees can join this session';
+  END IF;
+
+  RETURN _session.meeting_link;
+END;
+$$;
+
+-- Complete a session and charge every registered attendee's company in one transaction.
+-- Attendees listed as absent become no-shows and are charged only if the booking policy says so.
+CREATE OR REPLACE FUNCTION public.complete_group_session(
+  _session_id uuid,
+  _absent_attendee_ids uuid[] DEFAULT '{}'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _session public.group_sessions%ROWTYPE;
+  _charge_no_shows boolean;
+  _attendee record;
+  _absent boolean;
+  _charged integer;
+  _charged_count integer := 0;
+BEGIN
+  SELECT * INTO _session FROM public.group_sessions WHERE id = _session_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Group session not found';
+  END IF;
+
+  IF NOT (public.is_specialist_owner(auth.uid(), _session.specialist_id) OR has_role(auth.uid(), 'admin'::app_role)) THEN
+    RAISE EXCEPTION 'Only the specialist running this session can complete it';
+  END IF;
+
+  IF _session.status <> 'scheduled' THEN
+    RAISE EXCEPTION 'Group session cannot be completed. Current status: %', _session.status;
+  END IF;
+
+  IF _session.start_time > now() THEN
+    RAISE EXCEPTION 'A group session can only be completed once it has started';
+  END IF;
+
+  SELECT charge_company INTO _charge_no_shows FROM public.booking_policy;
+
+  FOR _attendee IN
+    SELECT id, company_id FROM public.group_session_attendees
+    WHERE session_id = _session_id AND status = 'registered'
+    FOR UPDATE
+  LOOP
+    _absent := _attendee.id = ANY(_absent_attendee_ids);
+    _charged := NULL;
+
+    IF _attendee.company_id IS NOT NULL
+      AND _session.minutes_per_attendee > 0
+      AND (NOT _absent OR COALESCE(_charge_no_shows, true)) THEN
+      INSERT INTO public.minutes_ledger (
+        company_id, group_attendee_id, entry_type, minutes, session_minutes, actor_user_id, note
+      )
+      VALUES (
+        _attendee.company_id, _attendee.id, 'deduction', _session.minutes_per_attendee, _session.duration_minutes,
+        auth.uid(), CASE WHEN _absent THEN 'Group session no-show: ' ELSE 'Group session: ' END || _session.title
+      )
+      RETURNING minutes INTO _charged;
+
+      _charged_count := _charged_count + 1;
+    END IF;
+
+    UPDATE public.group_session_attendees
+    SET status = CASE WHEN _absent THEN 'no_show' ELSE 'attended' END,
+        minutes_charged = _charged
+    WHERE id = _attendee.id;
+  END LOOP;
+
+  UPDATE public.group_session_attendees
+  SET status = 'cancelled'
+  WHERE session_id = _session_id AND status = 'waitlisted';
+
+  PERFORM set_config('hollyaid.group_session_completion', 'on', true);
+
+  UPDATE public.group_sessions
+  SET status = 'completed', completed_at = now()
+  WHERE id = _session_id;
+
+  PERFORM set_config('hollyaid.group_session_completion', 'off', true);
+
+  RETURN _charged_count;
+END;
+$$;
+
+-- Seat counts for sessions the caller can see; attendee rows themselves stay private
+CREATE OR REPLACE FUNCTION public.get_group_session_seats(_session_ids uuid[])
+RETURNS TABLE(session_id uuid, registered_count integer, waitlisted_count integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    a.session_id,
+    COUNT(*) FILTER (WHERE a.status = 'registered')::integer,
+    COUNT(*) FILTER (WHERE a.status = 'waitlisted')::integer
+  FROM public.group_session_attendees a
+  JOIN public.group_sessions s ON s.id = a.session_id
+  WHERE a.session_id = ANY(_session_ids)
+    AND (
+      s.company_id IS NULL
+      OR s.company_id = public.resolve_employee_company(auth.uid())
+      OR public.is_company_admin(auth.uid(), s.company_id)
+      OR public.is_specialist_owner(auth.uid(), s.specialist_id)
+      OR public.has_role(auth.uid(), 'admin'::app_role)
+    )
+  GROUP BY a.session_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_for_group_session(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.leave_group_session(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_group_session_room(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.complete_group_session(uuid, uuid[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_group_session_seats(uuid[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.register_for_group_session(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_group_session(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_group_session_room(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_group_session(uuid, uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_group_session_seats(uuid[]) TO authenticated;
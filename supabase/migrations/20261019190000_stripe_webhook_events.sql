@@ -0,0 +1,21 @@
+-- Stripe webhook deliveries.
+-- Stripe retries an event until it gets a 2xx, and may deliver the same event more than once;
+-- stripe-webhook records each event id here and skips ones already processed.
+
+CREATE TABLE public.stripe_webhook_events (
+  event_id TEXT PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  company_id UUID REFERENCES public.companies(id) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  last_error TEXT,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.stripe_webhook_events IS 'Stripe events seen by the stripe-webhook edge function; processed_at is set once an event has been applied';
+COMMENT ON COLUMN public.stripe_webhook_events.last_error IS 'Why the latest attempt failed; Stripe retries the event until it succeeds';
+
+CREATE INDEX idx_stripe_webhook_events_company ON public.stripe_webhook_events(company_id, received_at DESC);
+
+-- No policies: only the webhook, using the service role, reads and writes these rows
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,215 @@
+-- Monthly minutes reset with per-plan rollover.
+-- Each billing period opens with a reset entry for the plan allowance. Unused minutes from the
+-- period before are carried into the new one as a rollover entry, capped by the plan's rule.
+-- Test accounts have no Stripe renewals, so their periods are moved forward on a schedule.
+
+-- Plan allowances matching WELLNESS_PLANS in src/lib/plans.ts
+CREATE OR REPLACE FUNCTION public.plan_allowance(_plan_type text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _plan_type
+    WHEN 'solopreneur' THEN 60
+    WHEN 'growth' THEN 1500
+    WHEN 'scale' THEN 3600
+    ELSE 500
+  END
+$$;
+
+-- Most unused minutes a plan carries into the next period, matching the rollover rules in src/lib/plans.ts
+CREATE OR REPLACE FUNCTION public.plan_rollover_cap(_plan_type text, _plan_minutes integer)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _plan_type
+    WHEN 'starter' THEN 120
+    WHEN 'growth' THEN FLOOR(_plan_minutes * 0.20)::integer
+    WHEN 'scale' THEN FLOOR(_plan_minutes * 0.25)::integer
+    ELSE 0
+  END
+$$;
+
+ALTER TABLE public.minutes_ledger DROP CONSTRAINT minutes_ledger_entry_type_check;
+ALTER TABLE public.minutes_ledger ADD CONSTRAINT minutes_ledger_entry_type_check
+  CHECK (entry_type IN ('grant', 'deduction', 'refund', 'reset', 'rollover'));
+
+-- One rollover per company per billing period
+CREATE UNIQUE INDEX idx_minutes_ledger_period_rollover
+  ON public.minutes_ledger(company_id, period_start)
+  WHERE entry_type = 'rollover';
+
+-- Rolled-over minutes count towards the period's allowance
+CREATE OR REPLACE VIEW public.company_minutes_balances
+WITH (security_invoker=on) AS
+SELECT
+  l.company_id,
+  MAX(l.period_start) FILTER (WHERE l.entry_type = 'reset') AS period_start,
+  COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type IN ('reset', 'grant', 'rollover')), 0)::integer AS minutes_included,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'deduction'), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'refund'), 0)
+  )::integer AS minutes_used
+FROM public.minutes_ledger l
+WHERE l.created_at >= COALESCE(
+  (
+    SELECT MAX(r.created_at) FROM public.minutes_ledger r
+    WHERE r.company_id = l.company_id AND r.entry_type = 'reset'
+  ),
+  '-infinity'::timestamptz
+)
+GROUP BY l.company_id;
+
+-- One row per billing period, for the billing history. A period runs from its reset until the
+-- next one; the rollover recorded with a reset belongs to the period it opens.
+CREATE VIEW public.company_billing_periods
+WITH (security_invoker=on) AS
+WITH periods AS (
+  SELECT
+    r.company_id,
+    r.period_start,
+    r.created_at AS started_at,
+    r.minutes AS plan_minutes,
+    LEAD(r.created_at) OVER (PARTITION BY r.company_id ORDER BY r.created_at) AS ended_at
+  FROM public.minutes_ledger r
+  WHERE r.entry_type = 'reset'
+)
+SELECT
+  p.company_id,
+  p.period_start,
+  p.started_at,
+  p.ended_at,
+  p.plan_minutes,
+  COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'rollover'), 0)::integer AS rollover_minutes,
+  COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'grant'), 0)::integer AS granted_minutes,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'deduction'), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'refund'), 0)
+  )::integer AS minutes_used
+FROM periods p
+LEFT JOIN public.minutes_ledger l
+  ON l.company_id = p.company_id
+  AND l.entry_type <> 'reset'
+  AND l.created_at >= p.started_at
+  AND (p.ended_at IS NULL OR l.created_at < p.ended_at)
+GROUP BY p.company_id, p.period_start, p.started_at, p.ended_at, p.plan_minutes;
+
+-- Open a billing period with the plan allowance plus any rollover, or top the current period up
+-- after an upgrade. Safe to call repeatedly with the same period: the reset is unique per period.
+CREATE OR REPLACE FUNCTION public.sync_plan_minutes(
+  _company_id uuid,
+  _plan_minutes integer,
+  _period_start timestamp with time zone,
+  _actor_user_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _plan_type text;
+  _reset public.minutes_ledger%ROWTYPE;
+  _has_reset boolean;
+  _granted integer;
+  _unused integer := 0;
+  _rollover integer := 0;
+BEGIN
+  -- Serialise concurrent syncs for the same company
+  SELECT plan_type INTO _plan_type FROM public.companies WHERE id = _company_id FOR UPDATE;
+
+  SELECT * INTO _reset
+  FROM public.minutes_ledger
+  WHERE company_id = _company_id AND entry_type = 'reset'
+  ORDER BY created_at DESC
+  LIMIT 1;
+  _has_reset := FOUND;
+
+  IF NOT _has_reset OR _reset.period_start IS DISTINCT FROM _period_start THEN
+    -- Only a period that follows the current one inherits its unused minutes
+    IF _has_reset AND _reset.period_start < _period_start THEN
+      SELECT GREATEST(minutes_included - minutes_used, 0) INTO _unused
+      FROM public.company_minutes_balances
+      WHERE company_id = _company_id;
+
+      _rollover := LEAST(COALESCE(_unused, 0), public.plan_rollover_cap(_plan_type, _plan_minutes));
+    END IF;
+
+    INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, period_start, actor_user_id, note, created_at)
+    VALUES (_company_id, 'reset', _plan_minutes, _period_start, _actor_user_id, 'Plan allowance for new period',
+            LEAST(_period_start, now()))
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND AND _rollover > 0 THEN
+      INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, period_start, actor_user_id, note, created_at)
+      VALUES (_company_id, 'rollover', _rollover, _period_start, _actor_user_id,
+              'Unused minutes carried over from the previous period', LEAST(_period_start, now()))
+      ON CONFLICT DO NOTHING;
+    END IF;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(minutes), 0) INTO _granted
+  FROM public.minutes_ledger
+  WHERE company_id = _company_id
+    AND entry_type IN ('reset', 'grant')
+    AND created_at >= _reset.created_at;
+
+  -- Downgrades take effect at renewal, so only ever add the difference
+  IF _plan_minutes > _granted THEN
+    INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, actor_user_id, note)
+    VALUES (_company_id, 'grant', _plan_minutes - _granted, _actor_user_id, 'Plan upgrade');
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_plan_minutes(uuid, integer, timestamp with time zone, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Test accounts never renew through Stripe; move each expired period on by a month at a time
+CREATE OR REPLACE FUNCTION public.renew_test_account_periods()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company record;
+  _start timestamp with time zone;
+  _end timestamp with time zone;
+BEGIN
+  FOR _company IN
+    SELECT id, plan_type, subscription_period_start, subscription_period_end
+    FROM public.companies
+    WHERE is_test_account = true
+      AND subscription_status = 'active'
+      AND subscription_period_end IS NOT NULL
+      AND subscription_period_end <= now()
+  LOOP
+    _start := _company.subscription_period_end;
+    _end := _start + interval '1 month';
+
+    -- Each missed month is its own period, so rollover is applied once per month
+    LOOP
+      PERFORM public.sync_plan_minutes(_company.id, public.plan_allowance(_company.plan_type), _start);
+
+      UPDATE public.companies
+      SET subscription_period_start = _start,
+          subscription_period_end = _end
+      WHERE id = _company.id;
+
+      EXIT WHEN _end > now();
+      _start := _end;
+      _end := _start + interval '1 month';
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.renew_test_account_periods() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'renew-test-account-periods',
+  '15 * * * *',
+  $$SELECT public.renew_test_account_periods()$$
+);
@@ -0,0 +1,328 @@
+-- One-off minute top-up packs.
+-- A company admin buys a pack through a Stripe payment-mode checkout; once Stripe confirms the
+-- payment the pack is credited to the current period as a 'topup' ledger entry. Pack minutes
+-- expire after the pack's validity days or at the end of the billing period, whichever is first.
+-- Plan minutes are used before pack minutes, and packs are used in the order they expire, so
+-- whatever is left of a pack when it expires is written off as an 'expiry' entry.
+
+CREATE TABLE public.minute_packs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  pack_id TEXT NOT NULL,
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  validity_days INTEGER NOT NULL CHECK (validity_days > 0),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'expired')),
+  stripe_checkout_session_id TEXT UNIQUE,
+  stripe_payment_intent_id TEXT,
+  purchased_by UUID,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (status = 'pending' OR (paid_at IS NOT NULL AND expires_at IS NOT NULL))
+);
+
+COMMENT ON TABLE public.minute_packs IS 'Top-up pack purchases; rows are created by create-topup-checkout and credited by credit_minute_pack';
+COMMENT ON COLUMN public.minute_packs.expires_at IS 'Set when the pack is credited: the earlier of validity_days from payment and the end of the billing period';
+
+CREATE INDEX idx_minute_packs_company ON public.minute_packs(company_id, created_at DESC);
+CREATE INDEX idx_minute_packs_expiring ON public.minute_packs(expires_at) WHERE status = 'paid';
+
+ALTER TABLE public.minute_packs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company admins can view their minute packs"
+ON public.minute_packs
+FOR SELECT
+USING (public.is_company_admin(auth.uid(), company_id));
+
+CREATE POLICY "Admins can view all minute packs"
+ON public.minute_packs
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_minute_packs_updated_at
+  BEFORE UPDATE ON public.minute_packs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.minutes_ledger ADD COLUMN minute_pack_id UUID REFERENCES public.minute_packs(id) ON DELETE SET NULL;
+
+ALTER TABLE public.minutes_ledger DROP CONSTRAINT minutes_ledger_entry_type_check;
+ALTER TABLE public.minutes_ledger ADD CONSTRAINT minutes_ledger_entry_type_check
+  CHECK (entry_type IN ('grant', 'deduction', 'refund', 'reset', 'rollover', 'topup', 'expiry'));
+
+-- A pack is credited once and written off once
+CREATE UNIQUE INDEX idx_minutes_ledger_pack_entry
+  ON public.minutes_ledger(minute_pack_id, entry_type)
+  WHERE minute_pack_id IS NOT NULL;
+
+-- Top-ups add to the period's allowance and expiries take unused pack minutes back out
+CREATE OR REPLACE VIEW public.company_minutes_balances
+WITH (security_invoker=on) AS
+SELECT
+  l.company_id,
+  MAX(l.period_start) FILTER (WHERE l.entry_type = 'reset') AS period_start,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type IN ('reset', 'grant', 'rollover', 'topup')), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'expiry'), 0)
+  )::integer AS minutes_included,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'deduction'), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'refund'), 0)
+  )::integer AS minutes_used
+FROM public.minutes_ledger l
+WHERE l.created_at >= COALESCE(
+  (
+    SELECT MAX(r.created_at) FROM public.minutes_ledger r
+    WHERE r.company_id = l.company_id AND r.entry_type = 'reset'
+  ),
+  '-infinity'::timestamptz
+)
+GROUP BY l.company_id;
+
+CREATE OR REPLACE VIEW public.company_billing_periods
+WITH (security_invoker=on) AS
+WITH periods AS (
+  SELECT
+    r.company_id,
+    r.period_start,
+    r.created_at AS started_at,
+    r.minutes AS plan_minutes,
+    LEAD(r.created_at) OVER (PARTITION BY r.company_id ORDER BY r.created_at) AS ended_at
+  FROM public.minutes_ledger r
+  WHERE r.entry_type = 'reset'
+)
+SELECT
+  p.company_id,
+  p.period_start,
+  p.started_at,
+  p.ended_at,
+  p.plan_minutes,
+  COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'rollover'), 0)::integer AS rollover_minutes,
+  COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'grant'), 0)::integer AS granted_minutes,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'deduction'), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'refund'), 0)
+  )::integer AS minutes_used,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'topup'), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'expiry'), 0)
+  )::integer AS topup_minutes
+FROM periods p
+LEFT JOIN public.minutes_ledger l
+  ON l.company_id = p.company_id
+  AND l.entry_type <> 'reset'
+  AND l.created_at >= p.started_at
+  AND (p.ended_at IS NULL OR l.created_at < p.ended_at)
+GROUP BY p.company_id, p.period_start, p.started_at, p.ended_at, p.plan_minutes;
+
+-- Minutes of the current period's live packs that are still unused; plan minutes are used first
+CREATE OR REPLACE FUNCTION public.unused_pack_minutes(_company_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH balance AS (
+    SELECT GREATEST(minutes_included - minutes_used, 0) AS unused
+    FROM public.company_minutes_balances
+    WHERE company_id = _company_id
+  ),
+  outstanding AS (
+    SELECT COALESCE(SUM(p.minutes), 0) AS minutes
+    FROM public.minute_packs p
+    JOIN public.minutes_ledger t ON t.minute_pack_id = p.id AND t.entry_type = 'topup'
+    WHERE p.company_id = _company_id
+      AND p.status = 'paid'
+      AND t.created_at >= (
+        SELECT MAX(r.created_at) FROM public.minutes_ledger r
+        WHERE r.company_id = _company_id AND r.entry_type = 'reset'
+      )
+  )
+  SELECT LEAST(COALESCE((SELECT unused FROM balance), 0), (SELECT minutes FROM outstanding))::integer
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unused_pack_minutes(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Mark a checkout's pack paid and add its minutes to the current period.
+-- Safe to call again for the same checkout (Stripe retries, test accounts): it credits once.
+CREATE OR REPLACE FUNCTION public.credit_minute_pack(
+  _checkout_session_id text,
+  _payment_intent_id text DEFAULT NULL
+)
+RETURNS public.minute_packs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pack public.minute_packs%ROWTYPE;
+  _period_end timestamp with time zone;
+BEGIN
+  SELECT * INTO _pack
+  FROM public.minute_packs
+  WHERE stripe_checkout_session_id = _checkout_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Minute pack not found for checkout %', _checkout_session_id;
+  END IF;
+
+  IF _pack.status <> 'pending' THEN
+    RETURN _pack;
+  END IF;
+
+  SELECT subscription_period_end INTO _period_end FROM public.companies WHERE id = _pack.company_id;
+
+  UPDATE public.minute_packs
+  SET status = 'paid',
+      stripe_payment_intent_id = COALESCE(_payment_intent_id, stripe_payment_intent_id),
+      paid_at = now(),
+      expires_at = LEAST(now() + make_interval(days => validity_days), COALESCE(_period_end, 'infinity'::timestamptz))
+  WHERE id = _pack.id
+  RETURNING * INTO _pack;
+
+  INSERT INTO public.minutes_ledger (company_id, minute_pack_id, entry_type, minutes, actor_user_id, note)
+  VALUES (_pack.company_id, _pack.id, 'topup', _pack.minutes, _pack.purchased_by,
+          format('Top-up pack: %s minutes', _pack.minutes));
+
+  RETURN _pack;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.credit_minute_pack(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.credit_minute_pack(text, text) TO service_role;
+
+-- Write off what is left of packs past their expiry. Packs credited before the latest reset
+-- already left the balance with that period, so they are only marked expired.
+CREATE OR REPLACE FUNCTION public.expire_minute_packs()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pack public.minute_packs%ROWTYPE;
+  _remaining integer;
+  _later integer;
+  _period_started_at timestamp with time zone;
+  _credited_at timestamp with time zone;
+BEGIN
+  FOR _pack IN
+    SELECT * FROM public.minute_packs
+    WHERE status = 'paid' AND expires_at <= now()
+    ORDER BY expires_at, paid_at
+  LOOP
+    PERFORM 1 FROM public.companies WHERE id = _pack.company_id FOR UPDATE;
+
+    SELECT MAX(created_at) INTO _period_started_at
+    FROM public.minutes_ledger
+    WHERE company_id = _pack.company_id AND entry_type = 'reset';
+
+    SELECT created_at INTO _credited_at
+    FROM public.minutes_ledger
+    WHERE minute_pack_id = _pack.id AND entry_type = 'topup';
+
+    IF _credited_at >= _period_started_at THEN
+      -- Packs are used in expiry order, so the ones expiring later keep their minutes first
+      SELECT COALESCE(SUM(p.minutes), 0)::integer INTO _later
+      FROM public.minute_packs p
+      JOIN public.minutes_ledger t ON t.minute_pack_id = p.id AND t.entry_type = 'topup'
+      WHERE p.company_id = _pack.company_id
+        AND p.status = 'paid'
+        AND p.id <> _pack.id
+        AND t.created_at >= _period_started_at;
+
+      _remaining := LEAST(_pack.minutes, GREATEST(public.unused_pack_minutes(_pack.company_id) - _later, 0));
+
+      IF _remaining > 0 THEN
+        INSERT INTO public.minutes_ledger (company_id, minute_pack_id, entry_type, minutes, note)
+        VALUES (_pack.company_id, _pack.id, 'expiry', _remaining, 'Unused top-up minutes expired')
+        ON CONFLICT DO NOTHING;
+      END IF;
+    END IF;
+
+    UPDATE public.minute_packs SET status = 'expired' WHERE id = _pack.id;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_minute_packs() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-minute-packs',
+  '*/15 * * * *',
+  $$SELECT public.expire_minute_packs()$$
+);
+
+-- Pack minutes never roll over: only unused plan minutes count towards the rollover
+CREATE OR REPLACE FUNCTION public.sync_plan_minutes(
+  _company_id uuid,
+  _plan_minutes integer,
+  _period_start timestamp with time zone,
+  _actor_user_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _plan_type text;
+  _reset public.minutes_ledger%ROWTYPE;
+  _has_reset boolean;
+  _granted integer;
+  _unused integer := 0;
+  _rollover integer := 0;
+BEGIN
+  -- Serialise concurrent syncs for the same company
+  SELECT plan_type INTO _plan_type FROM public.companies WHERE id = _company_id FOR UPDATE;
+
+  SELECT * INTO _reset
+  FROM public.minutes_ledger
+  WHERE company_id = _company_id AND entry_type = 'reset'
+  ORDER BY created_at DESC
+  LIMIT 1;
+  _has_reset := FOUND;
+
+  IF NOT _has_reset OR _reset.period_start IS DISTINCT FROM _period_start THEN
+    -- Only a period that follows the current one inherits its unused minutes
+    IF _has_reset AND _reset.period_start < _period_start THEN
+      SELECT GREATEST(minutes_included - minutes_used, 0) INTO _unused
+      FROM public.company_minutes_balances
+      WHERE company_id = _company_id;
+
+      _unused := GREATEST(COALESCE(_unused, 0) - public.unused_pack_minutes(_company_id), 0);
+      _rollover := LEAST(_unused, public.plan_rollover_cap(_plan_type, _plan_minutes));
+    END IF;
+
+    INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, period_start, actor_user_id, note, created_at)
+    VALUES (_company_id, 'reset', _plan_minutes, _period_start, _actor_user_id, 'Plan allowance for new period',
+            LEAST(_period_start, now()))
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND AND _rollover > 0 THEN
+      INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, period_start, actor_user_id, note, created_at)
+      VALUES (_company_id, 'rollover', _rollover, _period_start, _actor_user_id,
+              'Unused minutes carried over from the previous period', LEAST(_period_start, now()))
+      ON CONFLICT DO NOTHING;
+    END IF;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(minutes), 0) INTO _granted
+  FROM public.minutes_ledger
+  WHERE company_id = _company_id
+    AND entry_type IN ('reset', 'grant')
+    AND created_at >= _reset.created_at;
+
+  -- Downgrades take effect at renewal, so only ever add the difference
+  IF _plan_minutes > _granted THEN
+    INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, actor_user_id, note)
+    VALUES (_company_id, 'grant', _plan_minutes - _granted, _actor_user_id, 'Plan upgrade');
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_plan_minutes(uuid, integer, timestamp with time zone, uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,355 @@
+-- Per-department minute budgets.
+-- Company admins can split each period's allowance between the departments their employees list
+-- on their profile. A hard cap blocks booking requests once the department has used its budget;
+-- a soft cap lets the request through but holds it for the company admin's approval before the
+-- specialist sees it. Bookings record the employee's department when they are requested.
+
+CREATE TABLE public.department_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  department TEXT NOT NULL CHECK (length(trim(department)) > 0),
+  minutes_budget INTEGER NOT NULL CHECK (minutes_budget >= 0),
+  cap_type TEXT NOT NULL DEFAULT 'hard' CHECK (cap_type IN ('hard', 'soft')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.department_budgets.department IS 'Matched case-insensitively against profiles.department';
+COMMENT ON COLUMN public.department_budgets.minutes_budget IS 'Minutes the department can use in each billing period';
+COMMENT ON COLUMN public.department_budgets.cap_type IS 'hard blocks requests over budget; soft sends them to the company admin for approval';
+
+CREATE UNIQUE INDEX idx_department_budgets_company_department
+  ON public.department_budgets(company_id, lower(trim(department)));
+
+ALTER TABLE public.department_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company admins can manage their department budgets"
+ON public.department_budgets
+FOR ALL
+USING (public.is_company_admin(auth.uid(), company_id))
+WITH CHECK (public.is_company_admin(auth.uid(), company_id));
+
+CREATE POLICY "Admins can view department budgets"
+ON public.department_budgets
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_department_budgets_updated_at
+  BEFORE UPDATE ON public.department_budgets
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Over-budget requests on a soft cap wait in 'awaiting_approval' until the company admin decides
+ALTER TABLE public.bookings DROP CONSTRAINT IF EXISTS bookings_status_check;
+ALTER TABLE public.bookings
+ADD CONSTRAINT bookings_status_check
+CHECK (status IN ('awaiting_approval', 'pending', 'approved', 'declined', 'completed', 'cancelled', 'no_show'));
+
+ALTER TABLE public.bookings ADD COLUMN department TEXT;
+
+COMMENT ON COLUMN public.bookings.department IS 'Employee''s department when the booking was requested';
+
+UPDATE public.bookings b
+SET department = NULLIF(trim(p.department), '')
+FROM public.profiles p
+WHERE p.user_id = b.employee_user_id;
+
+CREATE INDEX idx_bookings_awaiting_approval ON public.bookings(company_id) WHERE status = 'awaiting_approval';
+
+-- Minutes each department has used in the current period, and holds still to be charged.
+-- Group sessions have no booking, so attendees count towards their current department.
+CREATE OR REPLACE FUNCTION public.department_minutes_usage(_company_id uuid)
+RETURNS TABLE(department text, minutes_used integer, minutes_reserved integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH period AS (
+    SELECT COALESCE(MAX(created_at), '-infinity'::timestamptz) AS started_at
+    FROM public.minutes_ledger
+    WHERE company_id = _company_id AND entry_type = 'reset'
+  ),
+  used AS (
+    SELECT
+      NULLIF(trim(COALESCE(b.department, p.department)), '') AS department,
+      CASE WHEN l.entry_type = 'deduction' THEN l.minutes ELSE -l.minutes END AS minutes
+    FROM public.minutes_ledger l
+    CROSS JOIN period
+    LEFT JOIN public.bookings b ON b.id = l.booking_id
+    LEFT JOIN public.group_session_attendees a ON a.id = l.group_attendee_id
+    LEFT JOIN public.profiles p ON p.user_id = a.employee_user_id
+    WHERE l.company_id = _company_id
+      AND l.entry_type IN ('deduction', 'refund')
+      AND l.created_at >= period.started_at
+  ),
+  held AS (
+    SELECT NULLIF(trim(b.department), '') AS department, b.minutes_reserved AS minutes
+    FROM public.bookings b
+    WHERE b.company_id = _company_id AND b.status = 'approved' AND b.minutes_reserved > 0
+    UNION ALL
+    SELECT NULLIF(trim(p.department), ''), a.minutes_reserved
+    FROM public.group_session_attendees a
+    LEFT JOIN public.profiles p ON p.user_id = a.employee_user_id
+    WHERE a.company_id = _company_id AND a.status = 'registered' AND a.minutes_reserved > 0
+  )
+  SELECT
+    MIN(x.department),
+    COALESCE(SUM(x.used), 0)::integer,
+    COALESCE(SUM(x.held), 0)::integer
+  FROM (
+    SELECT department, minutes AS used, 0 AS held FROM used
+    UNION ALL
+    SELECT department, 0, minutes FROM held
+  ) x
+  GROUP BY lower(x.department);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.department_minutes_usage(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Requests are checked against the employee's department budget as well as the company balance
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _employee_user_id uuid,
+  _specialist_id uuid,
+  _slot_id uuid,
+  _proposed_datetime timestamp with time zone,
+  _session_duration integer,
+  _session_type text,
+  _notes text,
+  _minutes_required integer
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _slot public.availability_slots%ROWTYPE;
+  _booking public.bookings%ROWTYPE;
+  _department text;
+  _budget public.department_budgets%ROWTYPE;
+  _department_committed integer;
+  _status text := 'pending';
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.specialists
+    WHERE id = _specialist_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Specialist is not available for booking';
+  END IF;
+
+  -- Resolve the employee's company the same way the old bookings INSERT policy did.
+  -- The row is locked so concurrent requests from the same company check the balance one at a time.
+  SELECT c.* INTO _company
+  FROM public.company_employees ce
+  JOIN public.companies c ON c.id = ce.company_id
+  WHERE ce.user_id = _employee_user_id
+  ORDER BY (ce.status = 'accepted') DESC
+  LIMIT 1
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    SELECT * INTO _company
+    FROM public.companies
+    WHERE admin_user_id = _employee_user_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No company found for this employee';
+  END IF;
+
+  IF _company.subscription_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Your company does not have an active subscription';
+  END IF;
+
+  IF COALESCE(_company.minutes_included, 0) - COALESCE(_company.minutes_used, 0) - _company.minutes_reserved < _minutes_required THEN
+    RAISE EXCEPTION 'Not enough wellness minutes left for this session';
+  END IF;
+
+  SELECT NULLIF(trim(department), '') INTO _department
+  FROM public.profiles
+  WHERE user_id = _employee_user_id;
+
+  IF _department IS NOT NULL THEN
+    SELECT * INTO _budget
+    FROM public.department_budgets
+    WHERE company_id = _company.id AND lower(trim(department)) = lower(_department);
+
+    IF FOUND THEN
+      SELECT COALESCE(SUM(u.minutes_used + u.minutes_reserved), 0) INTO _department_committed
+      FROM public.department_minutes_usage(_company.id) u
+      WHERE lower(u.department) = lower(_department);
+
+      IF _department_committed + _minutes_required > _budget.minutes_budget THEN
+        IF _budget.cap_type = 'hard' THEN
+          RAISE EXCEPTION 'The % department has used its wellness minutes budget for this period', _budget.department;
+        END IF;
+        _status := 'awaiting_approval';
+      END IF;
+    END IF;
+  END IF;
+
+  IF _slot_id IS NOT NULL THEN
+    SELECT * INTO _slot
+    FROM public.availability_slots
+    WHERE id = _slot_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR _slot.specialist_id <> _specialist_id THEN
+      RAISE EXCEPTION 'Time slot not found';
+    END IF;
+
+    IF COALESCE(_slot.is_booked, false) THEN
+      RAISE EXCEPTION 'This time slot has just been booked by someone else';
+    END IF;
+
+    IF _slot.reserved_until > now() AND _slot.reserved_for_user_id IS DISTINCT FROM _employee_user_id THEN
+      RAISE EXCEPTION 'This time slot is being held for someone on the waitlist';
+    END IF;
+
+    UPDATE public.availability_slots
+    SET is_booked = true,
+        reserved_for_user_id = NULL,
+        reserved_until = NULL
+    WHERE id = _slot_id;
+
+    _proposed_datetime := _slot.start_time;
+  END IF;
+
+  IF _proposed_datetime IS NULL OR _proposed_datetime <= now() THEN
+    RAISE EXCEPTION 'Please choose a time in the future';
+  END IF;
+
+  INSERT INTO public.bookings (
+    slot_id,
+    employee_user_id,
+    specialist_id,
+    company_id,
+    proposed_datetime,
+    session_duration,
+    session_type,
+    notes,
+    department,
+    status
+  )
+  VALUES (
+    _slot_id,
+    _employee_user_id,
+    _specialist_id,
+    _company.id,
+    _proposed_datetime,
+    _session_duration,
+    _session_type,
+    _notes,
+    _department,
+    _status
+  )
+  RETURNING * INTO _booking;
+
+  -- Any other slot still held for this employee goes back to the queue
+  UPDATE public.availability_slots
+  SET reserved_for_user_id = NULL, reserved_until = NULL
+  WHERE specialist_id = _specialist_id AND reserved_for_user_id = _employee_user_id;
+
+  UPDATE public.waitlist_offers o
+  SET status = CASE WHEN o.slot_id = _slot_id THEN 'claimed' ELSE 'expired' END
+  FROM public.waitlist_entries e
+  WHERE o.entry_id = e.id
+    AND e.employee_user_id = _employee_user_id
+    AND e.specialist_id = _specialist_id
+    AND o.status = 'pending';
+
+  UPDATE public.waitlist_entries
+  SET status = 'fulfilled'
+  WHERE employee_user_id = _employee_user_id
+    AND specialist_id = _specialist_id
+    AND status = 'waiting';
+
+  RETURN _booking;
+END;
+$$;
+
+-- Requests waiting for the company admin, with the details admins cannot read from
+-- profiles and specialists directly
+CREATE OR REPLACE FUNCTION public.get_department_approval_requests(_company_id uuid)
+RETURNS TABLE(
+  booking_id uuid,
+  employee_name text,
+  employee_email text,
+  department text,
+  specialist_name text,
+  proposed_datetime timestamp with time zone,
+  session_duration integer,
+  minutes_required integer,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    b.id,
+    p.full_name,
+    p.email,
+    b.department,
+    s.full_name,
+    b.proposed_datetime,
+    b.session_duration,
+    public.booking_minutes_required(b.specialist_id, b.session_duration),
+    b.created_at
+  FROM public.bookings b
+  JOIN public.specialists s ON s.id = b.specialist_id
+  LEFT JOIN public.profiles p ON p.user_id = b.employee_user_id
+  WHERE b.company_id = _company_id
+    AND b.status = 'awaiting_approval'
+    AND (
+      public.is_company_admin(auth.uid(), _company_id)
+      OR public.has_role(auth.uid(), 'admin'::app_role)
+    )
+  ORDER BY b.created_at;
+$$;
+
+-- Approving sends the request on to the specialist as 'pending'; rejecting declines it and
+-- gives the slot back
+CREATE OR REPLACE FUNCTION public.review_department_booking(_booking_id uuid, _approve boolean)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO _booking
+  FROM public.bookings
+  WHERE id = _booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.is_company_admin(auth.uid(), _booking.company_id)
+    OR public.has_role(auth.uid(), 'admin'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Booking request not found';
+  END IF;
+
+  IF _booking.status <> 'awaiting_approval' THEN
+    RAISE EXCEPTION 'This booking request is no longer waiting for approval';
+  END IF;
+
+  UPDATE public.bookings
+  SET status = CASE WHEN _approve THEN 'pending' ELSE 'declined' END
+  WHERE id = _booking_id
+  RETURNING * INTO _booking;
+
+  RETURN _booking;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_department_approval_requests(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.review_department_booking(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_department_approval_requests(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.review_department_booking(uuid, boolean) TO authenticated;
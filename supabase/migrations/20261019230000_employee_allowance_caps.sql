@@ -0,0 +1,350 @@
+-- Per-employee allowance caps.
+-- One heavy user could use up a whole plan. Company admins can set a company-wide default cap and
+-- override it per employee, in minutes or in sessions per billing period. create_booking refuses
+-- requests that would take the employee over their cap.
+
+ALTER TABLE public.companies
+  ADD COLUMN employee_cap_type TEXT CHECK (employee_cap_type IN ('minutes', 'sessions')),
+  ADD COLUMN employee_cap_value INTEGER CHECK (employee_cap_value > 0),
+  ADD CONSTRAINT companies_employee_cap_check CHECK ((employee_cap_type IS NULL) = (employee_cap_value IS NULL));
+
+COMMENT ON COLUMN public.companies.employee_cap_type IS 'Default per-employee cap per billing period; NULL for no cap';
+
+-- Kept apart from company_employees, which employees can update themselves when accepting an invite
+CREATE TABLE public.employee_allowance_caps (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_employee_id UUID NOT NULL UNIQUE REFERENCES public.company_employees(id) ON DELETE CASCADE,
+  cap_type TEXT NOT NULL CHECK (cap_type IN ('minutes', 'sessions', 'none')),
+  cap_value INTEGER CHECK (cap_value > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((cap_type = 'none') = (cap_value IS NULL))
+);
+
+COMMENT ON COLUMN public.employee_allowance_caps.cap_type IS 'Overrides the company default; none lifts the cap for this employee';
+
+ALTER TABLE public.employee_allowance_caps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company admins can manage employee caps"
+ON public.employee_allowance_caps
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.company_employees ce
+    WHERE ce.id = employee_allowance_caps.company_employee_id
+      AND public.is_company_admin(auth.uid(), ce.company_id)
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.company_employees ce
+    WHERE ce.id = employee_allowance_caps.company_employee_id
+      AND public.is_company_admin(auth.uid(), ce.company_id)
+  )
+);
+
+CREATE TRIGGER update_employee_allowance_caps_updated_at
+  BEFORE UPDATE ON public.employee_allowance_caps
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- An employee's cap and what counts against it this period: minutes charged since the period
+-- started plus minutes for requests still open, and booking requests made this period that
+-- were not cancelled or declined (late cancellations still count, as they are charged).
+CREATE OR REPLACE FUNCTION public.employee_allowance(_company_id uuid, _user_id uuid)
+RETURNS TABLE(cap_type text, cap_value integer, is_default boolean, minutes_used integer, sessions_used integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH period AS (
+    SELECT COALESCE(MAX(created_at), '-infinity'::timestamptz) AS started_at
+    FROM public.minutes_ledger
+    WHERE company_id = _company_id AND entry_type = 'reset'
+  ),
+  cap AS (
+    SELECT eac.cap_type, eac.cap_value
+    FROM public.company_employees ce
+    JOIN public.employee_allowance_caps eac ON eac.company_employee_id = ce.id
+    WHERE ce.company_id = _company_id AND ce.user_id = _user_id
+    LIMIT 1
+  )
+  SELECT
+    CASE
+      WHEN EXISTS (SELECT 1 FROM cap) THEN NULLIF((SELECT cap.cap_type FROM cap), 'none')
+      ELSE c.employee_cap_type
+    END,
+    CASE
+      WHEN EXISTS (SELECT 1 FROM cap) THEN (SELECT cap.cap_value FROM cap)
+      ELSE c.employee_cap_value
+    END,
+    NOT EXISTS (SELECT 1 FROM cap),
+    (
+      COALESCE((
+        SELECT SUM(CASE WHEN l.entry_type = 'deduction' THEN l.minutes ELSE -l.minutes END)
+        FROM public.minutes_ledger l
+        LEFT JOIN public.bookings b ON b.id = l.booking_id
+        LEFT JOIN public.group_session_attendees a ON a.id = l.group_attendee_id
+        WHERE l.company_id = _company_id
+          AND l.entry_type IN ('deduction', 'refund')
+          AND l.created_at >= (SELECT started_at FROM period)
+          AND (b.employee_user_id = _user_id OR a.employee_user_id = _user_id)
+      ), 0)
+      + COALESCE((
+        SELECT SUM(
+          CASE WHEN b.status = 'approved' THEN b.minutes_reserved
+               ELSE public.booking_minutes_required(b.specialist_id, b.session_duration)
+          END
+        )
+        FROM public.bookings b
+        WHERE b.company_id = _company_id
+          AND b.employee_user_id = _user_id
+          AND b.status IN ('awaiting_approval', 'pending', 'approved')
+      ), 0)
+      + COALESCE((
+        SELECT SUM(a.minutes_reserved)
+        FROM public.group_session_attendees a
+        WHERE a.company_id = _company_id
+          AND a.employee_user_id = _user_id
+          AND a.status = 'registered'
+      ), 0)
+    )::integer,
+    (
+      SELECT COUNT(*)
+      FROM public.bookings b
+      WHERE b.company_id = _company_id
+        AND b.employee_user_id = _user_id
+        AND b.created_at >= (SELECT started_at FROM period)
+        AND (b.status NOT IN ('cancelled', 'declined') OR b.late_cancellation)
+    )::integer
+  FROM public.companies c
+  WHERE c.id = _company_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.employee_allowance(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- The signed-in employee's own allowance, for the booking form
+CREATE OR REPLACE FUNCTION public.get_my_booking_allowance()
+RETURNS TABLE(cap_type text, cap_value integer, is_default boolean, minutes_used integer, sessions_used integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.employee_allowance(public.resolve_employee_company(auth.uid()), auth.uid());
+$$;
+
+-- Every employee's cap and usage, for EmployeeManagement. Invited employees who have not
+-- joined yet have no usage.
+CREATE OR REPLACE FUNCTION public.get_company_employee_allowances(_company_id uuid)
+RETURNS TABLE(
+  company_employee_id uuid,
+  cap_type text,
+  cap_value integer,
+  is_default boolean,
+  minutes_used integer,
+  sessions_used integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ce.id,
+    CASE WHEN eac.id IS NULL THEN c.employee_cap_type ELSE NULLIF(eac.cap_type, 'none') END,
+    CASE WHEN eac.id IS NULL THEN c.employee_cap_value ELSE eac.cap_value END,
+    eac.id IS NULL,
+    COALESCE(a.minutes_used, 0),
+    COALESCE(a.sessions_used, 0)
+  FROM public.company_employees ce
+  JOIN public.companies c ON c.id = ce.company_id
+  LEFT JOIN public.employee_allowance_caps eac ON eac.company_employee_id = ce.id
+  LEFT JOIN LATERAL public.employee_allowance(ce.company_id, ce.user_id) a ON ce.user_id IS NOT NULL
+  WHERE ce.company_id = _company_id
+    AND (
+      public.is_company_admin(auth.uid(), _company_id)
+      OR public.has_role(auth.uid(), 'admin'::app_role)
+    );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_booking_allowance() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_company_employee_allowances(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_booking_allowance() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_company_employee_allowances(uuid) TO authenticated;
+
+-- Requests are also checked against the employee's personal cap
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _employee_user_id uuid,
+  _specialist_id uuid,
+  _slot_id uuid,
+  _proposed_datetime timestamp with time zone,
+  _session_duration integer,
+  _session_type text,
+  _notes text,
+  _minutes_required integer
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _slot public.availability_slots%ROWTYPE;
+  _booking public.bookings%ROWTYPE;
+  _allowance record;
+  _department text;
+  _budget public.department_budgets%ROWTYPE;
+  _department_committed integer;
+  _status text := 'pending';
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.specialists
+    WHERE id = _specialist_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Specialist is not available for booking';
+  END IF;
+
+  -- Resolve the employee's company the same way the old bookings INSERT policy did.
+  -- The row is locked so concurrent requests from the same company check the balance one at a time.
+  SELECT c.* INTO _company
+  FROM public.company_employees ce
+  JOIN public.companies c ON c.id = ce.company_id
+  WHERE ce.user_id = _employee_user_id
+  ORDER BY (ce.status = 'accepted') DESC
+  LIMIT 1
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    SELECT * INTO _company
+    FROM public.companies
+    WHERE admin_user_id = _employee_user_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No company found for this employee';
+  END IF;
+
+  IF _company.subscription_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Your company does not have an active subscription';
+  END IF;
+
+  IF COALESCE(_company.minutes_included, 0) - COALESCE(_company.minutes_used, 0) - _company.minutes_reserved < _minutes_required THEN
+    RAISE EXCEPTION 'Not enough wellness minutes left for this session';
+  END IF;
+
+  SELECT * INTO _allowance FROM public.employee_allowance(_company.id, _employee_user_id);
+
+  IF _allowance.cap_type = 'minutes' AND _allowance.minutes_used + _minutes_required > _allowance.cap_value THEN
+    RAISE EXCEPTION 'This session needs % minutes but you have % left of your personal allowance this period',
+      _minutes_required, GREATEST(_allowance.cap_value - _allowance.minutes_used, 0);
+  ELSIF _allowance.cap_type = 'sessions' AND _allowance.sessions_used >= _allowance.cap_value THEN
+    RAISE EXCEPTION 'You have used all % sessions of your personal allowance this period', _allowance.cap_value;
+  END IF;
+
+  SELECT NULLIF(trim(department), '') INTO _department
+  FROM public.profiles
+  WHERE user_id = _employee_user_id;
+
+  IF _department IS NOT NULL THEN
+    SELECT * INTO _budget
+    FROM public.department_budgets
+    WHERE company_id = _company.id AND lower(trim(department)) = lower(_department);
+
+    IF FOUND THEN
+      SELECT COALESCE(SUM(u.minutes_used + u.minutes_reserved), 0) INTO _department_committed
+      FROM public.department_minutes_usage(_company.id) u
+      WHERE lower(u.department) = lower(_department);
+
+      IF _department_committed + _minutes_required > _budget.minutes_budget THEN
+        IF _budget.cap_type = 'hard' THEN
+          RAISE EXCEPTION 'The % department has used its wellness minutes budget for this period', _budget.department;
+        END IF;
+        _status := 'awaiting_approval';
+      END IF;
+    END IF;
+  END IF;
+
+  IF _slot_id IS NOT NULL THEN
+    SELECT * INTO _slot
+    FROM public.availability_slots
+    WHERE id = _slot_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR _slot.specialist_id <> _specialist_id THEN
+      RAISE EXCEPTION 'Time slot not found';
+    END IF;
+
+    IF COALESCE(_slot.is_booked, false) THEN
+      RAISE EXCEPTION 'This time slot has just been booked by someone else';
+    END IF;
+
+    IF _slot.reserved_until > now() AND _slot.reserved_for_user_id IS DISTINCT FROM _employee_user_id THEN
+      RAISE EXCEPTION 'This time slot is being held for someone on the waitlist';
+    END IF;
+
+    UPDATE public.availability_slots
+    SET is_booked = true,
+        reserved_for_user_id = NULL,
+        reserved_until = NULL
+    WHERE id = _slot_id;
+
+    _proposed_datetime := _slot.start_time;
+  END IF;
+
+  IF _proposed_datetime IS NULL OR _proposed_datetime <= now() THEN
+    RAISE EXCEPTION 'Please choose a time in the future';
+  END IF;
+
+  INSERT INTO public.bookings (
+    slot_id,
+    employee_user_id,
+    specialist_id,
+    company_id,
+    proposed_datetime,
+    session_duration,
+    session_type,
+    notes,
+    department,
+    status
+  )
+  VALUES (
+    _slot_id,
+    _employee_user_id,
+    _specialist_id,
+    _company.id,
+    _proposed_datetime,
+    _session_duration,
+    _session_type,
+    _notes,
+    _department,
+    _status
+  )
+  RETURNING * INTO _booking;
+
+  -- Any other slot still held for this employee goes back to the queue
+  UPDATE public.availability_slots
+  SET reserved_for_user_id = NULL, reserved_until = NULL
+  WHERE specialist_id = _specialist_id AND reserved_for_user_id = _employee_user_id;
+
+  UPDATE public.waitlist_offers o
+  SET status = CASE WHEN o.slot_id = _slot_id THEN 'claimed' ELSE 'expired' END
+  FROM public.waitlist_entries e
+  WHERE o.entry_id = e.id
+    AND e.employee_user_id = _employee_user_id
+    AND e.specialist_id = _specialist_id
+    AND o.status = 'pending';
+
+  UPDATE public.waitlist_entries
+  SET status = 'fulfilled'
+  WHERE employee_user_id = _employee_user_id
+    AND specialist_id = _specialist_id
+    AND status = 'waiting';
+
+  RETURN _booking;
+END;
+$$;
@@ -0,0 +1,466 @@
+-- Versioned pricing catalog.
+-- Plan allowances and tier multipliers were copied into src/lib/plans.ts, the booking modal, the
+-- edge functions and the SQL helpers, so a price change meant a deploy and touched every booking.
+-- Plans and specialist tiers now live in pricing versions that platform admins edit from /admin.
+-- A version applies from its effective_from; each booking records the version it was made under,
+-- so a later change never alters what an earlier booking was charged or what its specialist earned.
+
+CREATE TABLE public.pricing_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  effective_from TIMESTAMP WITH TIME ZONE NOT NULL UNIQUE,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.pricing_plans (
+  version_id UUID NOT NULL REFERENCES public.pricing_versions(id) ON DELETE CASCADE,
+  plan_type TEXT NOT NULL,
+  name TEXT NOT NULL,
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  rollover_type TEXT NOT NULL DEFAULT 'none' CHECK (rollover_type IN ('none', 'minutes', 'percent')),
+  rollover_max INTEGER NOT NULL DEFAULT 0 CHECK (rollover_max >= 0),
+  stripe_price_id TEXT,
+  stripe_product_id TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (version_id, plan_type),
+  CHECK (rollover_type <> 'percent' OR rollover_max <= 100)
+);
+
+CREATE TABLE public.pricing_tiers (
+  version_id UUID NOT NULL REFERENCES public.pricing_versions(id) ON DELETE CASCADE,
+  rate_tier public.specialist_rate_tier NOT NULL,
+  name TEXT NOT NULL,
+  minute_multiplier NUMERIC(4,2) NOT NULL CHECK (minute_multiplier > 0),
+  hourly_rate_cents INTEGER NOT NULL CHECK (hourly_rate_cents >= 0),
+  specialist_rate_cents INTEGER NOT NULL CHECK (specialist_rate_cents >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (version_id, rate_tier),
+  CHECK (specialist_rate_cents <= hourly_rate_cents)
+);
+
+COMMENT ON COLUMN public.pricing_plans.rollover_max IS 'Minutes for a minutes rule, percent of the allowance for a percent rule';
+COMMENT ON COLUMN public.pricing_tiers.specialist_rate_cents IS 'Hourly pay to the specialist; the rest of hourly_rate_cents is the platform fee';
+
+ALTER TABLE public.pricing_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pricing_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pricing_tiers ENABLE ROW LEVEL SECURITY;
+
+-- Prices are shown on the public pricing page
+CREATE POLICY "Anyone can view pricing versions"
+  ON public.pricing_versions FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view pricing plans"
+  ON public.pricing_plans FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view pricing tiers"
+  ON public.pricing_tiers FOR SELECT
+  USING (true);
+
+-- Versions are created through create_pricing_version; only those not yet in effect can be withdrawn
+CREATE POLICY "Admins can delete scheduled pricing versions"
+  ON public.pricing_versions FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'::app_role) AND effective_from > now());
+
+-- The first version holds the prices that were hard-coded until now
+WITH seed AS (
+  INSERT INTO public.pricing_versions (effective_from, note)
+  VALUES ('2026-01-01 00:00:00+00', 'Launch pricing')
+  RETURNING id
+),
+plans AS (
+  INSERT INTO public.pricing_plans (
+    version_id, plan_type, name, price_cents, minutes, rollover_type, rollover_max, stripe_price_id, stripe_product_id, sort_order
+  )
+  SELECT seed.id, p.*
+  FROM seed, (VALUES
+    ('solopreneur', 'Solopreneur', 8000, 60, 'none', 0, NULL, NULL, 1),
+    ('starter', 'Starter', 34000, 500, 'minutes', 120, 'price_1T2EXyGqEX4plgbe5klHtV5y', 'prod_U0F25g5hTFo0bf', 2),
+    ('growth', 'Growth', 95000, 1500, 'percent', 20, 'price_1T2EYQGqEX4plgbewYPw9C39', 'prod_U0F2RcfeUW22qz', 3),
+    ('scale', 'Scale', 185000, 3600, 'percent', 25, 'price_1T2EYvGqEX4plgbe2d6taMm5', 'prod_U0F3zIzg5ueR98', 4)
+  ) AS p(plan_type, name, price_cents, minutes, rollover_type, rollover_max, stripe_price_id, stripe_product_id, sort_order)
+)
+INSERT INTO public.pricing_tiers (
+  version_id, rate_tier, name, minute_multiplier, hourly_rate_cents, specialist_rate_cents, sort_order
+)
+SELECT seed.id, t.rate_tier::public.specialist_rate_tier, t.name, t.minute_multiplier, t.hourly_rate_cents, t.specialist_rate_cents, t.sort_order
+FROM seed, (VALUES
+  ('standard', 'Standard', 1.0, 2500, 2000, 1),
+  ('advanced', 'Advanced', 1.6, 4000, 3200, 2),
+  ('expert', 'Expert', 2.4, 6000, 4800, 3),
+  ('master', 'Master', 3.2, 8000, 6400, 4)
+) AS t(rate_tier, name, minute_multiplier, hourly_rate_cents, specialist_rate_cents, sort_order);
+
+-- The version in effect at a point in time. Times before the first version use the first version.
+CREATE OR REPLACE FUNCTION public.pricing_version_at(_at timestamp with time zone DEFAULT now())
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT id FROM public.pricing_versions WHERE effective_from <= _at ORDER BY effective_from DESC LIMIT 1),
+    (SELECT id FROM public.pricing_versions ORDER BY effective_from LIMIT 1)
+  )
+$$;
+
+ALTER TABLE public.bookings
+  ADD COLUMN pricing_version_id UUID REFERENCES public.pricing_versions(id);
+
+COMMENT ON COLUMN public.bookings.pricing_version_id IS 'Pricing version the booking is charged and paid under';
+
+UPDATE public.bookings SET pricing_version_id = public.pricing_version_at(created_at);
+
+ALTER TABLE public.bookings ALTER COLUMN pricing_version_id SET DEFAULT public.pricing_version_at();
+
+-- A NULL version means the version in effect now
+CREATE OR REPLACE FUNCTION public.pricing_tier_multiplier(_version_id uuid, _rate_tier text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT minute_multiplier FROM public.pricing_tiers
+     WHERE version_id = COALESCE(_version_id, public.pricing_version_at())
+       AND rate_tier::text = COALESCE(_rate_tier, 'standard')),
+    1.0
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.tier_multiplier(_rate_tier text)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.pricing_tier_multiplier(NULL, _rate_tier)
+$$;
+
+-- Minutes a session costs under a given pricing version
+CREATE OR REPLACE FUNCTION public.booking_minutes_required(
+  _specialist_id uuid,
+  _session_duration integer,
+  _pricing_version_id uuid
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CEIL(COALESCE(_session_duration, 60) * public.pricing_tier_multiplier(_pricing_version_id, s.rate_tier::text))::integer
+  FROM public.specialists s
+  WHERE s.id = _specialist_id
+$$;
+
+-- Quote for a new booking at today's prices
+CREATE OR REPLACE FUNCTION public.booking_minutes_required(_specialist_id uuid, _session_duration integer)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.booking_minutes_required(_specialist_id, _session_duration, NULL)
+$$;
+
+-- Allowances and rollover follow the version in effect at renewal. Unknown plans get the Starter allowance.
+CREATE OR REPLACE FUNCTION public.plan_allowance(_plan_type text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT minutes FROM public.pricing_plans WHERE version_id = public.pricing_version_at() AND plan_type = _plan_type),
+    (SELECT minutes FROM public.pricing_plans WHERE version_id = public.pricing_version_at() AND plan_type = 'starter'),
+    500
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.plan_rollover_cap(_plan_type text, _plan_minutes integer)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT CASE rollover_type
+       WHEN 'minutes' THEN rollover_max
+       WHEN 'percent' THEN FLOOR(_plan_minutes * rollover_max / 100.0)::integer
+       ELSE 0
+     END
+     FROM public.pricing_plans
+     WHERE version_id = public.pricing_version_at() AND plan_type = _plan_type),
+    0
+  )
+$$;
+
+-- Publish a new version. Every plan and tier must be priced, since companies and specialists
+-- refer to them by key; a date in the past takes effect immediately.
+CREATE OR REPLACE FUNCTION public.create_pricing_version(
+  _effective_from timestamp with time zone,
+  _note text,
+  _plans jsonb,
+  _tiers jsonb
+)
+RETURNS public.pricing_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current_id uuid;
+  _version public.pricing_versions%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only platform admins can change pricing';
+  END IF;
+
+  _current_id := public.pricing_version_at();
+
+  INSERT INTO public.pricing_versions (effective_from, note, created_by)
+  VALUES (GREATEST(COALESCE(_effective_from, now()), now()), NULLIF(trim(_note), ''), auth.uid())
+  RETURNING * INTO _version;
+
+  INSERT INTO public.pricing_plans (
+    version_id, plan_type, name, price_cents, minutes, rollover_type, rollover_max, stripe_price_id, stripe_product_id, sort_order
+  )
+  SELECT _version.id, p.plan_type, p.name, p.price_cents, p.minutes, COALESCE(p.rollover_type, 'none'),
+    COALESCE(p.rollover_max, 0), NULLIF(trim(p.stripe_price_id), ''), NULLIF(trim(p.stripe_product_id), ''), COALESCE(p.sort_order, 0)
+  FROM jsonb_to_recordset(_plans) AS p(
+    plan_type text, name text, price_cents integer, minutes integer, rollover_type text, rollover_max integer,
+    stripe_price_id text, stripe_product_id text, sort_order integer
+  );
+
+  INSERT INTO public.pricing_tiers (
+    version_id, rate_tier, name, minute_multiplier, hourly_rate_cents, specialist_rate_cents, sort_order
+  )
+  SELECT _version.id, t.rate_tier::public.specialist_rate_tier, t.name, t.minute_multiplier, t.hourly_rate_cents,
+    t.specialist_rate_cents, COALESCE(t.sort_order, 0)
+  FROM jsonb_to_recordset(_tiers) AS t(
+    rate_tier text, name text, minute_multiplier numeric, hourly_rate_cents integer, specialist_rate_cents integer, sort_order integer
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM public.pricing_plans cur
+    WHERE cur.version_id = _current_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pricing_plans p WHERE p.version_id = _version.id AND p.plan_type = cur.plan_type
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every plan needs a price in the new version';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(enum_range(NULL::public.specialist_rate_tier)) AS tier
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.pricing_tiers t WHERE t.version_id = _version.id AND t.rate_tier = tier
+    )
+  ) THEN
+    RAISE EXCEPTION 'Every specialist tier needs a rate in the new version';
+  END IF;
+
+  RETURN _version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_pricing_version(timestamp with time zone, text, jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_pricing_version(timestamp with time zone, text, jsonb, jsonb) TO authenticated;
+
+-- Charge completed sessions under the booking's own pricing version
+CREATE OR REPLACE FUNCTION public.complete_booking(
+  _booking_id uuid,
+  _session_minutes integer,
+  _actor_user_id uuid DEFAULT NULL
+)
+RETURNS public.minutes_ledger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings%ROWTYPE;
+  _rate_tier text;
+  _multiplier numeric;
+  _session integer;
+  _company_id uuid;
+  _entry public.minutes_ledger%ROWTYPE;
+BEGIN
+  SELECT * INTO _booking FROM public.bookings WHERE id = _booking_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Booking not found';
+  END IF;
+
+  IF _booking.status <> 'approved' THEN
+    RAISE EXCEPTION 'Booking cannot be completed. Current status: %', _booking.status;
+  END IF;
+
+  SELECT COALESCE(rate_tier::text, 'standard') INTO _rate_tier
+  FROM public.specialists WHERE id = _booking.specialist_id;
+
+  _multiplier := public.pricing_tier_multiplier(_booking.pricing_version_id, _rate_tier);
+  _session := COALESCE(_session_minutes, _booking.session_duration, 60);
+
+  _company_id := COALESCE(_booking.company_id, public.resolve_employee_company(_booking.employee_user_id));
+  IF _company_id IS NULL THEN
+    RAISE EXCEPTION 'Employee''s company not found';
+  END IF;
+
+  INSERT INTO public.minutes_ledger (
+    company_id, booking_id, entry_type, minutes, rate_tier, multiplier, session_minutes, actor_user_id
+  )
+  VALUES (
+    _company_id, _booking_id, 'deduction', CEIL(_session * _multiplier)::integer, _rate_tier, _multiplier, _session, _actor_user_id
+  )
+  RETURNING * INTO _entry;
+
+  UPDATE public.bookings
+  SET status = 'completed',
+      company_id = _company_id,
+      minutes_charged = _entry.minutes
+  WHERE id = _booking_id;
+
+  RETURN _entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.complete_booking(uuid, integer, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.complete_booking(uuid, integer, uuid) TO service_role;
+
+CREATE OR REPLACE FUNCTION public.apply_booking_minutes_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available integer;
+  _required integer;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Leaving 'approved' always gives the hold back first
+  IF OLD.status = 'approved' AND OLD.minutes_reserved > 0 THEN
+    UPDATE public.companies
+    SET minutes_reserved = GREATEST(0, minutes_reserved - OLD.minutes_reserved)
+    WHERE id = OLD.company_id;
+
+    NEW.minutes_reserved := 0;
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    NEW.company_id := COALESCE(NEW.company_id, public.resolve_employee_company(NEW.employee_user_id));
+    IF NEW.company_id IS NULL THEN
+      RAISE EXCEPTION 'No company found for this employee';
+    END IF;
+
+    _required := public.booking_minutes_required(NEW.specialist_id, NEW.session_duration, NEW.pricing_version_id);
+
+    SELECT COALESCE(minutes_included, 0) - COALESCE(minutes_used, 0) - minutes_reserved
+    INTO _available
+    FROM public.companies
+    WHERE id = NEW.company_id
+    FOR UPDATE;
+
+    IF _available < _required THEN
+      RAISE EXCEPTION 'The employee''s company does not have enough wellness minutes left for this session (% needed, % available)',
+        _required, GREATEST(_available, 0);
+    END IF;
+
+    UPDATE public.companies
+    SET minutes_reserved = minutes_reserved + _required
+    WHERE id = NEW.company_id;
+
+    NEW.minutes_reserved := _required;
+  ELSIF NEW.status = 'completed' AND NOT EXISTS (
+    SELECT 1 FROM public.minutes_ledger
+    WHERE booking_id = NEW.id AND entry_type = 'deduction'
+  ) THEN
+    RAISE EXCEPTION 'Bookings must be completed through complete-booking so the minutes are charged';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_booking_cancellation_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.booking_policy%ROWTYPE;
+  _session_start timestamp with time zone;
+  _rate_tier text;
+  _multiplier numeric;
+  _session integer;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status NOT IN ('cancelled', 'no_show') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _policy FROM public.booking_policy;
+  _session_start := COALESCE(OLD.confirmed_datetime, OLD.proposed_datetime);
+
+  IF NEW.status = 'no_show' THEN
+    IF OLD.status <> 'approved' THEN
+      RAISE EXCEPTION 'Only approved sessions can be marked as a no-show';
+    END IF;
+
+    IF auth.uid() IS NOT NULL
+      AND NOT public.is_specialist_owner(auth.uid(), NEW.specialist_id)
+      AND NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+      RAISE EXCEPTION 'Only the specialist can mark a session as a no-show';
+    END IF;
+
+    IF _session_start IS NULL OR _session_start > now() THEN
+      RAISE EXCEPTION 'A session can only be marked as a no-show once it has started';
+    END IF;
+  ELSE
+    IF OLD.status <> 'approved'
+      OR _session_start IS NULL
+      OR _session_start - now() >= make_interval(hours => COALESCE(_policy.late_cancellation_hours, 0)) THEN
+      RETURN NEW;
+    END IF;
+
+    NEW.late_cancellation := true;
+  END IF;
+
+  IF COALESCE(_policy.pay_specialist, false) THEN
+    NEW.specialist_fee_percent := _policy.specialist_fee_percent;
+  END IF;
+
+  IF COALESCE(_policy.charge_company, false) THEN
+    NEW.company_id := COALESCE(NEW.company_id, public.resolve_employee_company(NEW.employee_user_id));
+    IF NEW.company_id IS NULL THEN
+      RAISE EXCEPTION 'Employee''s company not found';
+    END IF;
+
+    SELECT COALESCE(rate_tier::text, 'standard') INTO _rate_tier
+    FROM public.specialists WHERE id = NEW.specialist_id;
+
+    _multiplier := public.pricing_tier_multiplier(OLD.pricing_version_id, _rate_tier);
+    _session := COALESCE(OLD.session_duration, 60);
+
+    INSERT INTO public.minutes_ledger (
+      company_id, booking_id, entry_type, minutes, rate_tier, multiplier, session_minutes, actor_user_id, note
+    )
+    VALUES (
+      NEW.company_id, NEW.id, 'deduction', CEIL(_session * _multiplier)::integer, _rate_tier, _multiplier, _session,
+      auth.uid(), CASE WHEN NEW.status = 'no_show' THEN 'No-show' ELSE 'Late cancellation' END
+    )
+    RETURNING minutes INTO NEW.minutes_charged;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
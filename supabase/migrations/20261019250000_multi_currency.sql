@@ -0,0 +1,183 @@
+-- Billing and payouts in USD, EUR and GBP.
+-- Prices were USD only. Each plan now has a price per currency, each with its own Stripe price,
+-- and each specialist tier an hourly rate per currency. Companies pick the currency they are
+-- billed in at checkout; specialists pick the currency they are paid in. Amounts are never
+-- converted: a company or payout always uses the catalog prices of its own currency.
+
+ALTER TABLE public.companies
+  ADD COLUMN billing_currency TEXT NOT NULL DEFAULT 'usd' CHECK (billing_currency IN ('usd', 'eur', 'gbp'));
+
+ALTER TABLE public.specialists
+  ADD COLUMN payout_currency TEXT NOT NULL DEFAULT 'usd' CHECK (payout_currency IN ('usd', 'eur', 'gbp'));
+
+ALTER TABLE public.payout_requests
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'usd' CHECK (currency IN ('usd', 'eur', 'gbp'));
+
+COMMENT ON COLUMN public.companies.billing_currency IS 'Currency of the Stripe subscription; fixed once the company has a Stripe customer';
+COMMENT ON COLUMN public.specialists.payout_currency IS 'Currency the specialist''s earnings are calculated and paid in';
+
+CREATE TABLE public.pricing_plan_prices (
+  version_id UUID NOT NULL,
+  plan_type TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('usd', 'eur', 'gbp')),
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  stripe_price_id TEXT,
+  PRIMARY KEY (version_id, plan_type, currency),
+  FOREIGN KEY (version_id, plan_type) REFERENCES public.pricing_plans(version_id, plan_type) ON DELETE CASCADE
+);
+
+CREATE TABLE public.pricing_tier_rates (
+  version_id UUID NOT NULL,
+  rate_tier public.specialist_rate_tier NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('usd', 'eur', 'gbp')),
+  hourly_rate_cents INTEGER NOT NULL CHECK (hourly_rate_cents >= 0),
+  specialist_rate_cents INTEGER NOT NULL CHECK (specialist_rate_cents >= 0),
+  PRIMARY KEY (version_id, rate_tier, currency),
+  FOREIGN KEY (version_id, rate_tier) REFERENCES public.pricing_tiers(version_id, rate_tier) ON DELETE CASCADE,
+  CHECK (specialist_rate_cents <= hourly_rate_cents)
+);
+
+ALTER TABLE public.pricing_plan_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pricing_tier_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pricing plan prices"
+  ON public.pricing_plan_prices FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view pricing tier rates"
+  ON public.pricing_tier_rates FOR SELECT
+  USING (true);
+
+-- Existing USD prices move across; EUR and GBP start from rounded local prices
+INSERT INTO public.pricing_plan_prices (version_id, plan_type, currency, price_cents, stripe_price_id)
+SELECT version_id, plan_type, 'usd', price_cents, stripe_price_id
+FROM public.pricing_plans;
+
+INSERT INTO public.pricing_plan_prices (version_id, plan_type, currency, price_cents)
+SELECT p.version_id, p.plan_type, local.currency, local.price_cents
+FROM public.pricing_plans p
+JOIN (VALUES
+  ('solopreneur', 'eur', 7500), ('starter', 'eur', 31500), ('growth', 'eur', 88000), ('scale', 'eur', 171000),
+  ('solopreneur', 'gbp', 6500), ('starter', 'gbp', 27000), ('growth', 'gbp', 75000), ('scale', 'gbp', 146000)
+) AS local(plan_type, currency, price_cents) ON local.plan_type = p.plan_type;
+
+INSERT INTO public.pricing_tier_rates (version_id, rate_tier, currency, hourly_rate_cents, specialist_rate_cents)
+SELECT version_id, rate_tier, 'usd', hourly_rate_cents, specialist_rate_cents
+FROM public.pricing_tiers;
+
+INSERT INTO public.pricing_tier_rates (version_id, rate_tier, currency, hourly_rate_cents, specialist_rate_cents)
+SELECT t.version_id, t.rate_tier, local.currency, local.hourly_rate_cents, local.specialist_rate_cents
+FROM public.pricing_tiers t
+JOIN (VALUES
+  ('standard', 'eur', 2300, 1840), ('advanced', 'eur', 3700, 2960), ('expert', 'eur', 5500, 4400), ('master', 'eur', 7400, 5920),
+  ('standard', 'gbp', 2000, 1600), ('advanced', 'gbp', 3200, 2560), ('expert', 'gbp', 4800, 3840), ('master', 'gbp', 6400, 5120)
+) AS local(rate_tier, currency, hourly_rate_cents, specialist_rate_cents) ON local.rate_tier = t.rate_tier::text;
+
+ALTER TABLE public.pricing_plans
+  DROP COLUMN price_cents,
+  DROP COLUMN stripe_price_id;
+
+ALTER TABLE public.pricing_tiers
+  DROP COLUMN hourly_rate_cents,
+  DROP COLUMN specialist_rate_cents;
+
+-- Plans carry a `prices` array and tiers a `rates` array, one entry per currency
+CREATE OR REPLACE FUNCTION public.create_pricing_version(
+  _effective_from timestamp with time zone,
+  _note text,
+  _plans jsonb,
+  _tiers jsonb
+)
+RETURNS public.pricing_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current_id uuid;
+  _version public.pricing_versions%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only platform admins can change pricing';
+  END IF;
+
+  _current_id := public.pricing_version_at();
+
+  INSERT INTO public.pricing_versions (effective_from, note, created_by)
+  VALUES (GREATEST(COALESCE(_effective_from, now()), now()), NULLIF(trim(_note), ''), auth.uid())
+  RETURNING * INTO _version;
+
+  INSERT INTO public.pricing_plans (
+    version_id, plan_type, name, minutes, rollover_type, rollover_max, stripe_product_id, sort_order
+  )
+  SELECT _version.id, p.plan_type, p.name, p.minutes, COALESCE(p.rollover_type, 'none'),
+    COALESCE(p.rollover_max, 0), NULLIF(trim(p.stripe_product_id), ''), COALESCE(p.sort_order, 0)
+  FROM jsonb_to_recordset(_plans) AS p(
+    plan_type text, name text, minutes integer, rollover_type text, rollover_max integer,
+    stripe_product_id text, sort_order integer
+  );
+
+  INSERT INTO public.pricing_plan_prices (version_id, plan_type, currency, price_cents, stripe_price_id)
+  SELECT _version.id, p.plan_type, pr.currency, pr.price_cents, NULLIF(trim(pr.stripe_price_id), '')
+  FROM jsonb_to_recordset(_plans) AS p(plan_type text, prices jsonb)
+  CROSS JOIN LATERAL jsonb_to_recordset(COALESCE(p.prices, '[]'::jsonb)) AS pr(
+    currency text, price_cents integer, stripe_price_id text
+  );
+
+  INSERT INTO public.pricing_tiers (version_id, rate_tier, name, minute_multiplier, sort_order)
+  SELECT _version.id, t.rate_tier::public.specialist_rate_tier, t.name, t.minute_multiplier, COALESCE(t.sort_order, 0)
+  FROM jsonb_to_recordset(_tiers) AS t(rate_tier text, name text, minute_multiplier numeric, sort_order integer);
+
+  INSERT INTO public.pricing_tier_rates (version_id, rate_tier, currency, hourly_rate_cents, specialist_rate_cents)
+  SELECT _version.id, t.rate_tier::public.specialist_rate_tier, r.currency, r.hourly_rate_cents, r.specialist_rate_cents
+  FROM jsonb_to_recordset(_tiers) AS t(rate_tier text, rates jsonb)
+  CROSS JOIN LATERAL jsonb_to_recordset(COALESCE(t.rates, '[]'::jsonb)) AS r(
+    currency text, hourly_rate_cents integer, specialist_rate_cents integer
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM public.pricing_plans cur
+    WHERE cur.version_id = _current_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pricing_plans p WHERE p.version_id = _version.id AND p.plan_type = cur.plan_type
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every plan needs a price in the new version';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(enum_range(NULL::public.specialist_rate_tier)) AS tier
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.pricing_tiers t WHERE t.version_id = _version.id AND t.rate_tier = tier
+    )
+  ) THEN
+    RAISE EXCEPTION 'Every specialist tier needs a rate in the new version';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.pricing_plans p
+    CROSS JOIN unnest(ARRAY['usd', 'eur', 'gbp']) AS c(currency)
+    WHERE p.version_id = _version.id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pricing_plan_prices pr
+        WHERE pr.version_id = _version.id AND pr.plan_type = p.plan_type AND pr.currency = c.currency
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every plan needs a price in USD, EUR and GBP';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.pricing_tiers t
+    CROSS JOIN unnest(ARRAY['usd', 'eur', 'gbp']) AS c(currency)
+    WHERE t.version_id = _version.id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pricing_tier_rates r
+        WHERE r.version_id = _version.id AND r.rate_tier = t.rate_tier AND r.currency = c.currency
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every specialist tier needs a rate in USD, EUR and GBP';
+  END IF;
+
+  RETURN _version;
+END;
+$$;
@@ -0,0 +1,640 @@
+-- Metered overage billing.
+-- Once minutes_used went past minutes_included nothing happened: late cancellations and longer
+-- sessions were simply absorbed, and bookings were refused. Company admins can now opt into
+-- overage at a per-minute rate for their plan, up to a monthly spending limit they choose.
+-- Every deduction that takes usage past the allowance records an overage charge, which
+-- report-overage-usage sends to Stripe as metered usage. Bookings that would take the company
+-- past its limit are refused.
+
+ALTER TABLE public.pricing_plan_prices
+  ADD COLUMN overage_cents_per_minute INTEGER NOT NULL DEFAULT 0 CHECK (overage_cents_per_minute >= 0),
+  ADD COLUMN stripe_overage_price_id TEXT;
+
+COMMENT ON COLUMN public.pricing_plan_prices.overage_cents_per_minute IS 'Price of each minute used past the allowance; 0 means the plan has no overage';
+COMMENT ON COLUMN public.pricing_plan_prices.stripe_overage_price_id IS 'Metered Stripe price on the overage meter, added to the subscription when overage is first reported';
+
+UPDATE public.pricing_plan_prices p
+SET overage_cents_per_minute = rates.cents
+FROM (VALUES
+  ('solopreneur', 'usd', 150), ('starter', 'usd', 90), ('growth', 'usd', 80), ('scale', 'usd', 70),
+  ('solopreneur', 'eur', 140), ('starter', 'eur', 85), ('growth', 'eur', 75), ('scale', 'eur', 65),
+  ('solopreneur', 'gbp', 120), ('starter', 'gbp', 75), ('growth', 'gbp', 65), ('scale', 'gbp', 55)
+) AS rates(plan_type, currency, cents)
+WHERE rates.plan_type = p.plan_type AND rates.currency = p.currency;
+
+ALTER TABLE public.companies
+  ADD COLUMN overage_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN overage_limit_cents INTEGER CHECK (overage_limit_cents > 0),
+  ADD CONSTRAINT companies_overage_limit_check CHECK (NOT overage_enabled OR overage_limit_cents IS NOT NULL);
+
+COMMENT ON COLUMN public.companies.overage_limit_cents IS 'Most the company can be charged for overage per billing period, in billing_currency';
+
+-- One row per deduction that went past the allowance. reported_at is set once Stripe has the usage.
+CREATE TABLE public.overage_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  ledger_entry_id UUID NOT NULL UNIQUE REFERENCES public.minutes_ledger(id) ON DELETE CASCADE,
+  booking_id UUID REFERENCES public.bookings(id) ON DELETE SET NULL,
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  currency TEXT NOT NULL CHECK (currency IN ('usd', 'eur', 'gbp')),
+  rate_cents_per_minute INTEGER NOT NULL CHECK (rate_cents_per_minute > 0),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  reported_at TIMESTAMP WITH TIME ZONE,
+  report_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_overage_charges_company_created ON public.overage_charges(company_id, created_at);
+CREATE INDEX idx_overage_charges_unreported ON public.overage_charges(created_at) WHERE reported_at IS NULL;
+
+ALTER TABLE public.overage_charges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company admins can view their overage charges"
+ON public.overage_charges
+FOR SELECT
+USING (public.is_company_admin(auth.uid(), company_id));
+
+CREATE POLICY "Admins can view all overage charges"
+ON public.overage_charges
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Per-minute overage rate for the company's plan and currency; NULL version means the current one
+CREATE OR REPLACE FUNCTION public.company_overage_rate(_company_id uuid, _pricing_version_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NULLIF(pp.overage_cents_per_minute, 0)
+  FROM public.companies c
+  JOIN public.pricing_plan_prices pp
+    ON pp.version_id = COALESCE(_pricing_version_id, public.pricing_version_at())
+    AND pp.plan_type = COALESCE(c.plan_type, 'starter')
+    AND pp.currency = c.billing_currency
+  WHERE c.id = _company_id
+$$;
+
+-- Overage charged since the current billing period started
+CREATE OR REPLACE FUNCTION public.company_overage_spent_cents(_company_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(o.amount_cents), 0)::integer
+  FROM public.overage_charges o
+  WHERE o.company_id = _company_id
+    AND o.created_at >= COALESCE(
+      (
+        SELECT MAX(r.created_at) FROM public.minutes_ledger r
+        WHERE r.company_id = _company_id AND r.entry_type = 'reset'
+      ),
+      '-infinity'::timestamptz
+    )
+$$;
+
+-- Overage minutes the company can still commit this period. Holds for approved bookings that
+-- already reach past the allowance count against the limit as if they had been charged.
+CREATE OR REPLACE FUNCTION public.company_overage_minutes_left(_company_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _rate integer;
+  _held integer;
+BEGIN
+  SELECT * INTO _company FROM public.companies WHERE id = _company_id;
+
+  IF NOT FOUND OR NOT _company.overage_enabled THEN
+    RETURN 0;
+  END IF;
+
+  _rate := public.company_overage_rate(_company_id);
+  IF _rate IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  _held := GREATEST(0, COALESCE(_company.minutes_used, 0) + _company.minutes_reserved - COALESCE(_company.minutes_included, 0))
+    - GREATEST(0, COALESCE(_company.minutes_used, 0) - COALESCE(_company.minutes_included, 0));
+
+  RETURN GREATEST(0, FLOOR((_company.overage_limit_cents - public.company_overage_spent_cents(_company_id))::numeric / _rate)::integer - _held);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.company_overage_rate(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.company_overage_spent_cents(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.company_overage_minutes_left(uuid) FROM PUBLIC, anon, authenticated;
+
+-- What the billing page shows: the rate, the limit and this period's overage so far
+CREATE OR REPLACE FUNCTION public.get_company_overage(_company_id uuid)
+RETURNS TABLE(
+  overage_enabled boolean,
+  overage_limit_cents integer,
+  currency text,
+  rate_cents_per_minute integer,
+  minutes integer,
+  amount_cents integer,
+  minutes_left integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_company_admin(auth.uid(), _company_id) THEN
+    RAISE EXCEPTION 'Only company admins can view overage billing';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    c.overage_enabled,
+    c.overage_limit_cents,
+    c.billing_currency,
+    public.company_overage_rate(c.id),
+    COALESCE((
+      SELECT SUM(o.minutes) FROM public.overage_charges o
+      WHERE o.company_id = c.id
+        AND o.created_at >= COALESCE(
+          (SELECT MAX(r.created_at) FROM public.minutes_ledger r WHERE r.company_id = c.id AND r.entry_type = 'reset'),
+          '-infinity'::timestamptz
+        )
+    ), 0)::integer,
+    public.company_overage_spent_cents(c.id),
+    public.company_overage_minutes_left(c.id)
+  FROM public.companies c
+  WHERE c.id = _company_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_company_overage(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_company_overage(uuid) TO authenticated;
+
+-- Runs after on_minutes_ledger_insert (triggers fire in name order), so the company's balance
+-- already includes this deduction. Minutes past the spending limit are never billed.
+CREATE OR REPLACE FUNCTION public.record_overage_charge()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _rate integer;
+  _minutes integer;
+BEGIN
+  SELECT * INTO _company FROM public.companies WHERE id = NEW.company_id;
+
+  IF NOT FOUND OR NOT _company.overage_enabled THEN
+    RETURN NULL;
+  END IF;
+
+  _minutes := LEAST(NEW.minutes, COALESCE(_company.minutes_used, 0) - COALESCE(_company.minutes_included, 0));
+  IF _minutes <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  _rate := public.company_overage_rate(
+    NEW.company_id,
+    (SELECT pricing_version_id FROM public.bookings WHERE id = NEW.booking_id)
+  );
+  IF _rate IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _minutes := LEAST(
+    _minutes,
+    FLOOR(GREATEST(0, _company.overage_limit_cents - public.company_overage_spent_cents(NEW.company_id))::numeric / _rate)::integer
+  );
+  IF _minutes <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.overage_charges (
+    company_id, ledger_entry_id, booking_id, minutes, currency, rate_cents_per_minute, amount_cents
+  )
+  VALUES (
+    NEW.company_id, NEW.id, NEW.booking_id, _minutes, _company.billing_currency, _rate, _minutes * _rate
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_overage_charge
+  AFTER INSERT ON public.minutes_ledger
+  FOR EACH ROW
+  WHEN (NEW.entry_type = 'deduction')
+  EXECUTE FUNCTION public.record_overage_charge();
+
+-- Past the allowance, a request goes through if the company's overage limit covers the rest
+CREATE OR REPLACE FUNCTION public.create_booking(
+  _employee_user_id uuid,
+  _specialist_id uuid,
+  _slot_id uuid,
+  _proposed_datetime timestamp with time zone,
+  _session_duration integer,
+  _session_type text,
+  _notes text,
+  _minutes_required integer
+)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _slot public.availability_slots%ROWTYPE;
+  _booking public.bookings%ROWTYPE;
+  _allowance record;
+  _department text;
+  _budget public.department_budgets%ROWTYPE;
+  _department_committed integer;
+  _status text := 'pending';
+  _available integer;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.specialists
+    WHERE id = _specialist_id AND is_active = true
+  ) THEN
+    RAISE EXCEPTION 'Specialist is not available for booking';
+  END IF;
+
+  -- Resolve the employee's company the same way the old bookings INSERT policy did.
+  -- The row is locked so concurrent requests from the same company check the balance one at a time.
+  SELECT c.* INTO _company
+  FROM public.company_employees ce
+  JOIN public.companies c ON c.id = ce.company_id
+  WHERE ce.user_id = _employee_user_id
+  ORDER BY (ce.status = 'accepted') DESC
+  LIMIT 1
+  FOR UPDATE OF c;
+
+  IF NOT FOUND THEN
+    SELECT * INTO _company
+    FROM public.companies
+    WHERE admin_user_id = _employee_user_id
+    ORDER BY created_at DESC
+    LIMIT 1
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No company found for this employee';
+  END IF;
+
+  IF _company.subscription_status IS DISTINCT FROM 'active' THEN
+    RAISE EXCEPTION 'Your company does not have an active subscription';
+  END IF;
+
+  _available := COALESCE(_company.minutes_included, 0) - COALESCE(_company.minutes_used, 0) - _company.minutes_reserved;
+
+  IF _available < _minutes_required THEN
+    IF NOT _company.overage_enabled THEN
+      RAISE EXCEPTION 'Not enough wellness minutes left for this session';
+    ELSIF public.company_overage_minutes_left(_company.id) < _minutes_required - GREATEST(_available, 0) THEN
+      RAISE EXCEPTION 'Your company has reached its overage spending limit for this period';
+    END IF;
+  END IF;
+
+  SELECT * INTO _allowance FROM public.employee_allowance(_company.id, _employee_user_id);
+
+  IF _allowance.cap_type = 'minutes' AND _allowance.minutes_used + _minutes_required > _allowance.cap_value THEN
+    RAISE EXCEPTION 'This session needs % minutes but you have % left of your personal allowance this period',
+      _minutes_required, GREATEST(_allowance.cap_value - _allowance.minutes_used, 0);
+  ELSIF _allowance.cap_type = 'sessions' AND _allowance.sessions_used >= _allowance.cap_value THEN
+    RAISE EXCEPTION 'You have used all % sessions of your personal allowance this period', _allowance.cap_value;
+  END IF;
+
+  SELECT NULLIF(trim(department), '') INTO _department
+  FROM public.profiles
+  WHERE user_id = _employee_user_id;
+
+  IF _department IS NOT NULL THEN
+    SELECT * INTO _budget
+    FROM public.department_budgets
+    WHERE company_id = _company.id AND lower(trim(department)) = lower(_department);
+
+    IF FOUND THEN
+      SELECT COALESCE(SUM(u.minutes_used + u.minutes_reserved), 0) INTO _department_committed
+      FROM public.department_minutes_usage(_company.id) u
+      WHERE lower(u.department) = lower(_department);
+
+      IF _department_committed + _minutes_required > _budget.minutes_budget THEN
+        IF _budget.cap_type = 'hard' THEN
+          RAISE EXCEPTION 'The % department has used its wellness minutes budget for this period', _budget.department;
+        END IF;
+        _status := 'awaiting_approval';
+      END IF;
+    END IF;
+  END IF;
+
+  IF _slot_id IS NOT NULL THEN
+    SELECT * INTO _slot
+    FROM public.availability_slots
+    WHERE id = _slot_id
+    FOR UPDATE;
+
+    IF NOT FOUND OR _slot.specialist_id <> _specialist_id THEN
+      RAISE EXCEPTION 'Time slot not found';
+    END IF;
+
+    IF COALESCE(_slot.is_booked, false) THEN
+      RAISE EXCEPTION 'This time slot has just been booked by someone else';
+    END IF;
+
+    IF _slot.reserved_until > now() AND _slot.reserved_for_user_id IS DISTINCT FROM _employee_user_id THEN
+      RAISE EXCEPTION 'This time slot is being held for someone on the waitlist';
+    END IF;
+
+    UPDATE public.availability_slots
+    SET is_booked = true,
+        reserved_for_user_id = NULL,
+        reserved_until = NULL
+    WHERE id = _slot_id;
+
+    _proposed_datetime := _slot.start_time;
+  END IF;
+
+  IF _proposed_datetime IS NULL OR _proposed_datetime <= now() THEN
+    RAISE EXCEPTION 'Please choose a time in the future';
+  END IF;
+
+  INSERT INTO public.bookings (
+    slot_id,
+    employee_user_id,
+    specialist_id,
+    company_id,
+    proposed_datetime,
+    session_duration,
+    session_type,
+    notes,
+    department,
+    status
+  )
+  VALUES (
+    _slot_id,
+    _employee_user_id,
+    _specialist_id,
+    _company.id,
+    _proposed_datetime,
+    _session_duration,
+    _session_type,
+    _notes,
+    _department,
+    _status
+  )
+  RETURNING * INTO _booking;
+
+  -- Any other slot still held for this employee goes back to the queue
+  UPDATE public.availability_slots
+  SET reserved_for_user_id = NULL, reserved_until = NULL
+  WHERE specialist_id = _specialist_id AND reserved_for_user_id = _employee_user_id;
+
+  UPDATE public.waitlist_offers o
+  SET status = CASE WHEN o.slot_id = _slot_id THEN 'claimed' ELSE 'expired' END
+  FROM public.waitlist_entries e
+  WHERE o.entry_id = e.id
+    AND e.employee_user_id = _employee_user_id
+    AND e.specialist_id = _specialist_id
+    AND o.status = 'pending';
+
+  UPDATE public.waitlist_entries
+  SET status = 'fulfilled'
+  WHERE employee_user_id = _employee_user_id
+    AND specialist_id = _specialist_id
+    AND status = 'waiting';
+
+  RETURN _booking;
+END;
+$$;
+
+-- Approval holds and group registrations may reach into overage the same way
+CREATE OR REPLACE FUNCTION public.apply_booking_minutes_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available integer;
+  _required integer;
+  _overage_enabled boolean;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- Leaving 'approved' always gives the hold back first
+  IF OLD.status = 'approved' AND OLD.minutes_reserved > 0 THEN
+    UPDATE public.companies
+    SET minutes_reserved = GREATEST(0, minutes_reserved - OLD.minutes_reserved)
+    WHERE id = OLD.company_id;
+
+    NEW.minutes_reserved := 0;
+  END IF;
+
+  IF NEW.status = 'approved' THEN
+    NEW.company_id := COALESCE(NEW.company_id, public.resolve_employee_company(NEW.employee_user_id));
+    IF NEW.company_id IS NULL THEN
+      RAISE EXCEPTION 'No company found for this employee';
+    END IF;
+
+    _required := public.booking_minutes_required(NEW.specialist_id, NEW.session_duration, NEW.pricing_version_id);
+
+    SELECT COALESCE(minutes_included, 0) - COALESCE(minutes_used, 0) - minutes_reserved, overage_enabled
+    INTO _available, _overage_enabled
+    FROM public.companies
+    WHERE id = NEW.company_id
+    FOR UPDATE;
+
+    IF _available < _required THEN
+      IF NOT _overage_enabled THEN
+        RAISE EXCEPTION 'The employee''s company does not have enough wellness minutes left for this session (% needed, % available)',
+          _required, GREATEST(_available, 0);
+      ELSIF public.company_overage_minutes_left(NEW.company_id) < _required - GREATEST(_available, 0) THEN
+        RAISE EXCEPTION 'This session would take the employee''s company past its overage spending limit for this period';
+      END IF;
+    END IF;
+
+    UPDATE public.companies
+    SET minutes_reserved = minutes_reserved + _required
+    WHERE id = NEW.company_id;
+
+    NEW.minutes_reserved := _required;
+  ELSIF NEW.status = 'completed' AND NOT EXISTS (
+    SELECT 1 FROM public.minutes_ledger
+    WHERE booking_id = NEW.id AND entry_type = 'deduction'
+  ) THEN
+    RAISE EXCEPTION 'Bookings must be completed through complete-booking so the minutes are charged';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_group_attendee_minutes_hold()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _available integer;
+  _required integer;
+  _overage_enabled boolean;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'registered' AND OLD.minutes_reserved > 0 THEN
+    UPDATE public.companies
+    SET minutes_reserved = GREATEST(0, minutes_reserved - OLD.minutes_reserved)
+    WHERE id = OLD.company_id;
+
+    NEW.minutes_reserved := 0;
+  END IF;
+
+  IF NEW.status = 'registered' THEN
+    SELECT minutes_per_attendee INTO _required
+    FROM public.group_sessions
+    WHERE id = NEW.session_id;
+
+    SELECT COALESCE(minutes_included, 0) - COALESCE(minutes_used, 0) - minutes_reserved, overage_enabled
+    INTO _available, _overage_enabled
+    FROM public.companies
+    WHERE id = NEW.company_id
+    FOR UPDATE;
+
+    IF _available < _required THEN
+      IF NOT _overage_enabled THEN
+        RAISE EXCEPTION 'Your company does not have enough wellness minutes left for this session (% needed, % available)',
+          _required, GREATEST(_available, 0);
+      ELSIF public.company_overage_minutes_left(NEW.company_id) < _required - GREATEST(_available, 0) THEN
+        RAISE EXCEPTION 'Your company has reached its overage spending limit for this period';
+      END IF;
+    END IF;
+
+    UPDATE public.companies
+    SET minutes_reserved = minutes_reserved + _required
+    WHERE id = NEW.company_id;
+
+    NEW.minutes_reserved := _required;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Plan prices also carry the overage rate and its metered Stripe price
+CREATE OR REPLACE FUNCTION public.create_pricing_version(
+  _effective_from timestamp with time zone,
+  _note text,
+  _plans jsonb,
+  _tiers jsonb
+)
+RETURNS public.pricing_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current_id uuid;
+  _version public.pricing_versions%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only platform admins can change pricing';
+  END IF;
+
+  _current_id := public.pricing_version_at();
+
+  INSERT INTO public.pricing_versions (effective_from, note, created_by)
+  VALUES (GREATEST(COALESCE(_effective_from, now()), now()), NULLIF(trim(_note), ''), auth.uid())
+  RETURNING * INTO _version;
+
+  INSERT INTO public.pricing_plans (
+    version_id, plan_type, name, minutes, rollover_type, rollover_max, stripe_product_id, sort_order
+  )
+  SELECT _version.id, p.plan_type, p.name, p.minutes, COALESCE(p.rollover_type, 'none'),
+    COALESCE(p.rollover_max, 0), NULLIF(trim(p.stripe_product_id), ''), COALESCE(p.sort_order, 0)
+  FROM jsonb_to_recordset(_plans) AS p(
+    plan_type text, name text, minutes integer, rollover_type text, rollover_max integer,
+    stripe_product_id text, sort_order integer
+  );
+
+  INSERT INTO public.pricing_plan_prices (
+    version_id, plan_type, currency, price_cents, stripe_price_id, overage_cents_per_minute, stripe_overage_price_id
+  )
+  SELECT _version.id, p.plan_type, pr.currency, pr.price_cents, NULLIF(trim(pr.stripe_price_id), ''),
+    COALESCE(pr.overage_cents_per_minute, 0), NULLIF(trim(pr.stripe_overage_price_id), '')
+  FROM jsonb_to_recordset(_plans) AS p(plan_type text, prices jsonb)
+  CROSS JOIN LATERAL jsonb_to_recordset(COALESCE(p.prices, '[]'::jsonb)) AS pr(
+    currency text, price_cents integer, stripe_price_id text, overage_cents_per_minute integer, stripe_overage_price_id text
+  );
+
+  INSERT INTO public.pricing_tiers (version_id, rate_tier, name, minute_multiplier, sort_order)
+  SELECT _version.id, t.rate_tier::public.specialist_rate_tier, t.name, t.minute_multiplier, COALESCE(t.sort_order, 0)
+  FROM jsonb_to_recordset(_tiers) AS t(rate_tier text, name text, minute_multiplier numeric, sort_order integer);
+
+  INSERT INTO public.pricing_tier_rates (version_id, rate_tier, currency, hourly_rate_cents, specialist_rate_cents)
+  SELECT _version.id, t.rate_tier::public.specialist_rate_tier, r.currency, r.hourly_rate_cents, r.specialist_rate_cents
+  FROM jsonb_to_recordset(_tiers) AS t(rate_tier text, rates jsonb)
+  CROSS JOIN LATERAL jsonb_to_recordset(COALESCE(t.rates, '[]'::jsonb)) AS r(
+    currency text, hourly_rate_cents integer, specialist_rate_cents integer
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM public.pricing_plans cur
+    WHERE cur.version_id = _current_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pricing_plans p WHERE p.version_id = _version.id AND p.plan_type = cur.plan_type
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every plan needs a price in the new version';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(enum_range(NULL::public.specialist_rate_tier)) AS tier
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.pricing_tiers t WHERE t.version_id = _version.id AND t.rate_tier = tier
+    )
+  ) THEN
+    RAISE EXCEPTION 'Every specialist tier needs a rate in the new version';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.pricing_plans p
+    CROSS JOIN unnest(ARRAY['usd', 'eur', 'gbp']) AS c(currency)
+    WHERE p.version_id = _version.id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pricing_plan_prices pr
+        WHERE pr.version_id = _version.id AND pr.plan_type = p.plan_type AND pr.currency = c.currency
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every plan needs a price in USD, EUR and GBP';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.pricing_tiers t
+    CROSS JOIN unnest(ARRAY['usd', 'eur', 'gbp']) AS c(currency)
+    WHERE t.version_id = _version.id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pricing_tier_rates r
+        WHERE r.version_id = _version.id AND r.rate_tier = t.rate_tier AND r.currency = c.currency
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every specialist tier needs a rate in USD, EUR and GBP';
+  END IF;
+
+  RETURN _version;
+END;
+$$;
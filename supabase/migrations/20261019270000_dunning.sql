@@ -0,0 +1,264 @@
+-- Dunning and a grace period for failed payments.
+-- A failed payment left the company on whatever status check-subscription or the webhook last saw.
+-- Now a failed payment starts a past-due period of a length platform admins choose. During it the
+-- company admin gets reminder emails and a dashboard banner, and new booking requests are refused
+-- (create_booking only accepts active companies) while approved sessions go ahead. Once the grace
+-- period runs out the company is suspended: its upcoming sessions are cancelled without a
+-- late-cancellation charge and the specialists are told. A successful payment ends either state.
+
+CREATE TABLE public.billing_policy (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  grace_period_days INTEGER NOT NULL DEFAULT 7 CHECK (grace_period_days BETWEEN 0 AND 60),
+  reminder_interval_days INTEGER NOT NULL DEFAULT 2 CHECK (reminder_interval_days >= 1),
+  updated_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.billing_policy IS 'Single-row platform policy for failed subscription payments';
+COMMENT ON COLUMN public.billing_policy.grace_period_days IS 'Days a past-due company keeps its approved sessions before it is suspended';
+COMMENT ON COLUMN public.billing_policy.reminder_interval_days IS 'Days between payment reminder emails during the grace period';
+
+INSERT INTO public.billing_policy (id) VALUES (true);
+
+ALTER TABLE public.billing_policy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the billing policy"
+ON public.billing_policy FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can update the billing policy"
+ON public.billing_policy FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_billing_policy_updated_at
+  BEFORE UPDATE ON public.billing_policy
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.companies
+  ADD COLUMN past_due_since TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN grace_period_ends_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN suspended_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN dunning_reminders_sent INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN last_dunning_reminder_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.companies.subscription_status IS 'active, past_due (payment failed, in the grace period), suspended (grace period over) or unpaid';
+COMMENT ON COLUMN public.companies.grace_period_ends_at IS 'When a past-due company is suspended; fixed when the payment first fails';
+
+-- Stripe keeps retrying a failed payment, so the webhook reports past_due again after suspension;
+-- the company stays suspended until a payment succeeds. The grace period is fixed when it starts,
+-- so a later policy change doesn't move the deadline an admin has already been told about.
+CREATE OR REPLACE FUNCTION public.track_company_dunning()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.subscription_status IS NOT DISTINCT FROM OLD.subscription_status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.subscription_status = 'past_due' THEN
+    IF OLD.subscription_status = 'suspended' THEN
+      NEW.subscription_status := 'suspended';
+      NEW.is_paid := false;
+    ELSE
+      NEW.past_due_since := now();
+      NEW.grace_period_ends_at := now() + make_interval(days => COALESCE(
+        (SELECT grace_period_days FROM public.billing_policy), 7
+      ));
+      NEW.dunning_reminders_sent := 0;
+      NEW.last_dunning_reminder_at := NULL;
+    END IF;
+  ELSIF NEW.subscription_status <> 'suspended' THEN
+    NEW.past_due_since := NULL;
+    NEW.grace_period_ends_at := NULL;
+    NEW.suspended_at := NULL;
+    NEW.dunning_reminders_sent := 0;
+    NEW.last_dunning_reminder_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_company_dunning
+  BEFORE UPDATE OF subscription_status ON public.companies
+  FOR EACH ROW EXECUTE FUNCTION public.track_company_dunning();
+
+-- Past-due companies whose next reminder is due, marked as reminded. Called by process-dunning.
+CREATE OR REPLACE FUNCTION public.claim_dunning_reminders()
+RETURNS TABLE(
+  company_id uuid,
+  company_name text,
+  admin_email text,
+  grace_period_ends_at timestamp with time zone,
+  reminder_number integer
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _interval interval;
+BEGIN
+  SELECT make_interval(days => reminder_interval_days) INTO _interval FROM public.billing_policy;
+
+  RETURN QUERY
+  WITH due AS (
+    UPDATE public.companies c
+    SET dunning_reminders_sent = c.dunning_reminders_sent + 1,
+        last_dunning_reminder_at = now()
+    WHERE c.subscription_status = 'past_due'
+      AND NOT COALESCE(c.is_test_account, false)
+      AND c.grace_period_ends_at > now()
+      AND (c.last_dunning_reminder_at IS NULL OR c.last_dunning_reminder_at <= now() - COALESCE(_interval, interval '2 days'))
+    RETURNING c.id, c.name, c.admin_user_id, c.grace_period_ends_at, c.dunning_reminders_sent
+  )
+  SELECT due.id, due.name, p.email, due.grace_period_ends_at, due.dunning_reminders_sent
+  FROM due
+  LEFT JOIN public.profiles p ON p.user_id = due.admin_user_id;
+END;
+$$;
+
+-- Suspends past-due companies whose grace period is over and cancels their upcoming sessions.
+-- Returns one row per cancelled booking, or a single row with a NULL booking for a company that
+-- had none, so process-dunning can tell the company admin and each specialist.
+CREATE OR REPLACE FUNCTION public.suspend_overdue_companies()
+RETURNS TABLE(
+  company_id uuid,
+  company_name text,
+  admin_email text,
+  booking_id uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company record;
+  _cancelled uuid[];
+BEGIN
+  FOR _company IN
+    SELECT c.id, c.name, p.email
+    FROM public.companies c
+    LEFT JOIN public.profiles p ON p.user_id = c.admin_user_id
+    WHERE c.subscription_status = 'past_due'
+      AND c.grace_period_ends_at <= now()
+    FOR UPDATE OF c
+  LOOP
+    UPDATE public.companies
+    SET subscription_status = 'suspended',
+        is_paid = false,
+        suspended_at = now()
+    WHERE id = _company.id;
+
+    -- Read by apply_booking_cancellation_policy: these cancellations are not the employee's doing
+    PERFORM set_config('hollyaid.company_suspension', 'on', true);
+
+    WITH cancelled AS (
+      UPDATE public.bookings b
+      SET status = 'cancelled'
+      WHERE b.company_id = _company.id
+        AND b.status IN ('pending', 'awaiting_approval', 'approved')
+        AND COALESCE(b.confirmed_datetime, b.proposed_datetime) > now()
+      RETURNING b.id
+    )
+    SELECT array_agg(id) INTO _cancelled FROM cancelled;
+
+    PERFORM set_config('hollyaid.company_suspension', 'off', true);
+
+    IF _cancelled IS NULL THEN
+      RETURN QUERY SELECT _company.id, _company.name, _company.email, NULL::uuid;
+    ELSE
+      RETURN QUERY SELECT _company.id, _company.name, _company.email, unnest(_cancelled);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_dunning_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.suspend_overdue_companies() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_dunning_reminders() TO service_role;
+GRANT EXECUTE ON FUNCTION public.suspend_overdue_companies() TO service_role;
+
+-- Sessions cancelled by a suspension are never charged as late cancellations
+CREATE OR REPLACE FUNCTION public.apply_booking_cancellation_policy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _policy public.booking_policy%ROWTYPE;
+  _session_start timestamp with time zone;
+  _rate_tier text;
+  _multiplier numeric;
+  _session integer;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status OR NEW.status NOT IN ('cancelled', 'no_show') THEN
+    RETURN NEW;
+  END IF;
+
+  IF current_setting('hollyaid.company_suspension', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _policy FROM public.booking_policy;
+  _session_start := COALESCE(OLD.confirmed_datetime, OLD.proposed_datetime);
+
+  IF NEW.status = 'no_show' THEN
+    IF OLD.status <> 'approved' THEN
+      RAISE EXCEPTION 'Only approved sessions can be marked as a no-show';
+    END IF;
+
+    IF auth.uid() IS NOT NULL
+      AND NOT public.is_specialist_owner(auth.uid(), NEW.specialist_id)
+      AND NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+      RAISE EXCEPTION 'Only the specialist can mark a session as a no-show';
+    END IF;
+
+    IF _session_start IS NULL OR _session_start > now() THEN
+      RAISE EXCEPTION 'A session can only be marked as a no-show once it has started';
+    END IF;
+  ELSE
+    IF OLD.status <> 'approved'
+      OR _session_start IS NULL
+      OR _session_start - now() >= make_interval(hours => COALESCE(_policy.late_cancellation_hours, 0)) THEN
+      RETURN NEW;
+    END IF;
+
+    NEW.late_cancellation := true;
+  END IF;
+
+  IF COALESCE(_policy.pay_specialist, false) THEN
+    NEW.specialist_fee_percent := _policy.specialist_fee_percent;
+  END IF;
+
+  IF COALESCE(_policy.charge_company, false) THEN
+    NEW.company_id := COALESCE(NEW.company_id, public.resolve_employee_company(NEW.employee_user_id));
+    IF NEW.company_id IS NULL THEN
+      RAISE EXCEPTION 'Employee''s company not found';
+    END IF;
+
+    SELECT COALESCE(rate_tier::text, 'standard') INTO _rate_tier
+    FROM public.specialists WHERE id = NEW.specialist_id;
+
+    _multiplier := public.pricing_tier_multiplier(OLD.pricing_version_id, _rate_tier);
+    _session := COALESCE(OLD.session_duration, 60);
+
+    INSERT INTO public.minutes_ledger (
+      company_id, booking_id, entry_type, minutes, rate_tier, multiplier, session_minutes, actor_user_id, note
+    )
+    VALUES (
+      NEW.company_id, NEW.id, 'deduction', CEIL(_session * _multiplier)::integer, _rate_tier, _multiplier, _session,
+      auth.uid(), CASE WHEN NEW.status = 'no_show' THEN 'No-show' ELSE 'Late cancellation' END
+    )
+    RETURNING minutes INTO NEW.minutes_charged;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,273 @@
+-- Promo codes and free trials.
+-- create-checkout only ever charged the full plan price from day one. Platform admins can now
+-- create discount codes (a percentage or a fixed amount, for a number of months or for as long
+-- as the subscription lasts) and retire them again; create-checkout applies a valid code as a
+-- Stripe coupon. New companies can also start a free trial instead of paying: it runs for the
+-- number of days in billing_policy, comes with a small minute allowance recorded in
+-- minutes_ledger like any plan allowance, and ends with the company back on 'unpaid' unless it
+-- has picked a plan by then. process-trials warns the company admin before that happens.
+
+ALTER TABLE public.billing_policy
+  ADD COLUMN trial_days INTEGER NOT NULL DEFAULT 14 CHECK (trial_days BETWEEN 1 AND 60),
+  ADD COLUMN trial_minutes INTEGER NOT NULL DEFAULT 60 CHECK (trial_minutes >= 0),
+  ADD COLUMN trial_warning_days INTEGER NOT NULL DEFAULT 3 CHECK (trial_warning_days >= 1);
+
+COMMENT ON COLUMN public.billing_policy.trial_days IS 'Length of the free trial a new company can start instead of paying';
+COMMENT ON COLUMN public.billing_policy.trial_minutes IS 'Minute allowance for the whole trial';
+COMMENT ON COLUMN public.billing_policy.trial_warning_days IS 'Days before the trial ends that the company admin is warned';
+
+ALTER TABLE public.companies
+  ADD COLUMN trial_started_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN trial_ends_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN trial_warning_sent_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.companies.trial_ends_at IS 'End of the free trial; the company is on it while this is set and plan_type is still NULL';
+
+CREATE TABLE public.promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL CHECK (code = upper(code) AND code ~ '^[A-Z0-9_-]{3,32}$'),
+  description TEXT,
+  percent_off INTEGER CHECK (percent_off BETWEEN 1 AND 100),
+  amount_off_cents INTEGER CHECK (amount_off_cents > 0),
+  currency TEXT CHECK (currency IN ('usd', 'eur', 'gbp')),
+  duration_months INTEGER CHECK (duration_months BETWEEN 1 AND 36),
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  stripe_coupon_id TEXT,
+  retired_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK ((percent_off IS NULL) <> (amount_off_cents IS NULL)),
+  CHECK ((amount_off_cents IS NULL) = (currency IS NULL))
+);
+
+COMMENT ON TABLE public.promo_codes IS 'Discount codes accepted by create-checkout';
+COMMENT ON COLUMN public.promo_codes.duration_months IS 'Months the discount applies for; NULL for the life of the subscription';
+COMMENT ON COLUMN public.promo_codes.stripe_coupon_id IS 'Stripe coupon created the first time the code is used at checkout';
+COMMENT ON COLUMN public.promo_codes.retired_at IS 'Set when an admin retires the code; subscriptions already using it keep their discount';
+
+-- A retired code can be created again under the same name
+CREATE UNIQUE INDEX idx_promo_codes_active_code
+  ON public.promo_codes(code)
+  WHERE retired_at IS NULL;
+
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view promo codes"
+ON public.promo_codes FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can create promo codes"
+ON public.promo_codes FOR INSERT
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can update promo codes"
+ON public.promo_codes FOR UPDATE
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Written by stripe-webhook when a checkout with a code completes
+CREATE TABLE public.promo_code_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id UUID NOT NULL REFERENCES public.promo_codes(id) ON DELETE CASCADE,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  stripe_checkout_session_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (promo_code_id, company_id)
+);
+
+ALTER TABLE public.promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view promo code redemptions"
+ON public.promo_code_redemptions FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Company admins can view their promo code redemptions"
+ON public.promo_code_redemptions FOR SELECT
+USING (public.is_company_admin(auth.uid(), company_id));
+
+-- The code if it can be used now, otherwise an exception saying why not. Company admins call it
+-- to check a code before checkout; create-checkout calls it again with the company to apply it.
+CREATE OR REPLACE FUNCTION public.validate_promo_code(_code text, _company_id uuid DEFAULT NULL)
+RETURNS TABLE(
+  id uuid,
+  code text,
+  description text,
+  percent_off integer,
+  amount_off_cents integer,
+  currency text,
+  duration_months integer,
+  stripe_coupon_id text
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _promo public.promo_codes%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NOT NULL AND _company_id IS NOT NULL
+     AND NOT public.is_company_admin(auth.uid(), _company_id) THEN
+    RAISE EXCEPTION 'Only company admins can redeem promo codes';
+  END IF;
+
+  SELECT * INTO _promo
+  FROM public.promo_codes p
+  WHERE p.code = upper(trim(_code)) AND p.retired_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This promo code is not valid';
+  END IF;
+
+  IF _promo.expires_at IS NOT NULL AND _promo.expires_at <= now() THEN
+    RAISE EXCEPTION 'This promo code has expired';
+  END IF;
+
+  IF _promo.max_redemptions IS NOT NULL
+     AND (SELECT count(*) FROM public.promo_code_redemptions r WHERE r.promo_code_id = _promo.id) >= _promo.max_redemptions THEN
+    RAISE EXCEPTION 'This promo code has already been used the maximum number of times';
+  END IF;
+
+  IF _company_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.promo_code_redemptions r
+    WHERE r.promo_code_id = _promo.id AND r.company_id = _company_id
+  ) THEN
+    RAISE EXCEPTION 'Your company has already used this promo code';
+  END IF;
+
+  RETURN QUERY SELECT
+    _promo.id, _promo.code, _promo.description, _promo.percent_off, _promo.amount_off_cents,
+    _promo.currency, _promo.duration_months, _promo.stripe_coupon_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.validate_promo_code(text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.validate_promo_code(text, uuid) TO authenticated, service_role;
+
+-- Starts the free trial for the caller's company. Only a company that has never had a plan or a
+-- trial qualifies. The allowance is a reset in minutes_ledger, so bookings draw on it exactly as
+-- they would on a plan allowance.
+CREATE OR REPLACE FUNCTION public.start_company_trial()
+RETURNS TABLE(trial_ends_at timestamp with time zone, trial_minutes integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _policy public.billing_policy%ROWTYPE;
+  _now timestamptz := now();
+  _ends_at timestamptz;
+BEGIN
+  SELECT * INTO _company
+  FROM public.companies c
+  WHERE c.admin_user_id = auth.uid()
+  ORDER BY c.created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only company admins can start a trial';
+  END IF;
+
+  IF _company.trial_started_at IS NOT NULL
+     OR _company.plan_type IS NOT NULL
+     OR _company.stripe_subscription_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Your company has already used its free trial';
+  END IF;
+
+  IF _company.subscription_status IS DISTINCT FROM 'unpaid' THEN
+    RAISE EXCEPTION 'Your company already has an active subscription';
+  END IF;
+
+  SELECT * INTO _policy FROM public.billing_policy;
+  _ends_at := _now + make_interval(days => COALESCE(_policy.trial_days, 14));
+
+  UPDATE public.companies
+  SET subscription_status = 'active',
+      is_paid = false,
+      trial_started_at = _now,
+      trial_ends_at = _ends_at,
+      trial_warning_sent_at = NULL,
+      subscription_period_start = _now,
+      subscription_period_end = _ends_at
+  WHERE id = _company.id;
+
+  INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, period_start, actor_user_id, note, created_at)
+  VALUES (_company.id, 'reset', COALESCE(_policy.trial_minutes, 60), _now, auth.uid(), 'Free trial allowance', _now);
+
+  RETURN QUERY SELECT _ends_at, COALESCE(_policy.trial_minutes, 60);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_company_trial() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_company_trial() TO authenticated;
+
+-- Companies still on a trial that ends within the warning window, marked as warned.
+-- Called by process-trials.
+CREATE OR REPLACE FUNCTION public.claim_trial_warnings()
+RETURNS TABLE(
+  company_id uuid,
+  company_name text,
+  admin_email text,
+  trial_ends_at timestamp with time zone
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _window interval;
+BEGIN
+  SELECT make_interval(days => trial_warning_days) INTO _window FROM public.billing_policy;
+
+  RETURN QUERY
+  WITH due AS (
+    UPDATE public.companies c
+    SET trial_warning_sent_at = now()
+    WHERE c.plan_type IS NULL
+      AND c.subscription_status = 'active'
+      AND c.trial_warning_sent_at IS NULL
+      AND c.trial_ends_at > now()
+      AND c.trial_ends_at <= now() + COALESCE(_window, interval '3 days')
+    RETURNING c.id, c.name, c.admin_user_id, c.trial_ends_at
+  )
+  SELECT due.id, due.name, p.email, due.trial_ends_at
+  FROM due
+  LEFT JOIN public.profiles p ON p.user_id = due.admin_user_id;
+END;
+$$;
+
+-- Moves companies whose trial ended without a plan back to 'unpaid', which sends the admin to pick
+-- a plan and stops new bookings. Sessions already approved on trial minutes go ahead.
+CREATE OR REPLACE FUNCTION public.expire_trials()
+RETURNS TABLE(
+  company_id uuid,
+  company_name text,
+  admin_email text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH expired AS (
+    UPDATE public.companies c
+    SET subscription_status = 'unpaid',
+        is_paid = false
+    WHERE c.plan_type IS NULL
+      AND c.subscription_status = 'active'
+      AND c.trial_ends_at <= now()
+    RETURNING c.id, c.name, c.admin_user_id
+  )
+  SELECT expired.id, expired.name, p.email
+  FROM expired
+  LEFT JOIN public.profiles p ON p.user_id = expired.admin_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_trial_warnings() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_trials() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_trial_warnings() TO service_role;
+GRANT EXECUTE ON FUNCTION public.expire_trials() TO service_role;
@@ -0,0 +1,293 @@
+-- Annual billing.
+-- Every plan was billed monthly. Each plan can now also be bought as a yearly contract at a
+-- discounted annual price. Platform admins choose per plan whether an annual contract grants the
+-- plan's minutes month by month, as before, or as one pool for the whole year.
+-- sync_subscription_minutes works out the current allowance period from the company's billing
+-- interval, so Stripe syncs, test accounts and the monthly grants inside an annual contract all
+-- record their allowance in minutes_ledger the same way.
+
+ALTER TABLE public.pricing_plan_prices
+  ADD COLUMN annual_price_cents INTEGER NOT NULL DEFAULT 0 CHECK (annual_price_cents >= 0),
+  ADD COLUMN stripe_annual_price_id TEXT;
+
+COMMENT ON COLUMN public.pricing_plan_prices.annual_price_cents IS 'Price of a yearly contract; 0 means the plan is only sold monthly';
+COMMENT ON COLUMN public.pricing_plan_prices.stripe_annual_price_id IS 'Yearly Stripe price; create-checkout uses price_data when it is not set';
+
+-- Launch annual prices: two months free
+UPDATE public.pricing_plan_prices
+SET annual_price_cents = price_cents * 10;
+
+ALTER TABLE public.pricing_plans
+  ADD COLUMN annual_allowance TEXT NOT NULL DEFAULT 'monthly' CHECK (annual_allowance IN ('monthly', 'yearly'));
+
+COMMENT ON COLUMN public.pricing_plans.annual_allowance IS 'monthly: an annual contract grants minutes each month; yearly: twelve months of minutes as one pool at the start';
+
+ALTER TABLE public.companies
+  ADD COLUMN billing_interval TEXT NOT NULL DEFAULT 'month' CHECK (billing_interval IN ('month', 'year'));
+
+COMMENT ON COLUMN public.companies.billing_interval IS 'How often the subscription renews; subscription_period_start and _end span a whole year for annual contracts';
+
+CREATE OR REPLACE FUNCTION public.plan_annual_allowance(_plan_type text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT annual_allowance FROM public.pricing_plans WHERE version_id = public.pricing_version_at() AND plan_type = _plan_type),
+    'monthly'
+  )
+$$;
+
+-- Records the allowance for the company's current subscription period. Monthly subscriptions get
+-- the plan allowance for the period. Annual contracts with monthly grants get it for the month of
+-- the contract we are in, each month being its own period for rollover. Annual contracts with a
+-- yearly pool get twelve months of minutes at the start; an upgrade during the year adds the
+-- difference for the months that are left.
+CREATE OR REPLACE FUNCTION public.sync_subscription_minutes(
+  _company_id uuid,
+  _actor_user_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _monthly integer;
+  _age interval;
+  _elapsed integer;
+  _pool_reset integer;
+BEGIN
+  SELECT * INTO _company FROM public.companies WHERE id = _company_id;
+  IF NOT FOUND OR _company.subscription_period_start IS NULL THEN
+    RETURN;
+  END IF;
+
+  _monthly := public.plan_allowance(_company.plan_type);
+
+  IF _company.billing_interval <> 'year' THEN
+    PERFORM public.sync_plan_minutes(_company_id, _monthly, _company.subscription_period_start, _actor_user_id);
+    RETURN;
+  END IF;
+
+  -- Whole months since the contract started, 0 to 11
+  _age := age(now(), _company.subscription_period_start);
+  _elapsed := GREATEST(LEAST((extract(year FROM _age) * 12 + extract(month FROM _age))::integer, 11), 0);
+
+  IF public.plan_annual_allowance(_company.plan_type) = 'monthly' THEN
+    PERFORM public.sync_plan_minutes(
+      _company_id,
+      _monthly,
+      _company.subscription_period_start + make_interval(months => _elapsed),
+      _actor_user_id
+    );
+    RETURN;
+  END IF;
+
+  SELECT minutes INTO _pool_reset
+  FROM public.minutes_ledger
+  WHERE company_id = _company_id
+    AND entry_type = 'reset'
+    AND period_start = _company.subscription_period_start;
+
+  -- sync_plan_minutes only ever adds the difference, so downgrades wait for the next contract
+  PERFORM public.sync_plan_minutes(
+    _company_id,
+    CASE
+      WHEN _pool_reset IS NULL THEN _monthly * 12
+      ELSE _pool_reset + GREATEST(_monthly - _pool_reset / 12, 0) * (12 - _elapsed)
+    END,
+    _company.subscription_period_start,
+    _actor_user_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_subscription_minutes(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Stripe only renews an annual contract once a year, so the monthly grants inside it come from here
+CREATE OR REPLACE FUNCTION public.sync_annual_allowances()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company_id uuid;
+BEGIN
+  FOR _company_id IN
+    SELECT id
+    FROM public.companies
+    WHERE billing_interval = 'year'
+      AND subscription_status = 'active'
+      AND plan_type IS NOT NULL
+      AND subscription_period_start IS NOT NULL
+  LOOP
+    PERFORM public.sync_subscription_minutes(_company_id);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_annual_allowances() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'sync-annual-allowances',
+  '20 * * * *',
+  $$SELECT public.sync_annual_allowances()$$
+);
+
+-- Test accounts renew by their billing interval. Companies on a free trial have no plan yet and
+-- are left to process-trials.
+CREATE OR REPLACE FUNCTION public.renew_test_account_periods()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company record;
+  _step interval;
+  _start timestamp with time zone;
+  _end timestamp with time zone;
+BEGIN
+  FOR _company IN
+    SELECT id, billing_interval, subscription_period_end
+    FROM public.companies
+    WHERE is_test_account = true
+      AND subscription_status = 'active'
+      AND plan_type IS NOT NULL
+      AND subscription_period_end IS NOT NULL
+      AND subscription_period_end <= now()
+  LOOP
+    _step := CASE WHEN _company.billing_interval = 'year' THEN interval '1 year' ELSE interval '1 month' END;
+    _start := _company.subscription_period_end;
+    _end := _start + _step;
+
+    -- Each missed period is its own period, so rollover is applied once per period
+    LOOP
+      UPDATE public.companies
+      SET subscription_period_start = _start,
+          subscription_period_end = _end
+      WHERE id = _company.id;
+
+      PERFORM public.sync_subscription_minutes(_company.id);
+
+      EXIT WHEN _end > now();
+      _start := _end;
+      _end := _start + _step;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.renew_test_account_periods() FROM PUBLIC, anon, authenticated;
+
+-- Plans now carry an annual allowance rule and an annual price in each currency
+CREATE OR REPLACE FUNCTION public.create_pricing_version(
+  _effective_from timestamp with time zone,
+  _note text,
+  _plans jsonb,
+  _tiers jsonb
+)
+RETURNS public.pricing_versions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current_id uuid;
+  _version public.pricing_versions%ROWTYPE;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Only platform admins can change pricing';
+  END IF;
+
+  _current_id := public.pricing_version_at();
+
+  INSERT INTO public.pricing_versions (effective_from, note, created_by)
+  VALUES (GREATEST(COALESCE(_effective_from, now()), now()), NULLIF(trim(_note), ''), auth.uid())
+  RETURNING * INTO _version;
+
+  INSERT INTO public.pricing_plans (
+    version_id, plan_type, name, minutes, rollover_type, rollover_max, annual_allowance, stripe_product_id, sort_order
+  )
+  SELECT _version.id, p.plan_type, p.name, p.minutes, COALESCE(p.rollover_type, 'none'),
+    COALESCE(p.rollover_max, 0), COALESCE(p.annual_allowance, 'monthly'), NULLIF(trim(p.stripe_product_id), ''),
+    COALESCE(p.sort_order, 0)
+  FROM jsonb_to_recordset(_plans) AS p(
+    plan_type text, name text, minutes integer, rollover_type text, rollover_max integer, annual_allowance text,
+    stripe_product_id text, sort_order integer
+  );
+
+  INSERT INTO public.pricing_plan_prices (
+    version_id, plan_type, currency, price_cents, stripe_price_id, annual_price_cents, stripe_annual_price_id,
+    overage_cents_per_minute, stripe_overage_price_id
+  )
+  SELECT _version.id, p.plan_type, pr.currency, pr.price_cents, NULLIF(trim(pr.stripe_price_id), ''),
+    COALESCE(pr.annual_price_cents, 0), NULLIF(trim(pr.stripe_annual_price_id), ''),
+    COALESCE(pr.overage_cents_per_minute, 0), NULLIF(trim(pr.stripe_overage_price_id), '')
+  FROM jsonb_to_recordset(_plans) AS p(plan_type text, prices jsonb)
+  CROSS JOIN LATERAL jsonb_to_recordset(COALESCE(p.prices, '[]'::jsonb)) AS pr(
+    currency text, price_cents integer, stripe_price_id text, annual_price_cents integer, stripe_annual_price_id text,
+    overage_cents_per_minute integer, stripe_overage_price_id text
+  );
+
+  INSERT INTO public.pricing_tiers (version_id, rate_tier, name, minute_multiplier, sort_order)
+  SELECT _version.id, t.rate_tier::public.specialist_rate_tier, t.name, t.minute_multiplier, COALESCE(t.sort_order, 0)
+  FROM jsonb_to_recordset(_tiers) AS t(rate_tier text, name text, minute_multiplier numeric, sort_order integer);
+
+  INSERT INTO public.pricing_tier_rates (version_id, rate_tier, currency, hourly_rate_cents, specialist_rate_cents)
+  SELECT _version.id, t.rate_tier::public.specialist_rate_tier, r.currency, r.hourly_rate_cents, r.specialist_rate_cents
+  FROM jsonb_to_recordset(_tiers) AS t(rate_tier text, rates jsonb)
+  CROSS JOIN LATERAL jsonb_to_recordset(COALESCE(t.rates, '[]'::jsonb)) AS r(
+    currency text, hourly_rate_cents integer, specialist_rate_cents integer
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM public.pricing_plans cur
+    WHERE cur.version_id = _current_id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pricing_plans p WHERE p.version_id = _version.id AND p.plan_type = cur.plan_type
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every plan needs a price in the new version';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(enum_range(NULL::public.specialist_rate_tier)) AS tier
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.pricing_tiers t WHERE t.version_id = _version.id AND t.rate_tier = tier
+    )
+  ) THEN
+    RAISE EXCEPTION 'Every specialist tier needs a rate in the new version';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.pricing_plans p
+    CROSS JOIN unnest(ARRAY['usd', 'eur', 'gbp']) AS c(currency)
+    WHERE p.version_id = _version.id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pricing_plan_prices pr
+        WHERE pr.version_id = _version.id AND pr.plan_type = p.plan_type AND pr.currency = c.currency
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every plan needs a price in USD, EUR and GBP';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.pricing_tiers t
+    CROSS JOIN unnest(ARRAY['usd', 'eur', 'gbp']) AS c(currency)
+    WHERE t.version_id = _version.id
+      AND NOT EXISTS (
+        SELECT 1 FROM public.pricing_tier_rates r
+        WHERE r.version_id = _version.id AND r.rate_tier = t.rate_tier AND r.currency = c.currency
+      )
+  ) THEN
+    RAISE EXCEPTION 'Every specialist tier needs a rate in USD, EUR and GBP';
+  END IF;
+
+  RETURN _version;
+END;
+$$;
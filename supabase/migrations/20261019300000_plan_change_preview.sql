@@ -0,0 +1,373 @@
+-- Plan changes for companies that already have a subscription: a preview of the prorated charge
+-- and the allowance, downgrades that take minutes away straight away when they still fit, and
+-- downgrades scheduled for the end of the period when they don't.
+
+ALTER TABLE public.companies
+  ADD COLUMN scheduled_plan_type TEXT;
+
+COMMENT ON COLUMN public.companies.scheduled_plan_type IS 'Plan the company moves to when its subscription renews; set by a scheduled downgrade';
+
+-- A downgrade takes plan minutes out of the current period
+ALTER TABLE public.minutes_ledger DROP CONSTRAINT minutes_ledger_entry_type_check;
+ALTER TABLE public.minutes_ledger ADD CONSTRAINT minutes_ledger_entry_type_check
+  CHECK (entry_type IN ('grant', 'deduction', 'refund', 'reset', 'rollover', 'topup', 'expiry', 'downgrade'));
+
+CREATE OR REPLACE VIEW public.company_minutes_balances
+WITH (security_invoker=on) AS
+SELECT
+  l.company_id,
+  MAX(l.period_start) FILTER (WHERE l.entry_type = 'reset') AS period_start,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type IN ('reset', 'grant', 'rollover', 'topup')), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type IN ('expiry', 'downgrade')), 0)
+  )::integer AS minutes_included,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'deduction'), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'refund'), 0)
+  )::integer AS minutes_used
+FROM public.minutes_ledger l
+WHERE l.created_at >= COALESCE(
+  (
+    SELECT MAX(r.created_at) FROM public.minutes_ledger r
+    WHERE r.company_id = l.company_id AND r.entry_type = 'reset'
+  ),
+  '-infinity'::timestamptz
+)
+GROUP BY l.company_id;
+
+CREATE OR REPLACE VIEW public.company_billing_periods
+WITH (security_invoker=on) AS
+WITH periods AS (
+  SELECT
+    r.company_id,
+    r.period_start,
+    r.created_at AS started_at,
+    r.minutes AS plan_minutes,
+    LEAD(r.created_at) OVER (PARTITION BY r.company_id ORDER BY r.created_at) AS ended_at
+  FROM public.minutes_ledger r
+  WHERE r.entry_type = 'reset'
+)
+SELECT
+  p.company_id,
+  p.period_start,
+  p.started_at,
+  p.ended_at,
+  p.plan_minutes,
+  COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'rollover'), 0)::integer AS rollover_minutes,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'grant'), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'downgrade'), 0)
+  )::integer AS granted_minutes,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'deduction'), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'refund'), 0)
+  )::integer AS minutes_used,
+  (
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'topup'), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'expiry'), 0)
+  )::integer AS topup_minutes
+FROM periods p
+LEFT JOIN public.minutes_ledger l
+  ON l.company_id = p.company_id
+  AND l.entry_type <> 'reset'
+  AND l.created_at >= p.started_at
+  AND (p.ended_at IS NULL OR l.created_at < p.ended_at)
+GROUP BY p.company_id, p.period_start, p.started_at, p.ended_at, p.plan_minutes;
+
+-- Plan minutes granted this period are net of downgrades, so a later upgrade adds the full difference
+CREATE OR REPLACE FUNCTION public.sync_plan_minutes(
+  _company_id uuid,
+  _plan_minutes integer,
+  _period_start timestamp with time zone,
+  _actor_user_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _plan_type text;
+  _reset public.minutes_ledger%ROWTYPE;
+  _has_reset boolean;
+  _granted integer;
+  _unused integer := 0;
+  _rollover integer := 0;
+BEGIN
+  -- Serialise concurrent syncs for the same company
+  SELECT plan_type INTO _plan_type FROM public.companies WHERE id = _company_id FOR UPDATE;
+
+  SELECT * INTO _reset
+  FROM public.minutes_ledger
+  WHERE company_id = _company_id AND entry_type = 'reset'
+  ORDER BY created_at DESC
+  LIMIT 1;
+  _has_reset := FOUND;
+
+  IF NOT _has_reset OR _reset.period_start IS DISTINCT FROM _period_start THEN
+    -- Only a period that follows the current one inherits its unused minutes
+    IF _has_reset AND _reset.period_start < _period_start THEN
+      SELECT GREATEST(minutes_included - minutes_used, 0) INTO _unused
+      FROM public.company_minutes_balances
+      WHERE company_id = _company_id;
+
+      _unused := GREATEST(COALESCE(_unused, 0) - public.unused_pack_minutes(_company_id), 0);
+      _rollover := LEAST(_unused, public.plan_rollover_cap(_plan_type, _plan_minutes));
+    END IF;
+
+    INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, period_start, actor_user_id, note, created_at)
+    VALUES (_company_id, 'reset', _plan_minutes, _period_start, _actor_user_id, 'Plan allowance for new period',
+            LEAST(_period_start, now()))
+    ON CONFLICT DO NOTHING;
+
+    IF FOUND AND _rollover > 0 THEN
+      INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, period_start, actor_user_id, note, created_at)
+      VALUES (_company_id, 'rollover', _rollover, _period_start, _actor_user_id,
+              'Unused minutes carried over from the previous period', LEAST(_period_start, now()))
+      ON CONFLICT DO NOTHING;
+    END IF;
+    RETURN;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(minutes) FILTER (WHERE entry_type IN ('reset', 'grant')), 0)
+    - COALESCE(SUM(minutes) FILTER (WHERE entry_type = 'downgrade'), 0)
+  INTO _granted
+  FROM public.minutes_ledger
+  WHERE company_id = _company_id
+    AND entry_type IN ('reset', 'grant', 'downgrade')
+    AND created_at >= _reset.created_at;
+
+  -- Syncs only ever add the difference; minutes are taken away by apply_plan_downgrade
+  IF _plan_minutes > _granted THEN
+    INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, actor_user_id, note)
+    VALUES (_company_id, 'grant', _plan_minutes - _granted, _actor_user_id, 'Plan upgrade');
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.sync_plan_minutes(uuid, integer, timestamp with time zone, uuid) FROM PUBLIC, anon, authenticated;
+
+-- What changing to _plan_type would do now: the prorated charge (negative for a credit) at catalog
+-- prices, the plan minutes for the rest of the period and what is left once used and reserved
+-- minutes are counted. A downgrade applies now only if those minutes still fit; otherwise, and
+-- always for a yearly pool that was granted upfront, it waits for the end of the period.
+CREATE OR REPLACE FUNCTION public.preview_plan_change(_company_id uuid, _plan_type text)
+RETURNS TABLE(
+  direction text,
+  currency text,
+  billing_interval text,
+  current_price_cents integer,
+  new_price_cents integer,
+  prorated_cents integer,
+  current_allowance integer,
+  new_allowance integer,
+  minutes_committed integer,
+  minutes_left_after integer,
+  applies_now boolean,
+  period_end timestamp with time zone
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company public.companies%ROWTYPE;
+  _version uuid := public.pricing_version_at();
+  _current_monthly integer;
+  _new_monthly integer;
+  _current_price integer;
+  _new_price integer;
+  _granted integer;
+  _included integer;
+  _used integer;
+  _target integer;
+  _is_pool boolean;
+  _age interval;
+  _months_left integer;
+  _fraction_left numeric;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.is_company_admin(auth.uid(), _company_id) THEN
+    RAISE EXCEPTION 'Only company admins can change the plan';
+  END IF;
+
+  SELECT * INTO _company FROM public.companies WHERE id = _company_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Company not found';
+  END IF;
+  IF _company.plan_type IS NULL OR _company.subscription_period_start IS NULL OR _company.subscription_period_end IS NULL THEN
+    RAISE EXCEPTION 'Choose a plan to start a subscription first';
+  END IF;
+  IF _plan_type = _company.plan_type THEN
+    RAISE EXCEPTION 'You are already on this plan';
+  END IF;
+
+  SELECT p.minutes INTO _new_monthly
+  FROM public.pricing_plans p
+  WHERE p.version_id = _version AND p.plan_type = _plan_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid plan type: %', _plan_type;
+  END IF;
+  _current_monthly := public.plan_allowance(_company.plan_type);
+
+  SELECT CASE WHEN _company.billing_interval = 'year' THEN pr.annual_price_cents ELSE pr.price_cents END
+  INTO _current_price
+  FROM public.pricing_plan_prices pr
+  WHERE pr.version_id = _version AND pr.plan_type = _company.plan_type AND pr.currency = _company.billing_currency;
+
+  SELECT CASE WHEN _company.billing_interval = 'year' THEN pr.annual_price_cents ELSE pr.price_cents END
+  INTO _new_price
+  FROM public.pricing_plan_prices pr
+  WHERE pr.version_id = _version AND pr.plan_type = _plan_type AND pr.currency = _company.billing_currency;
+  IF COALESCE(_new_price, 0) <= 0 THEN
+    RAISE EXCEPTION 'This plan isn''t available with your billing';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type IN ('reset', 'grant')), 0)
+    - COALESCE(SUM(l.minutes) FILTER (WHERE l.entry_type = 'downgrade'), 0)
+  INTO _granted
+  FROM public.minutes_ledger l
+  WHERE l.company_id = _company_id
+    AND l.entry_type IN ('reset', 'grant', 'downgrade')
+    AND l.created_at >= (
+      SELECT MAX(r.created_at) FROM public.minutes_ledger r
+      WHERE r.company_id = _company_id AND r.entry_type = 'reset'
+    );
+
+  SELECT b.minutes_included, b.minutes_used INTO _included, _used
+  FROM public.company_minutes_balances b
+  WHERE b.company_id = _company_id;
+
+  _is_pool := _company.billing_interval = 'year' AND public.plan_annual_allowance(_company.plan_type) = 'yearly';
+  IF _is_pool THEN
+    -- As in sync_subscription_minutes: the pool changes by the monthly difference for the months left
+    _age := age(now(), _company.subscription_period_start);
+    _months_left := 12 - GREATEST(LEAST((extract(year FROM _age) * 12 + extract(month FROM _age))::integer, 11), 0);
+    _target := COALESCE(_granted, 0) + (_new_monthly - _current_monthly) * _months_left;
+  ELSE
+    _target := _new_monthly;
+  END IF;
+
+  direction := CASE WHEN _new_monthly > _current_monthly THEN 'upgrade' ELSE 'downgrade' END;
+  IF direction = 'upgrade' THEN
+    _target := GREATEST(_target, COALESCE(_granted, 0));
+  ELSE
+    _target := LEAST(_target, COALESCE(_granted, 0));
+  END IF;
+
+  _fraction_left := GREATEST(0, LEAST(1,
+    extract(epoch FROM (_company.subscription_period_end - now()))
+    / NULLIF(extract(epoch FROM (_company.subscription_period_end - _company.subscription_period_start)), 0)
+  ));
+
+  currency := _company.billing_currency;
+  billing_interval := _company.billing_interval;
+  current_price_cents := COALESCE(_current_price, 0);
+  new_price_cents := _new_price;
+  current_allowance := COALESCE(_granted, 0);
+  new_allowance := _target;
+  minutes_committed := COALESCE(_used, 0) + COALESCE(_company.minutes_reserved, 0);
+  minutes_left_after := COALESCE(_included, 0) - COALESCE(_granted, 0) + _target - minutes_committed;
+  applies_now := direction = 'upgrade' OR (NOT _is_pool AND minutes_left_after >= 0);
+  prorated_cents := CASE
+    WHEN applies_now THEN round((_new_price - COALESCE(_current_price, 0)) * COALESCE(_fraction_left, 0))::integer
+    ELSE 0
+  END;
+  period_end := _company.subscription_period_end;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_plan_change(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_plan_change(uuid, text) TO authenticated, service_role;
+
+-- Moves the company to a smaller plan now and takes the plan minutes it no longer includes out of
+-- the current period. Refuses when used and reserved minutes go over the smaller plan.
+CREATE OR REPLACE FUNCTION public.apply_plan_downgrade(
+  _company_id uuid,
+  _plan_type text,
+  _actor_user_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _preview record;
+BEGIN
+  -- Serialise with bookings and syncs for the same company
+  PERFORM 1 FROM public.companies WHERE id = _company_id FOR UPDATE;
+
+  SELECT * INTO _preview FROM public.preview_plan_change(_company_id, _plan_type);
+  IF _preview.direction <> 'downgrade' THEN
+    RAISE EXCEPTION 'Only a smaller plan can be a downgrade';
+  END IF;
+  IF NOT _preview.applies_now THEN
+    RAISE EXCEPTION 'Minutes already used or reserved this period go over the smaller plan. Schedule the change for the end of the period instead.';
+  END IF;
+
+  IF _preview.current_allowance > _preview.new_allowance THEN
+    INSERT INTO public.minutes_ledger (company_id, entry_type, minutes, actor_user_id, note)
+    VALUES (_company_id, 'downgrade', _preview.current_allowance - _preview.new_allowance, _actor_user_id, 'Plan downgrade');
+  END IF;
+
+  UPDATE public.companies
+  SET plan_type = _plan_type,
+      scheduled_plan_type = NULL
+  WHERE id = _company_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_plan_downgrade(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_plan_downgrade(uuid, text, uuid) TO service_role;
+
+-- Test accounts renew by their billing interval, moving to a scheduled plan first. Companies on a
+-- free trial have no plan yet and are left to process-trials.
+CREATE OR REPLACE FUNCTION public.renew_test_account_periods()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company record;
+  _step interval;
+  _start timestamp with time zone;
+  _end timestamp with time zone;
+BEGIN
+  FOR _company IN
+    SELECT id, billing_interval, subscription_period_end
+    FROM public.companies
+    WHERE is_test_account = true
+      AND subscription_status = 'active'
+      AND plan_type IS NOT NULL
+      AND subscription_period_end IS NOT NULL
+      AND subscription_period_end <= now()
+  LOOP
+    _step := CASE WHEN _company.billing_interval = 'year' THEN interval '1 year' ELSE interval '1 month' END;
+    _start := _company.subscription_period_end;
+    _end := _start + _step;
+
+    -- Each missed period is its own period, so rollover is applied once per period
+    LOOP
+      UPDATE public.companies
+      SET plan_type = COALESCE(scheduled_plan_type, plan_type),
+          scheduled_plan_type = NULL,
+          subscription_period_start = _start,
+          subscription_period_end = _end
+      WHERE id = _company.id;
+
+      PERFORM public.sync_subscription_minutes(_company.id);
+
+      EXIT WHEN _end > now();
+      _start := _end;
+      _end := _start + _step;
+    END LOOP;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.renew_test_account_periods() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,195 @@
+-- Specialist pay is fixed on the booking when it is earned: the hourly rate of the tier the
+-- specialist was on, for the booking's pricing version and the specialist's payout currency.
+-- Later tier, currency or catalog changes leave past earnings alone.
+
+ALTER TABLE public.bookings
+  ADD COLUMN specialist_rate_cents INTEGER,
+  ADD COLUMN specialist_pay_cents INTEGER,
+  ADD COLUMN specialist_pay_currency TEXT CHECK (specialist_pay_currency IN ('usd', 'eur', 'gbp'));
+
+COMMENT ON COLUMN public.bookings.specialist_rate_cents IS 'Specialist hourly rate that applied when the session was completed, cancelled late or missed';
+COMMENT ON COLUMN public.bookings.specialist_pay_cents IS 'Amount owed to the specialist for the booking; NULL when it earns nothing';
+COMMENT ON COLUMN public.bookings.specialist_pay_currency IS 'Currency of specialist_rate_cents and specialist_pay_cents';
+
+CREATE OR REPLACE FUNCTION public.specialist_booking_pay(_booking public.bookings)
+RETURNS TABLE(rate_cents integer, pay_cents integer, currency text)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _rate_tier text;
+  _session integer;
+  _share integer;
+BEGIN
+  IF _booking.status = 'completed' THEN
+    _share := 100;
+  ELSIF _booking.status IN ('cancelled', 'no_show') AND _booking.specialist_fee_percent IS NOT NULL THEN
+    _share := _booking.specialist_fee_percent;
+  ELSE
+    RETURN;
+  END IF;
+
+  -- Completed sessions are paid for the minutes complete_booking charged, at the tier it recorded
+  SELECT l.rate_tier, l.session_minutes INTO _rate_tier, _session
+  FROM public.minutes_ledger l
+  WHERE l.booking_id = _booking.id AND l.entry_type = 'deduction'
+  ORDER BY l.created_at DESC
+  LIMIT 1;
+
+  SELECT COALESCE(_rate_tier, s.rate_tier::text, 'standard'), s.payout_currency
+  INTO _rate_tier, currency
+  FROM public.specialists s
+  WHERE s.id = _booking.specialist_id;
+
+  IF _booking.status <> 'completed' OR _session IS NULL THEN
+    _session := _booking.session_duration;
+  END IF;
+
+  SELECT r.specialist_rate_cents INTO rate_cents
+  FROM public.pricing_tier_rates r
+  WHERE r.version_id = COALESCE(_booking.pricing_version_id, public.pricing_version_at())
+    AND r.rate_tier::text = _rate_tier
+    AND r.currency = specialist_booking_pay.currency;
+
+  IF rate_cents IS NULL THEN
+    RAISE EXCEPTION 'The pricing catalog has no % rate for the % tier', upper(currency), _rate_tier;
+  END IF;
+
+  pay_cents := ROUND(rate_cents * _session / 60.0 * _share / 100.0)::integer;
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.specialist_booking_pay(public.bookings) FROM PUBLIC, anon, authenticated;
+
+-- Runs after apply_booking_cancellation_policy (triggers fire in name order), so a late
+-- cancellation or no-show already carries its specialist_fee_percent
+CREATE OR REPLACE FUNCTION public.record_booking_specialist_pay()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- No row (a status that earns nothing) clears the pay
+  SELECT pay.rate_cents, pay.pay_cents, pay.currency
+  INTO NEW.specialist_rate_cents, NEW.specialist_pay_cents, NEW.specialist_pay_currency
+  FROM public.specialist_booking_pay(NEW) AS pay;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_booking_specialist_pay
+  BEFORE UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.record_booking_specialist_pay();
+
+-- Bookings earned before this migration are priced at the specialist's tier and currency today,
+-- the closest record there is of what applied
+UPDATE public.bookings b
+SET specialist_rate_cents = pay.rate_cents,
+    specialist_pay_cents = pay.pay_cents,
+    specialist_pay_currency = pay.currency
+FROM public.bookings src
+CROSS JOIN LATERAL public.specialist_booking_pay(src) AS pay
+WHERE src.id = b.id
+  AND b.status IN ('completed', 'cancelled', 'no_show');
+
+CREATE INDEX idx_bookings_specialist_pay
+  ON public.bookings (specialist_id, COALESCE(confirmed_datetime, proposed_datetime))
+  WHERE specialist_pay_cents IS NOT NULL;
+
+-- Earnings between two instants, one row per payout currency (usually just one)
+CREATE OR REPLACE FUNCTION public.specialist_earnings(
+  _specialist_id uuid,
+  _from timestamp with time zone,
+  _to timestamp with time zone
+)
+RETURNS TABLE(currency text, earnings_cents bigint, sessions integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    b.specialist_pay_currency,
+    SUM(b.specialist_pay_cents)::bigint,
+    (COUNT(*) FILTER (WHERE b.status = 'completed'))::integer
+  FROM public.bookings b
+  WHERE b.specialist_id = _specialist_id
+    AND b.specialist_pay_cents IS NOT NULL
+    AND COALESCE(b.confirmed_datetime, b.proposed_datetime) >= _from
+    AND COALESCE(b.confirmed_datetime, b.proposed_datetime) < _to
+    AND (
+      public.is_specialist_owner(auth.uid(), _specialist_id)
+      OR public.has_role(auth.uid(), 'admin'::app_role)
+    )
+  GROUP BY b.specialist_pay_currency
+  ORDER BY b.specialist_pay_currency;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.specialist_earnings(uuid, timestamp with time zone, timestamp with time zone) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.specialist_earnings(uuid, timestamp with time zone, timestamp with time zone) TO authenticated;
+
+-- Payout requests are created here rather than inserted by the specialist, so the amount and
+-- period come from the stored booking pay: the current calendar month (UTC), in the
+-- specialist's payout currency
+DROP POLICY "Specialists can create payout requests" ON public.payout_requests;
+
+CREATE OR REPLACE FUNCTION public.request_specialist_payout(_specialist_id uuid)
+RETURNS public.payout_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _currency text;
+  _period_start timestamp with time zone;
+  _period_end timestamp with time zone;
+  _amount_cents bigint;
+  _request public.payout_requests%ROWTYPE;
+BEGIN
+  IF NOT public.is_specialist_owner(auth.uid(), _specialist_id) THEN
+    RAISE EXCEPTION 'Only the specialist can request their payout';
+  END IF;
+
+  SELECT payout_currency INTO _currency
+  FROM public.specialists
+  WHERE id = _specialist_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payout_requests
+    WHERE specialist_id = _specialist_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'You already have a payout request being processed';
+  END IF;
+
+  _period_start := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  _period_end := _period_start + interval '1 month' - interval '1 microsecond';
+
+  SELECT COALESCE(SUM(specialist_pay_cents), 0) INTO _amount_cents
+  FROM public.bookings
+  WHERE specialist_id = _specialist_id
+    AND specialist_pay_currency = _currency
+    AND COALESCE(confirmed_datetime, proposed_datetime) BETWEEN _period_start AND _period_end;
+
+  IF _amount_cents <= 0 THEN
+    RAISE EXCEPTION 'You need completed sessions this month before requesting a payout';
+  END IF;
+
+  INSERT INTO public.payout_requests (specialist_id, amount, currency, period_start, period_end, status)
+  VALUES (_specialist_id, _amount_cents / 100.0, _currency, _period_start, _period_end, 'pending')
+  RETURNING * INTO _request;
+
+  RETURN _request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_specialist_payout(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_specialist_payout(uuid) TO authenticated;
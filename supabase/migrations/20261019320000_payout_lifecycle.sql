@@ -0,0 +1,321 @@
+-- Payout requests move through requested -> approved -> paid, or are rejected with a reason.
+-- An approved payout whose transfer fails is marked failed and can be retried, which approves
+-- it again. Each request is linked to the bookings it pays for, and a booking can only be in
+-- one request that hasn't been rejected, so no session is paid twice.
+
+ALTER TABLE public.payout_requests ALTER COLUMN status SET DEFAULT 'requested';
+
+UPDATE public.payout_requests SET status = 'requested' WHERE status = 'pending';
+
+ALTER TABLE public.payout_requests
+  ADD CONSTRAINT payout_requests_status_check
+  CHECK (status IN ('requested', 'approved', 'paid', 'rejected', 'failed'));
+
+ALTER TABLE public.payout_requests
+  ADD COLUMN expected_payment_date DATE,
+  ADD COLUMN approved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN paid_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN rejection_reason TEXT,
+  ADD COLUMN failure_reason TEXT,
+  ADD COLUMN retry_count INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.payout_requests SET paid_at = processed_at WHERE status = 'paid';
+
+COMMENT ON COLUMN public.payout_requests.expected_payment_date IS 'Date the specialist can expect the money; set when the payout is approved or retried';
+COMMENT ON COLUMN public.payout_requests.failure_reason IS 'Why the last transfer failed; cleared when the payout is retried';
+COMMENT ON COLUMN public.payout_requests.retry_count IS 'Times the payout has been retried after a failed transfer';
+
+CREATE INDEX idx_payout_requests_specialist ON public.payout_requests (specialist_id, created_at DESC);
+
+CREATE TABLE public.payout_request_bookings (
+  payout_request_id UUID NOT NULL REFERENCES public.payout_requests(id) ON DELETE CASCADE,
+  booking_id UUID NOT NULL REFERENCES public.bookings(id) ON DELETE CASCADE,
+  amount_cents INTEGER NOT NULL,
+  released_at TIMESTAMP WITH TIME ZONE,
+  PRIMARY KEY (payout_request_id, booking_id)
+);
+
+COMMENT ON COLUMN public.payout_request_bookings.released_at IS 'Set when the request is rejected, so the booking can go into a later request';
+
+-- The guard against paying a session twice
+CREATE UNIQUE INDEX payout_request_bookings_active_booking
+  ON public.payout_request_bookings (booking_id)
+  WHERE released_at IS NULL;
+
+CREATE TABLE public.payout_request_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payout_request_id UUID NOT NULL REFERENCES public.payout_requests(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('requested', 'approved', 'paid', 'rejected', 'failed', 'retried')),
+  reason TEXT,
+  actor_user_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payout_request_events_request ON public.payout_request_events (payout_request_id, created_at);
+
+ALTER TABLE public.payout_request_bookings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payout_request_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Specialists can view their payout bookings"
+  ON public.payout_request_bookings FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.payout_requests r
+    WHERE r.id = payout_request_id AND public.is_specialist_owner(auth.uid(), r.specialist_id)
+  ));
+
+CREATE POLICY "Admins can view all payout bookings"
+  ON public.payout_request_bookings FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Specialists can view their payout history"
+  ON public.payout_request_events FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.payout_requests r
+    WHERE r.id = payout_request_id AND public.is_specialist_owner(auth.uid(), r.specialist_id)
+  ));
+
+CREATE POLICY "Admins can view all payout history"
+  ON public.payout_request_events FOR SELECT
+  USING (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Status changes go through transition_payout_request so each one is checked and recorded
+DROP POLICY "Admins can update payout requests" ON public.payout_requests;
+
+-- Requests made before bookings were linked claim the sessions in their period, oldest request
+-- first, so those sessions can't be requested again
+INSERT INTO public.payout_request_bookings (payout_request_id, booking_id, amount_cents)
+SELECT DISTINCT ON (b.id) r.id, b.id, b.specialist_pay_cents
+FROM public.payout_requests r
+JOIN public.bookings b
+  ON b.specialist_id = r.specialist_id
+  AND b.specialist_pay_currency = r.currency
+  AND b.specialist_pay_cents IS NOT NULL
+  AND COALESCE(b.confirmed_datetime, b.proposed_datetime) BETWEEN r.period_start AND r.period_end
+WHERE r.status IN ('requested', 'paid')
+ORDER BY b.id, r.created_at;
+
+INSERT INTO public.payout_request_events (payout_request_id, event, created_at)
+SELECT id, 'requested', created_at FROM public.payout_requests;
+
+INSERT INTO public.payout_request_events (payout_request_id, event, actor_user_id, created_at)
+SELECT id, 'paid', processed_by, processed_at FROM public.payout_requests
+WHERE status = 'paid' AND processed_at IS NOT NULL;
+
+-- Earned sessions that have taken place and aren't in a payout yet, per currency
+CREATE OR REPLACE FUNCTION public.specialist_unpaid_earnings(_specialist_id uuid)
+RETURNS TABLE(currency text, earnings_cents bigint, sessions integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    b.specialist_pay_currency,
+    SUM(b.specialist_pay_cents)::bigint,
+    (COUNT(*) FILTER (WHERE b.status = 'completed'))::integer
+  FROM public.bookings b
+  WHERE b.specialist_id = _specialist_id
+    AND b.specialist_pay_cents IS NOT NULL
+    AND COALESCE(b.confirmed_datetime, b.proposed_datetime) <= now()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payout_request_bookings pb
+      WHERE pb.booking_id = b.id AND pb.released_at IS NULL
+    )
+    AND (
+      public.is_specialist_owner(auth.uid(), _specialist_id)
+      OR public.has_role(auth.uid(), 'admin'::app_role)
+    )
+  GROUP BY b.specialist_pay_currency
+  ORDER BY b.specialist_pay_currency;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.specialist_unpaid_earnings(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.specialist_unpaid_earnings(uuid) TO authenticated;
+
+-- A request now covers every unpaid session in the payout currency rather than the current
+-- month, so sessions from a month that was never requested aren't left behind
+CREATE OR REPLACE FUNCTION public.request_specialist_payout(_specialist_id uuid)
+RETURNS public.payout_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _currency text;
+  _request public.payout_requests%ROWTYPE;
+  _amount_cents bigint;
+  _first_session timestamp with time zone;
+BEGIN
+  IF NOT public.is_specialist_owner(auth.uid(), _specialist_id) THEN
+    RAISE EXCEPTION 'Only the specialist can request their payout';
+  END IF;
+
+  SELECT payout_currency INTO _currency
+  FROM public.specialists
+  WHERE id = _specialist_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payout_requests
+    WHERE specialist_id = _specialist_id AND status IN ('requested', 'approved', 'failed')
+  ) THEN
+    RAISE EXCEPTION 'You already have a payout request being processed';
+  END IF;
+
+  INSERT INTO public.payout_requests (specialist_id, amount, currency, period_start, period_end, status)
+  VALUES (_specialist_id, 0, _currency, now(), now(), 'requested')
+  RETURNING * INTO _request;
+
+  INSERT INTO public.payout_request_bookings (payout_request_id, booking_id, amount_cents)
+  SELECT _request.id, b.id, b.specialist_pay_cents
+  FROM public.bookings b
+  WHERE b.specialist_id = _specialist_id
+    AND b.specialist_pay_currency = _currency
+    AND b.specialist_pay_cents IS NOT NULL
+    AND COALESCE(b.confirmed_datetime, b.proposed_datetime) <= now()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payout_request_bookings pb
+      WHERE pb.booking_id = b.id AND pb.released_at IS NULL
+    );
+
+  -- The amount and period are those of the linked bookings, whatever was earned in between
+  SELECT COALESCE(SUM(pb.amount_cents), 0), MIN(COALESCE(b.confirmed_datetime, b.proposed_datetime))
+  INTO _amount_cents, _first_session
+  FROM public.payout_request_bookings pb
+  JOIN public.bookings b ON b.id = pb.booking_id
+  WHERE pb.payout_request_id = _request.id;
+
+  IF _amount_cents <= 0 THEN
+    RAISE EXCEPTION 'You have no unpaid sessions to request a payout for';
+  END IF;
+
+  UPDATE public.payout_requests
+  SET amount = _amount_cents / 100.0,
+      period_start = _first_session
+  WHERE id = _request.id
+  RETURNING * INTO _request;
+
+  INSERT INTO public.payout_request_events (payout_request_id, event, actor_user_id)
+  VALUES (_request.id, 'requested', auth.uid());
+
+  RETURN _request;
+END;
+$$;
+
+-- Called by update-payout once it has checked the caller is a platform admin.
+-- _action is approve, reject, mark_paid, mark_failed or retry.
+CREATE OR REPLACE FUNCTION public.transition_payout_request(
+  _payout_request_id uuid,
+  _action text,
+  _reason text DEFAULT NULL,
+  _expected_payment_date date DEFAULT NULL,
+  _actor_user_id uuid DEFAULT NULL
+)
+RETURNS public.payout_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.payout_requests%ROWTYPE;
+  _reason_text text := NULLIF(trim(_reason), '');
+  _event text;
+BEGIN
+  SELECT * INTO _request
+  FROM public.payout_requests
+  WHERE id = _payout_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payout request not found';
+  END IF;
+
+  IF _expected_payment_date IS NOT NULL AND _expected_payment_date < current_date THEN
+    RAISE EXCEPTION 'The expected payment date can''t be in the past';
+  END IF;
+
+  IF _action = 'approve' THEN
+    IF _request.status <> 'requested' THEN
+      RAISE EXCEPTION 'Only requested payouts can be approved (this one is %)', _request.status;
+    END IF;
+
+    UPDATE public.payout_requests
+    SET status = 'approved',
+        approved_at = now(),
+        expected_payment_date = COALESCE(_expected_payment_date, current_date + 5)
+    WHERE id = _payout_request_id;
+    _event := 'approved';
+  ELSIF _action = 'reject' THEN
+    IF _request.status NOT IN ('requested', 'failed') THEN
+      RAISE EXCEPTION 'Only requested or failed payouts can be rejected (this one is %)', _request.status;
+    END IF;
+    IF _reason_text IS NULL THEN
+      RAISE EXCEPTION 'Give a reason for rejecting the payout';
+    END IF;
+
+    UPDATE public.payout_requests
+    SET status = 'rejected',
+        rejection_reason = _reason_text,
+        expected_payment_date = NULL
+    WHERE id = _payout_request_id;
+
+    -- The sessions go back to unpaid and can be requested again
+    UPDATE public.payout_request_bookings
+    SET released_at = now()
+    WHERE payout_request_id = _payout_request_id AND released_at IS NULL;
+    _event := 'rejected';
+  ELSIF _action = 'mark_paid' THEN
+    IF _request.status <> 'approved' THEN
+      RAISE EXCEPTION 'Only approved payouts can be marked as paid (this one is %)', _request.status;
+    END IF;
+
+    UPDATE public.payout_requests
+    SET status = 'paid',
+        paid_at = now()
+    WHERE id = _payout_request_id;
+    _event := 'paid';
+  ELSIF _action = 'mark_failed' THEN
+    IF _request.status <> 'approved' THEN
+      RAISE EXCEPTION 'Only approved payouts can fail (this one is %)', _request.status;
+    END IF;
+    IF _reason_text IS NULL THEN
+      RAISE EXCEPTION 'Give a reason the payment failed';
+    END IF;
+
+    UPDATE public.payout_requests
+    SET status = 'failed',
+        failure_reason = _reason_text,
+        expected_payment_date = NULL
+    WHERE id = _payout_request_id;
+    _event := 'failed';
+  ELSIF _action = 'retry' THEN
+    IF _request.status <> 'failed' THEN
+      RAISE EXCEPTION 'Only failed payouts can be retried (this one is %)', _request.status;
+    END IF;
+
+    UPDATE public.payout_requests
+    SET status = 'approved',
+        failure_reason = NULL,
+        retry_count = retry_count + 1,
+        expected_payment_date = COALESCE(_expected_payment_date, current_date + 5)
+    WHERE id = _payout_request_id;
+    _event := 'retried';
+  ELSE
+    RAISE EXCEPTION 'Unknown payout action: %', _action;
+  END IF;
+
+  UPDATE public.payout_requests
+  SET processed_at = now(),
+      processed_by = _actor_user_id
+  WHERE id = _payout_request_id
+  RETURNING * INTO _request;
+
+  INSERT INTO public.payout_request_events (payout_request_id, event, reason, actor_user_id)
+  VALUES (_payout_request_id, _event, _reason_text, _actor_user_id);
+
+  RETURN _request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_payout_request(uuid, text, text, date, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.transition_payout_request(uuid, text, text, date, uuid) TO service_role;
@@ -0,0 +1,6 @@
+-- 20261019110000_user_timezones recreated specialists_public with security_invoker and without
+-- its grant, so homepage visitors (anon) could no longer read it. Like the homepage view it
+-- replaced, it runs as its owner again and only exposes non-sensitive profile fields.
+ALTER VIEW public.specialists_public RESET (security_invoker);
+
+GRANT SELECT ON public.specialists_public TO anon, authenticated;
@@ -0,0 +1,11 @@
+-- The booking update policies put no limit on columns, so an employee or specialist could inflate
+-- minutes_reserved or repoint company_id and then cancel, releasing holds that were never placed
+-- or another company's. The hold columns are now written only by apply_booking_minutes_hold and
+-- the functions that run as the table owner; clients keep update rights on every other column.
+REVOKE UPDATE ON public.bookings FROM anon, authenticated;
+GRANT UPDATE (
+  id, employee_user_id, specialist_id, slot_id, session_type, session_duration, status, notes,
+  proposed_datetime, confirmed_datetime, meeting_link, zoom_link, created_at, updated_at,
+  late_cancellation, specialist_fee_percent, calendar_sequence, department, pricing_version_id,
+  specialist_rate_cents, specialist_pay_cents, specialist_pay_currency
+) ON public.bookings TO authenticated;
@@ -0,0 +1,32 @@
+-- Two ledger inserts for the same company in concurrent transactions could each recompute the
+-- cached balance from a snapshot without the other's entry, and the later commit left a total
+-- that was missing one of them. The company row is now locked before the balance is read.
+CREATE OR REPLACE FUNCTION public.refresh_company_minutes(_company_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _included integer;
+  _used integer;
+BEGIN
+  -- Lock the company first, in its own statement: a ledger insert for the same company in
+  -- another transaction waits here until that one commits, so the balance read below starts
+  -- from a snapshot that includes its entry instead of overwriting the cache with a stale total
+  PERFORM 1 FROM public.companies WHERE id = _company_id FOR UPDATE;
+
+  SELECT b.minutes_included, b.minutes_used INTO _included, _used
+  FROM public.company_minutes_balances b
+  WHERE b.company_id = _company_id;
+
+  PERFORM set_config('hollyaid.minutes_sync', 'on', true);
+
+  UPDATE public.companies
+  SET minutes_included = COALESCE(_included, 0),
+      minutes_used = COALESCE(_used, 0)
+  WHERE id = _company_id;
+
+  PERFORM set_config('hollyaid.minutes_sync', 'off', true);
+END;
+$$;
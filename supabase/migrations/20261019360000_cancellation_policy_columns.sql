@@ -0,0 +1,4 @@
+-- late_cancellation and specialist_fee_percent decide what a cancelled or missed session costs the
+-- company and earns the specialist, so only apply_booking_cancellation_policy sets them. Until now
+-- the booking update policies let either party write them directly.
+REVOKE UPDATE (late_cancellation, specialist_fee_percent) ON public.bookings FROM authenticated;
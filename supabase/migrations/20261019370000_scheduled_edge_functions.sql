@@ -0,0 +1,39 @@
+-- Edge functions that need to run on a schedule are called from pg_cron through pg_net.
+
+-- Calls an edge function from pg_cron with the service-role key, which the scheduled functions
+-- require of their callers. Both values are read from Vault:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(_function text, _body jsonb DEFAULT '{}'::jsonb)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _url text;
+  _key text;
+BEGIN
+  SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF _url IS NULL OR _key IS NULL THEN
+    RAISE EXCEPTION 'Add the project_url and service_role_key secrets to Vault to run % on a schedule', _function;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(_url, '/') || '/functions/v1/' || _function,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || _key),
+    body := _body
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- A lapsed claim window is handed on even when nothing else frees a slot in the meantime
+SELECT cron.schedule(
+  'process-waitlist',
+  '*/5 * * * *',
+  $$SELECT public.invoke_edge_function('process-waitlist')$$
+);
@@ -0,0 +1,62 @@
+-- A booking waiting for company approval could be moved on with a plain update: the employee could
+-- send it to the specialist as 'pending' and the specialist could approve it outright, skipping the
+-- soft-cap approval. Only review_department_booking can now move it on; withdrawing the request
+-- (or a company suspension) can still cancel it.
+CREATE OR REPLACE FUNCTION public.guard_department_approval()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status = 'awaiting_approval'
+    AND NEW.status NOT IN ('awaiting_approval', 'cancelled')
+    AND current_setting('hollyaid.department_review', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'This booking request is waiting for company approval';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_department_approval
+  BEFORE UPDATE OF status ON public.bookings
+  FOR EACH ROW EXECUTE FUNCTION public.guard_department_approval();
+
+-- Approving sends the request on to the specialist as 'pending'; rejecting declines it and
+-- gives the slot back
+CREATE OR REPLACE FUNCTION public.review_department_booking(_booking_id uuid, _approve boolean)
+RETURNS public.bookings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _booking public.bookings%ROWTYPE;
+BEGIN
+  SELECT * INTO _booking
+  FROM public.bookings
+  WHERE id = _booking_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT (
+    public.is_company_admin(auth.uid(), _booking.company_id)
+    OR public.has_role(auth.uid(), 'admin'::app_role)
+  ) THEN
+    RAISE EXCEPTION 'Booking request not found';
+  END IF;
+
+  IF _booking.status <> 'awaiting_approval' THEN
+    RAISE EXCEPTION 'This booking request is no longer waiting for approval';
+  END IF;
+
+  -- Read by guard_department_approval
+  PERFORM set_config('hollyaid.department_review', 'on', true);
+
+  UPDATE public.bookings
+  SET status = CASE WHEN _approve THEN 'pending' ELSE 'declined' END
+  WHERE id = _booking_id
+  RETURNING * INTO _booking;
+
+  PERFORM set_config('hollyaid.department_review', 'off', true);
+
+  RETURN _booking;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- A booking's hold, charge and overage rate are all priced from pricing_version_id, so a client
+-- that could repoint it would pay a cheaper version's prices. It is set when the booking is created.
+REVOKE UPDATE (pricing_version_id) ON public.bookings FROM authenticated;
@@ -0,0 +1,111 @@
+-- Minute packs in the pricing catalog, priced per currency.
+-- Top-up packs were hard-coded in USD in the billing page, create-topup-checkout and the low
+-- minutes email, so EUR and GBP companies were offered and charged dollar prices. Packs now belong
+-- to a pricing version like plans do, with a price in each currency; a company is offered and
+-- charged the price in its billing currency.
+
+CREATE TABLE public.pricing_minute_packs (
+  version_id UUID NOT NULL REFERENCES public.pricing_versions(id) ON DELETE CASCADE,
+  pack_id TEXT NOT NULL,
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  validity_days INTEGER NOT NULL CHECK (validity_days > 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (version_id, pack_id)
+);
+
+CREATE TABLE public.pricing_pack_prices (
+  version_id UUID NOT NULL,
+  pack_id TEXT NOT NULL,
+  currency TEXT NOT NULL CHECK (currency IN ('usd', 'eur', 'gbp')),
+  price_cents INTEGER NOT NULL CHECK (price_cents >= 0),
+  PRIMARY KEY (version_id, pack_id, currency),
+  FOREIGN KEY (version_id, pack_id) REFERENCES public.pricing_minute_packs(version_id, pack_id) ON DELETE CASCADE
+);
+
+ALTER TABLE public.pricing_minute_packs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pricing_pack_prices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pricing minute packs"
+  ON public.pricing_minute_packs FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view pricing pack prices"
+  ON public.pricing_pack_prices FOR SELECT
+  USING (true);
+
+-- Every version gets the packs that were hard-coded until now; EUR and GBP start from rounded local prices
+INSERT INTO public.pricing_minute_packs (version_id, pack_id, minutes, validity_days, sort_order)
+SELECT v.id, p.pack_id, p.minutes, p.validity_days, p.sort_order
+FROM public.pricing_versions v
+CROSS JOIN (VALUES
+  ('pack_100', 100, 30, 1),
+  ('pack_250', 250, 30, 2),
+  ('pack_500', 500, 60, 3)
+) AS p(pack_id, minutes, validity_days, sort_order);
+
+INSERT INTO public.pricing_pack_prices (version_id, pack_id, currency, price_cents)
+SELECT p.version_id, p.pack_id, local.currency, local.price_cents
+FROM public.pricing_minute_packs p
+JOIN (VALUES
+  ('pack_100', 'usd', 8000), ('pack_250', 'usd', 19000), ('pack_500', 'usd', 36000),
+  ('pack_100', 'eur', 7200), ('pack_250', 'eur', 17000), ('pack_500', 'eur', 32500),
+  ('pack_100', 'gbp', 6200), ('pack_250', 'gbp', 14500), ('pack_500', 'gbp', 27500)
+) AS local(pack_id, currency, price_cents) ON local.pack_id = p.pack_id;
+
+-- create_pricing_version doesn't take packs yet, so a new version starts with the packs of the
+-- latest version before it
+CREATE OR REPLACE FUNCTION public.copy_pricing_minute_packs()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _previous uuid;
+BEGIN
+  SELECT id INTO _previous
+  FROM public.pricing_versions
+  WHERE id <> NEW.id
+  ORDER BY effective_from DESC
+  LIMIT 1;
+
+  IF _previous IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.pricing_minute_packs (version_id, pack_id, minutes, validity_days, sort_order)
+  SELECT NEW.id, pack_id, minutes, validity_days, sort_order
+  FROM public.pricing_minute_packs
+  WHERE version_id = _previous;
+
+  INSERT INTO public.pricing_pack_prices (version_id, pack_id, currency, price_cents)
+  SELECT NEW.id, pack_id, currency, price_cents
+  FROM public.pricing_pack_prices
+  WHERE version_id = _previous;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER copy_pricing_minute_packs
+  AFTER INSERT ON public.pricing_versions
+  FOR EACH ROW EXECUTE FUNCTION public.copy_pricing_minute_packs();
+
+-- Packs on sale now, priced in the given currency
+CREATE OR REPLACE FUNCTION public.minute_pack_offers(_currency text)
+RETURNS TABLE(pack_id text, minutes integer, validity_days integer, price_cents integer)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.pack_id, p.minutes, p.validity_days, pr.price_cents
+  FROM public.pricing_minute_packs p
+  JOIN public.pricing_pack_prices pr
+    ON pr.version_id = p.version_id AND pr.pack_id = p.pack_id AND pr.currency = _currency
+  WHERE p.version_id = public.pricing_version_at()
+  ORDER BY p.sort_order;
+$$;
+
+-- A purchase records the currency it was charged in
+ALTER TABLE public.minute_packs
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'usd' CHECK (currency IN ('usd', 'eur', 'gbp'));
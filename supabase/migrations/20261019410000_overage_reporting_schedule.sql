@@ -0,0 +1,35 @@
+-- report-overage-usage now only accepts the service-role key, so the billing page can no longer
+-- call it when an admin turns overage on. The database makes that call instead, and a schedule
+-- picks up anything left unreported.
+
+-- Turning overage on puts the metered price on the subscription straight away. The first report
+-- adds it too, so a failed call only warns rather than undoing the admin's change.
+CREATE OR REPLACE FUNCTION public.setup_company_overage_billing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.overage_enabled AND NOT OLD.overage_enabled THEN
+    BEGIN
+      PERFORM public.invoke_edge_function('report-overage-usage', jsonb_build_object('companyId', NEW.id));
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not set up overage billing for company %: %', NEW.id, SQLERRM;
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER setup_company_overage_billing
+  AFTER UPDATE OF overage_enabled ON public.companies
+  FOR EACH ROW EXECUTE FUNCTION public.setup_company_overage_billing();
+
+-- Retries charges Stripe rejected and any report complete-booking didn't get to
+SELECT cron.schedule(
+  'report-overage-usage',
+  '*/15 * * * *',
+  $$SELECT public.invoke_edge_function('report-overage-usage')$$
+);
@@ -0,0 +1,6 @@
+-- Later reminders and suspensions fall due with no webhook to prompt them
+SELECT cron.schedule(
+  'process-dunning',
+  '0 * * * *',
+  $$SELECT public.invoke_edge_function('process-dunning')$$
+);
@@ -0,0 +1,70 @@
+-- A suspension cancelled approved sessions along with open requests, although approved sessions
+-- go ahead during the grace period. Confirmed sessions now go ahead after a suspension too; only
+-- requests that aren't confirmed yet are withdrawn. Specialists are only told about the pending
+-- requests they had already been sent.
+
+-- Suspends past-due companies whose grace period is over and withdraws their unconfirmed requests.
+-- Returns one row per withdrawn request the specialist had been sent, or a single row with a NULL
+-- booking for a company that had none, so process-dunning can tell the company admin and each
+-- specialist.
+CREATE OR REPLACE FUNCTION public.suspend_overdue_companies()
+RETURNS TABLE(
+  company_id uuid,
+  company_name text,
+  admin_email text,
+  booking_id uuid
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _company record;
+  _cancelled uuid[];
+BEGIN
+  FOR _company IN
+    SELECT c.id, c.name, p.email
+    FROM public.companies c
+    LEFT JOIN public.profiles p ON p.user_id = c.admin_user_id
+    WHERE c.subscription_status = 'past_due'
+      AND c.grace_period_ends_at <= now()
+    FOR UPDATE OF c
+  LOOP
+    UPDATE public.companies
+    SET subscription_status = 'suspended',
+        is_paid = false,
+        suspended_at = now()
+    WHERE id = _company.id;
+
+    -- Read by apply_booking_cancellation_policy: these cancellations are not the employee's doing
+    PERFORM set_config('hollyaid.company_suspension', 'on', true);
+
+    WITH open_requests AS (
+      SELECT b.id, b.status
+      FROM public.bookings b
+      WHERE b.company_id = _company.id
+        AND b.status IN ('pending', 'awaiting_approval')
+        AND COALESCE(b.confirmed_datetime, b.proposed_datetime) > now()
+      FOR UPDATE
+    ),
+    cancelled AS (
+      UPDATE public.bookings b
+      SET status = 'cancelled'
+      FROM open_requests r
+      WHERE b.id = r.id
+      RETURNING b.id, r.status AS previous_status
+    )
+    -- Requests still awaiting company approval never reached the specialist
+    SELECT array_agg(id) FILTER (WHERE previous_status = 'pending') INTO _cancelled FROM cancelled;
+
+    PERFORM set_config('hollyaid.company_suspension', 'off', true);
+
+    IF _cancelled IS NULL THEN
+      RETURN QUERY SELECT _company.id, _company.name, _company.email, NULL::uuid;
+    ELSE
+      RETURN QUERY SELECT _company.id, _company.name, _company.email, unnest(_cancelled);
+    END IF;
+  END LOOP;
+END;
+$$;
+
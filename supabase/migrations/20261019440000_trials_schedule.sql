@@ -0,0 +1,6 @@
+-- Trials end and warnings fall due on their own clock, so nothing else would prompt these
+SELECT cron.schedule(
+  'process-trials',
+  '0 * * * *',
+  $$SELECT public.invoke_edge_function('process-trials')$$
+);
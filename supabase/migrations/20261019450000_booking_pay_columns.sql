@@ -0,0 +1,4 @@
+-- Specialist pay on a booking is what payout requests are built from, so only
+-- record_booking_specialist_pay sets it. The booking update policies let a specialist write it
+-- directly and then request a payout for the amount they chose.
+REVOKE UPDATE (specialist_rate_cents, specialist_pay_cents, specialist_pay_currency) ON public.bookings FROM authenticated;
@@ -0,0 +1,73 @@
+-- Payout lines were copied from bookings.specialist_pay_cents. Each line is now worked out again
+-- by specialist_booking_pay when the request is made, so the payout is the amount the booking
+-- earned under the catalog, whatever the stored column says.
+
+-- A request covers every unpaid session in the payout currency
+CREATE OR REPLACE FUNCTION public.request_specialist_payout(_specialist_id uuid)
+RETURNS public.payout_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _currency text;
+  _request public.payout_requests%ROWTYPE;
+  _amount_cents bigint;
+  _first_session timestamp with time zone;
+BEGIN
+  IF NOT public.is_specialist_owner(auth.uid(), _specialist_id) THEN
+    RAISE EXCEPTION 'Only the specialist can request their payout';
+  END IF;
+
+  SELECT payout_currency INTO _currency
+  FROM public.specialists
+  WHERE id = _specialist_id
+  FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.payout_requests
+    WHERE specialist_id = _specialist_id AND status IN ('requested', 'approved', 'failed')
+  ) THEN
+    RAISE EXCEPTION 'You already have a payout request being processed';
+  END IF;
+
+  INSERT INTO public.payout_requests (specialist_id, amount, currency, period_start, period_end, status)
+  VALUES (_specialist_id, 0, _currency, now(), now(), 'requested')
+  RETURNING * INTO _request;
+
+  INSERT INTO public.payout_request_bookings (payout_request_id, booking_id, amount_cents)
+  SELECT _request.id, b.id, pay.pay_cents
+  FROM public.bookings b
+  CROSS JOIN LATERAL public.specialist_booking_pay(b) AS pay
+  WHERE b.specialist_id = _specialist_id
+    AND pay.currency = _currency
+    AND b.specialist_pay_currency = _currency
+    AND b.specialist_pay_cents IS NOT NULL
+    AND COALESCE(b.confirmed_datetime, b.proposed_datetime) <= now()
+    AND NOT EXISTS (
+      SELECT 1 FROM public.payout_request_bookings pb
+      WHERE pb.booking_id = b.id AND pb.released_at IS NULL
+    );
+
+  -- The amount and period are those of the linked bookings, whatever was earned in between
+  SELECT COALESCE(SUM(pb.amount_cents), 0), MIN(COALESCE(b.confirmed_datetime, b.proposed_datetime))
+  INTO _amount_cents, _first_session
+  FROM public.payout_request_bookings pb
+  JOIN public.bookings b ON b.id = pb.booking_id
+  WHERE pb.payout_request_id = _request.id;
+
+  IF _amount_cents <= 0 THEN
+    RAISE EXCEPTION 'You have no unpaid sessions to request a payout for';
+  END IF;
+
+  UPDATE public.payout_requests
+  SET amount = _amount_cents / 100.0,
+      period_start = _first_session
+  WHERE id = _request.id
+  RETURNING * INTO _request;
+
+  INSERT INTO public.payout_request_events (payout_request_id, event, actor_user_id)
+  VALUES (_request.id, 'requested', auth.uid());
+
+  RETURN _request;
+END;